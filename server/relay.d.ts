@@ -0,0 +1,18 @@
+export declare const DEFAULT_RELAY_PORT: number;
+
+export interface RelayServerOptions {
+  // 0 picks a free port
+  port?: number;
+  host?: string;
+  // Signs the tokens proving user IDs, random by default
+  secret?: string;
+}
+
+export interface RelayServer {
+  port: number;
+  close(): Promise<void>;
+}
+
+export declare const createRelayServer: (
+  options?: RelayServerOptions,
+) => Promise<RelayServer>;
@@ -0,0 +1,388 @@
+import { Buffer } from "node:buffer";
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import process from "node:process";
+import { pathToFileURL } from "node:url";
+import { WebSocketServer } from "ws";
+
+export const DEFAULT_RELAY_PORT = 1234;
+
+/**
+ * WebSocket relay for collaboration rooms, for running without Firebase on a
+ * LAN or in integration tests. Rooms live in memory: every design update,
+ * comment and version is kept so late joiners can catch up, presence and
+ * cursors are dropped when a client disconnects.
+ *
+ * The first user to join a room becomes its owner and later ones join as
+ * viewers until the owner makes them editors. Viewers' updates, claims and
+ * versions are ignored, but they can comment.
+ *
+ * A user ID belongs to the first client to use it: the relay answers with a
+ * token signed with its secret, and later connections must send the token to
+ * join as that user again. Tokens stay valid while the secret does, a random
+ * one by default, so rooms and identities both reset when the relay restarts.
+ *
+ * Clients send JSON messages:
+ *   { type: "join", roomId }   must come first
+ *   { type: "user", user, token }  presence, kept until the client
+ *                                  disconnects. Answered with { type: "token",
+ *                                  userId, token } the first time the user ID
+ *                                  is used.
+ *   { type: "cursor", cursor }
+ *   { type: "presence", presence } selection, tool and viewport
+ *   { type: "claim", leases }      locks elements unless someone else holds
+ *                                  an unexpired lease on them
+ *   { type: "release", elementIds }
+ *   { type: "role", userId, role } owner only
+ *   { type: "update", update } base64 CRDT update, relayed to the room
+ *   { type: "comment", comment }   adds a comment or replaces the user's own
+ *   { type: "resolveComment", commentId, resolved }
+ *   { type: "removeComments", commentIds }  removes the user's own comments
+ *                                  and replies to threads they started
+ *   { type: "version", version, value }  saves the design as a version
+ *   { type: "loadVersion", versionId }   answered with { type: "versionDesign",
+ *                                        versionId, value } to the client only
+ *
+ * and receive { type: "init", updates, users, cursors, presences, leases,
+ * roles, comments, versions } on joining, then "update", "users", "cursors",
+ * "presences", "leases", "roles", "comments" and "versions" messages as the
+ * room changes. Versions are sent without their designs. Leases are released
+ * when their holder disconnects.
+ */
+export const createRelayServer = ({
+  port = DEFAULT_RELAY_PORT,
+  host,
+  secret = randomBytes(32),
+} = {}) => {
+  // roomId -> { updates: string[], clients: Map<socket, client>, leases, roles,
+  // comments, versions } where a client is { user, cursor, presence }, leases
+  // map element IDs to { lease, socket }, roles map user IDs to roles, comments
+  // map comment IDs to comments and versions map version IDs to
+  // { version, value }
+  const rooms = new Map();
+  const server = new WebSocketServer({ port, host });
+  // User IDs tokens were issued for
+  const issuedUserIds = new Set();
+
+  const signUserId = (userId) =>
+    createHmac("sha256", secret).update(userId).digest("base64url");
+
+  const isValidToken = (userId, token) => {
+    if (typeof token !== "string") return false;
+
+    const expected = Buffer.from(signUserId(userId));
+    const actual = Buffer.from(token);
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  };
+
+  const getRoom = (roomId) => {
+    if (!rooms.has(roomId)) {
+      rooms.set(roomId, {
+        updates: [],
+        clients: new Map(),
+        leases: new Map(),
+        roles: {},
+        comments: new Map(),
+        versions: new Map(),
+      });
+    }
+    return rooms.get(roomId);
+  };
+
+  const getUsers = (room) =>
+    [...room.clients.values()].flatMap(({ user }) => (user ? [user] : []));
+
+  const getCursors = (room) =>
+    [...room.clients.values()].flatMap(({ cursor }) =>
+      cursor ? [cursor] : [],
+    );
+
+  const getPresences = (room) =>
+    [...room.clients.values()].flatMap(({ presence }) =>
+      presence ? [presence] : [],
+    );
+
+  const getLeases = (room) =>
+    [...room.leases.values()].map(({ lease }) => lease);
+
+  // Grants a lease unless someone else holds an unexpired one on the element
+  const claimLease = (room, socket, lease) => {
+    const current = room.leases.get(lease.elementId);
+    if (
+      current &&
+      current.socket !== socket &&
+      current.lease.expiresAt > Date.now()
+    ) {
+      return;
+    }
+    room.leases.set(lease.elementId, { lease, socket });
+  };
+
+  // Releases the socket's leases on the elements, all of them by default.
+  // Returns whether any lease was released.
+  const releaseLeases = (
+    room,
+    socket,
+    elementIds = [...room.leases.keys()],
+  ) => {
+    const releasedIds = elementIds.filter(
+      (elementId) => room.leases.get(elementId)?.socket === socket,
+    );
+    releasedIds.forEach((elementId) => room.leases.delete(elementId));
+    return releasedIds.length > 0;
+  };
+
+  const getComments = (room) => [...room.comments.values()];
+
+  const getVersions = (room) =>
+    [...room.versions.values()].map(({ version }) => version);
+
+  const getRole = (room, client) =>
+    client.user ? room.roles[client.user.id] : undefined;
+
+  const canEdit = (room, client) =>
+    ["owner", "editor"].includes(getRole(room, client));
+
+  const broadcast = (room, message, except) => {
+    const data = JSON.stringify(message);
+    room.clients.forEach((_, socket) => {
+      if (socket !== except && socket.readyState === socket.OPEN) {
+        socket.send(data);
+      }
+    });
+  };
+
+  server.on("connection", (socket) => {
+    let room = null;
+
+    socket.on("message", (data, isBinary) => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (isBinary || typeof message !== "object" || message == null) return;
+
+      if (message.type === "join" && typeof message.roomId === "string") {
+        if (room && releaseLeases(room, socket)) {
+          broadcast(room, { type: "leases", leases: getLeases(room) });
+        }
+        room?.clients.delete(socket);
+        room = getRoom(message.roomId);
+        room.clients.set(socket, {
+          user: null,
+          cursor: null,
+          presence: null,
+        });
+        socket.send(
+          JSON.stringify({
+            type: "init",
+            updates: room.updates,
+            users: getUsers(room),
+            cursors: getCursors(room),
+            presences: getPresences(room),
+            leases: getLeases(room),
+            roles: room.roles,
+            comments: getComments(room),
+            versions: getVersions(room),
+          }),
+        );
+        return;
+      }
+
+      const client = room?.clients.get(socket);
+      if (!client) return;
+
+      switch (message.type) {
+        case "user": {
+          const userId = message.user?.id;
+          if (typeof userId !== "string") break;
+
+          // Clients prove they are the user with the token issued to the
+          // first client using the ID
+          if (client.user?.id !== userId) {
+            if (!isValidToken(userId, message.token)) {
+              if (issuedUserIds.has(userId)) break;
+
+              socket.send(
+                JSON.stringify({
+                  type: "token",
+                  userId,
+                  token: signUserId(userId),
+                }),
+              );
+            }
+            issuedUserIds.add(userId);
+          }
+
+          client.user = message.user;
+          broadcast(room, { type: "users", users: getUsers(room) });
+          if (!room.roles[client.user.id]) {
+            room.roles[client.user.id] =
+              Object.keys(room.roles).length === 0 ? "owner" : "viewer";
+            broadcast(room, { type: "roles", roles: room.roles });
+          }
+          break;
+        }
+        case "cursor":
+          client.cursor = message.cursor;
+          broadcast(
+            room,
+            { type: "cursors", cursors: getCursors(room) },
+            socket,
+          );
+          break;
+        case "presence":
+          client.presence = message.presence;
+          broadcast(
+            room,
+            { type: "presences", presences: getPresences(room) },
+            socket,
+          );
+          break;
+        case "claim":
+          // Leases are only granted to the joined user, if they can edit
+          if (!canEdit(room, client) || !Array.isArray(message.leases)) break;
+
+          message.leases
+            .filter((lease) => lease?.userId === client.user.id)
+            .forEach((lease) => claimLease(room, socket, lease));
+          broadcast(room, { type: "leases", leases: getLeases(room) });
+          break;
+        case "release":
+          if (
+            Array.isArray(message.elementIds) &&
+            releaseLeases(room, socket, message.elementIds)
+          ) {
+            broadcast(room, { type: "leases", leases: getLeases(room) });
+          }
+          break;
+        case "role":
+          // The owner can't change their own role, so rooms keep an owner
+          if (
+            getRole(room, client) === "owner" &&
+            message.userId !== client.user.id &&
+            room.roles[message.userId] &&
+            ["owner", "editor", "viewer"].includes(message.role)
+          ) {
+            room.roles[message.userId] = message.role;
+            broadcast(room, { type: "roles", roles: room.roles });
+          }
+          break;
+        case "comment": {
+          // Anyone who joined can comment, but only change their own comments
+          const existing = room.comments.get(message.comment?.id);
+          if (
+            !client.user ||
+            typeof message.comment?.id !== "string" ||
+            message.comment.author?.id !== client.user.id ||
+            (existing && existing.author.id !== client.user.id)
+          ) {
+            break;
+          }
+
+          room.comments.set(message.comment.id, message.comment);
+          broadcast(room, { type: "comments", comments: getComments(room) });
+          break;
+        }
+        case "resolveComment": {
+          const comment = room.comments.get(message.commentId);
+          if (
+            !client.user ||
+            !comment ||
+            typeof message.resolved !== "boolean"
+          ) {
+            break;
+          }
+
+          room.comments.set(comment.id, {
+            ...comment,
+            resolved: message.resolved,
+          });
+          broadcast(room, { type: "comments", comments: getComments(room) });
+          break;
+        }
+        case "removeComments": {
+          if (!client.user || !Array.isArray(message.commentIds)) break;
+
+          // Authors remove their comments, and with their threads the replies
+          const userId = client.user.id;
+          const removedIds = message.commentIds.filter((commentId) => {
+            const comment = room.comments.get(commentId);
+            const thread = comment && room.comments.get(comment.threadId);
+            return (
+              comment?.author.id === userId || thread?.author.id === userId
+            );
+          });
+          removedIds.forEach((commentId) => room.comments.delete(commentId));
+          broadcast(room, { type: "comments", comments: getComments(room) });
+          break;
+        }
+        case "version":
+          if (
+            canEdit(room, client) &&
+            typeof message.version?.id === "string"
+          ) {
+            room.versions.set(message.version.id, {
+              version: message.version,
+              value: message.value,
+            });
+            broadcast(room, { type: "versions", versions: getVersions(room) });
+          }
+          break;
+        case "loadVersion":
+          socket.send(
+            JSON.stringify({
+              type: "versionDesign",
+              versionId: message.versionId,
+              value: room.versions.get(message.versionId)?.value ?? null,
+            }),
+          );
+          break;
+        case "update":
+          if (typeof message.update === "string" && canEdit(room, client)) {
+            room.updates.push(message.update);
+            broadcast(room, { type: "update", update: message.update }, socket);
+          }
+          break;
+      }
+    });
+
+    socket.on("close", () => {
+      if (!room?.clients.delete(socket)) return;
+
+      broadcast(room, { type: "users", users: getUsers(room) });
+      broadcast(room, { type: "cursors", cursors: getCursors(room) });
+      broadcast(room, { type: "presences", presences: getPresences(room) });
+      if (releaseLeases(room, socket)) {
+        broadcast(room, { type: "leases", leases: getLeases(room) });
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.once("listening", () => {
+      resolve({
+        port: server.address().port,
+        close: () =>
+          new Promise((resolveClose) => {
+            server.clients.forEach((socket) => socket.terminate());
+            server.close(() => resolveClose());
+          }),
+      });
+    });
+  });
+};
+
+// Started directly: `npm run relay`, PORT and HOST override the defaults
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  const relay = await createRelayServer({
+    port: Number(process.env.PORT ?? DEFAULT_RELAY_PORT),
+    host: process.env.HOST,
+    ...(process.env.RELAY_SECRET ? { secret: process.env.RELAY_SECRET } : null),
+  });
+  process.stdout.write(`Collaboration relay listening on port ${relay.port}\n`);
+}
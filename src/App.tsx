@@ -1,179 +1,91 @@
-import { Box, Flex } from "@radix-ui/themes";
-import { useEffect, useRef, useState } from "react";
-
-import { EditorContextMenu } from "./components/EditorContextMenu";
-import { OnlineUsers } from "./components/OnlineUsers";
-import { RightPanel } from "./components/RightPanel";
-import { type ToolId, ToolPanel } from "./components/ToolPanel";
-import { UserCursors } from "./components/UserCursors";
-import { DesignEditor, type DesignValue, DesignView } from "./editor";
-import { CollaborativeService } from "./firebase/collaborative";
-
-interface OnlineUser {
-  id: string;
-  name: string;
-  color: string;
-}
-
-interface Cursor {
-  id: string;
-  x: number;
-  y: number;
-  name: string;
-  color: string;
-}
-
-const DEFAULT_EDITOR_VALUE: DesignValue = {
-  shapes: {},
-  texts: {},
-  images: {},
-  attributes: {
-    width: 800,
-    height: 600,
-  },
+import { useEffect, useState } from "react";
+
+import { type AuthProvider, type AuthUser, LocalAuthProvider } from "./auth";
+import { DocumentBrowser } from "./components/DocumentBrowser";
+import { SignIn } from "./components/SignIn";
+import { Workspace } from "./components/Workspace";
+import { getDocumentIdFromUrl, getDocumentUrl } from "./documents";
+import { type DesignStorage, IndexedDBStorage, MemoryStorage } from "./storage";
+
+const createDesignStorage = (): DesignStorage =>
+  typeof indexedDB === "undefined"
+    ? new MemoryStorage()
+    : new IndexedDBStorage();
+
+// The relay runs without Firebase, so its users sign in locally. Firebase is
+// only loaded when it's used
+const createAuthProvider = async (): Promise<AuthProvider> => {
+  if (import.meta.env.VITE_COLLABORATION_URL) {
+    return new LocalAuthProvider();
+  }
+  const { FirebaseAuthProvider } =
+    await import("./firebase/FirebaseAuthProvider");
+  return new FirebaseAuthProvider();
 };
 
 function App() {
-  const [currentToolId, setCurrentToolId] = useState<ToolId>(null);
-  const [editor] = useState(
-    () => new DesignEditor({ value: DEFAULT_EDITOR_VALUE }),
-  );
-  const canvasRef = useRef<HTMLDivElement>(null);
-  const [collaborative] = useState(() => new CollaborativeService());
-  const [onlineUsers, setOnlineUsers] = useState<OnlineUser[]>([]);
-  const [cursors, setCursors] = useState<Cursor[]>([]);
+  const [storage] = useState(createDesignStorage);
+  const [auth, setAuth] = useState<AuthProvider | null>(null);
+  // Undefined until the provider knows whether someone is signed in
+  const [user, setUser] = useState<AuthUser | null>();
+  const [documentId, setDocumentId] = useState(() => getDocumentIdFromUrl());
 
-  // 设置协作功能
   useEffect(() => {
-    // 设置设计数据同步
-    const updateDesign = collaborative.syncDesign(
-      editor.state.value,
-      (newValue) => {
-        editor.updateDesignData(newValue);
-      },
-    );
-
-    // 监听编辑器状态变化并同步
-    const unsubscribe = editor.stateStore.subscribe((state) => {
-      updateDesign(state.value);
+    let isCancelled = false;
+    void createAuthProvider().then((provider) => {
+      if (!isCancelled) setAuth(provider);
     });
-
-    // 监听在线用户
-    collaborative.onUsersChange(setOnlineUsers);
-
-    // 监听光标位置
-    collaborative.onCursorsChange(setCursors);
-
     return () => {
-      unsubscribe();
-      collaborative.cleanup();
+      isCancelled = true;
     };
-  }, [collaborative, editor]);
+  }, []);
 
-  // 鼠标移动时更新光标位置
-  const handleMouseMove = (event: React.MouseEvent) => {
-    if (canvasRef.current) {
-      const rect = canvasRef.current.getBoundingClientRect();
-      const x = event.clientX - rect.left;
-      const y = event.clientY - rect.top;
-      collaborative.updateCursor(x, y);
-    }
-  };
+  useEffect(() => auth?.onAuthChange(setUser), [auth]);
 
+  // Keep the open document in sync with browser navigation
   useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      // Check for undo/redo keyboard shortcuts
-      if (event.ctrlKey || event.metaKey) {
-        if (event.key === "z" && !event.shiftKey) {
-          event.preventDefault();
-          editor.undo();
-        } else if ((event.key === "z" && event.shiftKey) || event.key === "y") {
-          event.preventDefault();
-          editor.redo();
-        }
-      }
-
-      // Delete key for element deletion
-      if (event.key === "Delete" || event.key === "Backspace") {
-        const { selection, value } = editor.state;
-        if (selection && value) {
-          event.preventDefault();
-          const selectedShape = value.shapes?.[selection.id];
-          const selectedText = value.texts?.[selection.id];
-          const selectedImage = value.images?.[selection.id];
-
-          if (selectedShape) {
-            editor.deleteShapes([selection.id]);
-          } else if (selectedText) {
-            editor.deleteTexts([selection.id]);
-          } else if (selectedImage) {
-            editor.deleteImages([selection.id]);
-          }
-        }
-      }
-    };
-
-    window.addEventListener("keydown", handleKeyDown);
+    const handlePopState = () => setDocumentId(getDocumentIdFromUrl());
+    window.addEventListener("popstate", handlePopState);
     return () => {
-      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("popstate", handlePopState);
     };
-  }, [editor, currentToolId]);
+  }, []);
 
-  return (
-    <Flex height="100vh" style={{ background: "var(--gray-2)" }}>
-      <Box
-        width="64px"
-        style={{
-          background: "var(--color-background)",
-          borderRight: "1px solid var(--gray-5)",
-        }}
-      >
-        <ToolPanel
-          currentToolId={currentToolId}
-          onCurrentToolIdChange={setCurrentToolId}
-          editor={editor}
-          canvasRef={canvasRef}
-        />
-      </Box>
-
-      <Flex flexGrow="1" align="center" justify="center" position="relative">
-        {/* 在线用户列表 */}
-        <OnlineUsers users={onlineUsers} collaborative={collaborative} />
-
-        <Box
-          ref={canvasRef}
-          className="design-canvas"
-          style={{
-            background: "var(--color-background)",
-            boxShadow: "var(--shadow-4)",
-            borderRadius: "var(--radius-2)",
-            position: "relative",
-          }}
-          onMouseMove={handleMouseMove}
-        >
-          <EditorContextMenu editor={editor}>
-            <DesignView
-              editor={editor}
-              currentTool={currentToolId || undefined}
-              onToolChange={setCurrentToolId}
-            />
-          </EditorContextMenu>
+  const openDocument = (nextDocumentId: string | null) => {
+    window.history.pushState(null, "", getDocumentUrl(nextDocumentId));
+    setDocumentId(nextDocumentId);
+  };
 
-          {/* 用户光标 */}
-          <UserCursors cursors={cursors} />
-        </Box>
-      </Flex>
+  if (!auth || user === undefined) {
+    return null;
+  }
+
+  if (!user) {
+    return <SignIn auth={auth} />;
+  }
+
+  if (!documentId) {
+    return (
+      <DocumentBrowser
+        storage={storage}
+        auth={auth}
+        user={user}
+        onOpen={openDocument}
+      />
+    );
+  }
 
-      <Box
-        width="280px"
-        style={{
-          background: "var(--color-background)",
-          borderLeft: "1px solid var(--gray-5)",
-        }}
-      >
-        <RightPanel editor={editor} />
-      </Box>
-    </Flex>
+  // Signing in as someone else starts a new session in the room
+  return (
+    <Workspace
+      key={`${documentId}-${user.id}`}
+      documentId={documentId}
+      storage={storage}
+      auth={auth}
+      user={user}
+      onClose={() => openDocument(null)}
+      onOpenDocument={openDocument}
+    />
   );
 }
 
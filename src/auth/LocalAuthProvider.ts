@@ -0,0 +1,98 @@
+import { getDefaultUserName, getUserColor, normalizeUserName } from "./profile";
+import type { AuthMethod, AuthProfile, AuthProvider, AuthUser } from "./types";
+
+const STORAGE_KEY = "voyager-user";
+
+export interface LocalAuthProviderOptions {
+  // Where the user is kept between reloads, defaults to sessionStorage
+  storage?: Pick<Storage, "getItem" | "setItem" | "removeItem">;
+}
+
+const isAuthUser = (value: unknown): value is AuthUser => {
+  const user = value as Partial<AuthUser> | null;
+  return (
+    typeof user?.id === "string" &&
+    typeof user.name === "string" &&
+    typeof user.color === "string"
+  );
+};
+
+/**
+ * Anonymous users kept in the browser, for collaborating through the relay
+ * and for tests. The relay ties each ID to the browser that first joined with
+ * it, but rooms are only as private as the relay they run on.
+ */
+export class LocalAuthProvider implements AuthProvider {
+  readonly methods: AuthMethod[] = ["anonymous"];
+  #storage: NonNullable<LocalAuthProviderOptions["storage"]>;
+  #user: AuthUser | null;
+  #listeners = new Set<(user: AuthUser | null) => void>();
+
+  constructor({ storage = sessionStorage }: LocalAuthProviderOptions = {}) {
+    this.#storage = storage;
+    this.#user = this.#load();
+  }
+
+  onAuthChange(callback: (user: AuthUser | null) => void) {
+    this.#listeners.add(callback);
+    callback(this.#user);
+    return () => {
+      this.#listeners.delete(callback);
+    };
+  }
+
+  signIn(method: AuthMethod) {
+    if (method !== "anonymous") {
+      return Promise.reject(new Error(`Unsupported sign-in method: ${method}`));
+    }
+    if (!this.#user) {
+      const id = `user_${crypto.randomUUID().slice(0, 8)}`;
+      this.#setUser({
+        id,
+        name: getDefaultUserName(id),
+        color: getUserColor(id),
+      });
+    }
+    return Promise.resolve(this.#user!);
+  }
+
+  signOut() {
+    this.#setUser(null);
+    return Promise.resolve();
+  }
+
+  updateProfile({ name, avatar }: AuthProfile) {
+    const user = this.#user;
+    if (!user) {
+      return Promise.reject(new Error("Not signed in"));
+    }
+    const nextUser: AuthUser = {
+      ...user,
+      name: normalizeUserName(name, user.id),
+      avatar: avatar || undefined,
+    };
+    this.#setUser(nextUser);
+    return Promise.resolve(nextUser);
+  }
+
+  #load(): AuthUser | null {
+    try {
+      const user: unknown = JSON.parse(
+        this.#storage.getItem(STORAGE_KEY) ?? "null",
+      );
+      return isAuthUser(user) ? user : null;
+    } catch {
+      return null;
+    }
+  }
+
+  #setUser(user: AuthUser | null) {
+    this.#user = user;
+    if (user) {
+      this.#storage.setItem(STORAGE_KEY, JSON.stringify(user));
+    } else {
+      this.#storage.removeItem(STORAGE_KEY);
+    }
+    this.#listeners.forEach((listener) => listener(user));
+  }
+}
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { LocalAuthProvider } from "./LocalAuthProvider";
+import { AVATARS, getUserColor } from "./profile";
+
+// In-memory stand-in for sessionStorage
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+  };
+};
+
+describe("LocalAuthProvider", () => {
+  let storage: ReturnType<typeof createStorage>;
+
+  beforeEach(() => {
+    storage = createStorage();
+  });
+
+  it("signs in anonymously and keeps the user across reloads", async () => {
+    const auth = new LocalAuthProvider({ storage });
+    const listener = vi.fn();
+    auth.onAuthChange(listener);
+    expect(listener).toHaveBeenLastCalledWith(null);
+
+    const user = await auth.signIn("anonymous");
+    expect(listener).toHaveBeenLastCalledWith(user);
+    expect(user.color).toBe(getUserColor(user.id));
+    expect(user.name).toMatch(/^Guest /);
+
+    const reloaded = new LocalAuthProvider({ storage });
+    reloaded.onAuthChange(listener);
+    expect(listener).toHaveBeenLastCalledWith(user);
+    expect(await reloaded.signIn("anonymous")).toEqual(user);
+  });
+
+  it("updates the profile and signs out", async () => {
+    const auth = new LocalAuthProvider({ storage });
+    const user = await auth.signIn("anonymous");
+
+    const updated = await auth.updateProfile({
+      name: "  Ada  ",
+      avatar: AVATARS[0],
+    });
+    expect(updated).toEqual({ ...user, name: "Ada", avatar: AVATARS[0] });
+
+    // An empty name falls back to the default one
+    const renamed = await auth.updateProfile({ name: " " });
+    expect(renamed.name).toBe(user.name);
+    expect(renamed.avatar).toBeUndefined();
+
+    await auth.signOut();
+    const listener = vi.fn();
+    new LocalAuthProvider({ storage }).onAuthChange(listener);
+    expect(listener).toHaveBeenCalledWith(null);
+  });
+
+  it("only supports anonymous sign-in", async () => {
+    const auth = new LocalAuthProvider({ storage });
+    await expect(auth.signIn("google")).rejects.toThrow(
+      "Unsupported sign-in method: google",
+    );
+  });
+});
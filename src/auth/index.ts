@@ -0,0 +1,3 @@
+export { LocalAuthProvider } from "./LocalAuthProvider";
+export * from "./profile";
+export type { AuthMethod, AuthProfile, AuthProvider, AuthUser } from "./types";
@@ -0,0 +1,28 @@
+export const AVATARS = ["🦊", "🐼", "🐙", "🦉", "🐝", "🐢", "🦄", "🐳"];
+
+const USER_COLORS = [
+  "#FF6B6B",
+  "#4ECDC4",
+  "#45B7D1",
+  "#96CEB4",
+  "#FECA57",
+  "#FF9FF3",
+  "#54A0FF",
+];
+
+// Picks a stable color for the user, so it is the same in every room and
+// on every device
+export const getUserColor = (userId: string) => {
+  const hash = [...userId].reduce(
+    (result, character) => (result * 31 + character.charCodeAt(0)) >>> 0,
+    0,
+  );
+  return USER_COLORS[hash % USER_COLORS.length];
+};
+
+export const getDefaultUserName = (userId: string) =>
+  `Guest ${userId.slice(-4)}`;
+
+// Trims the name, falling back to the default one when it is empty
+export const normalizeUserName = (name: string, userId: string) =>
+  name.trim().slice(0, 40) || getDefaultUserName(userId);
@@ -0,0 +1,27 @@
+export type AuthMethod = "google" | "anonymous";
+
+// A signed-in user as shown to collaborators
+export interface AuthUser {
+  id: string;
+  name: string;
+  color: string;
+  // An emoji from AVATARS, the name's initial is shown without one
+  avatar?: string;
+}
+
+export type AuthProfile = Pick<AuthUser, "name" | "avatar">;
+
+/**
+ * Signs users in and keeps their profile. The Firebase provider is used with
+ * Firebase collaboration, the local one without a backend and in tests.
+ */
+export interface AuthProvider {
+  // Ways to sign in, in the order they are offered
+  readonly methods: AuthMethod[];
+  // Calls back with the current user, null while signed out, and again
+  // whenever it changes
+  onAuthChange(callback: (user: AuthUser | null) => void): () => void;
+  signIn(method: AuthMethod): Promise<AuthUser>;
+  signOut(): Promise<void>;
+  updateProfile(profile: AuthProfile): Promise<AuthUser>;
+}
@@ -0,0 +1,205 @@
+import { getStackingOrder } from "../editor/order/zOrder";
+import type { DesignValue, ID } from "../editor/schema";
+import { compareVersions, diffToChanges } from "./operations";
+import {
+  comparePositions,
+  diffOrder,
+  generatePositionBetween,
+} from "./sequence";
+import type { Operation, OperationPath } from "./types";
+
+type PlainObject = Record<string, unknown>;
+
+const ORDER_KEY = "order";
+const LEAF_COLLECTIONS = ["shapes", "texts", "images"];
+
+const getPathKey = (path: OperationPath) => path.join("/");
+
+/**
+ * A CRDT mirror of a design value. Replicas exchange operations and converge
+ * on the same value whatever order the operations arrive in, including
+ * duplicates and edits made offline.
+ *
+ * - element collections are maps of elements, and every element field and
+ *   top-level field is a last-writer-wins register
+ * - writing a whole element supersedes older writes to its fields, and
+ *   removing an element wins over concurrent edits to its fields
+ * - the stacking order is a sequence of position registers, see sequence.ts
+ */
+export class CrdtDocument {
+  #value: DesignValue;
+  #clientId: string;
+  #clock = 0;
+  // Winning write of every path written so far
+  #writes = new Map<string, Operation>();
+  // Sequence key of every element in the stacking order
+  #positions = new Map<ID, string>();
+
+  constructor(value: DesignValue, clientId: string) {
+    this.#clientId = clientId;
+
+    // Replicas starting from the same value derive the same keys
+    let position: string | null = null;
+    getStackingOrder(value).forEach((id) => {
+      position = generatePositionBetween(position, null);
+      this.#positions.set(id, position);
+    });
+    this.#value = { ...value, order: this.#getOrder(value) };
+  }
+
+  get value() {
+    return this.#value;
+  }
+
+  get clientId() {
+    return this.#clientId;
+  }
+
+  /**
+   * Copies the document, e.g. to try operations out without changing it
+   */
+  clone(): CrdtDocument {
+    const document = new CrdtDocument(this.#value, this.#clientId);
+    document.#value = this.#value;
+    document.#clock = this.#clock;
+    document.#writes = new Map(this.#writes);
+    document.#positions = new Map(this.#positions);
+    return document;
+  }
+
+  /**
+   * Applies a local change and returns the operations to send to the other
+   * replicas
+   */
+  createOperations(next: DesignValue): Operation[] {
+    const orderChanges = diffOrder(
+      this.#value.order,
+      this.#positions,
+      getStackingOrder(next),
+    );
+    const changes = [
+      ...diffToChanges(this.#value, { ...next, order: this.#value.order }),
+      ...[...orderChanges].map(([id, position]) => {
+        const path: OperationPath = [ORDER_KEY, id];
+        return position == null
+          ? { op: "remove" as const, path }
+          : { op: "set" as const, path, value: position };
+      }),
+    ];
+
+    const operations = changes.map(
+      (change): Operation => ({
+        ...change,
+        clock: ++this.#clock,
+        clientId: this.#clientId,
+      }),
+    );
+    operations.forEach((operation) => this.applyOperation(operation));
+    return operations;
+  }
+
+  /**
+   * Applies an operation from any replica, returns whether the value changed
+   */
+  applyOperation(operation: Operation): boolean {
+    this.#clock = Math.max(this.#clock, operation.clock);
+
+    const pathKey = getPathKey(operation.path);
+    const previousWrite = this.#writes.get(pathKey);
+    if (previousWrite && compareVersions(operation, previousWrite) <= 0) {
+      return false;
+    }
+    this.#writes.set(pathKey, operation);
+
+    const [key, id, field] = operation.path;
+    const value = { ...this.#value } as unknown as PlainObject;
+
+    // Values stored as JSON lose empty arrays and objects, missing values of
+    // set operations are treated as removals
+    if (key === ORDER_KEY) {
+      if (id === undefined) {
+        return false;
+      }
+      if (operation.op === "remove" || typeof operation.value !== "string") {
+        this.#positions.delete(id);
+      } else {
+        this.#positions.set(id, operation.value);
+      }
+    } else if (id === undefined) {
+      if (operation.op === "remove" || operation.value === undefined) {
+        delete value[key];
+      } else {
+        value[key] = operation.value;
+      }
+    } else if (field === undefined) {
+      const collection = { ...(value[key] as PlainObject | undefined) };
+      if (operation.op === "remove" || operation.value == null) {
+        delete collection[id];
+      } else {
+        collection[id] = this.#withNewerFieldWrites(operation);
+      }
+      value[key] = collection;
+    } else {
+      // Field writes lose to newer writes of the whole element, and edits to
+      // removed elements are dropped
+      const elementWrite = this.#writes.get(getPathKey([key, id]));
+      if (elementWrite && compareVersions(operation, elementWrite) <= 0) {
+        return false;
+      }
+      const element = (value[key] as PlainObject | undefined)?.[id];
+      if (element == null) {
+        return false;
+      }
+
+      const nextElement = { ...(element as PlainObject) };
+      if (operation.op === "remove" || operation.value === undefined) {
+        delete nextElement[field];
+      } else {
+        nextElement[field] = operation.value;
+      }
+      value[key] = { ...(value[key] as PlainObject), [id]: nextElement };
+    }
+
+    const nextValue = value as unknown as DesignValue;
+    if (field === undefined) {
+      nextValue.order = this.#getOrder(nextValue);
+    }
+    this.#value = nextValue;
+    return true;
+  }
+
+  // Elements that are placed in the sequence and still exist, by position
+  #getOrder(value: DesignValue): ID[] {
+    const fields = value as unknown as Record<string, PlainObject | undefined>;
+    return [...this.#positions]
+      .filter(([id]) =>
+        LEAF_COLLECTIONS.some((collection) => fields[collection]?.[id]),
+      )
+      .sort(comparePositions)
+      .map(([id]) => id);
+  }
+
+  // Field writes that arrived before an older write of their whole element
+  // still apply on top of it
+  #withNewerFieldWrites(elementWrite: Operation & { op: "set" }) {
+    const element = { ...(elementWrite.value as PlainObject) };
+    const fieldPrefix = `${getPathKey(elementWrite.path)}/`;
+
+    this.#writes.forEach((write, pathKey) => {
+      if (
+        !pathKey.startsWith(fieldPrefix) ||
+        compareVersions(write, elementWrite) <= 0
+      ) {
+        return;
+      }
+      const field = write.path[2]!;
+      if (write.op === "remove" || write.value === undefined) {
+        delete element[field];
+      } else {
+        element[field] = write.value;
+      }
+    });
+
+    return element;
+  }
+}
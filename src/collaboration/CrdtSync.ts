@@ -0,0 +1,167 @@
+import { createEmptyDesign } from "../documents";
+import type { DesignValue } from "../editor/schema";
+import { CrdtDocument } from "./CrdtDocument";
+import { decodeUpdate, encodeUpdate } from "./encoding";
+import type { UpdateTransport } from "./transport";
+import type { Operation } from "./types";
+
+export const DEFAULT_RETRY_DELAY = 2000;
+
+export interface CrdtSyncOptions {
+  transport: UpdateTransport;
+  clientId: string;
+  // Called with the merged design whenever remote updates change it
+  onChange: (value: DesignValue) => void;
+  // Remote updates that would make the design fail this check are skipped
+  // before they are merged
+  isValid?: (value: DesignValue) => boolean;
+  // Called with updates that fail to decode or to validate, which are skipped,
+  // and with failures to load the room, which is tried again
+  onError?: (error: unknown) => void;
+  // Milliseconds to wait before loading the room again after a failure
+  retryDelay?: number;
+  // Read-only replicas merge remote updates but publish nothing, not even to
+  // seed an empty room. Can be changed later with setReadOnly.
+  isReadOnly?: boolean;
+}
+
+/**
+ * Keeps a design in sync with a room through a CRDT document. Local changes
+ * are published as binary updates and remote updates are merged in, so edits
+ * made while disconnected merge cleanly once the transport delivers them.
+ */
+export class CrdtSync {
+  #options: CrdtSyncOptions;
+  #document: CrdtDocument | null = null;
+  // Latest local value seen before the room finished loading
+  #pendingValue: DesignValue | null = null;
+  #unsubscribe: (() => void) | null = null;
+  #isDisposed = false;
+  #isReadOnly: boolean;
+
+  constructor(options: CrdtSyncOptions) {
+    this.#options = options;
+    this.#isReadOnly = options.isReadOnly ?? false;
+  }
+
+  /**
+   * Loads the room's updates, trying again until it succeeds or the sync is
+   * disposed. A room with history wins over the local value, an empty room is
+   * seeded with it. Local changes made while loading are kept on top.
+   */
+  async start(localValue: DesignValue): Promise<void> {
+    const { transport, clientId, onChange, onError, retryDelay } =
+      this.#options;
+
+    let updates: Uint8Array[];
+    try {
+      updates = await transport.load();
+    } catch (error) {
+      onError?.(error);
+      await new Promise((resolve) =>
+        setTimeout(resolve, retryDelay ?? DEFAULT_RETRY_DELAY),
+      );
+      return this.#isDisposed ? undefined : this.start(localValue);
+    }
+    if (this.#isDisposed) return;
+
+    // Every replica starts from an empty design so the room's updates alone
+    // determine the value
+    const document = new CrdtDocument(createEmptyDesign(), clientId);
+    // Rooms whose updates were all skipped are seeded like empty ones
+    const hasHistory = updates
+      .map((update) => this.#applyUpdate(document, update))
+      .includes(true);
+    this.#document = document;
+
+    if (hasHistory) {
+      if (this.#pendingValue && !this.#isReadOnly) {
+        this.#publish(
+          document.createOperations(
+            rebaseValue(localValue, this.#pendingValue, document.value),
+          ),
+        );
+      }
+      onChange(document.value);
+    } else if (!this.#isReadOnly) {
+      this.#publish(
+        document.createOperations(this.#pendingValue ?? localValue),
+      );
+    }
+    this.#pendingValue = null;
+
+    // Already loaded updates are delivered again and ignored as duplicates
+    this.#unsubscribe = transport.subscribe((update) => {
+      if (this.#applyUpdate(document, update)) {
+        onChange(document.value);
+      }
+    });
+  }
+
+  /**
+   * Publishes the difference between the synced value and the local one.
+   * Returns whether there was any, values seen before the room finished
+   * loading are published later and count as none.
+   */
+  update(value: DesignValue): boolean {
+    if (this.#isDisposed || this.#isReadOnly) return false;
+
+    if (this.#document) {
+      return this.#publish(this.#document.createOperations(value));
+    }
+    this.#pendingValue = value;
+    return false;
+  }
+
+  setReadOnly(isReadOnly: boolean) {
+    this.#isReadOnly = isReadOnly;
+  }
+
+  dispose() {
+    this.#isDisposed = true;
+    this.#unsubscribe?.();
+    this.#unsubscribe = null;
+  }
+
+  #applyUpdate(document: CrdtDocument, update: Uint8Array): boolean {
+    const { isValid } = this.#options;
+    try {
+      const operations = decodeUpdate(update);
+      if (isValid) {
+        // Tried on a copy first so that invalid updates leave no trace
+        const copy = document.clone();
+        operations.forEach((operation) => copy.applyOperation(operation));
+        if (!isValid(copy.value)) {
+          throw new Error("Update makes the design invalid");
+        }
+      }
+      return operations
+        .map((operation) => document.applyOperation(operation))
+        .includes(true);
+    } catch (error) {
+      this.#options.onError?.(error);
+      return false;
+    }
+  }
+
+  #publish(operations: Operation[]): boolean {
+    if (operations.length === 0) return false;
+
+    this.#options.transport.publish(encodeUpdate(operations));
+    return true;
+  }
+}
+
+// Applies the changes from base to changed on top of another value, e.g. local
+// edits on top of the room's design
+const rebaseValue = (
+  base: DesignValue,
+  changed: DesignValue,
+  target: DesignValue,
+) => {
+  const document = new CrdtDocument(target, "");
+  new CrdtDocument(base, "")
+    .createOperations(changed)
+    .forEach((operation) => document.applyOperation(operation));
+  return document.value;
+};
@@ -0,0 +1,93 @@
+import type { CollaborationTransport } from "./transport";
+import type { RoomLease, RoomUser } from "./types";
+
+// Leases not renewed for this long are treated as released, e.g. when their
+// holder went away without the disconnect being noticed
+export const LEASE_DURATION = 15_000;
+
+export const isLeaseActive = (lease: RoomLease, now = Date.now()) =>
+  lease.expiresAt > now;
+
+// Whether a user may take an element given its current lease, if any
+export const canClaimLease = (
+  lease: RoomLease | null | undefined,
+  userId: string,
+  now = Date.now(),
+) => !lease || lease.userId === userId || !isLeaseActive(lease, now);
+
+export interface LeaseHolderOptions {
+  transport: Pick<CollaborationTransport, "claimLeases" | "releaseLeases">;
+  user: RoomUser;
+  // Milliseconds a lease lasts without being renewed
+  duration?: number;
+}
+
+/**
+ * Holds leases on the elements a user is working on, renewing them until they
+ * are released
+ */
+export class LeaseHolder {
+  #options: LeaseHolderOptions;
+  #elementIds: string[] = [];
+  #renewInterval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: LeaseHolderOptions) {
+    this.#options = options;
+  }
+
+  get elementIds(): readonly string[] {
+    return this.#elementIds;
+  }
+
+  /**
+   * Claims the elements and releases the previously held ones that are not
+   * among them. Holding no elements releases everything.
+   */
+  hold(elementIds: string[]) {
+    const { transport } = this.#options;
+    const releasedIds = this.#elementIds.filter(
+      (id) => !elementIds.includes(id),
+    );
+    if (releasedIds.length > 0) {
+      transport.releaseLeases(releasedIds);
+    }
+
+    this.#elementIds = elementIds;
+    this.#claim();
+
+    if (elementIds.length === 0 && this.#renewInterval) {
+      clearInterval(this.#renewInterval);
+      this.#renewInterval = null;
+    } else if (elementIds.length > 0 && !this.#renewInterval) {
+      // Renewing halfway keeps the lease alive despite network delays
+      this.#renewInterval = setInterval(
+        () => this.#claim(),
+        this.#getDuration() / 2,
+      );
+    }
+  }
+
+  dispose() {
+    this.hold([]);
+  }
+
+  #getDuration() {
+    return this.#options.duration ?? LEASE_DURATION;
+  }
+
+  #claim() {
+    if (this.#elementIds.length === 0) return;
+
+    const { transport, user } = this.#options;
+    const expiresAt = Date.now() + this.#getDuration();
+    transport.claimLeases(
+      this.#elementIds.map((elementId) => ({
+        elementId,
+        userId: user.id,
+        name: user.name,
+        color: user.color,
+        expiresAt,
+      })),
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import type { SyncDatabase } from "./types";
+
+/**
+ * In-memory stand-in for the realtime database, for tests. Values are stored
+ * as JSON like the real database and listeners are called synchronously.
+ */
+export class MemoryDatabase implements SyncDatabase {
+  #lists = new Map<string, unknown[]>();
+  #listeners = new Map<string, Set<(value: unknown) => void>>();
+
+  async get(path: string): Promise<unknown> {
+    const list = this.#lists.get(path);
+    return list ? { ...list } : null;
+  }
+
+  push(path: string, value: unknown) {
+    const stored: unknown = JSON.parse(JSON.stringify(value));
+    this.#lists.set(path, [...(this.#lists.get(path) ?? []), stored]);
+    this.#listeners.get(path)?.forEach((listener) => listener(stored));
+  }
+
+  onChildAdded(path: string, callback: (value: unknown) => void) {
+    const listeners = this.#listeners.get(path) ?? new Set();
+    listeners.add(callback);
+    this.#listeners.set(path, listeners);
+    (this.#lists.get(path) ?? []).forEach((value) => callback(value));
+
+    return () => {
+      listeners.delete(callback);
+    };
+  }
+}
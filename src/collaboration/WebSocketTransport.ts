@@ -0,0 +1,463 @@
+import { readDesignData } from "../documents";
+import type { DesignValue } from "../editor/schema";
+import { updateFromBase64, updateToBase64 } from "./encoding";
+import type { CollaborationTransport, UpdateTransport } from "./transport";
+import type {
+  RoomComment,
+  RoomCursor,
+  RoomLease,
+  RoomPresence,
+  RoomRole,
+  RoomRoles,
+  RoomUser,
+  RoomVersion,
+} from "./types";
+
+export const DEFAULT_RECONNECT_DELAY = 1000;
+
+const TOKEN_KEY_PREFIX = "voyager-relay-token:";
+
+/**
+ * JSON messages exchanged with the relay in server/relay.js. Updates are
+ * base64 encoded.
+ */
+type ClientMessage =
+  | { type: "join"; roomId: string }
+  | { type: "user"; user: RoomUser; token: string | null }
+  | { type: "cursor"; cursor: RoomCursor }
+  | { type: "presence"; presence: RoomPresence }
+  | { type: "claim"; leases: RoomLease[] }
+  | { type: "release"; elementIds: string[] }
+  | { type: "role"; userId: string; role: RoomRole }
+  | { type: "comment"; comment: RoomComment }
+  | { type: "resolveComment"; commentId: string; resolved: boolean }
+  | { type: "removeComments"; commentIds: string[] }
+  | { type: "version"; version: RoomVersion; value: DesignValue }
+  | { type: "loadVersion"; versionId: string }
+  | { type: "update"; update: string };
+
+type RelayMessage =
+  | {
+      type: "init";
+      updates: string[];
+      users: RoomUser[];
+      cursors: RoomCursor[];
+      presences: RoomPresence[];
+      leases: RoomLease[];
+      roles: RoomRoles;
+      comments: RoomComment[];
+      versions: RoomVersion[];
+    }
+  | { type: "update"; update: string }
+  | { type: "token"; userId: string; token: string }
+  | { type: "users"; users: RoomUser[] }
+  | { type: "cursors"; cursors: RoomCursor[] }
+  | { type: "presences"; presences: RoomPresence[] }
+  | { type: "leases"; leases: RoomLease[] }
+  | { type: "roles"; roles: RoomRoles }
+  | { type: "comments"; comments: RoomComment[] }
+  | { type: "versions"; versions: RoomVersion[] }
+  | { type: "versionDesign"; versionId: string; value: unknown };
+
+export interface WebSocketTransportOptions {
+  // Address of the relay, e.g. ws://localhost:1234
+  url: string;
+  roomId: string;
+  // Milliseconds to wait before reconnecting after the connection drops
+  reconnectDelay?: number;
+  // Where the tokens proving user IDs to the relay are kept between reloads,
+  // defaults to sessionStorage
+  tokenStorage?: Pick<Storage, "getItem" | "setItem">;
+}
+
+/**
+ * Collaboration room on a WebSocket relay. Updates, comments and versions
+ * published while the connection is down are queued and sent once it
+ * reconnects.
+ */
+export class WebSocketTransport implements CollaborationTransport {
+  readonly updates: UpdateTransport;
+  #options: WebSocketTransportOptions;
+  #socket: WebSocket | null = null;
+  #reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  #isClosed = false;
+  // Updates, comment changes and versions not yet sent to the relay
+  #outbox: ClientMessage[] = [];
+  #user: RoomUser | null = null;
+  #cursor: RoomCursor | null = null;
+  #presence: RoomPresence | null = null;
+  // This user's claims, by element ID
+  #claims = new Map<string, RoomLease>();
+  // Room updates received on connecting, null until the relay sends them
+  #initialUpdates: Uint8Array[] | null = null;
+  #pendingLoads: ((updates: Uint8Array[]) => void)[] = [];
+  #users: RoomUser[] = [];
+  #cursors: RoomCursor[] = [];
+  #presences: RoomPresence[] = [];
+  #leases: RoomLease[] = [];
+  #roles: RoomRoles = {};
+  #comments: RoomComment[] = [];
+  #versions: RoomVersion[] = [];
+  // Callbacks waiting for a version's design, by version ID
+  #versionLoads = new Map<string, ((value: DesignValue | null) => void)[]>();
+  #updateListeners = new Set<(update: Uint8Array) => void>();
+  #usersListeners = new Set<(users: RoomUser[]) => void>();
+  #cursorsListeners = new Set<(cursors: RoomCursor[]) => void>();
+  #presenceListeners = new Set<(presences: RoomPresence[]) => void>();
+  #leasesListeners = new Set<(leases: RoomLease[]) => void>();
+  #rolesListeners = new Set<(roles: RoomRoles) => void>();
+  #commentsListeners = new Set<(comments: RoomComment[]) => void>();
+  #versionsListeners = new Set<(versions: RoomVersion[]) => void>();
+
+  constructor(options: WebSocketTransportOptions) {
+    this.#options = options;
+    this.updates = {
+      load: () =>
+        this.#initialUpdates
+          ? Promise.resolve(this.#initialUpdates)
+          : new Promise((resolve) => this.#pendingLoads.push(resolve)),
+      publish: (update) => {
+        this.#outbox.push({ type: "update", update: updateToBase64(update) });
+        this.#flushOutbox();
+      },
+      subscribe: (callback) => {
+        this.#updateListeners.add(callback);
+        return () => {
+          this.#updateListeners.delete(callback);
+        };
+      },
+    };
+    this.#connect();
+  }
+
+  join(user: RoomUser) {
+    this.#user = user;
+    this.#sendUser(user);
+  }
+
+  onUsersChange(callback: (users: RoomUser[]) => void) {
+    this.#usersListeners.add(callback);
+    callback(this.#users);
+    return () => {
+      this.#usersListeners.delete(callback);
+    };
+  }
+
+  setCursor(cursor: RoomCursor) {
+    this.#cursor = cursor;
+    this.#send({ type: "cursor", cursor });
+  }
+
+  onCursorsChange(callback: (cursors: RoomCursor[]) => void) {
+    this.#cursorsListeners.add(callback);
+    callback(this.#cursors);
+    return () => {
+      this.#cursorsListeners.delete(callback);
+    };
+  }
+
+  setPresence(presence: RoomPresence) {
+    this.#presence = presence;
+    this.#send({ type: "presence", presence });
+  }
+
+  onPresenceChange(callback: (presences: RoomPresence[]) => void) {
+    this.#presenceListeners.add(callback);
+    callback(this.#presences);
+    return () => {
+      this.#presenceListeners.delete(callback);
+    };
+  }
+
+  claimLeases(leases: RoomLease[]) {
+    leases.forEach((lease) => this.#claims.set(lease.elementId, lease));
+    this.#send({ type: "claim", leases });
+  }
+
+  releaseLeases(elementIds: string[]) {
+    elementIds.forEach((elementId) => this.#claims.delete(elementId));
+    this.#send({ type: "release", elementIds });
+  }
+
+  onLeasesChange(callback: (leases: RoomLease[]) => void) {
+    this.#leasesListeners.add(callback);
+    callback(this.#leases);
+    return () => {
+      this.#leasesListeners.delete(callback);
+    };
+  }
+
+  onRolesChange(callback: (roles: RoomRoles) => void) {
+    this.#rolesListeners.add(callback);
+    callback(this.#roles);
+    return () => {
+      this.#rolesListeners.delete(callback);
+    };
+  }
+
+  setRole(userId: string, role: RoomRole) {
+    this.#send({ type: "role", userId, role });
+  }
+
+  // Comment changes show up locally right away, the relay echoes them back
+  setComment(comment: RoomComment) {
+    this.#setComments([
+      ...this.#comments.filter(({ id }) => id !== comment.id),
+      comment,
+    ]);
+    this.#outbox.push({ type: "comment", comment });
+    this.#flushOutbox();
+  }
+
+  setCommentResolved(commentId: string, isResolved: boolean) {
+    this.#setComments(
+      this.#comments.map((comment) =>
+        comment.id === commentId
+          ? { ...comment, resolved: isResolved }
+          : comment,
+      ),
+    );
+    this.#outbox.push({
+      type: "resolveComment",
+      commentId,
+      resolved: isResolved,
+    });
+    this.#flushOutbox();
+  }
+
+  removeComments(commentIds: string[]) {
+    this.#setComments(
+      this.#comments.filter(({ id }) => !commentIds.includes(id)),
+    );
+    this.#outbox.push({ type: "removeComments", commentIds });
+    this.#flushOutbox();
+  }
+
+  onCommentsChange(callback: (comments: RoomComment[]) => void) {
+    this.#commentsListeners.add(callback);
+    callback(this.#comments);
+    return () => {
+      this.#commentsListeners.delete(callback);
+    };
+  }
+
+  saveVersion(version: RoomVersion, value: DesignValue) {
+    this.#setVersions([
+      ...this.#versions.filter(({ id }) => id !== version.id),
+      version,
+    ]);
+    this.#outbox.push({ type: "version", version, value });
+    this.#flushOutbox();
+  }
+
+  onVersionsChange(callback: (versions: RoomVersion[]) => void) {
+    this.#versionsListeners.add(callback);
+    callback(this.#versions);
+    return () => {
+      this.#versionsListeners.delete(callback);
+    };
+  }
+
+  loadVersion(versionId: string) {
+    return new Promise<DesignValue | null>((resolve) => {
+      const loads = this.#versionLoads.get(versionId);
+      if (loads) {
+        loads.push(resolve);
+        return;
+      }
+      this.#versionLoads.set(versionId, [resolve]);
+      this.#send({ type: "loadVersion", versionId });
+    });
+  }
+
+  close() {
+    this.#isClosed = true;
+    if (this.#reconnectTimeout) {
+      clearTimeout(this.#reconnectTimeout);
+      this.#reconnectTimeout = null;
+    }
+    this.#socket?.close();
+    this.#socket = null;
+  }
+
+  get #tokenStorage() {
+    return this.#options.tokenStorage ?? sessionStorage;
+  }
+
+  // The relay only lets the first client using a user ID join as that user
+  // without the token it was issued
+  #sendUser(user: RoomUser) {
+    this.#send({
+      type: "user",
+      user,
+      token: this.#tokenStorage.getItem(TOKEN_KEY_PREFIX + user.id),
+    });
+  }
+
+  #connect() {
+    const socket = new WebSocket(this.#options.url);
+    this.#socket = socket;
+
+    socket.addEventListener("open", () => {
+      // The user, cursor, presence and claims are state, so the latest ones
+      // are sent again on every connection
+      this.#send({ type: "join", roomId: this.#options.roomId });
+      if (this.#user) {
+        this.#sendUser(this.#user);
+      }
+      if (this.#cursor) {
+        this.#send({ type: "cursor", cursor: this.#cursor });
+      }
+      if (this.#presence) {
+        this.#send({ type: "presence", presence: this.#presence });
+      }
+      if (this.#claims.size > 0) {
+        this.#send({ type: "claim", leases: [...this.#claims.values()] });
+      }
+      // Versions are saved before loads, so saved ones can be loaded
+      this.#flushOutbox();
+      this.#versionLoads.forEach((_, versionId) =>
+        this.#send({ type: "loadVersion", versionId }),
+      );
+    });
+    socket.addEventListener("message", (event: MessageEvent<unknown>) => {
+      if (typeof event.data === "string") {
+        this.#handleMessage(JSON.parse(event.data) as RelayMessage);
+      }
+    });
+    socket.addEventListener("close", () => {
+      if (this.#socket !== socket || this.#isClosed) return;
+
+      this.#socket = null;
+      this.#setUsers([]);
+      this.#setCursors([]);
+      this.#setPresences([]);
+      this.#setLeases([]);
+      this.#reconnectTimeout = setTimeout(
+        () => this.#connect(),
+        this.#options.reconnectDelay ?? DEFAULT_RECONNECT_DELAY,
+      );
+    });
+  }
+
+  #handleMessage(message: RelayMessage) {
+    switch (message.type) {
+      case "init": {
+        const updates = message.updates.map(updateFromBase64);
+        if (!this.#initialUpdates) {
+          this.#initialUpdates = updates;
+          this.#pendingLoads.forEach((resolve) => resolve(updates));
+          this.#pendingLoads = [];
+        }
+        // After a reconnect, catch up on updates missed while offline
+        updates.forEach((update) =>
+          this.#updateListeners.forEach((listener) => listener(update)),
+        );
+        this.#setUsers(message.users);
+        this.#setCursors(message.cursors);
+        this.#setPresences(message.presences);
+        this.#setLeases(message.leases);
+        this.#setRoles(message.roles);
+        this.#setComments(message.comments);
+        this.#setVersions(message.versions);
+        break;
+      }
+      case "update": {
+        const update = updateFromBase64(message.update);
+        this.#updateListeners.forEach((listener) => listener(update));
+        break;
+      }
+      case "token":
+        this.#tokenStorage.setItem(
+          TOKEN_KEY_PREFIX + message.userId,
+          message.token,
+        );
+        break;
+      case "users":
+        this.#setUsers(message.users);
+        break;
+      case "cursors":
+        this.#setCursors(message.cursors);
+        break;
+      case "presences":
+        this.#setPresences(message.presences);
+        break;
+      case "leases":
+        this.#setLeases(message.leases);
+        break;
+      case "roles":
+        this.#setRoles(message.roles);
+        break;
+      case "comments":
+        this.#setComments(message.comments);
+        break;
+      case "versions":
+        this.#setVersions(message.versions);
+        break;
+      case "versionDesign": {
+        // Versions saved by older clients are migrated, and unreadable ones
+        // load as missing
+        const result =
+          message.value == null ? null : readDesignData(message.value);
+        this.#versionLoads
+          .get(message.versionId)
+          ?.forEach((resolve) => resolve(result?.ok ? result.value : null));
+        this.#versionLoads.delete(message.versionId);
+        break;
+      }
+    }
+  }
+
+  #setUsers(users: RoomUser[]) {
+    this.#users = users;
+    this.#usersListeners.forEach((listener) => listener(users));
+  }
+
+  #setCursors(cursors: RoomCursor[]) {
+    this.#cursors = cursors;
+    this.#cursorsListeners.forEach((listener) => listener(cursors));
+  }
+
+  #setPresences(presences: RoomPresence[]) {
+    this.#presences = presences;
+    this.#presenceListeners.forEach((listener) => listener(presences));
+  }
+
+  #setLeases(leases: RoomLease[]) {
+    this.#leases = leases;
+    this.#leasesListeners.forEach((listener) => listener(leases));
+  }
+
+  #setRoles(roles: RoomRoles) {
+    this.#roles = roles;
+    this.#rolesListeners.forEach((listener) => listener(roles));
+  }
+
+  #setComments(comments: RoomComment[]) {
+    this.#comments = comments;
+    this.#commentsListeners.forEach((listener) => listener(comments));
+  }
+
+  #setVersions(versions: RoomVersion[]) {
+    this.#versions = versions;
+    this.#versionsListeners.forEach((listener) => listener(versions));
+  }
+
+  #isOpen() {
+    return this.#socket?.readyState === WebSocket.OPEN;
+  }
+
+  // Messages sent while disconnected are dropped, state is resent on open
+  #send(message: ClientMessage) {
+    if (this.#isOpen()) {
+      this.#socket?.send(JSON.stringify(message));
+    }
+  }
+
+  #flushOutbox() {
+    if (!this.#isOpen()) return;
+
+    this.#outbox.forEach((message) => this.#send(message));
+    this.#outbox = [];
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+
+import { getCommentThreadIds, getCommentThreads } from "./comments";
+import type { RoomComment } from "./types";
+
+const AUTHOR = { id: "a", name: "Ada", color: "#FF6B6B" };
+
+const createComment = (
+  id: string,
+  createdAt: number,
+  threadId: string | null = null,
+): RoomComment => ({
+  id,
+  threadId,
+  anchor: threadId ? null : { type: "canvas", x: 10, y: 20 },
+  author: AUTHOR,
+  body: `Comment ${id}`,
+  createdAt,
+  resolved: false,
+});
+
+describe("getCommentThreads", () => {
+  it("groups replies under their threads, oldest first", () => {
+    const threads = getCommentThreads([
+      createComment("reply-2", 4, "second"),
+      createComment("second", 2),
+      createComment("reply-1", 3, "first"),
+      createComment("first", 1),
+      createComment("reply-3", 5, "first"),
+    ]);
+
+    expect(
+      threads.map(({ comment, replies }) => [
+        comment.id,
+        replies.map(({ id }) => id),
+      ]),
+    ).toEqual([
+      ["first", ["reply-1", "reply-3"]],
+      ["second", ["reply-2"]],
+    ]);
+    expect(threads[0] && getCommentThreadIds(threads[0])).toEqual([
+      "first",
+      "reply-1",
+      "reply-3",
+    ]);
+  });
+
+  it("drops replies to deleted threads", () => {
+    expect(getCommentThreads([createComment("reply", 1, "deleted")])).toEqual(
+      [],
+    );
+  });
+});
@@ -0,0 +1,30 @@
+import type { RoomComment } from "./types";
+
+// A pinned comment and its replies, oldest first
+export interface CommentThread {
+  comment: RoomComment;
+  replies: RoomComment[];
+}
+
+const byCreatedAt = (a: RoomComment, b: RoomComment) =>
+  a.createdAt - b.createdAt || a.id.localeCompare(b.id);
+
+/**
+ * Groups the room's comments into threads, oldest first. Replies to threads
+ * that no longer exist are dropped.
+ */
+export const getCommentThreads = (comments: RoomComment[]): CommentThread[] => {
+  const sorted = [...comments].sort(byCreatedAt);
+  return sorted
+    .filter((comment) => comment.threadId == null && comment.anchor != null)
+    .map((comment) => ({
+      comment,
+      replies: sorted.filter((reply) => reply.threadId === comment.id),
+    }));
+};
+
+// IDs of the thread's comments, for removing the whole thread
+export const getCommentThreadIds = (thread: CommentThread) => [
+  thread.comment.id,
+  ...thread.replies.map((reply) => reply.id),
+];
@@ -0,0 +1,154 @@
+import { isOperation } from "./operations";
+import type { Operation } from "./types";
+
+/**
+ * Binary encoding of a batch of operations, as exchanged by transports:
+ *
+ *   format version, operation count,
+ *   per operation: kind, clock, client ID, path length, path keys,
+ *   and for set operations the JSON value
+ *
+ * Numbers are unsigned LEB128 varints, strings are length-prefixed UTF-8.
+ */
+const FORMAT_VERSION = 1;
+
+const OPERATION_KINDS = ["set", "remove"] as const;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class Writer {
+  #bytes: number[] = [];
+
+  writeUint(value: number) {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.#bytes.push((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.#bytes.push(remaining);
+  }
+
+  writeString(value: string) {
+    const encoded = textEncoder.encode(value);
+    this.writeUint(encoded.length);
+    encoded.forEach((byte) => this.#bytes.push(byte));
+  }
+
+  toBytes() {
+    return Uint8Array.from(this.#bytes);
+  }
+}
+
+class Reader {
+  #bytes: Uint8Array;
+  #offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.#bytes = bytes;
+  }
+
+  readUint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.#readByte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) {
+        return value;
+      }
+      scale *= 0x80;
+    }
+  }
+
+  // A count of items that each take at least one byte
+  readCount(): number {
+    const count = this.readUint();
+    if (this.#offset + count > this.#bytes.length) {
+      throw new Error("Update is truncated");
+    }
+    return count;
+  }
+
+  readString(): string {
+    const length = this.readCount();
+    const value = textDecoder.decode(
+      this.#bytes.subarray(this.#offset, this.#offset + length),
+    );
+    this.#offset += length;
+    return value;
+  }
+
+  #readByte(): number {
+    if (this.#offset >= this.#bytes.length) {
+      throw new Error("Update is truncated");
+    }
+    return this.#bytes[this.#offset++];
+  }
+}
+
+const parseValue = (json: string): unknown =>
+  json ? (JSON.parse(json) as unknown) : undefined;
+
+export const encodeUpdate = (operations: Operation[]): Uint8Array => {
+  const writer = new Writer();
+  writer.writeUint(FORMAT_VERSION);
+  writer.writeUint(operations.length);
+
+  operations.forEach((operation) => {
+    writer.writeUint(OPERATION_KINDS.indexOf(operation.op));
+    writer.writeUint(operation.clock);
+    writer.writeString(operation.clientId);
+    writer.writeUint(operation.path.length);
+    operation.path.forEach((key) => writer.writeString(key));
+    if (operation.op === "set") {
+      // Undefined values encode as missing, like in the database
+      writer.writeString(JSON.stringify(operation.value) ?? "");
+    }
+  });
+
+  return writer.toBytes();
+};
+
+/**
+ * Decodes an update, throwing if it is malformed
+ */
+export const decodeUpdate = (update: Uint8Array): Operation[] => {
+  const reader = new Reader(update);
+  const version = reader.readUint();
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported update format ${version}`);
+  }
+
+  return Array.from({ length: reader.readCount() }, () => {
+    const op = OPERATION_KINDS[reader.readUint()];
+    const clock = reader.readUint();
+    const clientId = reader.readString();
+    const path = Array.from({ length: reader.readCount() }, () =>
+      reader.readString(),
+    );
+    const operation: unknown =
+      op === "set"
+        ? { op, clock, clientId, path, value: parseValue(reader.readString()) }
+        : { op, clock, clientId, path };
+
+    if (!isOperation(operation)) {
+      throw new Error("Update contains an invalid operation");
+    }
+    return operation;
+  });
+};
+
+/**
+ * Base64 form of an update, for databases that only store text
+ */
+export const updateToBase64 = (update: Uint8Array): string => {
+  let binary = "";
+  update.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const updateFromBase64 = (base64: string): Uint8Array =>
+  Uint8Array.from(atob(base64), (character) => character.charCodeAt(0));
@@ -0,0 +1,26 @@
+export * from "./comments";
+export { CrdtDocument } from "./CrdtDocument";
+export * from "./CrdtSync";
+export * from "./encoding";
+export * from "./LeaseHolder";
+export { MemoryDatabase } from "./MemoryDatabase";
+export { compareVersions, diffToChanges, isOperation } from "./operations";
+export * from "./roles";
+export * from "./throttle";
+export * from "./transport";
+export * from "./versions";
+export type {
+  Operation,
+  OperationPath,
+  RoomComment,
+  RoomCursor,
+  RoomLease,
+  RoomPresence,
+  RoomRole,
+  RoomRoles,
+  RoomUser,
+  RoomVersion,
+  SyncDatabase,
+  Version,
+} from "./types";
+export * from "./WebSocketTransport";
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { LeaseHolder, canClaimLease } from "./LeaseHolder";
+import type { RoomLease } from "./types";
+
+const USER = { id: "a", name: "Ada", color: "#FF6B6B" };
+
+describe("LeaseHolder", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createHolder = () => {
+    const transport = { claimLeases: vi.fn(), releaseLeases: vi.fn() };
+    const holder = new LeaseHolder({ transport, user: USER, duration: 1000 });
+    return { transport, holder };
+  };
+
+  it("renews held leases until they are released", () => {
+    const { transport, holder } = createHolder();
+
+    holder.hold(["shape-1"]);
+    expect(transport.claimLeases).toHaveBeenLastCalledWith([
+      {
+        elementId: "shape-1",
+        userId: "a",
+        name: "Ada",
+        color: "#FF6B6B",
+        expiresAt: 1000,
+      },
+    ]);
+
+    vi.advanceTimersByTime(500);
+    expect(transport.claimLeases).toHaveBeenCalledTimes(2);
+    expect(transport.claimLeases).toHaveBeenLastCalledWith([
+      expect.objectContaining({ elementId: "shape-1", expiresAt: 1500 }),
+    ]);
+
+    holder.hold([]);
+    expect(transport.releaseLeases).toHaveBeenCalledWith(["shape-1"]);
+
+    vi.advanceTimersByTime(5000);
+    expect(transport.claimLeases).toHaveBeenCalledTimes(2);
+  });
+
+  it("only releases the elements no longer held", () => {
+    const { transport, holder } = createHolder();
+
+    holder.hold(["shape-1", "shape-2"]);
+    holder.hold(["shape-2"]);
+
+    expect(transport.releaseLeases).toHaveBeenCalledWith(["shape-1"]);
+    expect(holder.elementIds).toEqual(["shape-2"]);
+
+    holder.dispose();
+    expect(transport.releaseLeases).toHaveBeenLastCalledWith(["shape-2"]);
+  });
+});
+
+describe("canClaimLease", () => {
+  const lease: RoomLease = {
+    elementId: "shape-1",
+    userId: "b",
+    name: "Bo",
+    color: "#4ECDC4",
+    expiresAt: 1000,
+  };
+
+  it("keeps an element with another user's lease until it expires", () => {
+    expect(canClaimLease(null, "a", 0)).toBe(true);
+    expect(canClaimLease(lease, "b", 500)).toBe(true);
+    expect(canClaimLease(lease, "a", 500)).toBe(false);
+    expect(canClaimLease(lease, "a", 1000)).toBe(true);
+  });
+});
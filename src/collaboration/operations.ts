@@ -0,0 +1,88 @@
+import { diffDesignValues, isDeepEqual } from "../editor/commands/patches";
+import type { DesignValue } from "../editor/schema";
+import type { Operation, OperationPath, Version } from "./types";
+
+type PlainObject = Record<string, unknown>;
+
+// An operation before it is stamped with a version
+export type Change =
+  | { op: "set"; path: OperationPath; value: unknown }
+  | { op: "remove"; path: OperationPath };
+
+const isPlainObject = (value: unknown): value is PlainObject => {
+  return typeof value === "object" && value != null && !Array.isArray(value);
+};
+
+export const compareVersions = (a: Version, b: Version): number => {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  }
+  if (a.clientId === b.clientId) {
+    return 0;
+  }
+  return a.clientId < b.clientId ? -1 : 1;
+};
+
+export const isOperation = (value: unknown): value is Operation => {
+  if (!isPlainObject(value)) return false;
+
+  const { op, path, clock, clientId } = value;
+  return (
+    (op === "set" || op === "remove") &&
+    Array.isArray(path) &&
+    path.length >= 1 &&
+    path.length <= 3 &&
+    path.every((key) => typeof key === "string") &&
+    typeof clock === "number" &&
+    typeof clientId === "string"
+  );
+};
+
+/**
+ * Returns the changes turning the previous value into the next one. Added and
+ * removed elements are written whole, edited elements field by field so
+ * concurrent edits to different fields of the same element both survive.
+ */
+export const diffToChanges = (
+  previous: DesignValue,
+  next: DesignValue,
+): Change[] => {
+  return diffDesignValues(previous, next).flatMap((patch): Change[] => {
+    const [key, id] = patch.path;
+    if (patch.op === "remove") {
+      return [{ op: "remove", path: patch.path }];
+    }
+
+    const previousElement =
+      id === undefined
+        ? undefined
+        : (previous as unknown as Record<string, PlainObject | undefined>)[
+            key
+          ]?.[id];
+    if (
+      patch.op === "add" ||
+      id === undefined ||
+      !isPlainObject(previousElement) ||
+      !isPlainObject(patch.value)
+    ) {
+      return [{ op: "set", path: patch.path, value: patch.value }];
+    }
+
+    const nextElement = patch.value;
+    const fields = new Set([
+      ...Object.keys(previousElement),
+      ...Object.keys(nextElement),
+    ]);
+    return [...fields].flatMap((field): Change[] => {
+      const path: OperationPath = [key, id, field];
+      if (nextElement[field] === undefined) {
+        return previousElement[field] === undefined
+          ? []
+          : [{ op: "remove", path }];
+      }
+      return isDeepEqual(previousElement[field], nextElement[field])
+        ? []
+        : [{ op: "set", path, value: nextElement[field] }];
+    });
+  });
+};
@@ -0,0 +1,377 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { type RelayServer, createRelayServer } from "../../server/relay.js";
+import { createEmptyDesign } from "../documents";
+import { DesignEditor } from "../editor";
+import type { DesignValue } from "../editor/schema";
+import { CrdtSync } from "./CrdtSync";
+import { WebSocketTransport } from "./WebSocketTransport";
+import type { RoomComment, RoomRoles, RoomUser, RoomVersion } from "./types";
+
+describe("WebSocket relay", () => {
+  let relay: RelayServer;
+  const transports: WebSocketTransport[] = [];
+
+  const connect = (user: RoomUser) => {
+    const transport = new WebSocketTransport({
+      url: `ws://127.0.0.1:${relay.port}`,
+      roomId: "room",
+    });
+    transport.join(user);
+    transports.push(transport);
+    return transport;
+  };
+
+  const syncEditor = async (
+    transport: WebSocketTransport,
+    clientId: string,
+  ) => {
+    const editor = new DesignEditor({ value: createEmptyDesign() });
+    const sync = new CrdtSync({
+      transport: transport.updates,
+      clientId,
+      onChange: (value) => editor.updateDesignData(value),
+    });
+    await sync.start(editor.state.value);
+    editor.onCommittedChange((value) => sync.update(value));
+    return editor;
+  };
+
+  // Users join as viewers, the owner makes them editors
+  const makeEditor = async (owner: WebSocketTransport, userId: string) => {
+    let roles: RoomRoles = {};
+    const unsubscribe = owner.onRolesChange((nextRoles) => {
+      roles = nextRoles;
+    });
+    await vi.waitFor(() => expect(roles[userId]).toBe("viewer"));
+    owner.setRole(userId, "editor");
+    await vi.waitFor(() => expect(roles[userId]).toBe("editor"));
+    unsubscribe();
+  };
+
+  beforeEach(async () => {
+    relay = await createRelayServer({ port: 0, host: "127.0.0.1" });
+  });
+
+  afterEach(async () => {
+    transports.splice(0).forEach((transport) => transport.close());
+    await relay.close();
+  });
+
+  it("relays design updates and presence within a room", async () => {
+    const first = connect({ id: "a", name: "Ada", color: "#FF6B6B" });
+    const firstEditor = await syncEditor(first, "a");
+    const textId = firstEditor.createText({
+      content: "Hello",
+      left: 20,
+      top: 20,
+      fontSize: 16,
+      color: "#000000",
+      fontWeight: "normal",
+      fontFamily: "Arial",
+    });
+
+    // A late joiner catches up from the relay's copy of the room
+    const second = connect({ id: "b", name: "Bo", color: "#4ECDC4" });
+    const secondEditor = await syncEditor(second, "b");
+    expect(secondEditor.state.value.texts[textId]?.content).toBe("Hello");
+
+    await makeEditor(first, "b");
+    secondEditor.updateTextContent(textId, "Hello there");
+    await vi.waitFor(() =>
+      expect(firstEditor.state.value.texts[textId]?.content).toBe(
+        "Hello there",
+      ),
+    );
+
+    const users: RoomUser[][] = [];
+    first.onUsersChange((roomUsers) => users.push(roomUsers));
+    await vi.waitFor(() => expect(users.at(-1)).toHaveLength(2));
+
+    second.close();
+    await vi.waitFor(() =>
+      expect(users.at(-1)?.map((user) => user.id)).toEqual(["a"]),
+    );
+  });
+
+  it("relays cursors to the other users", async () => {
+    const first = connect({ id: "a", name: "Ada", color: "#FF6B6B" });
+    const second = connect({ id: "b", name: "Bo", color: "#4ECDC4" });
+    const cursors = vi.fn();
+    second.onCursorsChange(cursors);
+    await second.updates.load();
+
+    first.setCursor({ id: "a", x: 10, y: 20, name: "Ada", color: "#FF6B6B" });
+
+    await vi.waitFor(() =>
+      expect(cursors).toHaveBeenLastCalledWith([
+        { id: "a", x: 10, y: 20, name: "Ada", color: "#FF6B6B" },
+      ]),
+    );
+  });
+
+  it("relays presence and drops it when the user leaves", async () => {
+    const first = connect({ id: "a", name: "Ada", color: "#FF6B6B" });
+    const second = connect({ id: "b", name: "Bo", color: "#4ECDC4" });
+    const presences = vi.fn();
+    second.onPresenceChange(presences);
+    await second.updates.load();
+
+    const presence = {
+      id: "a",
+      selection: ["text-1"],
+      tool: null,
+      editingTextId: "text-1",
+      viewport: { x: 0, y: 120 },
+    };
+    first.setPresence(presence);
+    await vi.waitFor(() =>
+      expect(presences).toHaveBeenLastCalledWith([presence]),
+    );
+
+    first.close();
+    await vi.waitFor(() => expect(presences).toHaveBeenLastCalledWith([]));
+  });
+
+  it("grants each element to one user until it is released", async () => {
+    const first = connect({ id: "a", name: "Ada", color: "#FF6B6B" });
+    const second = connect({ id: "b", name: "Bo", color: "#4ECDC4" });
+    const leases = vi.fn();
+    second.onLeasesChange(leases);
+    await Promise.all([first.updates.load(), second.updates.load()]);
+    await makeEditor(first, "b");
+
+    const expiresAt = Date.now() + 60_000;
+    const createLease = (userId: string, name: string) => ({
+      elementId: "text-1",
+      userId,
+      name,
+      color: "#FF6B6B",
+      expiresAt,
+    });
+    first.claimLeases([createLease("a", "Ada")]);
+    await vi.waitFor(() =>
+      expect(leases).toHaveBeenLastCalledWith([createLease("a", "Ada")]),
+    );
+
+    // Someone else's claim on the element is ignored while the lease lasts,
+    // the relay answers with the unchanged leases
+    const callCount = leases.mock.calls.length;
+    second.claimLeases([createLease("b", "Bo")]);
+    await vi.waitFor(() =>
+      expect(leases.mock.calls.length).toBeGreaterThan(callCount),
+    );
+    expect(leases).toHaveBeenLastCalledWith([createLease("a", "Ada")]);
+
+    // Disconnecting releases the lease
+    first.close();
+    await vi.waitFor(() => expect(leases).toHaveBeenLastCalledWith([]));
+  });
+
+  it("keeps comments from viewers for late joiners", async () => {
+    const first = connect({ id: "a", name: "Ada", color: "#FF6B6B" });
+    const second = connect({ id: "b", name: "Bo", color: "#4ECDC4" });
+    await Promise.all([first.updates.load(), second.updates.load()]);
+
+    const comment: RoomComment = {
+      id: "comment-1",
+      threadId: null,
+      anchor: { type: "element", elementId: "text-1", x: 0.5, y: 0 },
+      author: { id: "b", name: "Bo", color: "#4ECDC4" },
+      body: "Bigger, please",
+      createdAt: 1,
+      resolved: false,
+    };
+    const comments = vi.fn();
+    first.onCommentsChange(comments);
+    second.setComment(comment);
+    await vi.waitFor(() =>
+      expect(comments).toHaveBeenLastCalledWith([comment]),
+    );
+
+    second.close();
+    const third = connect({ id: "c", name: "Cy", color: "#45B7D1" });
+    const lateComments = vi.fn();
+    third.onCommentsChange(lateComments);
+    await vi.waitFor(() =>
+      expect(lateComments).toHaveBeenLastCalledWith([comment]),
+    );
+
+    third.setCommentResolved(comment.id, true);
+    await vi.waitFor(() =>
+      expect(comments).toHaveBeenLastCalledWith([
+        { ...comment, resolved: true },
+      ]),
+    );
+  });
+
+  it("only lets authors change or remove their comments", async () => {
+    const ada = { id: "a", name: "Ada", color: "#FF6B6B" };
+    const bo = { id: "b", name: "Bo", color: "#4ECDC4" };
+    const first = connect(ada);
+    const second = connect(bo);
+    await Promise.all([first.updates.load(), second.updates.load()]);
+
+    const comment: RoomComment = {
+      id: "comment-1",
+      threadId: null,
+      anchor: { type: "canvas", x: 10, y: 20 },
+      author: ada,
+      body: "Bigger, please",
+      createdAt: 1,
+      resolved: false,
+    };
+    const reply: RoomComment = {
+      ...comment,
+      id: "comment-2",
+      threadId: comment.id,
+      anchor: null,
+      author: bo,
+      body: "On it",
+      createdAt: 2,
+    };
+    const comments = vi.fn();
+    first.onCommentsChange(comments);
+    first.setComment(comment);
+    second.setComment(reply);
+    await vi.waitFor(() =>
+      expect(comments).toHaveBeenLastCalledWith([comment, reply]),
+    );
+
+    // Others can only resolve the thread
+    second.setComment({ ...comment, body: "Smaller" });
+    second.setComment({ ...comment, author: bo, body: "Smaller" });
+    second.removeComments([comment.id]);
+    second.setCommentResolved(comment.id, true);
+    await vi.waitFor(() =>
+      expect(comments).toHaveBeenLastCalledWith([
+        { ...comment, resolved: true },
+        reply,
+      ]),
+    );
+
+    // Removing a thread removes the replies of others too
+    first.removeComments([comment.id, reply.id]);
+    await vi.waitFor(() => expect(comments).toHaveBeenLastCalledWith([]));
+  });
+
+  it("keeps versions and loads their designs on request", async () => {
+    const first = connect({ id: "a", name: "Ada", color: "#FF6B6B" });
+    const second = connect({ id: "b", name: "Bo", color: "#4ECDC4" });
+    await Promise.all([first.updates.load(), second.updates.load()]);
+
+    const version: RoomVersion = {
+      id: "version-1",
+      name: "Draft",
+      author: { id: "a", name: "Ada", color: "#FF6B6B" },
+      createdAt: 1,
+    };
+    const value = {
+      ...createEmptyDesign(),
+      attributes: { width: 1080, height: 1920 },
+    };
+    const versions = vi.fn();
+    second.onVersionsChange(versions);
+    first.saveVersion(version, value);
+    await vi.waitFor(() =>
+      expect(versions).toHaveBeenLastCalledWith([version]),
+    );
+
+    expect(await second.loadVersion(version.id)).toEqual(value);
+    expect(await second.loadVersion("missing")).toBeNull();
+
+    // Viewers can't save versions
+    second.saveVersion({ ...version, id: "version-2" }, value);
+    expect(await second.loadVersion("version-2")).toBeNull();
+
+    // Versions from older clients are migrated, unreadable ones are missing
+    const { shapes, texts, attributes } = value;
+    first.saveVersion({ ...version, id: "version-3" }, {
+      shapes,
+      texts,
+      attributes,
+    } as DesignValue);
+    first.saveVersion(
+      { ...version, id: "version-4" },
+      {
+        ...value,
+        attributes: { width: 0, height: 600 },
+      },
+    );
+    await vi.waitFor(() => expect(versions.mock.lastCall?.[0]).toHaveLength(3));
+    expect(await second.loadVersion("version-3")).toEqual(value);
+    expect(await second.loadVersion("version-4")).toBeNull();
+  });
+
+  it("only lets clients holding a user's token join as them", async () => {
+    const ada = { id: "a", name: "Ada", color: "#FF6B6B" };
+    const first = connect(ada);
+    await first.updates.load();
+
+    // Without the token issued to the first client, the ID can't be taken
+    const items = new Map<string, string>();
+    const impostor = new WebSocketTransport({
+      url: `ws://127.0.0.1:${relay.port}`,
+      roomId: "room",
+      tokenStorage: {
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => void items.set(key, value),
+      },
+    });
+    transports.push(impostor);
+    impostor.join({ ...ada, name: "Eve" });
+    const impostorUsers = vi.fn();
+    impostor.onUsersChange(impostorUsers);
+    // Replies come in order, so the join was handled before this one
+    await impostor.loadVersion("missing");
+    expect(impostorUsers).toHaveBeenLastCalledWith([ada]);
+
+    // The same browser reconnecting after a reload still has it
+    const reloaded = connect(ada);
+    const users = vi.fn();
+    reloaded.onUsersChange(users);
+    await reloaded.loadVersion("missing");
+    expect(users).toHaveBeenLastCalledWith([ada, ada]);
+  });
+
+  it("ignores design changes from viewers", async () => {
+    const first = connect({ id: "a", name: "Ada", color: "#FF6B6B" });
+    const firstEditor = await syncEditor(first, "a");
+    const second = connect({ id: "b", name: "Bo", color: "#4ECDC4" });
+    const secondEditor = await syncEditor(second, "b");
+    const roles = vi.fn();
+    first.onRolesChange(roles);
+    await vi.waitFor(() =>
+      expect(roles).toHaveBeenLastCalledWith({ a: "owner", b: "viewer" }),
+    );
+
+    const textId = secondEditor.createText({
+      content: "Hello",
+      left: 20,
+      top: 20,
+      fontSize: 16,
+      color: "#000000",
+      fontWeight: "normal",
+      fontFamily: "Arial",
+    });
+    // Messages from a socket are handled in order, so once the presence
+    // arrives the relay has seen the update before it
+    const presences = vi.fn();
+    first.onPresenceChange(presences);
+    second.setPresence({
+      id: "b",
+      selection: [],
+      tool: null,
+      editingTextId: null,
+      viewport: { x: 0, y: 0 },
+    });
+    await vi.waitFor(() =>
+      expect(presences).toHaveBeenLastCalledWith([
+        expect.objectContaining({ id: "b" }),
+      ]),
+    );
+
+    expect(firstEditor.state.value.texts[textId]).toBeUndefined();
+  });
+});
@@ -0,0 +1,11 @@
+import type { RoomRole } from "./types";
+
+export const ROOM_ROLES: RoomRole[] = ["owner", "editor", "viewer"];
+
+export const isRoomRole = (value: unknown): value is RoomRole =>
+  ROOM_ROLES.includes(value as RoomRole);
+
+// Users whose role isn't known yet, e.g. while offline, can edit. The room
+// rejects their changes if they turn out to be viewers.
+export const canEditRoom = (role: RoomRole | null | undefined) =>
+  role !== "viewer";
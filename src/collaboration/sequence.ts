@@ -0,0 +1,135 @@
+import type { ID } from "../editor/schema";
+
+/**
+ * Z-order is kept as a sequence of positions: every element has a
+ * fractional-index key, written as its own last-writer-wins register, and the
+ * order is the elements sorted by key. Moving an element only rewrites its own
+ * key, so concurrent moves and inserts by different users all survive.
+ */
+
+// Digits in ascending character order, so keys compare as plain strings
+const DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+// Keys never end in the zero digit, so there is always room before a key
+const midpoint = (a: string, b: string | null): string => {
+  if (b != null) {
+    let commonLength = 0;
+    while ((a[commonLength] ?? DIGITS[0]) === b[commonLength]) {
+      commonLength++;
+    }
+    if (commonLength > 0) {
+      return (
+        b.slice(0, commonLength) +
+        midpoint(a.slice(commonLength), b.slice(commonLength))
+      );
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b != null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // Adjacent digits, continue in the next place
+  if (b != null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+/**
+ * Returns a key sorting strictly between the two keys, null meaning the start
+ * or end of the sequence
+ */
+export const generatePositionBetween = (
+  before: string | null,
+  after: string | null,
+): string => {
+  if (before != null && after != null && before >= after) {
+    throw new Error(`Position ${before} is not before ${after}`);
+  }
+  return midpoint(before ?? "", after);
+};
+
+export const comparePositions = (
+  [aId, aPosition]: [ID, string],
+  [bId, bPosition]: [ID, string],
+) => {
+  if (aPosition !== bPosition) {
+    return aPosition < bPosition ? -1 : 1;
+  }
+  // Concurrent inserts can pick the same key
+  if (aId === bId) {
+    return 0;
+  }
+  return aId < bId ? -1 : 1;
+};
+
+// Indices of the longest run of entries whose positions strictly increase
+const getLongestIncreasingRun = (positions: string[]): Set<number> => {
+  const lengths = positions.map(() => 1);
+  const previous = positions.map(() => -1);
+
+  positions.forEach((position, index) => {
+    for (let before = 0; before < index; before++) {
+      if (
+        positions[before] < position &&
+        lengths[before] + 1 > lengths[index]
+      ) {
+        lengths[index] = lengths[before] + 1;
+        previous[index] = before;
+      }
+    }
+  });
+
+  const run = new Set<number>();
+  let index = lengths.indexOf(Math.max(0, ...lengths));
+  while (index !== -1) {
+    run.add(index);
+    index = previous[index];
+  }
+  return run;
+};
+
+/**
+ * Returns the position writes turning the current order into the next one,
+ * null removing an element from the sequence. Elements that keep their
+ * relative order keep their keys, so a move only touches the moved elements.
+ */
+export const diffOrder = (
+  current: ID[],
+  positions: ReadonlyMap<ID, string>,
+  next: ID[],
+): Map<ID, string | null> => {
+  const updates = new Map<ID, string | null>();
+  const nextIds = new Set(next);
+  current.forEach((id) => {
+    if (!nextIds.has(id)) {
+      updates.set(id, null);
+    }
+  });
+
+  const currentIds = new Set(current);
+  const placed = next.filter((id) => currentIds.has(id) && positions.has(id));
+  const keptIndices = getLongestIncreasingRun(
+    placed.map((id) => positions.get(id)!),
+  );
+  const kept = new Set(placed.filter((_, index) => keptIndices.has(index)));
+
+  let before: string | null = null;
+  next.forEach((id, index) => {
+    if (kept.has(id)) {
+      before = positions.get(id)!;
+      return;
+    }
+    const anchor = next.slice(index + 1).find((nextId) => kept.has(nextId));
+    const position = generatePositionBetween(
+      before,
+      anchor === undefined ? null : positions.get(anchor)!,
+    );
+    updates.set(id, position);
+    before = position;
+  });
+
+  return updates;
+};
@@ -0,0 +1,522 @@
+import { describe, expect, it } from "vitest";
+
+import { createEmptyDesign } from "../documents";
+import { DesignEditor } from "../editor";
+import type { DesignValue, ShapeDef } from "../editor/schema";
+import { isDesignValue } from "../editor/validateDesign";
+import { CrdtDocument } from "./CrdtDocument";
+import { CrdtSync } from "./CrdtSync";
+import { MemoryDatabase } from "./MemoryDatabase";
+import { decodeUpdate, encodeUpdate } from "./encoding";
+import { diffOrder } from "./sequence";
+import { createDatabaseTransport } from "./transport";
+
+const SHAPE: ShapeDef = {
+  type: "shape",
+  id: "shape",
+  bounds: { left: 10, top: 10, width: 50, height: 50 },
+  paths: [{ d: "M0,0L64,0L64,64L0,64Z" }],
+  viewBox: { minX: 0, minY: 0, width: 64, height: 64 },
+};
+
+const BASE_VALUE: DesignValue = {
+  ...createEmptyDesign(),
+  shapes: { shape: SHAPE },
+  order: ["shape"],
+};
+
+const withShape = (value: DesignValue, shape: Partial<ShapeDef>) => ({
+  ...value,
+  shapes: { ...value.shapes, shape: { ...value.shapes.shape, ...shape } },
+});
+
+describe("CrdtDocument", () => {
+  it("merges concurrent edits to different fields of one element", () => {
+    const a = new CrdtDocument(BASE_VALUE, "a");
+    const b = new CrdtDocument(BASE_VALUE, "b");
+
+    const fromA = a.createOperations(
+      withShape(a.value, { bounds: { ...SHAPE.bounds, left: 100 } }),
+    );
+    const fromB = b.createOperations(withShape(b.value, { transparency: 50 }));
+    fromB.forEach((operation) => a.applyOperation(operation));
+    fromA.forEach((operation) => b.applyOperation(operation));
+
+    expect(a.value).toEqual(b.value);
+    expect(a.value.shapes.shape).toMatchObject({
+      bounds: { left: 100 },
+      transparency: 50,
+    });
+  });
+
+  it("picks the same winner for concurrent writes to one field", () => {
+    const a = new CrdtDocument(BASE_VALUE, "a");
+    const b = new CrdtDocument(BASE_VALUE, "b");
+
+    const fromA = a.createOperations(withShape(a.value, { transparency: 10 }));
+    const fromB = b.createOperations(withShape(b.value, { transparency: 90 }));
+    [...fromA, ...fromB].forEach((operation) => b.applyOperation(operation));
+    [...fromB, ...fromA].forEach((operation) => a.applyOperation(operation));
+
+    // Equal clocks are broken by client ID
+    expect(a.value).toEqual(b.value);
+    expect(a.value.shapes.shape?.transparency).toBe(90);
+  });
+
+  it("keeps an element removed when it is edited concurrently", () => {
+    const a = new CrdtDocument(BASE_VALUE, "a");
+    const b = new CrdtDocument(BASE_VALUE, "b");
+
+    const fromA = a.createOperations({ ...a.value, shapes: {}, order: [] });
+    const fromB = b.createOperations(withShape(b.value, { rotation: 45 }));
+    fromB.forEach((operation) => a.applyOperation(operation));
+    fromA.forEach((operation) => b.applyOperation(operation));
+
+    expect(a.value).toEqual(b.value);
+    expect(a.value.shapes).toEqual({});
+  });
+
+  it("ignores duplicate and stale operations", () => {
+    const a = new CrdtDocument(BASE_VALUE, "a");
+    const b = new CrdtDocument(BASE_VALUE, "b");
+
+    const first = a.createOperations(withShape(a.value, { transparency: 10 }));
+    const second = a.createOperations(withShape(a.value, { transparency: 20 }));
+    [...second, ...first, ...second].forEach((operation) =>
+      b.applyOperation(operation),
+    );
+
+    expect(b.value).toEqual(a.value);
+    expect(b.value.shapes.shape?.transparency).toBe(20);
+  });
+});
+
+describe("stacking order sequence", () => {
+  it("only rewrites the positions of moved elements", () => {
+    const positions = new Map([
+      ["a", "a"],
+      ["b", "i"],
+      ["c", "r"],
+    ]);
+
+    const updates = diffOrder(["a", "b", "c"], positions, ["b", "c", "a"]);
+
+    expect([...updates.keys()]).toEqual(["a"]);
+    expect(updates.get("a")! > "r").toBe(true);
+  });
+
+  it("keeps elements inserted concurrently by different replicas", () => {
+    const a = new CrdtDocument(BASE_VALUE, "a");
+    const b = new CrdtDocument(BASE_VALUE, "b");
+
+    const fromA = a.createOperations({
+      ...a.value,
+      shapes: { ...a.value.shapes, left: { ...SHAPE, id: "left" } },
+      order: ["left", "shape"],
+    });
+    const fromB = b.createOperations({
+      ...b.value,
+      shapes: { ...b.value.shapes, right: { ...SHAPE, id: "right" } },
+      order: ["shape", "right"],
+    });
+    fromB.forEach((operation) => a.applyOperation(operation));
+    fromA.forEach((operation) => b.applyOperation(operation));
+
+    expect(a.value.order).toEqual(["left", "shape", "right"]);
+    expect(b.value).toEqual(a.value);
+  });
+});
+
+describe("update encoding", () => {
+  it("round-trips operations through the binary format", () => {
+    const document = new CrdtDocument(BASE_VALUE, "client-é");
+    const operations = document.createOperations({
+      ...withShape(document.value, { name: "Logo 🚀", hidden: undefined }),
+      attributes: { width: 1080, height: 1920 },
+    });
+
+    const update = encodeUpdate(operations);
+
+    expect(update).toBeInstanceOf(Uint8Array);
+    expect(decodeUpdate(update)).toEqual(operations);
+  });
+
+  it("rejects truncated updates", () => {
+    const document = new CrdtDocument(BASE_VALUE, "a");
+    const update = encodeUpdate(
+      document.createOperations(withShape(document.value, { rotation: 10 })),
+    );
+
+    expect(() => decodeUpdate(update.subarray(0, update.length - 2))).toThrow(
+      "truncated",
+    );
+  });
+});
+
+// Deterministic pseudo-random numbers so failures can be replayed
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+describe("CRDT convergence", () => {
+  const randomEdit = (
+    value: DesignValue,
+    random: () => number,
+    newId: string,
+  ): DesignValue => {
+    const ids = Object.keys(value.shapes);
+    const id = ids[Math.floor(random() * ids.length)];
+    const pick = random();
+
+    if (!id || pick < 0.2) {
+      return {
+        ...value,
+        shapes: { ...value.shapes, [newId]: { ...SHAPE, id: newId } },
+        order: [...value.order, newId],
+      };
+    }
+    if (pick < 0.35) {
+      const { [id]: _removed, ...shapes } = value.shapes;
+      return {
+        ...value,
+        shapes,
+        order: value.order.filter((orderId) => orderId !== id),
+      };
+    }
+    if (pick < 0.6) {
+      const order = value.order.filter((orderId) => orderId !== id);
+      order.splice(Math.floor(random() * (order.length + 1)), 0, id);
+      return { ...value, order };
+    }
+    const shape = value.shapes[id];
+    return {
+      ...value,
+      shapes: {
+        ...value.shapes,
+        [id]:
+          pick < 0.8
+            ? {
+                ...shape,
+                bounds: { ...shape.bounds, left: Math.round(random() * 500) },
+              }
+            : { ...shape, transparency: Math.round(random() * 100) },
+      },
+    };
+  };
+
+  it.each(Array.from({ length: 40 }, (_, index) => index + 1))(
+    "converges after random concurrent edits (seed %i)",
+    (seed) => {
+      const random = createRandom(seed);
+      const replicas = ["a", "b", "c"].map(
+        (clientId) => new CrdtDocument(BASE_VALUE, clientId),
+      );
+      // Updates in flight, each for one receiving replica
+      const inFlight: { to: CrdtDocument; update: Uint8Array }[] = [];
+      const deliver = (index: number) => {
+        const [{ to, update }] = inFlight.splice(index, 1);
+        decodeUpdate(update).forEach((operation) =>
+          to.applyOperation(operation),
+        );
+        // Occasionally deliver an update twice
+        if (random() < 0.1) {
+          inFlight.push({ to, update });
+        }
+      };
+
+      for (let step = 0; step < 60; step++) {
+        if (inFlight.length > 0 && random() < 0.5) {
+          deliver(Math.floor(random() * inFlight.length));
+          continue;
+        }
+        const replica = replicas[Math.floor(random() * replicas.length)];
+        const operations = replica.createOperations(
+          randomEdit(replica.value, random, `${replica.clientId}-${step}`),
+        );
+        if (operations.length === 0) continue;
+
+        const update = encodeUpdate(operations);
+        replicas.forEach((to) => {
+          if (to !== replica) {
+            inFlight.push({ to, update });
+          }
+        });
+      }
+      while (inFlight.length > 0) {
+        deliver(Math.floor(random() * inFlight.length));
+      }
+
+      const [first, ...rest] = replicas;
+      rest.forEach((replica) => expect(replica.value).toEqual(first.value));
+      expect([...first.value.order].sort()).toEqual(
+        Object.keys(first.value.shapes).sort(),
+      );
+    },
+  );
+});
+
+describe("CrdtSync", () => {
+  const connect = async (
+    database: MemoryDatabase,
+    clientId: string,
+    editor: DesignEditor,
+  ) => {
+    const sync = new CrdtSync({
+      transport: createDatabaseTransport(database, "rooms/test/updates"),
+      clientId,
+      onChange: (value) => editor.updateDesignData(value),
+    });
+    await sync.start(editor.state.value);
+    editor.onCommittedChange((value) => sync.update(value));
+    return sync;
+  };
+
+  it("seeds an empty room and syncs edits between editors", async () => {
+    const database = new MemoryDatabase();
+    const first = new DesignEditor({ value: BASE_VALUE });
+    const second = new DesignEditor({ value: createEmptyDesign() });
+    await connect(database, "a", first);
+    await connect(database, "b", second);
+
+    expect(second.state.value.shapes.shape).toEqual(SHAPE);
+
+    second.updateShapeAttributes({ ids: ["shape"], transparency: 40 });
+    first.updateElementRotation("shape", 30);
+
+    expect(first.state.value.shapes.shape).toMatchObject({
+      transparency: 40,
+      rotation: 30,
+    });
+    expect(second.state.value).toEqual(first.state.value);
+  });
+
+  it("publishes nothing from read-only replicas", async () => {
+    const database = new MemoryDatabase();
+    const viewer = new DesignEditor({ value: BASE_VALUE });
+    const sync = await connect(database, "a", viewer);
+    sync.setReadOnly(true);
+    viewer.updateElementRotation("shape", 30);
+
+    const transport = createDatabaseTransport(database, "rooms/test/updates");
+    expect(await transport.load()).toHaveLength(1);
+
+    // A read-only replica joining an empty room doesn't seed it either
+    const emptyRoom = createDatabaseTransport(
+      new MemoryDatabase(),
+      "rooms/test/updates",
+    );
+    const readOnlySync = new CrdtSync({
+      transport: emptyRoom,
+      clientId: "b",
+      onChange: () => {},
+      isReadOnly: true,
+    });
+    await readOnlySync.start(BASE_VALUE);
+    expect(await emptyRoom.load()).toEqual([]);
+  });
+
+  it("reports whether an update had local changes", async () => {
+    const database = new MemoryDatabase();
+    const first = new DesignEditor({ value: BASE_VALUE });
+    const second = new DesignEditor({ value: createEmptyDesign() });
+    const sync = await connect(database, "a", first);
+    await connect(database, "b", second);
+
+    second.updateElementRotation("shape", 30);
+    expect(first.state.value.shapes.shape?.rotation).toBe(30);
+    // Values merged from the room are already synced
+    expect(sync.update(first.state.value)).toBe(false);
+    expect(
+      sync.update({
+        ...first.state.value,
+        attributes: { width: 1080, height: 1920 },
+      }),
+    ).toBe(true);
+  });
+
+  it("publishes a drag once it ends", async () => {
+    const database = new MemoryDatabase();
+    const editor = new DesignEditor({ value: BASE_VALUE });
+    await connect(database, "a", editor);
+    const transport = createDatabaseTransport(database, "rooms/test/updates");
+    const published = (await transport.load()).length;
+
+    editor.beginTransaction("Move");
+    [5, 10, 15].forEach((offset) => {
+      editor.replaceElements([
+        { ...SHAPE, bounds: { ...SHAPE.bounds, left: 10 + offset } },
+      ]);
+    });
+    expect(await transport.load()).toHaveLength(published);
+
+    editor.commitTransaction();
+    const updates = await transport.load();
+    expect(updates).toHaveLength(published + 1);
+    expect(decodeUpdate(updates.at(-1)!)).toMatchObject([
+      { path: ["shapes", "shape", "bounds"], value: { left: 25 } },
+    ]);
+  });
+
+  it("undoes only the local user's changes", async () => {
+    const database = new MemoryDatabase();
+    const other: ShapeDef = { ...SHAPE, id: "other" };
+    const first = new DesignEditor({
+      value: {
+        ...BASE_VALUE,
+        shapes: { ...BASE_VALUE.shapes, other },
+        order: ["shape", "other"],
+      },
+    });
+    const second = new DesignEditor({ value: createEmptyDesign() });
+    await connect(database, "a", first);
+    await connect(database, "b", second);
+
+    first.updateElementRotation("shape", 45);
+    second.updateElementRotation("other", 90);
+    second.updateShapeAttributes({ ids: ["shape"], transparency: 30 });
+    first.undo();
+
+    expect(first.state.value.shapes.shape?.rotation).toBeUndefined();
+    expect(first.state.value.shapes.shape?.transparency).toBe(30);
+    expect(first.state.value.shapes.other?.rotation).toBe(90);
+    expect(second.state.value).toEqual(first.state.value);
+    // Remote changes are never recorded in the local history
+    expect(first.state.historyEntries).toEqual(["Rotate Shape"]);
+    expect(second.state.historyEntries).toEqual([
+      "Rotate Shape",
+      "Update transparency Shape",
+    ]);
+
+    first.redo();
+    expect(second.state.value.shapes.shape?.rotation).toBe(45);
+  });
+
+  it("keeps local edits made while the room was loading", async () => {
+    const database = new MemoryDatabase();
+    const first = new DesignEditor({ value: BASE_VALUE });
+    await connect(database, "a", first);
+    first.updateElementRotation("shape", 90);
+
+    const second = new DesignEditor({ value: BASE_VALUE });
+    const sync = new CrdtSync({
+      transport: createDatabaseTransport(database, "rooms/test/updates"),
+      clientId: "b",
+      onChange: (value) => second.updateDesignData(value),
+    });
+    const started = sync.start(second.state.value);
+    second.onCommittedChange((value) => sync.update(value));
+    second.updateShapeAttributes({ ids: ["shape"], transparency: 25 });
+    await started;
+
+    expect(second.state.value.shapes.shape).toMatchObject({
+      transparency: 25,
+      rotation: 90,
+    });
+    expect(first.state.value).toEqual(second.state.value);
+  });
+
+  it("loads the room again after a failure", async () => {
+    const database = new MemoryDatabase();
+    const transport = createDatabaseTransport(database, "rooms/test/updates");
+    const errors: unknown[] = [];
+    let failures = 1;
+    const sync = new CrdtSync({
+      transport: {
+        ...transport,
+        load: () =>
+          failures-- > 0
+            ? Promise.reject(new Error("Offline"))
+            : transport.load(),
+      },
+      clientId: "a",
+      onChange: () => {},
+      onError: (error) => errors.push(error),
+      retryDelay: 0,
+    });
+
+    await sync.start(BASE_VALUE);
+
+    expect(errors).toEqual([new Error("Offline")]);
+    expect(await transport.load()).toHaveLength(1);
+  });
+
+  it("skips remote updates that would make the design invalid", async () => {
+    const transport = createDatabaseTransport(
+      new MemoryDatabase(),
+      "rooms/test/updates",
+    );
+    await new CrdtSync({ transport, clientId: "a", onChange: () => {} }).start(
+      BASE_VALUE,
+    );
+
+    const editor = new DesignEditor({ value: createEmptyDesign() });
+    const errors: unknown[] = [];
+    const sync = new CrdtSync({
+      transport,
+      clientId: "b",
+      onChange: (value) => editor.updateDesignData(value),
+      isValid: isDesignValue,
+      onError: (error) => errors.push(error),
+    });
+    await sync.start(editor.state.value);
+
+    // Written by a client that doesn't know the design format, then by one
+    // that does
+    const publish = (field: string, value: unknown, clock: number) =>
+      transport.publish(
+        encodeUpdate([
+          {
+            op: "set",
+            path: ["shapes", "shape", field],
+            value,
+            clock,
+            clientId: "c",
+          },
+        ]),
+      );
+    publish("bounds", "full", 100);
+    publish("rotation", 30, 101);
+
+    expect(errors).toEqual([new Error("Update makes the design invalid")]);
+    expect(editor.state.value.shapes.shape).toEqual({ ...SHAPE, rotation: 30 });
+  });
+
+  it("merges edits made while the room was unreachable", async () => {
+    const database = new MemoryDatabase();
+    const first = new DesignEditor({ value: BASE_VALUE });
+    const second = new DesignEditor({ value: createEmptyDesign() });
+    await connect(database, "a", first);
+
+    // The second editor loads the room, then loses its connection: its
+    // updates are held back and it stops receiving the first editor's
+    const outbox: Uint8Array[] = [];
+    const offlineSync = new CrdtSync({
+      transport: {
+        ...createDatabaseTransport(database, "rooms/test/updates"),
+        publish: (update) => outbox.push(update),
+        subscribe: () => () => {},
+      },
+      clientId: "b",
+      onChange: (value) => second.updateDesignData(value),
+    });
+    await offlineSync.start(second.state.value);
+    second.onCommittedChange((value) => offlineSync.update(value));
+
+    second.updateShapeAttributes({ ids: ["shape"], transparency: 25 });
+    first.updateElementRotation("shape", 90);
+
+    const transport = createDatabaseTransport(database, "rooms/test/updates");
+    outbox.forEach((update) => transport.publish(update));
+
+    expect(first.state.value.shapes.shape).toMatchObject({
+      transparency: 25,
+      rotation: 90,
+    });
+  });
+});
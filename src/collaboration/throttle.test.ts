@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createThrottle } from "./throttle";
+
+describe("createThrottle", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("publishes the first value and then the latest one per interval", () => {
+    const publish = vi.fn();
+    const throttle = createThrottle(publish, 100);
+
+    throttle.push(1);
+    throttle.push(2);
+    throttle.push(3);
+    expect(publish.mock.calls).toEqual([[1]]);
+
+    vi.advanceTimersByTime(100);
+    expect(publish.mock.calls).toEqual([[1], [3]]);
+
+    // Nothing new to publish, so the next value goes out right after
+    vi.advanceTimersByTime(100);
+    throttle.push(4);
+    expect(publish.mock.calls).toEqual([[1], [3], [4]]);
+  });
+
+  it("flushes or drops the pending value", () => {
+    const publish = vi.fn();
+    const throttle = createThrottle(publish, 100);
+
+    throttle.push(1);
+    throttle.push(2);
+    throttle.flush();
+    expect(publish.mock.calls).toEqual([[1], [2]]);
+
+    throttle.push(3);
+    throttle.cancel();
+    vi.advanceTimersByTime(1000);
+    expect(publish.mock.calls).toEqual([[1], [2]]);
+  });
+});
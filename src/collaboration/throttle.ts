@@ -0,0 +1,63 @@
+// Cursor and presence publishes per second are capped by this interval
+export const DEFAULT_THROTTLE_INTERVAL = 50;
+
+export interface Throttle<T> {
+  // Publishes the value now, or once the interval since the last publish ends
+  // if no newer value replaces it by then
+  push(value: T): void;
+  // Publishes the pending value, if any, immediately
+  flush(): void;
+  // Drops the pending value
+  cancel(): void;
+}
+
+/**
+ * Coalesces frequent updates such as cursor moves so at most one is published
+ * per interval. The first update goes out immediately and the latest one is
+ * always published eventually.
+ */
+export const createThrottle = <T>(
+  publish: (value: T) => void,
+  interval = DEFAULT_THROTTLE_INTERVAL,
+): Throttle<T> => {
+  let pending: { value: T } | null = null;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const schedule = () => {
+    timeout = setTimeout(() => {
+      timeout = null;
+      if (pending) {
+        flush();
+      }
+    }, interval);
+  };
+
+  const flush = () => {
+    if (!pending) return;
+
+    const { value } = pending;
+    pending = null;
+    publish(value);
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+    schedule();
+  };
+
+  return {
+    push: (value) => {
+      pending = { value };
+      if (!timeout) {
+        flush();
+      }
+    },
+    flush,
+    cancel: () => {
+      pending = null;
+      if (timeout) {
+        clearTimeout(timeout);
+        timeout = null;
+      }
+    },
+  };
+};
@@ -0,0 +1,97 @@
+import type { DesignValue } from "../editor/schema";
+import { updateFromBase64, updateToBase64 } from "./encoding";
+import type {
+  RoomComment,
+  RoomCursor,
+  RoomLease,
+  RoomPresence,
+  RoomRole,
+  RoomRoles,
+  RoomUser,
+  RoomVersion,
+  SyncDatabase,
+} from "./types";
+
+/**
+ * Carries binary CRDT updates between the replicas in a room. Updates may be
+ * delivered more than once and in any order.
+ */
+export interface UpdateTransport {
+  // Every update published to the room so far
+  load(): Promise<Uint8Array[]>;
+  publish(update: Uint8Array): void;
+  // Calls back with updates as they are published, possibly including ones
+  // already returned by load
+  subscribe(callback: (update: Uint8Array) => void): () => void;
+}
+
+/**
+ * Connection to a collaboration room, implemented on top of Firebase or of
+ * the WebSocket relay in server/relay.js
+ */
+export interface CollaborationTransport {
+  readonly updates: UpdateTransport;
+  // Announces the user to the room until the connection closes. The first
+  // user to join a room becomes its owner, later ones join as viewers.
+  join(user: RoomUser): void;
+  // Calls back with everyone present in the room, including this user
+  onUsersChange(callback: (users: RoomUser[]) => void): () => void;
+  setCursor(cursor: RoomCursor): void;
+  onCursorsChange(callback: (cursors: RoomCursor[]) => void): () => void;
+  // Like the user, the presence is removed when the connection closes
+  setPresence(presence: RoomPresence): void;
+  onPresenceChange(callback: (presences: RoomPresence[]) => void): () => void;
+  // Claims or renews elements for the joined user. Elements someone else holds
+  // an active lease on stay theirs.
+  claimLeases(leases: RoomLease[]): void;
+  // Releases the joined user's leases on the elements
+  releaseLeases(elementIds: string[]): void;
+  // Calls back with every lease in the room, including expired ones
+  onLeasesChange(callback: (leases: RoomLease[]) => void): () => void;
+  // Calls back with the role of everyone who ever joined the room
+  onRolesChange(callback: (roles: RoomRoles) => void): () => void;
+  // Changes another user's role, which only the owner can do
+  setRole(userId: string, role: RoomRole): void;
+  // Adds a comment or replaces one of the joined user's own. Comments stay in
+  // the room after their author leaves, anyone who joined can comment,
+  // including viewers.
+  setComment(comment: RoomComment): void;
+  // Resolves or reopens a thread, which anyone who joined can do
+  setCommentResolved(commentId: string, isResolved: boolean): void;
+  // Removes the joined user's own comments, and replies to threads they started
+  removeComments(commentIds: string[]): void;
+  // Calls back with every comment in the room
+  onCommentsChange(callback: (comments: RoomComment[]) => void): () => void;
+  // Saves the design as a version, replacing any version with the same ID.
+  // Like updates, only editors and owners can save versions.
+  saveVersion(version: RoomVersion, value: DesignValue): void;
+  // Calls back with every version in the room, without their designs
+  onVersionsChange(callback: (versions: RoomVersion[]) => void): () => void;
+  // Resolves with the design saved with the version, migrated to the current
+  // schema, or null when there is no such version or it can't be read
+  loadVersion(versionId: string): Promise<DesignValue | null>;
+  close(): void;
+}
+
+/**
+ * Transport storing updates as a base64 log in a realtime database. The
+ * database queues writes made while offline and sends them on reconnect.
+ */
+export const createDatabaseTransport = (
+  database: SyncDatabase,
+  path: string,
+): UpdateTransport => ({
+  load: async () => {
+    const log = (await database.get(path)) ?? {};
+    return Object.values(log as Record<string, unknown>)
+      .filter((entry) => typeof entry === "string")
+      .map(updateFromBase64);
+  },
+  publish: (update) => database.push(path, updateToBase64(update)),
+  subscribe: (callback) =>
+    database.onChildAdded(path, (entry) => {
+      if (typeof entry === "string") {
+        callback(updateFromBase64(entry));
+      }
+    }),
+});
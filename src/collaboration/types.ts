@@ -0,0 +1,110 @@
+import type { CommentAnchor } from "../editor/comments";
+import type { ID } from "../editor/schema";
+
+/**
+ * Orders writes to the same path: the higher Lamport clock wins and equal
+ * clocks are broken by client ID, so every replica picks the same winner
+ * whatever order the writes arrive in
+ */
+export interface Version {
+  clock: number;
+  clientId: string;
+}
+
+// A top-level design field, a whole element, or a single field of an element
+export type OperationPath =
+  | [key: string]
+  | [key: string, id: ID]
+  | [key: string, id: ID, field: string];
+
+export type Operation = Version &
+  (
+    | { op: "set"; path: OperationPath; value: unknown }
+    | { op: "remove"; path: OperationPath }
+  );
+
+/**
+ * The slice of the realtime database API used by the operation sync. Values
+ * are stored as JSON, so undefined properties are dropped.
+ */
+export interface SyncDatabase {
+  // Resolves with the value at the path, or null when there is none
+  get(path: string): Promise<unknown>;
+  // Appends a value to the list at the path
+  push(path: string, value: unknown): void;
+  // Calls back with every value in the list at the path, existing ones first
+  onChildAdded(path: string, callback: (value: unknown) => void): () => void;
+}
+
+// A user present in a collaboration room
+export interface RoomUser {
+  id: string;
+  name: string;
+  color: string;
+  avatar?: string;
+}
+
+// Owners manage roles, editors change the design and viewers only watch
+export type RoomRole = "owner" | "editor" | "viewer";
+
+// Roles by user ID
+export type RoomRoles = Record<string, RoomRole>;
+
+// What a user is doing in the design, shared so others can follow along
+export interface RoomPresence {
+  id: string;
+  // IDs of the selected elements
+  selection: string[];
+  tool: string | null;
+  // The text the user is typing into, if any
+  editingTextId: string | null;
+  // Scroll position of the user's canvas
+  viewport: { x: number; y: number };
+}
+
+// A user's pointer position in canvas coordinates
+export interface RoomCursor {
+  id: string;
+  x: number;
+  y: number;
+  name: string;
+  color: string;
+}
+
+// A user's claim on an element they are dragging, resizing or typing into.
+// Others see the element as locked until the lease is released or expires.
+export interface RoomLease {
+  elementId: string;
+  userId: string;
+  name: string;
+  color: string;
+  // Time in milliseconds since the epoch, renewed while the lease is held
+  expiresAt: number;
+}
+
+// A comment left in a room. Comments with an anchor start a thread, the
+// others reply to one.
+export interface RoomComment {
+  id: string;
+  // ID of the comment starting the thread, null for that comment itself
+  threadId: string | null;
+  // Where the thread is pinned, null for replies
+  anchor: CommentAnchor | null;
+  author: RoomUser;
+  body: string;
+  // Time in milliseconds since the epoch
+  createdAt: number;
+  // Only meaningful on the comment starting a thread
+  resolved: boolean;
+}
+
+// A saved version of a room's design. The design itself is loaded separately,
+// see CollaborationTransport.loadVersion.
+export interface RoomVersion {
+  id: string;
+  // Named by a user, or null for versions saved automatically
+  name: string | null;
+  author: RoomUser;
+  // Time in milliseconds since the epoch
+  createdAt: number;
+}
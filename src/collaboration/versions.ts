@@ -0,0 +1,19 @@
+import type { RoomVersion } from "./types";
+
+// Automatic versions are saved at most once per interval while the design
+// changes
+export const AUTO_VERSION_INTERVAL = 10 * 60_000;
+
+/**
+ * ID of the automatic version for the interval the time falls in. Replicas
+ * saving at the same time pick the same ID, so the room gets one version per
+ * interval rather than one per editor.
+ */
+export const getAutoVersionId = (
+  now = Date.now(),
+  interval = AUTO_VERSION_INTERVAL,
+) => `auto-${Math.floor(now / interval)}`;
+
+// Newest first
+export const sortVersions = (versions: RoomVersion[]) =>
+  [...versions].sort((a, b) => b.createdAt - a.createdAt);
@@ -0,0 +1,273 @@
+import {
+  Button,
+  Flex,
+  IconButton,
+  Popover,
+  Text,
+  TextArea,
+} from "@radix-ui/themes";
+import { Check, RotateCcw, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { useStore } from "zustand";
+
+import type { AuthUser } from "../auth";
+import type { CommentThread, RoomComment } from "../collaboration";
+import {
+  type CommentAnchor,
+  type DesignEditor,
+  getCommentAnchorPoint,
+} from "../editor";
+import { UserAvatar } from "./UserAvatar";
+
+interface CommentLayerProps {
+  editor: DesignEditor;
+  threads: CommentThread[];
+  currentUser: AuthUser;
+  // Where a new thread is being started, if anywhere
+  draftAnchor: CommentAnchor | null;
+  onDraftSubmit: (body: string) => void;
+  onDraftCancel: () => void;
+  onReply: (thread: CommentThread, body: string) => void;
+  onResolvedChange: (thread: CommentThread, isResolved: boolean) => void;
+  onThreadDelete: (thread: CommentThread) => void;
+  onReplyDelete: (commentId: string) => void;
+}
+
+const PIN_SIZE = 24;
+
+interface CommentFormProps {
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => void;
+}
+
+// Ctrl+Enter or Cmd+Enter submits, empty comments can't be submitted
+const CommentForm = ({
+  placeholder,
+  submitLabel,
+  onSubmit,
+}: CommentFormProps) => {
+  const [body, setBody] = useState("");
+  const trimmedBody = body.trim();
+
+  const submit = () => {
+    if (!trimmedBody) return;
+
+    onSubmit(trimmedBody);
+    setBody("");
+  };
+
+  return (
+    <Flex direction="column" gap="2">
+      <TextArea
+        size="1"
+        autoFocus
+        placeholder={placeholder}
+        value={body}
+        onChange={(event) => setBody(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+            event.preventDefault();
+            submit();
+          }
+        }}
+      />
+      <Flex justify="end">
+        <Button size="1" disabled={!trimmedBody} onClick={submit}>
+          {submitLabel}
+        </Button>
+      </Flex>
+    </Flex>
+  );
+};
+
+interface CommentItemProps {
+  comment: RoomComment;
+  // Only shown for the current user's comments
+  onDelete?: () => void;
+}
+
+const CommentItem = ({ comment, onDelete }: CommentItemProps) => (
+  <Flex direction="column" gap="1">
+    <Flex align="center" gap="2">
+      <UserAvatar user={comment.author} size={18} />
+      <Text size="1" weight="medium" truncate>
+        {comment.author.name}
+      </Text>
+      <Text size="1" color="gray" style={{ flexShrink: 0 }}>
+        {new Date(comment.createdAt).toLocaleString()}
+      </Text>
+      {onDelete && (
+        <IconButton
+          size="1"
+          variant="ghost"
+          color="gray"
+          title="Delete"
+          style={{ marginLeft: "auto" }}
+          onClick={onDelete}
+        >
+          <Trash2 size={12} />
+        </IconButton>
+      )}
+    </Flex>
+    <Text size="2" style={{ whiteSpace: "pre-wrap", wordBreak: "break-word" }}>
+      {comment.body}
+    </Text>
+  </Flex>
+);
+
+// A pin with its tip at the point, drawn as a speech bubble
+const getPinStyle = (
+  x: number,
+  y: number,
+  color: string,
+): React.CSSProperties => ({
+  position: "absolute",
+  left: 0,
+  top: 0,
+  translate: `${x}px ${y - PIN_SIZE}px`,
+  width: PIN_SIZE,
+  height: PIN_SIZE,
+  padding: 0,
+  border: "2px solid white",
+  borderRadius: "50% 50% 50% 0",
+  background: color,
+  color: "white",
+  fontSize: 11,
+  fontWeight: 600,
+  boxShadow: "var(--shadow-3)",
+  cursor: "pointer",
+});
+
+const popoverProps = {
+  side: "right",
+  align: "start",
+  width: "300px",
+  // Keys typed into comments aren't editor shortcuts
+  onKeyDown: (event: React.KeyboardEvent) => event.stopPropagation(),
+  onPointerDown: (event: React.PointerEvent) => event.stopPropagation(),
+} as const;
+
+/**
+ * Comment pins over the design. Pins anchored to an element follow it as it
+ * moves, pins of deleted elements are hidden until the element is restored.
+ */
+export const CommentLayer = ({
+  editor,
+  threads,
+  currentUser,
+  draftAnchor,
+  onDraftSubmit,
+  onDraftCancel,
+  onReply,
+  onResolvedChange,
+  onThreadDelete,
+  onReplyDelete,
+}: CommentLayerProps) => {
+  const value = useStore(editor.stateStore, (state) => state.value);
+  const draftPoint = draftAnchor && getCommentAnchorPoint(value, draftAnchor);
+
+  return (
+    <>
+      {threads.map((thread, index) => {
+        const { comment, replies } = thread;
+        const point = comment.anchor
+          ? getCommentAnchorPoint(value, comment.anchor)
+          : null;
+        if (!point) return null;
+
+        return (
+          <Popover.Root key={comment.id}>
+            <Popover.Trigger>
+              <button
+                type="button"
+                title={`${comment.author.name}: ${comment.body}`}
+                style={getPinStyle(
+                  point.x,
+                  point.y,
+                  // Resolved threads fade into the background
+                  comment.resolved ? "var(--gray-8)" : comment.author.color,
+                )}
+              >
+                {index + 1}
+              </button>
+            </Popover.Trigger>
+            <Popover.Content {...popoverProps}>
+              <Flex direction="column" gap="3">
+                <Flex align="center" justify="between">
+                  <Text size="1" color="gray">
+                    {comment.resolved ? "Resolved" : `Thread #${index + 1}`}
+                  </Text>
+                  <Button
+                    size="1"
+                    variant="soft"
+                    color={comment.resolved ? "gray" : "green"}
+                    onClick={() => onResolvedChange(thread, !comment.resolved)}
+                  >
+                    {comment.resolved ? (
+                      <RotateCcw size={12} />
+                    ) : (
+                      <Check size={12} />
+                    )}
+                    {comment.resolved ? "Reopen" : "Resolve"}
+                  </Button>
+                </Flex>
+                <CommentItem
+                  comment={comment}
+                  onDelete={
+                    comment.author.id === currentUser.id
+                      ? () => onThreadDelete(thread)
+                      : undefined
+                  }
+                />
+                {replies.map((reply) => (
+                  <CommentItem
+                    key={reply.id}
+                    comment={reply}
+                    onDelete={
+                      reply.author.id === currentUser.id
+                        ? () => onReplyDelete(reply.id)
+                        : undefined
+                    }
+                  />
+                ))}
+                <CommentForm
+                  placeholder="Reply"
+                  submitLabel="Reply"
+                  onSubmit={(body) => onReply(thread, body)}
+                />
+              </Flex>
+            </Popover.Content>
+          </Popover.Root>
+        );
+      })}
+      {draftPoint && (
+        <Popover.Root
+          open
+          onOpenChange={(isOpen) => {
+            if (!isOpen) {
+              onDraftCancel();
+            }
+          }}
+        >
+          <Popover.Trigger>
+            <button
+              type="button"
+              title="New comment"
+              style={getPinStyle(draftPoint.x, draftPoint.y, currentUser.color)}
+            >
+              +
+            </button>
+          </Popover.Trigger>
+          <Popover.Content {...popoverProps}>
+            <CommentForm
+              placeholder="Add a comment"
+              submitLabel="Comment"
+              onSubmit={onDraftSubmit}
+            />
+          </Popover.Content>
+        </Popover.Root>
+      )}
+    </>
+  );
+};
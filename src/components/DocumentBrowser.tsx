@@ -0,0 +1,197 @@
+import {
+  Box,
+  Button,
+  Card,
+  Flex,
+  Grid,
+  Heading,
+  IconButton,
+  Text,
+} from "@radix-ui/themes";
+import { Copy, Pencil, Plus, Trash2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+
+import type { AuthProvider, AuthUser } from "../auth";
+import {
+  createDocument,
+  duplicateDocument,
+  renameDocument,
+} from "../documents";
+import type { DesignDocument, DesignStorage } from "../storage";
+import { ProfileDialog } from "./ProfileDialog";
+import { UserAvatar } from "./UserAvatar";
+
+interface DocumentBrowserProps {
+  storage: DesignStorage;
+  auth: AuthProvider;
+  user: AuthUser;
+  onOpen: (documentId: string) => void;
+}
+
+interface DocumentCardProps {
+  document: DesignDocument;
+  onOpen: () => void;
+  onRename: (title: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+const DocumentCard = ({
+  document,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: DocumentCardProps) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+
+  return (
+    <Card style={{ padding: 0 }}>
+      <Box
+        onClick={onOpen}
+        style={{
+          aspectRatio: "4 / 3",
+          background: "var(--gray-3)",
+          cursor: "pointer",
+        }}
+      >
+        {document.thumbnail && (
+          <img
+            src={document.thumbnail}
+            alt=""
+            style={{ width: "100%", height: "100%", objectFit: "contain" }}
+          />
+        )}
+      </Box>
+      <Flex align="center" gap="2" p="2">
+        <Box style={{ flex: 1, minWidth: 0 }}>
+          {isRenaming ? (
+            <input
+              type="text"
+              defaultValue={document.title}
+              autoFocus
+              onBlur={(event) => {
+                setIsRenaming(false);
+                if (event.target.value !== document.title) {
+                  onRename(event.target.value);
+                }
+              }}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  event.currentTarget.blur();
+                } else if (event.key === "Escape") {
+                  event.currentTarget.value = document.title;
+                  event.currentTarget.blur();
+                }
+              }}
+              style={{ width: "100%" }}
+            />
+          ) : (
+            <Text as="div" size="2" weight="medium" truncate>
+              {document.title}
+            </Text>
+          )}
+          <Text as="div" size="1" color="gray">
+            Edited {new Date(document.modifiedAt).toLocaleString()}
+          </Text>
+        </Box>
+        <IconButton
+          size="1"
+          variant="ghost"
+          color="gray"
+          title="Rename"
+          onClick={() => setIsRenaming(true)}
+        >
+          <Pencil size={14} />
+        </IconButton>
+        <IconButton
+          size="1"
+          variant="ghost"
+          color="gray"
+          title="Duplicate"
+          onClick={onDuplicate}
+        >
+          <Copy size={14} />
+        </IconButton>
+        <IconButton
+          size="1"
+          variant="ghost"
+          color="red"
+          title="Delete"
+          onClick={onDelete}
+        >
+          <Trash2 size={14} />
+        </IconButton>
+      </Flex>
+    </Card>
+  );
+};
+
+export const DocumentBrowser = ({
+  storage,
+  auth,
+  user,
+  onOpen,
+}: DocumentBrowserProps) => {
+  const [documents, setDocuments] = useState<DesignDocument[]>([]);
+
+  const refresh = useCallback(async () => {
+    setDocuments(await storage.listDocuments());
+  }, [storage]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleCreate = async () => {
+    const document = await createDocument(storage);
+    onOpen(document.id);
+  };
+
+  const handleDelete = async (document: DesignDocument) => {
+    if (!window.confirm(`Delete "${document.title}"?`)) return;
+
+    await storage.deleteDocument(document.id);
+    await refresh();
+  };
+
+  return (
+    <Box p="6" style={{ minHeight: "100vh", background: "var(--gray-2)" }}>
+      <Flex align="center" justify="between" mb="5">
+        <Heading size="6">Documents</Heading>
+        <Flex align="center" gap="3">
+          <Button onClick={() => void handleCreate()}>
+            <Plus size={16} />
+            New document
+          </Button>
+          <ProfileDialog auth={auth} user={user}>
+            <IconButton variant="ghost" radius="full" title={user.name}>
+              <UserAvatar user={user} size={28} />
+            </IconButton>
+          </ProfileDialog>
+        </Flex>
+      </Flex>
+      {documents.length === 0 && (
+        <Text size="2" color="gray">
+          No documents yet
+        </Text>
+      )}
+      <Grid columns="repeat(auto-fill, minmax(240px, 1fr))" gap="4">
+        {documents.map((document) => (
+          <DocumentCard
+            key={document.id}
+            document={document}
+            onOpen={() => onOpen(document.id)}
+            onRename={(title) =>
+              void renameDocument(storage, document.id, title).then(refresh)
+            }
+            onDuplicate={() =>
+              void duplicateDocument(storage, document.id).then(refresh)
+            }
+            onDelete={() => void handleDelete(document)}
+          />
+        ))}
+      </Grid>
+    </Box>
+  );
+};
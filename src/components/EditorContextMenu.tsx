@@ -14,22 +14,13 @@ export const EditorContextMenu = ({
 }: EditorContextMenuProps) => {
   const { selection, value } = useStore(editor.stateStore);
   const hasSelection = !!selection;
-
-  const selectedElement = selection && value
-    ? value.shapes?.[selection.id] ||
-      value.texts?.[selection.id] ||
-      value.images?.[selection.id]
-    : null;
+  const canGroup = !!selection && selection.ids.length > 1;
+  const canUngroup =
+    !!selection && selection.ids.some((id) => value.groups?.[id]);
 
   const handleDelete = () => {
-    if (selection && selectedElement) {
-      if (selectedElement.type === "shape") {
-        editor.deleteShapes([selection.id]);
-      } else if (selectedElement.type === "text") {
-        editor.deleteTexts([selection.id]);
-      } else if (selectedElement.type === "image") {
-        editor.deleteImages([selection.id]);
-      }
+    if (selection) {
+      editor.deleteElements(selection.ids);
       editor.setSelection(null);
     }
   };
@@ -40,12 +31,58 @@ export const EditorContextMenu = ({
         <div style={{ display: "inline-block" }}>{children}</div>
       </ContextMenu.Trigger>
       <ContextMenu.Content>
+        <ContextMenu.Item
+          disabled={!canGroup}
+          onClick={() => selection && editor.groupElements(selection.ids)}
+          shortcut="⌘ G"
+        >
+          Group
+        </ContextMenu.Item>
+        <ContextMenu.Item
+          disabled={!canUngroup}
+          onClick={() => selection && editor.ungroupElements(selection.ids)}
+          shortcut="⌘ ⇧ G"
+        >
+          Ungroup
+        </ContextMenu.Item>
+        <ContextMenu.Separator />
+        <ContextMenu.Item
+          disabled={!hasSelection}
+          onClick={() => selection && editor.bringToFront(selection.ids)}
+          shortcut="⌘ ⇧ ]"
+        >
+          Bring to Front
+        </ContextMenu.Item>
+        <ContextMenu.Item
+          disabled={!hasSelection}
+          onClick={() => selection && editor.bringForward(selection.ids)}
+          shortcut="⌘ ]"
+        >
+          Bring Forward
+        </ContextMenu.Item>
+        <ContextMenu.Item
+          disabled={!hasSelection}
+          onClick={() => selection && editor.sendBackward(selection.ids)}
+          shortcut="⌘ ["
+        >
+          Send Backward
+        </ContextMenu.Item>
+        <ContextMenu.Item
+          disabled={!hasSelection}
+          onClick={() => selection && editor.sendToBack(selection.ids)}
+          shortcut="⌘ ⇧ ["
+        >
+          Send to Back
+        </ContextMenu.Item>
+        <ContextMenu.Separator />
         <ContextMenu.Item
           disabled={!hasSelection}
           onClick={handleDelete}
           shortcut="⌫"
         >
-          Delete
+          {selection && selection.ids.length > 1
+            ? `Delete ${selection.ids.length} elements`
+            : "Delete"}
         </ContextMenu.Item>
       </ContextMenu.Content>
     </ContextMenu.Root>
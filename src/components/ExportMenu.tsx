@@ -3,28 +3,27 @@ import { Download, FileImage, FileText, Image, Upload } from "lucide-react";
 
 import type { DesignEditor } from "../editor";
 import {
-  exportToJSON,
+  exportDesignFile,
   exportToPDF,
   exportToPNG,
   exportToSVG,
   getTimestampFilename,
-  importFromJSON,
+  importDesignFile,
   importImage,
 } from "../utils/exportUtils";
 
 interface ExportMenuProps {
   editor: DesignEditor;
-  canvasRef?: React.RefObject<HTMLDivElement | null>;
 }
 
-export const ExportMenu = ({ editor, canvasRef }: ExportMenuProps) => {
-  const handleExportJSON = () => {
+export const ExportMenu = ({ editor }: ExportMenuProps) => {
+  const handleExportDesignFile = () => {
     const filename = getTimestampFilename("design");
-    exportToJSON(editor.state.value, filename);
+    exportDesignFile(editor.state.value, filename);
   };
 
-  const handleImportJSON = async () => {
-    const designValue = await importFromJSON();
+  const handleImportDesignFile = async () => {
+    const designValue = await importDesignFile();
     if (designValue) {
       editor.loadDesign(designValue);
     }
@@ -56,29 +55,21 @@ export const ExportMenu = ({ editor, canvasRef }: ExportMenuProps) => {
 
   const handleExportSVG = () => {
     const filename = getTimestampFilename("design");
-    exportToSVG(
-      canvasRef?.current || document.createElement("div"),
-      editor.state.value,
-      filename,
-    );
+    void exportToSVG(editor.state.value, filename);
   };
 
+  // Exports the selected elements when there are any, the whole design
+  // otherwise
   const handleExportPNG = () => {
-    if (!canvasRef?.current) {
-      alert("Canvas not found. Please try again.");
-      return;
-    }
     const filename = getTimestampFilename("design");
-    void exportToPNG(canvasRef.current, filename);
+    void exportToPNG(editor.state.value, filename, {
+      elementIds: editor.state.selection?.ids,
+    });
   };
 
   const handleExportPDF = () => {
-    if (!canvasRef?.current) {
-      alert("Canvas not found. Please try again.");
-      return;
-    }
     const filename = getTimestampFilename("design");
-    void exportToPDF(canvasRef.current, editor.state.value, filename);
+    void exportToPDF(editor.state.value, filename);
   };
 
   return (
@@ -88,7 +79,7 @@ export const ExportMenu = ({ editor, canvasRef }: ExportMenuProps) => {
         <Button
           variant="soft"
           size="1"
-          onClick={handleImportJSON}
+          onClick={handleImportDesignFile}
           style={{ flex: 1, fontSize: "11px" }}
         >
           <Upload size={12} />
@@ -108,7 +99,7 @@ export const ExportMenu = ({ editor, canvasRef }: ExportMenuProps) => {
         <Button
           variant="soft"
           size="1"
-          onClick={handleExportJSON}
+          onClick={handleExportDesignFile}
           style={{ flex: 1, fontSize: "11px" }}
         >
           <Download size={12} />
@@ -0,0 +1,69 @@
+import { Box, Flex, Heading, Text } from "@radix-ui/themes";
+import { useStore } from "zustand";
+
+import type { DesignEditor } from "../editor";
+
+interface HistoryPanelProps {
+  editor: DesignEditor;
+}
+
+interface HistoryRowProps {
+  label: string;
+  isCurrent: boolean;
+  isUndone: boolean;
+  onClick: () => void;
+}
+
+const HistoryRow = ({
+  label,
+  isCurrent,
+  isUndone,
+  onClick,
+}: HistoryRowProps) => (
+  <Flex
+    align="center"
+    onClick={onClick}
+    style={{
+      height: 28,
+      paddingInline: 8,
+      borderRadius: "var(--radius-2)",
+      background: isCurrent ? "var(--accent-4)" : undefined,
+      opacity: isUndone ? 0.5 : 1,
+      cursor: "default",
+    }}
+  >
+    <Text size="2" truncate>
+      {label}
+    </Text>
+  </Flex>
+);
+
+export const HistoryPanel = ({ editor }: HistoryPanelProps) => {
+  const { historyEntries, historyIndex } = useStore(editor.stateStore);
+
+  return (
+    <Box p="4">
+      <Heading size="3" mb="4">
+        History
+      </Heading>
+      <Flex direction="column" gap="1">
+        {/* Jumping to the first row undoes every recorded command */}
+        <HistoryRow
+          label="Start"
+          isCurrent={historyIndex === -1}
+          isUndone={false}
+          onClick={() => editor.jumpToHistory(-1)}
+        />
+        {historyEntries.map((description, index) => (
+          <HistoryRow
+            key={index}
+            label={description}
+            isCurrent={index === historyIndex}
+            isUndone={index > historyIndex}
+            onClick={() => editor.jumpToHistory(index)}
+          />
+        ))}
+      </Flex>
+    </Box>
+  );
+};
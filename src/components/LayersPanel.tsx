@@ -0,0 +1,172 @@
+import { Box, Flex, Heading, IconButton, Text } from "@radix-ui/themes";
+import {
+  Eye,
+  EyeOff,
+  Group,
+  Image,
+  Lock,
+  LockOpen,
+  Square,
+  Type,
+} from "lucide-react";
+import { useState } from "react";
+import { useStore } from "zustand";
+
+import {
+  type DesignEditor,
+  type Element,
+  createSelection,
+  getElementLabel,
+  getLayerRows,
+  isElementHidden,
+  isSelected,
+  toggleSelection,
+} from "../editor";
+
+interface LayersPanelProps {
+  editor: DesignEditor;
+}
+
+const LAYER_ICONS: Record<Element["type"], React.ElementType> = {
+  shape: Square,
+  text: Type,
+  image: Image,
+  group: Group,
+};
+
+interface LayerNameProps {
+  element: Element;
+  onRename: (name: string) => void;
+}
+
+const LayerName = ({ element, onRename }: LayerNameProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const label = getElementLabel(element);
+
+  if (isEditing) {
+    return (
+      <input
+        type="text"
+        defaultValue={label}
+        autoFocus
+        onClick={(event) => event.stopPropagation()}
+        onBlur={(event) => {
+          setIsEditing(false);
+          if (event.target.value !== label) {
+            onRename(event.target.value);
+          }
+        }}
+        onKeyDown={(event) => {
+          // Keep Delete/Backspace from deleting the selected element
+          event.stopPropagation();
+          if (event.key === "Enter") {
+            event.currentTarget.blur();
+          } else if (event.key === "Escape") {
+            event.currentTarget.value = label;
+            event.currentTarget.blur();
+          }
+        }}
+        style={{
+          flex: 1,
+          minWidth: 0,
+          height: 22,
+          border: "1px solid var(--gray-6)",
+          borderRadius: "var(--radius-1)",
+          padding: "0 4px",
+          backgroundColor: "var(--color-background)",
+          color: "var(--gray-12)",
+        }}
+      />
+    );
+  }
+
+  return (
+    <Text
+      size="2"
+      truncate
+      style={{ flex: 1, minWidth: 0 }}
+      onDoubleClick={() => setIsEditing(true)}
+    >
+      {label}
+    </Text>
+  );
+};
+
+export const LayersPanel = ({ editor }: LayersPanelProps) => {
+  const { value, selection } = useStore(editor.stateStore);
+  const rows = getLayerRows(value);
+
+  return (
+    <Box p="4">
+      <Heading size="3" mb="4">
+        Layers
+      </Heading>
+      {rows.length === 0 && (
+        <Text size="2" color="gray">
+          No elements yet
+        </Text>
+      )}
+      <Flex direction="column" gap="1">
+        {rows.map(({ element, depth }) => {
+          const Icon = LAYER_ICONS[element.type];
+          const isRowSelected = isSelected(selection, element.id);
+          const isDimmed = isElementHidden(value, element.id);
+
+          return (
+            <Flex
+              key={element.id}
+              align="center"
+              gap="2"
+              onClick={(event) => {
+                editor.setSelection(
+                  event.shiftKey
+                    ? toggleSelection(selection, element.id)
+                    : createSelection([element.id]),
+                );
+              }}
+              style={{
+                height: 28,
+                paddingLeft: 4 + depth * 16,
+                paddingRight: 4,
+                borderRadius: "var(--radius-2)",
+                background: isRowSelected ? "var(--accent-4)" : undefined,
+                opacity: isDimmed ? 0.5 : 1,
+                cursor: "default",
+              }}
+            >
+              <Icon size={14} strokeWidth={1.5} style={{ flexShrink: 0 }} />
+              <LayerName
+                element={element}
+                onRename={(name) => editor.renameElement(element.id, name)}
+              />
+              <IconButton
+                size="1"
+                variant="ghost"
+                color="gray"
+                title={element.hidden ? "Show" : "Hide"}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  editor.setElementsHidden([element.id], !element.hidden);
+                }}
+              >
+                {element.hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+              </IconButton>
+              <IconButton
+                size="1"
+                variant="ghost"
+                color="gray"
+                title={element.locked ? "Unlock" : "Lock"}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  editor.setElementsLocked([element.id], !element.locked);
+                }}
+              >
+                {element.locked ? <Lock size={14} /> : <LockOpen size={14} />}
+              </IconButton>
+            </Flex>
+          );
+        })}
+      </Flex>
+    </Box>
+  );
+};
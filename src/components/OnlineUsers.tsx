@@ -1,14 +1,65 @@
-import { Box, Flex, Text } from "@radix-ui/themes";
+import { Box, Flex, IconButton, Popover, Select, Text } from "@radix-ui/themes";
+import { Users } from "lucide-react";
 
-import type { CollaborativeService } from "../firebase/collaborative";
+import type { AuthProvider, AuthUser } from "../auth";
+import {
+  ROOM_ROLES,
+  type RoomPresence,
+  type RoomRole,
+  type RoomRoles,
+  type RoomUser,
+  isRoomRole,
+} from "../collaboration";
+import { ProfileDialog } from "./ProfileDialog";
+import { UserAvatar } from "./UserAvatar";
 
 interface OnlineUsersProps {
-  users: any[];
-  collaborative: CollaborativeService;
+  users: RoomUser[];
+  presences: RoomPresence[];
+  roles: RoomRoles;
+  auth: AuthProvider;
+  currentUser: AuthUser;
+  followingUserId: string | null;
+  // Called with the user to follow, or null to stop following
+  onFollow: (userId: string | null) => void;
+  onRoleChange: (userId: string, role: RoomRole) => void;
 }
 
-export const OnlineUsers = ({ users, collaborative }: OnlineUsersProps) => {
-  const currentUser = collaborative.getUserInfo();
+const ROLE_LABELS: Record<RoomRole, string> = {
+  owner: "Owner",
+  editor: "Can edit",
+  viewer: "Can view",
+};
+
+// Describes what a user is doing, e.g. "typing" or "using the text tool"
+const describeActivity = (presence: RoomPresence | undefined) => {
+  if (presence?.editingTextId) return "typing";
+  if (presence?.tool) return `using the ${presence.tool} tool`;
+  return null;
+};
+
+const avatarButtonStyle = {
+  position: "relative",
+  width: "14px",
+  height: "14px",
+  padding: 0,
+  border: "none",
+  borderRadius: "50%",
+  background: "none",
+  cursor: "pointer",
+} as const;
+
+export const OnlineUsers = ({
+  users,
+  presences,
+  roles,
+  auth,
+  currentUser,
+  followingUserId,
+  onFollow,
+  onRoleChange,
+}: OnlineUsersProps) => {
+  const isOwner = roles[currentUser.id] === "owner";
 
   return (
     <Box
@@ -27,54 +78,66 @@ export const OnlineUsers = ({ users, collaborative }: OnlineUsersProps) => {
       }}
     >
       <Flex align="center" gap="1" wrap="wrap">
-        {/* 当前用户 */}
-        <Box
-          style={{
-            width: "14px",
-            height: "14px",
-            borderRadius: "50%",
-            backgroundColor: currentUser.color,
-            display: "flex",
-            alignItems: "center",
-            justifyContent: "center",
-            boxShadow: `0 0 0 2px white, 0 0 0 3px ${currentUser.color}`,
-          }}
-          title={`${currentUser.name} (你)`}
-        >
-          <Text
-            size="1"
-            weight="bold"
-            style={{ color: "white", fontSize: "7px" }}
-          >
-            {currentUser.name.slice(-1)}
-          </Text>
-        </Box>
-
-        {/* 其他用户 */}
-        {users.slice(0, 4).map((user) => (
+        {/* 当前用户，点击编辑名称和头像 */}
+        <ProfileDialog auth={auth} user={currentUser}>
           <Box
-            key={user.id}
+            asChild
             style={{
-              width: "14px",
-              height: "14px",
-              borderRadius: "50%",
-              backgroundColor: user.color,
-              display: "flex",
-              alignItems: "center",
-              justifyContent: "center",
-              boxShadow: `0 0 0 1px white`,
+              ...avatarButtonStyle,
+              boxShadow: `0 0 0 2px white, 0 0 0 3px ${currentUser.color}`,
             }}
-            title={user.name}
           >
-            <Text
-              size="1"
-              weight="bold"
-              style={{ color: "white", fontSize: "7px" }}
-            >
-              {user.name.slice(-1)}
-            </Text>
+            <button type="button" title={`${currentUser.name} (你)`}>
+              <UserAvatar user={currentUser} />
+            </button>
           </Box>
-        ))}
+        </ProfileDialog>
+
+        {/* 其他用户，点击跟随其视口和选区 */}
+        {users.slice(0, 4).map((user) => {
+          const presence = presences.find(({ id }) => id === user.id);
+          const activity = describeActivity(presence);
+          const isFollowing = user.id === followingUserId;
+
+          return (
+            <Box
+              key={user.id}
+              asChild
+              style={{
+                ...avatarButtonStyle,
+                boxShadow: isFollowing
+                  ? `0 0 0 2px white, 0 0 0 3px ${user.color}`
+                  : `0 0 0 1px white`,
+              }}
+            >
+              <button
+                type="button"
+                title={[
+                  activity ? `${user.name} (${activity})` : user.name,
+                  isFollowing ? "Click to stop following" : "Click to follow",
+                ].join(" · ")}
+                onClick={() => onFollow(isFollowing ? null : user.id)}
+              >
+                <UserAvatar user={user} />
+                {presence?.editingTextId && (
+                  // 正在编辑文本的标记
+                  <Box
+                    style={{
+                      position: "absolute",
+                      right: "-2px",
+                      bottom: "-2px",
+                      width: "6px",
+                      height: "6px",
+                      borderRadius: "50%",
+                      backgroundColor: "white",
+                      boxShadow: `inset 0 0 0 2px ${user.color}`,
+                    }}
+                  />
+                )}
+              </button>
+            </Box>
+          );
+        })}
 
         {users.length > 4 && (
           <Text
@@ -84,6 +147,58 @@ export const OnlineUsers = ({ users, collaborative }: OnlineUsersProps) => {
             +{users.length - 4}
           </Text>
         )}
+
+        {/* 成员和角色，所有者可以修改其他成员的角色 */}
+        <Popover.Root>
+          <Popover.Trigger>
+            <IconButton size="1" variant="ghost" color="gray" title="Members">
+              <Users size={12} />
+            </IconButton>
+          </Popover.Trigger>
+          <Popover.Content side="bottom" align="start" width="260px">
+            <Flex direction="column" gap="2">
+              {[currentUser, ...users].map((user) => {
+                const role = roles[user.id];
+                const canChangeRole = isOwner && user.id !== currentUser.id;
+
+                return (
+                  <Flex key={user.id} align="center" gap="2">
+                    <UserAvatar user={user} size={20} />
+                    <Text size="2" truncate style={{ flex: 1 }}>
+                      {user.id === currentUser.id
+                        ? `${user.name} (你)`
+                        : user.name}
+                    </Text>
+                    {canChangeRole && role ? (
+                      <Select.Root
+                        size="1"
+                        value={role}
+                        onValueChange={(nextRole) => {
+                          if (isRoomRole(nextRole)) {
+                            onRoleChange(user.id, nextRole);
+                          }
+                        }}
+                      >
+                        <Select.Trigger variant="ghost" />
+                        <Select.Content>
+                          {ROOM_ROLES.map((option) => (
+                            <Select.Item key={option} value={option}>
+                              {ROLE_LABELS[option]}
+                            </Select.Item>
+                          ))}
+                        </Select.Content>
+                      </Select.Root>
+                    ) : (
+                      <Text size="1" color="gray">
+                        {role ? ROLE_LABELS[role] : ""}
+                      </Text>
+                    )}
+                  </Flex>
+                );
+              })}
+            </Flex>
+          </Popover.Content>
+        </Popover.Root>
       </Flex>
     </Box>
   );
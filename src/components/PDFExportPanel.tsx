@@ -0,0 +1,117 @@
+import { Button, Flex, Select, Text } from "@radix-ui/themes";
+import { useState } from "react";
+
+import type { PaperSize } from "../editor";
+
+const PAPER_SIZE_LABELS: Record<PaperSize, string> = {
+  fit: "Fit to design",
+  a4: "A4",
+  a3: "A3",
+  letter: "Letter",
+  legal: "Legal",
+};
+
+// A single page with the whole design, or one per top-level element or
+// group, which serve as artboards
+export type PDFPageMode = "design" | "elements";
+
+const PAGE_MODE_LABELS: Record<PDFPageMode, string> = {
+  design: "Whole design",
+  elements: "One per element",
+};
+
+// Margins in points
+const MARGINS = [
+  { label: "None", value: 0 },
+  { label: "Narrow (0.5 in)", value: 36 },
+  { label: "Normal (1 in)", value: 72 },
+];
+
+const isPaperSize = (value: string): value is PaperSize =>
+  value in PAPER_SIZE_LABELS;
+
+const isPageMode = (value: string): value is PDFPageMode =>
+  value in PAGE_MODE_LABELS;
+
+interface PDFExportPanelProps {
+  onExport: (options: {
+    pageMode: PDFPageMode;
+    paperSize: PaperSize;
+    margin: number;
+  }) => void;
+}
+
+export const PDFExportPanel = ({ onExport }: PDFExportPanelProps) => {
+  const [pageMode, setPageMode] = useState<PDFPageMode>("design");
+  const [paperSize, setPaperSize] = useState<PaperSize>("fit");
+  const [margin, setMargin] = useState(0);
+
+  return (
+    <Flex direction="column" gap="2" width="200px">
+      <Text size="1" weight="medium">
+        Pages
+      </Text>
+      <Select.Root
+        size="1"
+        value={pageMode}
+        onValueChange={(value) => {
+          if (isPageMode(value)) setPageMode(value);
+        }}
+      >
+        <Select.Trigger />
+        <Select.Content>
+          {Object.entries(PAGE_MODE_LABELS).map(([value, label]) => (
+            <Select.Item key={value} value={value}>
+              {label}
+            </Select.Item>
+          ))}
+        </Select.Content>
+      </Select.Root>
+
+      <Text size="1" weight="medium">
+        Paper size
+      </Text>
+      <Select.Root
+        size="1"
+        value={paperSize}
+        onValueChange={(value) => {
+          if (isPaperSize(value)) setPaperSize(value);
+        }}
+      >
+        <Select.Trigger />
+        <Select.Content>
+          {Object.entries(PAPER_SIZE_LABELS).map(([value, label]) => (
+            <Select.Item key={value} value={value}>
+              {label}
+            </Select.Item>
+          ))}
+        </Select.Content>
+      </Select.Root>
+
+      <Text size="1" weight="medium">
+        Margin
+      </Text>
+      <Select.Root
+        size="1"
+        value={String(margin)}
+        onValueChange={(value) => setMargin(Number(value))}
+      >
+        <Select.Trigger />
+        <Select.Content>
+          {MARGINS.map(({ label, value }) => (
+            <Select.Item key={value} value={String(value)}>
+              {label}
+            </Select.Item>
+          ))}
+        </Select.Content>
+      </Select.Root>
+
+      <Button
+        size="1"
+        onClick={() => onExport({ pageMode, paperSize, margin })}
+      >
+        Export PDF
+      </Button>
+    </Flex>
+  );
+};
@@ -0,0 +1,91 @@
+import { Button, Dialog, Flex, Text, TextField } from "@radix-ui/themes";
+import { useState } from "react";
+
+import { AVATARS, type AuthProvider, type AuthUser } from "../auth";
+import { UserAvatar } from "./UserAvatar";
+
+interface ProfileDialogProps {
+  auth: AuthProvider;
+  user: AuthUser;
+  // Opens the dialog when clicked
+  children: React.ReactNode;
+}
+
+export const ProfileDialog = ({ auth, user, children }: ProfileDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState(user.name);
+  const [avatar, setAvatar] = useState(user.avatar);
+
+  const handleOpenChange = (isNextOpen: boolean) => {
+    // Start from the saved profile every time
+    if (isNextOpen) {
+      setName(user.name);
+      setAvatar(user.avatar);
+    }
+    setIsOpen(isNextOpen);
+  };
+
+  const handleSave = async () => {
+    await auth.updateProfile({ name, avatar });
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      <Dialog.Trigger>{children}</Dialog.Trigger>
+      <Dialog.Content maxWidth="360px">
+        <Dialog.Title>Profile</Dialog.Title>
+        <Flex direction="column" gap="3">
+          <label>
+            <Text as="div" size="2" weight="medium" mb="1">
+              Display name
+            </Text>
+            <TextField.Root
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </label>
+          <div>
+            <Text as="div" size="2" weight="medium" mb="1">
+              Avatar
+            </Text>
+            <Flex gap="2" wrap="wrap">
+              {[undefined, ...AVATARS].map((option) => (
+                <Button
+                  key={option ?? "initial"}
+                  size="1"
+                  variant={option === avatar ? "solid" : "soft"}
+                  color="gray"
+                  title={option ? undefined : "Use the name's initial"}
+                  onClick={() => setAvatar(option)}
+                >
+                  <UserAvatar
+                    user={{ name, color: user.color, avatar: option }}
+                    size={18}
+                  />
+                </Button>
+              ))}
+            </Flex>
+          </div>
+        </Flex>
+        <Flex gap="3" mt="4" justify="between">
+          <Button
+            variant="soft"
+            color="red"
+            onClick={() => void auth.signOut()}
+          >
+            Sign out
+          </Button>
+          <Flex gap="3">
+            <Dialog.Close>
+              <Button variant="soft" color="gray">
+                Cancel
+              </Button>
+            </Dialog.Close>
+            <Button onClick={() => void handleSave()}>Save</Button>
+          </Flex>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+};
@@ -11,7 +11,13 @@ import type { ReactNode } from "react";
 import { useState } from "react";
 import { useStore } from "zustand";
 
-import type { DesignEditor, ShapeFill } from "../editor";
+import {
+  type DesignEditor,
+  type ShapeDef,
+  type ShapeFill,
+  getElements,
+} from "../editor";
+import { singleOrNull } from "../utils";
 import { optimizeText } from "../utils/aiText";
 import { RightPanelSection } from "./RightPanelSection";
 
@@ -45,15 +51,28 @@ export const RightPanel = ({ editor }: RightPanelProps) => {
   const { value, selection } = useStore(editor.stateStore);
   const [isAIOptimizing, setIsAIOptimizing] = useState(false);
 
+  // Slider drags preview their updates and are recorded as a single history
+  // entry once the pointer is released. Keyboard steps are recorded one by one.
+  const getSliderTransactionProps = (operation: string) => ({
+    onPointerDown: () => editor.beginTransaction(operation),
+    onLostPointerCapture: () => editor.commitTransaction(),
+  });
+
+  const selectedElements = selection ? getElements(value, selection.ids) : [];
+  const selectedShapes = selectedElements.filter(
+    (element): element is ShapeDef => element.type === "shape",
+  );
+  const singleElement = singleOrNull(selectedElements);
+
+  // A multi-selection can be edited together only when every element is a shape
   const selectedShape =
-    selection && value?.shapes ? value.shapes[selection.id] : null;
-  const selectedText =
-    selection && value?.texts ? value.texts[selection.id] : null;
-  const selectedImage =
-    selection && value?.images ? value.images[selection.id] : null;
-  const selectedElement = selectedShape || selectedText || selectedImage;
+    selectedShapes.length === selectedElements.length
+      ? (selectedShapes[0] ?? null)
+      : null;
+  const selectedText = singleElement?.type === "text" ? singleElement : null;
+  const selectedImage = singleElement?.type === "image" ? singleElement : null;
 
-  if (!selectedElement) {
+  if (selectedElements.length === 0) {
     return (
       <Box p="5">
         <Heading size="3" mb="4">
@@ -64,6 +83,38 @@ export const RightPanel = ({ editor }: RightPanelProps) => {
     );
   }
 
+  if (singleElement?.type === "group") {
+    return (
+      <Box p="5">
+        <Heading size="3" mb="4">
+          Group Properties
+        </Heading>
+        <Flex direction="column" gap="3">
+          <Text size="2">{singleElement.children.length} elements</Text>
+          <Button
+            variant="soft"
+            onClick={() => editor.ungroupElements([singleElement.id])}
+          >
+            Ungroup
+          </Button>
+        </Flex>
+      </Box>
+    );
+  }
+
+  if (!selectedShape && !selectedText && !selectedImage) {
+    return (
+      <Box p="5">
+        <Heading size="3" mb="4">
+          Properties
+        </Heading>
+        <Text size="2">{selectedElements.length} elements selected</Text>
+      </Box>
+    );
+  }
+
+  const selectedShapeIds = selectedShapes.map((shape) => shape.id);
+
   // 处理异步优化操作
   const handleOptimizeText = async (
     action: "improve" | "shorten" | "expand" | "tone",
@@ -134,6 +185,7 @@ export const RightPanel = ({ editor }: RightPanelProps) => {
                 min={8}
                 max={72}
                 value={[selectedText.fontSize]}
+                {...getSliderTransactionProps("Update text size")}
                 onValueChange={(value) => {
                   editor.updateTextStyle(selectedText.id, {
                     fontSize: value[0] ?? 16,
@@ -283,6 +335,7 @@ export const RightPanel = ({ editor }: RightPanelProps) => {
                     min={0}
                     max={100}
                     value={[(selectedImage.opacity || 1) * 100]}
+                    {...getSliderTransactionProps("Update image opacity")}
                     onValueChange={(value) => {
                       editor.updateImageOpacity(
                         selectedImage.id,
@@ -315,7 +368,7 @@ export const RightPanel = ({ editor }: RightPanelProps) => {
   }) => {
     if (!selectedShape) return;
     editor.updateShapePaths({
-      ids: [selectedShape.id],
+      ids: selectedShapeIds,
       attributes: updates,
     });
   };
@@ -323,7 +376,9 @@ export const RightPanel = ({ editor }: RightPanelProps) => {
   return (
     <Box p="4">
       <Heading size="3" mb="4">
-        Shape Properties
+        {selectedShapes.length > 1
+          ? `Shape Properties (${selectedShapes.length})`
+          : "Shape Properties"}
       </Heading>
 
       <Flex direction="column" gap="3">
@@ -414,6 +469,7 @@ export const RightPanel = ({ editor }: RightPanelProps) => {
                       min={1}
                       max={20}
                       value={[strokeWeight]}
+                      {...getSliderTransactionProps("Update stroke")}
                       onValueChange={(value) => {
                         updateShapeProperties({
                           stroke: {
@@ -438,10 +494,11 @@ export const RightPanel = ({ editor }: RightPanelProps) => {
                   min={0}
                   max={100}
                   value={[(selectedShape?.transparency || 0) * 100]}
+                  {...getSliderTransactionProps("Update transparency")}
                   onValueChange={(value) => {
                     if (!selectedShape) return;
                     editor.updateShapeAttributes({
-                      ids: [selectedShape.id],
+                      ids: selectedShapeIds,
                       transparency: (value[0] ?? 0) / 100,
                     });
                   }}
@@ -0,0 +1,64 @@
+import { Button, Card, Flex, Heading, Text } from "@radix-ui/themes";
+import { useState } from "react";
+
+import type { AuthMethod, AuthProvider } from "../auth";
+
+const METHOD_LABELS: Record<AuthMethod, string> = {
+  google: "Sign in with Google",
+  anonymous: "Continue as guest",
+};
+
+interface SignInProps {
+  auth: AuthProvider;
+}
+
+export const SignIn = ({ auth }: SignInProps) => {
+  const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSignIn = async (method: AuthMethod) => {
+    setError(null);
+    setIsSigningIn(true);
+    try {
+      await auth.signIn(method);
+    } catch (signInError) {
+      setError(
+        signInError instanceof Error ? signInError.message : "Sign-in failed",
+      );
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <Flex
+      align="center"
+      justify="center"
+      style={{ minHeight: "100vh", background: "var(--gray-2)" }}
+    >
+      <Card size="3" style={{ width: 320 }}>
+        <Flex direction="column" gap="3">
+          <Heading size="5">Sign in to Voyager</Heading>
+          <Text size="2" color="gray">
+            Your name and avatar are shown to the people you design with.
+          </Text>
+          {auth.methods.map((method, index) => (
+            <Button
+              key={method}
+              variant={index === 0 ? "solid" : "soft"}
+              disabled={isSigningIn}
+              onClick={() => void handleSignIn(method)}
+            >
+              {METHOD_LABELS[method]}
+            </Button>
+          ))}
+          {error && (
+            <Text size="2" color="red">
+              {error}
+            </Text>
+          )}
+        </Flex>
+      </Card>
+    </Flex>
+  );
+};
@@ -1,14 +1,31 @@
 import { Box, Flex, IconButton, Popover } from "@radix-ui/themes";
-import { Download, Image, Redo, Shapes, Type, Undo } from "lucide-react";
+import {
+  Download,
+  FileCode,
+  Image,
+  Redo,
+  Shapes,
+  Type,
+  Undo,
+} from "lucide-react";
 import { useState } from "react";
 import { useStore } from "zustand";
 
-import type { DesignEditor, ShapePath, ShapeViewBox } from "../editor";
+import {
+  type DesignEditor,
+  type PaperSize,
+  type ShapePath,
+  type ShapeViewBox,
+  getElementPages,
+  parseSVG,
+} from "../editor";
 import {
   exportToPDF,
   getTimestampFilename,
   importImage,
+  importSVG,
 } from "../utils/exportUtils";
+import { PDFExportPanel, type PDFPageMode } from "./PDFExportPanel";
 import { ShapePanel } from "./ShapePanel";
 
 export type ToolId = "shape" | "text" | null;
@@ -23,26 +40,34 @@ interface ToolPanelProps {
   currentToolId: ToolId;
   onCurrentToolIdChange: (id: ToolId) => void;
   editor: DesignEditor;
-  canvasRef?: React.RefObject<HTMLDivElement | null>;
 }
 
 export const ToolPanel = ({
   currentToolId,
   onCurrentToolIdChange,
   editor,
-  canvasRef,
 }: ToolPanelProps) => {
   const [isShapePopoverOpen, setIsShapePopoverOpen] = useState(false);
+  const [isPDFPopoverOpen, setIsPDFPopoverOpen] = useState(false);
   const { canUndo, canRedo } = useStore(editor.stateStore);
 
-  const handlePDFExport = () => {
-    if (!canvasRef?.current) {
-      alert("Canvas not found. Please try again.");
-      return;
-    }
+  const handlePDFExport = ({
+    pageMode,
+    ...options
+  }: {
+    pageMode: PDFPageMode;
+    paperSize: PaperSize;
+    margin: number;
+  }) => {
+    setIsPDFPopoverOpen(false);
     const filename = getTimestampFilename("design");
     const designValue = editor.state.value;
-    void exportToPDF(canvasRef.current, designValue, filename);
+    void exportToPDF(designValue, filename, {
+      ...options,
+      ...(pageMode === "elements"
+        ? { pages: getElementPages(designValue) }
+        : null),
+    });
   };
 
   const handleImageUpload = async () => {
@@ -68,6 +93,29 @@ export const ToolPanel = ({
     }
   };
 
+  // SVG files become editable shapes, texts and images
+  const handleSVGImport = async () => {
+    const source = await importSVG();
+    if (!source) return;
+
+    try {
+      const { elements, unsupported } = parseSVG(source);
+      if (!editor.importElements(elements)) {
+        alert("The SVG file has nothing that can be imported.");
+        return;
+      }
+      if (unsupported.length > 0) {
+        alert(
+          `Some parts of the SVG file could not be imported:\n${unsupported.join("\n")}`,
+        );
+      }
+    } catch (error) {
+      alert(
+        `Failed to import SVG: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
   const tools: Tool[] = [
     { id: "shape", icon: Shapes, label: "Shapes" },
     { id: "text", icon: Type, label: "Text" },
@@ -277,7 +325,7 @@ export const ToolPanel = ({
         </IconButton>
       </Box>
 
-      {/* PDF Download */}
+      {/* SVG Import */}
       <Box
         style={{
           width: "48px",
@@ -290,7 +338,7 @@ export const ToolPanel = ({
           variant="surface"
           color="gray"
           highContrast
-          onClick={handlePDFExport}
+          onClick={handleSVGImport}
           style={{
             width: "100%",
             height: "100%",
@@ -298,14 +346,50 @@ export const ToolPanel = ({
             gap: "2px",
             padding: "6px",
           }}
-          title="Export PDF"
+          title="Import SVG"
         >
-          <Download size={16} strokeWidth={1.5} />
+          <FileCode size={16} strokeWidth={1.5} />
           <Box as="span" style={{ fontSize: "8px", lineHeight: 1 }}>
-            PDF
+            SVG
           </Box>
         </IconButton>
       </Box>
+
+      {/* PDF Download */}
+      <Popover.Root open={isPDFPopoverOpen} onOpenChange={setIsPDFPopoverOpen}>
+        <Popover.Trigger>
+          <Box
+            style={{
+              width: "48px",
+              height: "48px",
+              padding: "2px",
+            }}
+          >
+            <IconButton
+              size="2"
+              variant="surface"
+              color="gray"
+              highContrast
+              style={{
+                width: "100%",
+                height: "100%",
+                flexDirection: "column",
+                gap: "2px",
+                padding: "6px",
+              }}
+              title="Export PDF"
+            >
+              <Download size={16} strokeWidth={1.5} />
+              <Box as="span" style={{ fontSize: "8px", lineHeight: 1 }}>
+                PDF
+              </Box>
+            </IconButton>
+          </Box>
+        </Popover.Trigger>
+        <Popover.Content side="right" sideOffset={8}>
+          <PDFExportPanel onExport={handlePDFExport} />
+        </Popover.Content>
+      </Popover.Root>
     </Flex>
   );
 };
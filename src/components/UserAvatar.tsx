@@ -0,0 +1,36 @@
+import { Box, Text } from "@radix-ui/themes";
+
+interface UserAvatarProps {
+  user: { name: string; color: string; avatar?: string };
+  // Diameter in pixels
+  size?: number;
+}
+
+// The user's avatar emoji, or the last character of their name, on their color
+export const UserAvatar = ({ user, size = 14 }: UserAvatarProps) => (
+  <Box
+    as="span"
+    style={{
+      width: size,
+      height: size,
+      borderRadius: "50%",
+      backgroundColor: user.color,
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      flexShrink: 0,
+    }}
+  >
+    <Text
+      size="1"
+      weight="bold"
+      style={{
+        color: "white",
+        fontSize: user.avatar ? size * 0.7 : size / 2,
+        lineHeight: 1,
+      }}
+    >
+      {user.avatar ?? user.name.slice(-1)}
+    </Text>
+  </Box>
+);
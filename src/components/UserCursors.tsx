@@ -1,20 +1,26 @@
 import { Box } from "@radix-ui/themes";
 import { MousePointer2 } from "lucide-react";
 
+import { DEFAULT_THROTTLE_INTERVAL, type RoomCursor } from "../collaboration";
+
 interface UserCursorsProps {
-  cursors: any[];
+  cursors: RoomCursor[];
 }
 
 export const UserCursors = ({ cursors }: UserCursorsProps) => {
   return (
     <>
-      {cursors.map((cursor, index) => (
+      {cursors.map((cursor) => (
         <Box
-          key={`${cursor.name}-${index}`}
+          key={cursor.id}
           style={{
             position: "absolute",
-            left: cursor.x,
-            top: cursor.y,
+            left: 0,
+            top: 0,
+            translate: `${cursor.x}px ${cursor.y}px`,
+            // Positions arrive at most once per throttle interval, gliding
+            // between them over two intervals smooths out network jitter
+            transition: `translate ${DEFAULT_THROTTLE_INTERVAL * 2}ms linear`,
             pointerEvents: "none",
             zIndex: 1000,
             transform: "translate(-2px, -2px)",
@@ -0,0 +1,30 @@
+import { useState } from "react";
+import { useStore } from "zustand";
+
+import {
+  DesignEditor,
+  type DesignValue,
+  DesignView,
+  DiffOutlines,
+} from "../editor";
+
+interface VersionPreviewProps {
+  // The version's design
+  value: DesignValue;
+  // The live editor, whose design the version is compared with
+  editor: DesignEditor;
+}
+
+// A read-only view of a version, outlining what changed since it was saved
+export const VersionPreview = ({ value, editor }: VersionPreviewProps) => {
+  const [previewEditor] = useState(() => new DesignEditor({ value }));
+  const currentValue = useStore(editor.stateStore, (state) => state.value);
+
+  return (
+    <DesignView
+      editor={previewEditor}
+      isReadOnly
+      overlay={<DiffOutlines previous={value} next={currentValue} />}
+    />
+  );
+};
@@ -0,0 +1,105 @@
+import { Button, Flex, Heading, Text, TextField } from "@radix-ui/themes";
+import { useState } from "react";
+
+import type { RoomVersion } from "../collaboration";
+import { UserAvatar } from "./UserAvatar";
+
+interface VersionsPanelProps {
+  // Newest first
+  versions: RoomVersion[];
+  previewedVersionId: string | null;
+  // Viewers can browse versions but not save them
+  canSave: boolean;
+  onSave: (name: string) => void;
+  onPreview: (version: RoomVersion) => void;
+}
+
+export const getVersionLabel = (version: RoomVersion) =>
+  version.name ?? "Autosaved version";
+
+export const VersionsPanel = ({
+  versions,
+  previewedVersionId,
+  canSave,
+  onSave,
+  onPreview,
+}: VersionsPanelProps) => {
+  const [name, setName] = useState("");
+  const trimmedName = name.trim();
+
+  const save = () => {
+    if (!trimmedName) return;
+
+    onSave(trimmedName);
+    setName("");
+  };
+
+  return (
+    <Flex direction="column" gap="3">
+      <Heading size="3">Versions</Heading>
+      {canSave && (
+        <Flex gap="2">
+          <TextField.Root
+            size="1"
+            placeholder="Version name"
+            value={name}
+            style={{ flexGrow: 1 }}
+            onChange={(event) => setName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                save();
+              }
+            }}
+          />
+          <Button size="1" disabled={!trimmedName} onClick={save}>
+            Save
+          </Button>
+        </Flex>
+      )}
+      {versions.length === 0 && (
+        <Text size="2" color="gray">
+          Versions are saved automatically while the design changes.
+        </Text>
+      )}
+      <Flex
+        direction="column"
+        gap="1"
+        style={{ maxHeight: 320, overflowY: "auto" }}
+      >
+        {versions.map((version) => (
+          <Flex
+            key={version.id}
+            direction="column"
+            gap="1"
+            onClick={() => onPreview(version)}
+            style={{
+              padding: "6px 8px",
+              borderRadius: "var(--radius-2)",
+              background:
+                version.id === previewedVersionId
+                  ? "var(--accent-4)"
+                  : undefined,
+              cursor: "default",
+            }}
+          >
+            <Text
+              size="2"
+              weight={version.name ? "medium" : "regular"}
+              color={version.name ? undefined : "gray"}
+              truncate
+            >
+              {getVersionLabel(version)}
+            </Text>
+            <Flex align="center" gap="1">
+              <UserAvatar user={version.author} />
+              <Text size="1" color="gray" truncate>
+                {version.author.name} ·{" "}
+                {new Date(version.createdAt).toLocaleString()}
+              </Text>
+            </Flex>
+          </Flex>
+        ))}
+      </Flex>
+    </Flex>
+  );
+};
@@ -0,0 +1,739 @@
+import {
+  Badge,
+  Box,
+  Button,
+  Flex,
+  IconButton,
+  Popover,
+  Text,
+} from "@radix-ui/themes";
+import {
+  ArrowLeft,
+  History,
+  MessageSquare,
+  MessageSquarePlus,
+  X,
+} from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { useStore } from "zustand";
+
+import type { AuthProvider, AuthUser } from "../auth";
+import {
+  type CommentThread,
+  type RoomCursor,
+  type RoomLease,
+  type RoomPresence,
+  type RoomRoles,
+  type RoomUser,
+  type RoomVersion,
+  canEditRoom,
+} from "../collaboration";
+import {
+  createDocumentFromDesign,
+  createEmptyDesign,
+  createThumbnail,
+  ensureDocument,
+  updateDocument,
+} from "../documents";
+import {
+  type CommentAnchor,
+  DIFF_COLORS,
+  DesignEditor,
+  type DesignValue,
+  DesignView,
+  type ID,
+  type RemoteSelection,
+  createSelection,
+  getElements,
+} from "../editor";
+import {
+  CollaborativeService,
+  createCollaborationTransport,
+} from "../firebase/collaborative";
+import {
+  type DesignDocument,
+  type DesignSnapshot,
+  type DesignStorage,
+  MemoryStorage,
+  createAutosave,
+  restoreLatestDesign,
+} from "../storage";
+import { uniqued } from "../utils";
+import { CommentLayer } from "./CommentLayer";
+import { EditorContextMenu } from "./EditorContextMenu";
+import { HistoryPanel } from "./HistoryPanel";
+import { LayersPanel } from "./LayersPanel";
+import { OnlineUsers } from "./OnlineUsers";
+import { RightPanel } from "./RightPanel";
+import { type ToolId, ToolPanel } from "./ToolPanel";
+import { UserCursors } from "./UserCursors";
+import { VersionPreview } from "./VersionPreview";
+import { VersionsPanel, getVersionLabel } from "./VersionsPanel";
+
+interface WorkspaceProps {
+  // Used both as the collaboration room ID and the local storage key
+  documentId: string;
+  storage: DesignStorage;
+  auth: AuthProvider;
+  user: AuthUser;
+  onClose: () => void;
+  // Opens another document, e.g. one forked from a version
+  onOpenDocument: (documentId: string) => void;
+}
+
+export const Workspace = ({
+  documentId,
+  storage,
+  auth,
+  user,
+  onClose,
+  onOpenDocument,
+}: WorkspaceProps) => {
+  const [currentToolId, setCurrentToolId] = useState<ToolId>(null);
+  const [editor] = useState(
+    () => new DesignEditor({ value: createEmptyDesign() }),
+  );
+  const canvasRef = useRef<HTMLDivElement>(null);
+  // Scroll container around the canvas, its scroll position is the viewport
+  // shared with collaborators
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [designDocument, setDesignDocument] = useState<DesignDocument | null>(
+    null,
+  );
+  // Connected per mounted effect, so StrictMode's extra mount doesn't leave a
+  // second connection open
+  const [collaborative, setCollaborative] =
+    useState<CollaborativeService | null>(null);
+  // The latest profile, for connections opened after it changed
+  const userRef = useRef(user);
+  const [isRestored, setIsRestored] = useState(false);
+  const [onlineUsers, setOnlineUsers] = useState<RoomUser[]>([]);
+  const [cursors, setCursors] = useState<RoomCursor[]>([]);
+  const [presences, setPresences] = useState<RoomPresence[]>([]);
+  const [leases, setLeases] = useState<RoomLease[]>([]);
+  const [roles, setRoles] = useState<RoomRoles>({});
+  // Viewers get a read-only workspace
+  const isReadOnly = !canEditRoom(roles[user.id]);
+  const [viewport, setViewport] = useState({ x: 0, y: 0 });
+  const [editingTextId, setEditingTextId] = useState<ID | null>(null);
+  const [followingUserId, setFollowingUserId] = useState<string | null>(null);
+  const [commentThreads, setCommentThreads] = useState<CommentThread[]>([]);
+  const [isCommentsVisible, setIsCommentsVisible] = useState(true);
+  // While placing, the next click on the canvas starts a thread there
+  const [isPlacingComment, setIsPlacingComment] = useState(false);
+  const [draftCommentAnchor, setDraftCommentAnchor] =
+    useState<CommentAnchor | null>(null);
+  const [versions, setVersions] = useState<RoomVersion[]>([]);
+  // The version shown instead of the live design, with its design
+  const [previewedVersion, setPreviewedVersion] = useState<{
+    version: RoomVersion;
+    value: DesignValue;
+  } | null>(null);
+  const isPreviewingVersion = previewedVersion != null;
+  const selectedIds = useStore(
+    editor.stateStore,
+    (state) => state.selection?.ids,
+  );
+
+  // 设置协作功能
+  useEffect(() => {
+    let service: CollaborativeService | null = null;
+    let isDisposed = false;
+
+    void createCollaborationTransport(documentId).then((transport) => {
+      // 传输加载完成前已经离开房间
+      if (isDisposed) {
+        transport.close();
+        return;
+      }
+      service = new CollaborativeService(userRef.current, transport);
+      setCollaborative(service);
+
+      // 监听在线用户
+      service.onUsersChange(setOnlineUsers);
+
+      // 监听光标位置
+      service.onCursorsChange(setCursors);
+
+      // 监听其他用户的选区、工具和视口
+      service.onPresenceChange(setPresences);
+
+      // 监听其他用户锁定的元素
+      service.onLeasesChange(setLeases);
+
+      // 监听成员角色
+      service.onRolesChange(setRoles);
+
+      // 监听评论
+      service.onCommentsChange(setCommentThreads);
+
+      // 监听版本列表
+      service.onVersionsChange(setVersions);
+    });
+
+    // 离开房间时关闭连接并移除在线状态
+    return () => {
+      isDisposed = true;
+      service?.cleanup();
+      setCollaborative(null);
+    };
+  }, [documentId]);
+
+  // Announce profile changes to the room
+  useEffect(() => {
+    userRef.current = user;
+    collaborative?.updateUser(user);
+  }, [collaborative, user]);
+
+  // Set before syncing starts, so viewers never seed the room
+  useEffect(() => {
+    collaborative?.setReadOnly(isReadOnly);
+    if (isReadOnly) {
+      editor.cancelTransaction();
+      setCurrentToolId(null);
+    }
+  }, [collaborative, editor, isReadOnly]);
+
+  // Share what this user is doing
+  useEffect(() => {
+    collaborative?.updatePresence({
+      selection: selectedIds ?? [],
+      tool: currentToolId,
+      editingTextId,
+      viewport,
+    });
+  }, [collaborative, selectedIds, currentToolId, editingTextId, viewport]);
+
+  // Follow mode mirrors the followed user's selection and viewport, and ends
+  // when they leave the room
+  const followedPresence = presences.find(
+    (presence) => presence.id === followingUserId,
+  );
+  const isFollowedUserOnline = onlineUsers.some(
+    (user) => user.id === followingUserId,
+  );
+  useEffect(() => {
+    if (!followingUserId) return;
+    if (!isFollowedUserOnline) {
+      setFollowingUserId(null);
+      return;
+    }
+    if (!followedPresence) return;
+
+    editor.setSelection(
+      createSelection(
+        getElements(editor.state.value, followedPresence.selection).map(
+          (element) => element.id,
+        ),
+      ),
+    );
+    viewportRef.current?.scrollTo({
+      left: followedPresence.viewport.x,
+      top: followedPresence.viewport.y,
+    });
+  }, [editor, followingUserId, followedPresence, isFollowedUserOnline]);
+
+  // Outlines for what the other users have selected, are typing into or hold
+  // leases on
+  const remoteSelections = onlineUsers.map((user): RemoteSelection => {
+    const presence = presences.find(({ id }) => id === user.id);
+    const editingTextId = presence?.editingTextId ?? null;
+    const lockedIds = leases
+      .filter((lease) => lease.userId === user.id)
+      .map((lease) => lease.elementId);
+
+    return {
+      userId: user.id,
+      name: user.name,
+      color: user.color,
+      ids: uniqued([
+        ...(presence?.selection ?? []),
+        ...(editingTextId ? [editingTextId] : []),
+        ...lockedIds,
+      ]),
+      editingTextId,
+      lockedIds,
+    };
+  });
+
+  // Commands skip elements other users are working on
+  useEffect(() => {
+    editor.setRemoteLocks(leases.map((lease) => lease.elementId));
+  }, [editor, leases]);
+
+  // Start syncing once the local copy is restored, so it can seed an empty
+  // room instead of being overwritten by it
+  useEffect(() => {
+    if (!isRestored || !collaborative) return;
+
+    // 设置设计数据同步
+    const updateDesign = collaborative.syncDesign(
+      editor.state.value,
+      (newValue) => {
+        editor.updateDesignData(newValue);
+      },
+    );
+
+    // 监听编辑器状态变化并同步，拖动等操作只在结束时同步一次
+    return editor.onCommittedChange(updateDesign);
+  }, [collaborative, editor, isRestored]);
+
+  // Restore the last local copy, then keep saving changes so a refresh or
+  // crash without network doesn't lose work
+  useEffect(() => {
+    let autosave: ReturnType<typeof createAutosave> | null = null;
+    let isDisposed = false;
+
+    // Saved documents get a fresh modified time and thumbnail
+    const handleSave = async (
+      designStorage: DesignStorage,
+      { savedAt, value }: DesignSnapshot,
+    ) => {
+      const thumbnail = await createThumbnail(value).catch(() => undefined);
+      const updated = await updateDocument(designStorage, documentId, {
+        modifiedAt: savedAt,
+        ...(thumbnail ? { thumbnail } : null),
+      });
+      if (updated && !isDisposed) {
+        setDesignDocument(updated);
+      }
+    };
+
+    const startAutosave = async (designStorage: DesignStorage) => {
+      const [document, restoredValue] = await Promise.all([
+        ensureDocument(designStorage, documentId),
+        restoreLatestDesign(designStorage, documentId),
+      ]);
+      if (isDisposed) return;
+
+      setDesignDocument(document);
+      if (restoredValue) {
+        editor.loadDesign(restoredValue);
+      }
+      setIsRestored(true);
+      autosave = createAutosave(editor.stateStore, {
+        storage: designStorage,
+        documentId,
+        onSave: (snapshot) =>
+          void handleSave(designStorage, snapshot).catch(() => undefined),
+      });
+    };
+    // When the local storage can't be opened, e.g. IndexedDB in some private
+    // windows, the design is only kept for this session
+    void startAutosave(storage).catch(() => startAutosave(new MemoryStorage()));
+
+    const handlePageHide = () => void autosave?.flush();
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+      isDisposed = true;
+      window.removeEventListener("pagehide", handlePageHide);
+      void autosave?.dispose();
+    };
+  }, [documentId, editor, storage]);
+
+  // 鼠标移动时更新光标位置
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (canvasRef.current) {
+      const rect = canvasRef.current.getBoundingClientRect();
+      const x = event.clientX - rect.left;
+      const y = event.clientY - rect.top;
+      collaborative?.updateCursor(x, y);
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Versions are previewed read-only
+      if (isReadOnly || isPreviewingVersion) return;
+      // Typing into a field, e.g. a comment, isn't a shortcut
+      if (
+        event.target instanceof HTMLInputElement ||
+        event.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+
+      // Check for undo/redo keyboard shortcuts
+      if (event.ctrlKey || event.metaKey) {
+        if (event.key === "z" && !event.shiftKey) {
+          event.preventDefault();
+          editor.undo();
+        } else if ((event.key === "z" && event.shiftKey) || event.key === "y") {
+          event.preventDefault();
+          editor.redo();
+        } else if (event.key.toLowerCase() === "g") {
+          // Ctrl+G groups the selection, Ctrl+Shift+G ungroups it
+          const { selection } = editor.state;
+          event.preventDefault();
+          if (selection && event.shiftKey) {
+            editor.ungroupElements(selection.ids);
+          } else if (selection) {
+            editor.groupElements(selection.ids);
+          }
+        } else if (
+          event.code === "BracketRight" ||
+          event.code === "BracketLeft"
+        ) {
+          // Ctrl+] / Ctrl+[ move the selection one step up or down,
+          // with shift all the way to the front or back
+          const { selection } = editor.state;
+          event.preventDefault();
+          if (!selection) return;
+
+          if (event.code === "BracketRight") {
+            if (event.shiftKey) {
+              editor.bringToFront(selection.ids);
+            } else {
+              editor.bringForward(selection.ids);
+            }
+          } else if (event.shiftKey) {
+            editor.sendToBack(selection.ids);
+          } else {
+            editor.sendBackward(selection.ids);
+          }
+        }
+      }
+
+      // Delete key for element deletion
+      if (event.key === "Delete" || event.key === "Backspace") {
+        const { selection } = editor.state;
+        if (selection) {
+          event.preventDefault();
+          editor.deleteElements(selection.ids);
+        }
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [editor, currentToolId, isReadOnly, isPreviewingVersion]);
+
+  const previewVersion = async (version: RoomVersion) => {
+    const value = await collaborative?.loadVersion(version.id);
+    if (value) {
+      setPreviewedVersion({ version, value });
+    }
+  };
+
+  const restoreVersion = (version: RoomVersion, value: DesignValue) => {
+    editor.restoreDesign(value, `"${getVersionLabel(version)}"`);
+    setPreviewedVersion(null);
+  };
+
+  const forkVersion = async (version: RoomVersion, value: DesignValue) => {
+    const title = `${designDocument?.title ?? "Design"} (${getVersionLabel(version)})`;
+    const document = await createDocumentFromDesign(storage, title, value);
+    onOpenDocument(document.id);
+  };
+
+  const openThreadCount = commentThreads.filter(
+    (thread) => !thread.comment.resolved,
+  ).length;
+
+  const commentProps = {
+    overlay: isCommentsVisible ? (
+      <CommentLayer
+        editor={editor}
+        threads={commentThreads}
+        currentUser={user}
+        draftAnchor={draftCommentAnchor}
+        onDraftSubmit={(body) => {
+          if (draftCommentAnchor) {
+            collaborative?.addComment(draftCommentAnchor, body);
+          }
+          setDraftCommentAnchor(null);
+        }}
+        onDraftCancel={() => setDraftCommentAnchor(null)}
+        onReply={(thread, body) => collaborative?.replyToComment(thread, body)}
+        onResolvedChange={(thread, isResolved) =>
+          collaborative?.setCommentResolved(thread, isResolved)
+        }
+        onThreadDelete={(thread) => collaborative?.deleteCommentThread(thread)}
+        onReplyDelete={(commentId) => collaborative?.deleteReply(commentId)}
+      />
+    ) : undefined,
+    onCommentPlace: isPlacingComment
+      ? (anchor: CommentAnchor) => {
+          setDraftCommentAnchor(anchor);
+          setIsPlacingComment(false);
+        }
+      : undefined,
+  };
+
+  return (
+    <Flex height="100vh" style={{ background: "var(--gray-2)" }}>
+      {!isReadOnly && (
+        <Box
+          width="64px"
+          style={{
+            background: "var(--color-background)",
+            borderRight: "1px solid var(--gray-5)",
+          }}
+        >
+          <ToolPanel
+            currentToolId={currentToolId}
+            onCurrentToolIdChange={setCurrentToolId}
+            editor={editor}
+          />
+        </Box>
+      )}
+
+      <Flex flexGrow="1" position="relative">
+        {/* 在线用户列表 */}
+        <OnlineUsers
+          users={onlineUsers}
+          presences={presences}
+          roles={roles}
+          auth={auth}
+          currentUser={user}
+          followingUserId={followingUserId}
+          onFollow={setFollowingUserId}
+          onRoleChange={(userId, role) => collaborative?.setRole(userId, role)}
+        />
+
+        <Flex
+          align="center"
+          gap="2"
+          position="absolute"
+          top="3"
+          right="3"
+          style={{ maxWidth: 320, zIndex: 1 }}
+        >
+          <Text size="2" weight="medium" truncate>
+            {designDocument?.title}
+          </Text>
+          {isReadOnly && (
+            <Badge color="gray" title="Ask the owner to make you an editor">
+              View only
+            </Badge>
+          )}
+          <Popover.Root>
+            <Popover.Trigger>
+              <IconButton size="1" variant="soft" color="gray" title="Versions">
+                <History size={14} />
+              </IconButton>
+            </Popover.Trigger>
+            <Popover.Content width="300px">
+              <VersionsPanel
+                versions={versions}
+                previewedVersionId={previewedVersion?.version.id ?? null}
+                canSave={!isReadOnly}
+                onSave={(name) =>
+                  collaborative?.saveVersion(name, editor.state.value)
+                }
+                onPreview={(version) => void previewVersion(version)}
+              />
+            </Popover.Content>
+          </Popover.Root>
+          <IconButton
+            size="1"
+            variant={isPlacingComment ? "solid" : "soft"}
+            color="gray"
+            title="Add comment"
+            onClick={() => {
+              setIsPlacingComment(!isPlacingComment);
+              setIsCommentsVisible(true);
+            }}
+          >
+            <MessageSquarePlus size={14} />
+          </IconButton>
+          <IconButton
+            size="1"
+            variant={isCommentsVisible ? "soft" : "outline"}
+            color="gray"
+            title={`${isCommentsVisible ? "Hide" : "Show"} comments (${openThreadCount} open)`}
+            onClick={() => {
+              setIsCommentsVisible(!isCommentsVisible);
+              setIsPlacingComment(false);
+              setDraftCommentAnchor(null);
+            }}
+          >
+            <MessageSquare size={14} />
+          </IconButton>
+          <IconButton
+            size="1"
+            variant="soft"
+            color="gray"
+            title="All documents"
+            onClick={onClose}
+          >
+            <ArrowLeft size={14} />
+          </IconButton>
+        </Flex>
+
+        {previewedVersion && (
+          <Flex
+            align="center"
+            gap="3"
+            position="absolute"
+            bottom="4"
+            left="50%"
+            px="3"
+            py="2"
+            style={{
+              translate: "-50% 0",
+              background: "var(--color-panel-solid)",
+              borderRadius: "var(--radius-3)",
+              boxShadow: "var(--shadow-4)",
+              zIndex: 1,
+            }}
+          >
+            <Text size="2" weight="medium" truncate style={{ maxWidth: 200 }}>
+              {getVersionLabel(previewedVersion.version)}
+            </Text>
+            {/* What changed since the version was saved */}
+            <Flex gap="2">
+              {(["added", "removed", "changed"] as const).map((change) => (
+                <Text
+                  key={change}
+                  size="1"
+                  style={{
+                    borderBottom: `2px solid ${DIFF_COLORS[change]}`,
+                  }}
+                >
+                  {change}
+                </Text>
+              ))}
+            </Flex>
+            {!isReadOnly && (
+              <Button
+                size="1"
+                onClick={() =>
+                  restoreVersion(
+                    previewedVersion.version,
+                    previewedVersion.value,
+                  )
+                }
+              >
+                Restore
+              </Button>
+            )}
+            <Button
+              size="1"
+              variant="soft"
+              onClick={() =>
+                void forkVersion(
+                  previewedVersion.version,
+                  previewedVersion.value,
+                )
+              }
+            >
+              Fork
+            </Button>
+            <IconButton
+              size="1"
+              variant="ghost"
+              color="gray"
+              title="Back to the current design"
+              onClick={() => setPreviewedVersion(null)}
+            >
+              <X size={14} />
+            </IconButton>
+          </Flex>
+        )}
+
+        <Flex
+          ref={viewportRef}
+          position="absolute"
+          inset="0"
+          overflow="auto"
+          p="9"
+          onScroll={(event) =>
+            setViewport({
+              x: event.currentTarget.scrollLeft,
+              y: event.currentTarget.scrollTop,
+            })
+          }
+          // Scrolling or editing takes over from the followed user
+          onWheel={() => setFollowingUserId(null)}
+          onPointerDown={() => setFollowingUserId(null)}
+        >
+          <Box
+            ref={canvasRef}
+            className="design-canvas"
+            flexShrink="0"
+            style={{
+              background: "var(--color-background)",
+              boxShadow: "var(--shadow-4)",
+              borderRadius: "var(--radius-2)",
+              position: "relative",
+              margin: "auto",
+            }}
+            onMouseMove={handleMouseMove}
+          >
+            {previewedVersion ? (
+              <VersionPreview
+                key={previewedVersion.version.id}
+                value={previewedVersion.value}
+                editor={editor}
+              />
+            ) : isReadOnly ? (
+              <DesignView
+                editor={editor}
+                remoteSelections={remoteSelections}
+                isReadOnly
+                {...commentProps}
+              />
+            ) : (
+              <EditorContextMenu editor={editor}>
+                <DesignView
+                  editor={editor}
+                  currentTool={currentToolId || undefined}
+                  onToolChange={setCurrentToolId}
+                  remoteSelections={remoteSelections}
+                  onTextEditingChange={setEditingTextId}
+                  onLeaseChange={(elementIds) =>
+                    collaborative?.holdLeases(elementIds)
+                  }
+                  {...commentProps}
+                />
+              </EditorContextMenu>
+            )}
+
+            {/* 用户光标 */}
+            {!previewedVersion && <UserCursors cursors={cursors} />}
+          </Box>
+        </Flex>
+      </Flex>
+
+      {!isReadOnly && (
+        <>
+          <Flex
+            direction="column"
+            width="220px"
+            style={{
+              background: "var(--color-background)",
+              borderLeft: "1px solid var(--gray-5)",
+            }}
+          >
+            <Box flexGrow="1" style={{ overflowY: "auto" }}>
+              <LayersPanel editor={editor} />
+            </Box>
+            <Box
+              style={{
+                maxHeight: "40%",
+                overflowY: "auto",
+                borderTop: "1px solid var(--gray-5)",
+              }}
+            >
+              <HistoryPanel editor={editor} />
+            </Box>
+          </Flex>
+
+          <Box
+            width="280px"
+            style={{
+              background: "var(--color-background)",
+              borderLeft: "1px solid var(--gray-5)",
+            }}
+          >
+            <RightPanel editor={editor} />
+          </Box>
+        </>
+      )}
+    </Flex>
+  );
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+
+import type { DesignValue } from "../editor/schema";
+import {
+  DESIGN_FILE_VERSION,
+  parseDesignFile,
+  serializeDesignFile,
+} from "./designFile";
+import { createEmptyDesign } from "./documents";
+
+const SAMPLE_DESIGN: DesignValue = {
+  ...createEmptyDesign(),
+  shapes: {
+    square: {
+      type: "shape",
+      id: "square",
+      bounds: { left: 10, top: 10, width: 50, height: 50 },
+      viewBox: { minX: 0, minY: 0, width: 100, height: 100 },
+      paths: [{ d: "M0 0L100 0L100 100L0 100Z", fill: { color: "#FF0000" } }],
+    },
+  },
+  texts: {
+    title: {
+      type: "text",
+      id: "title",
+      bounds: { left: 0, top: 0, width: 100, height: 20 },
+      content: "Hello",
+      fontSize: 16,
+      color: "#333333",
+      fontWeight: "normal",
+      fontFamily: "Arial",
+    },
+  },
+  order: ["title", "square"],
+};
+
+describe("design files", () => {
+  it("reads back what it writes", () => {
+    const text = serializeDesignFile(SAMPLE_DESIGN);
+
+    expect(JSON.parse(text)).toMatchObject({
+      format: "voyager",
+      formatVersion: DESIGN_FILE_VERSION,
+    });
+    expect(parseDesignFile(text)).toEqual({ ok: true, value: SAMPLE_DESIGN });
+  });
+
+  it("migrates unversioned exports from before groups and ordering", () => {
+    const { shapes, texts, attributes } = SAMPLE_DESIGN;
+
+    expect(
+      parseDesignFile(JSON.stringify({ shapes, texts, attributes })),
+    ).toEqual({
+      ok: true,
+      value: { ...SAMPLE_DESIGN, order: ["square", "title"] },
+    });
+  });
+
+  it("keeps the stacking order of unversioned exports that had one", () => {
+    expect(parseDesignFile(JSON.stringify(SAMPLE_DESIGN))).toEqual({
+      ok: true,
+      value: SAMPLE_DESIGN,
+    });
+  });
+
+  it("reports invalid designs", () => {
+    const text = JSON.stringify({
+      format: "voyager",
+      formatVersion: DESIGN_FILE_VERSION,
+      design: { ...SAMPLE_DESIGN, attributes: { width: 0, height: 600 } },
+    });
+
+    expect(parseDesignFile(text)).toEqual({
+      ok: false,
+      errors: ["design.attributes.width must be at least 1"],
+    });
+  });
+
+  it("rejects files it can't read", () => {
+    const newer = JSON.stringify({
+      format: "voyager",
+      formatVersion: DESIGN_FILE_VERSION + 1,
+      design: SAMPLE_DESIGN,
+    });
+
+    expect(parseDesignFile("{")).toEqual({
+      ok: false,
+      errors: ["The file is not valid JSON"],
+    });
+    expect(parseDesignFile('{"name":"package"}')).toEqual({
+      ok: false,
+      errors: ["The file is not a Voyager design"],
+    });
+    expect(parseDesignFile(newer)).toEqual({
+      ok: false,
+      errors: [
+        `The file has format version ${DESIGN_FILE_VERSION + 1}, but this app only reads up to version ${DESIGN_FILE_VERSION}`,
+      ],
+    });
+  });
+});
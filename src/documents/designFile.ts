@@ -0,0 +1,117 @@
+import { getStackingOrder } from "../editor/order/zOrder";
+import type { DesignValue } from "../editor/schema";
+import { validateDesign } from "../editor/validateDesign";
+
+export const DESIGN_FILE_EXTENSION = ".voyager";
+
+const DESIGN_FILE_FORMAT = "voyager";
+
+// Bump together with a migration whenever the saved design changes shape
+export const DESIGN_FILE_VERSION = 1;
+
+interface DesignFile {
+  format: typeof DESIGN_FILE_FORMAT;
+  formatVersion: number;
+  design: DesignValue;
+}
+
+export type DesignFileResult =
+  | { ok: true; value: DesignValue }
+  | { ok: false; errors: string[] };
+
+type PlainObject = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is PlainObject => {
+  return typeof value === "object" && value != null && !Array.isArray(value);
+};
+
+/**
+ * Migrations from each format version to the next, indexed by the version
+ * they migrate from. They run on unvalidated data, so they may only rely on
+ * what that version's files had.
+ */
+const MIGRATIONS: ((design: PlainObject) => PlainObject)[] = [
+  // 0: raw JSON exports without a version, possibly from before images,
+  // groups and the persisted stacking order
+  (design) => ({
+    ...design,
+    images: design.images ?? {},
+    groups: design.groups ?? {},
+    order: getStackingOrder(design as unknown as DesignValue),
+  }),
+];
+
+// Older files are the raw design value itself
+const readFormatVersion = (
+  data: unknown,
+): { version: number; design: unknown } | string => {
+  if (!isPlainObject(data)) {
+    return "The file does not contain a design";
+  }
+  if (data.format !== DESIGN_FILE_FORMAT) {
+    return "shapes" in data || "texts" in data
+      ? { version: 0, design: data }
+      : "The file is not a Voyager design";
+  }
+
+  const version = data.formatVersion;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 0
+  ) {
+    return "formatVersion must be a whole number";
+  }
+  if (version > DESIGN_FILE_VERSION) {
+    return `The file has format version ${version}, but this app only reads up to version ${DESIGN_FILE_VERSION}`;
+  }
+  return { version, design: data.design };
+};
+
+export const serializeDesignFile = (value: DesignValue): string => {
+  const file: DesignFile = {
+    format: DESIGN_FILE_FORMAT,
+    formatVersion: DESIGN_FILE_VERSION,
+    design: value,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Reads a design file of the current or an older format version, migrating
+ * it to the current design schema. Returns every problem found when the file
+ * can't be read.
+ */
+export const parseDesignFile = (text: string): DesignFileResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ["The file is not valid JSON"] };
+  }
+  return readDesignData(data);
+};
+
+/**
+ * Like parseDesignFile, for data that is already parsed, such as a design
+ * saved by an older client
+ */
+export const readDesignData = (data: unknown): DesignFileResult => {
+  const formatVersion = readFormatVersion(data);
+  if (typeof formatVersion === "string") {
+    return { ok: false, errors: [formatVersion] };
+  }
+
+  let design = formatVersion.design;
+  for (const migrate of MIGRATIONS.slice(formatVersion.version)) {
+    if (!isPlainObject(design)) {
+      break;
+    }
+    design = migrate(design);
+  }
+
+  const errors = validateDesign(design);
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: design as DesignValue };
+};
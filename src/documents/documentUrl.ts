@@ -0,0 +1,26 @@
+const DOCUMENT_PARAM = "doc";
+
+/**
+ * Reads the active document ID from the `doc` query parameter
+ */
+export const getDocumentIdFromUrl = (
+  url: string = window.location.href,
+): string | null => {
+  return new URL(url).searchParams.get(DOCUMENT_PARAM) || null;
+};
+
+/**
+ * Returns the URL opening the document, or the document browser for null
+ */
+export const getDocumentUrl = (
+  documentId: string | null,
+  url: string = window.location.href,
+): string => {
+  const nextUrl = new URL(url);
+  if (documentId) {
+    nextUrl.searchParams.set(DOCUMENT_PARAM, documentId);
+  } else {
+    nextUrl.searchParams.delete(DOCUMENT_PARAM);
+  }
+  return nextUrl.toString();
+};
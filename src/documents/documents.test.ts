@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import { MemoryStorage } from "../storage";
+import { getDocumentIdFromUrl, getDocumentUrl } from "./documentUrl";
+import {
+  UNTITLED_DOCUMENT_TITLE,
+  createDocument,
+  createDocumentFromDesign,
+  createEmptyDesign,
+  duplicateDocument,
+  ensureDocument,
+  renameDocument,
+} from "./documents";
+
+describe("documents", () => {
+  it("creates, renames and lists documents", async () => {
+    const storage = new MemoryStorage();
+    const document = await createDocument(storage);
+
+    expect(document.title).toBe(UNTITLED_DOCUMENT_TITLE);
+    await renameDocument(storage, document.id, "  Poster  ");
+    expect(await storage.listDocuments()).toEqual([
+      { ...document, title: "Poster" },
+    ]);
+
+    await renameDocument(storage, document.id, " ");
+    expect((await storage.getDocument(document.id))?.title).toBe(
+      UNTITLED_DOCUMENT_TITLE,
+    );
+  });
+
+  it("duplicates the latest saved design", async () => {
+    const storage = new MemoryStorage();
+    const document = await createDocument(storage, "Poster");
+    const value = {
+      ...createEmptyDesign(),
+      attributes: { width: 1080, height: 1920 },
+    };
+    await storage.saveSnapshot({
+      id: "snapshot",
+      documentId: document.id,
+      savedAt: document.createdAt,
+      value,
+    });
+
+    const copy = await duplicateDocument(storage, document.id);
+
+    expect(copy?.title).toBe("Poster copy");
+    expect(copy?.id).not.toBe(document.id);
+    const [snapshot] = await storage.listSnapshots(copy!.id);
+    expect(snapshot?.value).toEqual(value);
+  });
+
+  it("creates documents from a design", async () => {
+    const storage = new MemoryStorage();
+    const value = {
+      ...createEmptyDesign(),
+      attributes: { width: 1080, height: 1920 },
+    };
+
+    const document = await createDocumentFromDesign(
+      storage,
+      "Poster (v1)",
+      value,
+    );
+
+    expect(document.title).toBe("Poster (v1)");
+    const [snapshot] = await storage.listSnapshots(document.id);
+    expect(snapshot?.value).toEqual(value);
+  });
+
+  it("deletes documents together with their snapshots", async () => {
+    const storage = new MemoryStorage();
+    const document = await createDocument(storage);
+    await storage.saveSnapshot({
+      id: "snapshot",
+      documentId: document.id,
+      savedAt: document.createdAt,
+      value: createEmptyDesign(),
+    });
+
+    await storage.deleteDocument(document.id);
+
+    expect(await storage.listDocuments()).toEqual([]);
+    expect(await storage.listSnapshots(document.id)).toEqual([]);
+  });
+
+  it("registers documents opened from a shared link", async () => {
+    const storage = new MemoryStorage();
+
+    const document = await ensureDocument(storage, "shared-id");
+
+    expect(document).toMatchObject({
+      id: "shared-id",
+      title: UNTITLED_DOCUMENT_TITLE,
+    });
+    expect(await ensureDocument(storage, "shared-id")).toEqual(document);
+  });
+});
+
+describe("document URLs", () => {
+  it("round-trips the document ID through the query string", () => {
+    const url = getDocumentUrl("abc", "https://example.com/?theme=dark");
+
+    expect(url).toBe("https://example.com/?theme=dark&doc=abc");
+    expect(getDocumentIdFromUrl(url)).toBe("abc");
+    expect(getDocumentIdFromUrl(getDocumentUrl(null, url))).toBeNull();
+  });
+});
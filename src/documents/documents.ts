@@ -0,0 +1,127 @@
+import type { DesignValue } from "../editor/schema";
+import type { DesignDocument, DesignStorage } from "../storage";
+
+export const UNTITLED_DOCUMENT_TITLE = "Untitled";
+
+export const createEmptyDesign = (): DesignValue => ({
+  shapes: {},
+  texts: {},
+  images: {},
+  groups: {},
+  order: [],
+  attributes: {
+    width: 800,
+    height: 600,
+  },
+});
+
+export const createDocument = async (
+  storage: DesignStorage,
+  title = UNTITLED_DOCUMENT_TITLE,
+): Promise<DesignDocument> => {
+  const now = Date.now();
+  const document: DesignDocument = {
+    id: crypto.randomUUID(),
+    title,
+    createdAt: now,
+    modifiedAt: now,
+  };
+  await storage.saveDocument(document);
+  return document;
+};
+
+/**
+ * Creates a document starting from the design, e.g. a fork of an earlier
+ * version of another document
+ */
+export const createDocumentFromDesign = async (
+  storage: DesignStorage,
+  title: string,
+  value: DesignValue,
+): Promise<DesignDocument> => {
+  const document = await createDocument(storage, title);
+  await storage.saveSnapshot({
+    id: crypto.randomUUID(),
+    documentId: document.id,
+    savedAt: document.createdAt,
+    value,
+  });
+  return document;
+};
+
+/**
+ * Returns the stored document, creating an untitled one for IDs that were
+ * only known from a shared link
+ */
+export const ensureDocument = async (
+  storage: DesignStorage,
+  documentId: string,
+): Promise<DesignDocument> => {
+  const existing = await storage.getDocument(documentId);
+  if (existing) return existing;
+
+  const now = Date.now();
+  const document: DesignDocument = {
+    id: documentId,
+    title: UNTITLED_DOCUMENT_TITLE,
+    createdAt: now,
+    modifiedAt: now,
+  };
+  await storage.saveDocument(document);
+  return document;
+};
+
+export const updateDocument = async (
+  storage: DesignStorage,
+  documentId: string,
+  changes: Partial<Pick<DesignDocument, "title" | "modifiedAt" | "thumbnail">>,
+): Promise<DesignDocument | null> => {
+  const document = await storage.getDocument(documentId);
+  if (!document) return null;
+
+  const updated = { ...document, ...changes };
+  await storage.saveDocument(updated);
+  return updated;
+};
+
+export const renameDocument = (
+  storage: DesignStorage,
+  documentId: string,
+  title: string,
+) => {
+  return updateDocument(storage, documentId, {
+    title: title.trim() || UNTITLED_DOCUMENT_TITLE,
+  });
+};
+
+/**
+ * Copies the document together with its latest saved design
+ */
+export const duplicateDocument = async (
+  storage: DesignStorage,
+  documentId: string,
+): Promise<DesignDocument | null> => {
+  const source = await storage.getDocument(documentId);
+  if (!source) return null;
+
+  const now = Date.now();
+  const copy: DesignDocument = {
+    ...source,
+    id: crypto.randomUUID(),
+    title: `${source.title} copy`,
+    createdAt: now,
+    modifiedAt: now,
+  };
+  await storage.saveDocument(copy);
+
+  const [latest] = await storage.listSnapshots(documentId);
+  if (latest) {
+    await storage.saveSnapshot({
+      id: crypto.randomUUID(),
+      documentId: copy.id,
+      savedAt: now,
+      value: latest.value,
+    });
+  }
+  return copy;
+};
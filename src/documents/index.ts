@@ -0,0 +1,4 @@
+export * from "./designFile";
+export * from "./documentUrl";
+export * from "./documents";
+export { createThumbnail } from "./thumbnail";
@@ -0,0 +1,14 @@
+import type { DesignValue } from "../editor/schema";
+import { rasterizeDesign } from "../utils/exportUtils";
+
+const THUMBNAIL_WIDTH = 240;
+
+/**
+ * Renders a small PNG preview of the design for the document browser
+ */
+export const createThumbnail = async (value: DesignValue): Promise<string> => {
+  const canvas = await rasterizeDesign(value, {
+    scale: THUMBNAIL_WIDTH / value.attributes.width,
+  });
+  return canvas.toDataURL("image/png");
+};
@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+
+import type { DesignValue, ImageElement, ShapeDef } from "../schema";
+import { BaseCommand, HistoryManager, UpdateShapeCommand } from "./index";
+import { applyPatches, diffDesignValues } from "./patches";
+
+const IMAGE_DATA_URL = `data:image/png;base64,${"A".repeat(64 * 1024)}`;
+
+const SHAPE: ShapeDef = {
+  type: "shape",
+  id: "shape",
+  bounds: { left: 0, top: 0, width: 100, height: 100 },
+  viewBox: { minX: 0, minY: 0, width: 64, height: 64 },
+  paths: [{ d: "M0,0L64,0L64,64L0,64Z" }],
+};
+
+const createImage = (index: number): ImageElement => ({
+  type: "image",
+  id: `image-${index}`,
+  bounds: { left: index, top: index, width: 100, height: 100 },
+  src: IMAGE_DATA_URL,
+});
+
+const createValue = (imageCount: number): DesignValue => ({
+  shapes: { [SHAPE.id]: SHAPE },
+  texts: {},
+  images: Object.fromEntries(
+    Array.from({ length: imageCount }, (_, index) => {
+      const image = createImage(index);
+      return [image.id, image];
+    }),
+  ),
+  groups: {},
+  order: [],
+  attributes: { width: 800, height: 600 },
+});
+
+const moveShape = (value: DesignValue, left: number): DesignValue => ({
+  ...value,
+  shapes: {
+    ...value.shapes,
+    [SHAPE.id]: { ...SHAPE, bounds: { ...SHAPE.bounds, left } },
+  },
+});
+
+const getHistorySize = (history: HistoryManager) => {
+  return history
+    .getState()
+    .commands.filter((command) => command instanceof BaseCommand)
+    .reduce(
+      (size, command) =>
+        size + JSON.stringify([command.patches, command.inversePatches]).length,
+      0,
+    );
+};
+
+describe("HistoryManager", () => {
+  it("stores only the fields that changed", () => {
+    const previousValue = createValue(2);
+    const nextValue = moveShape(previousValue, 10);
+
+    expect(diffDesignValues(previousValue, nextValue)).toEqual([
+      {
+        op: "replace",
+        path: ["shapes", SHAPE.id],
+        value: nextValue.shapes[SHAPE.id],
+      },
+    ]);
+  });
+
+  it("applies undo and redo to the current value", () => {
+    const history = new HistoryManager();
+    const initialValue = createValue(0);
+    const movedValue = history.executeCommand(
+      new UpdateShapeCommand(
+        initialValue,
+        moveShape(initialValue, 10),
+        [SHAPE.id],
+        "Move",
+      ),
+      initialValue,
+    );
+
+    // An image added outside of the history survives undo and redo
+    const image = createImage(0);
+    const currentValue = {
+      ...movedValue,
+      images: { [image.id]: image },
+    };
+
+    const undoneValue = history.undo(currentValue)!;
+    expect(undoneValue.shapes[SHAPE.id]?.bounds.left).toBe(0);
+    expect(undoneValue.images[image.id]).toBe(image);
+
+    const redoneValue = history.redo(undoneValue)!;
+    expect(redoneValue.shapes[SHAPE.id]?.bounds.left).toBe(10);
+    expect(redoneValue.images[image.id]).toBe(image);
+  });
+
+  it("leaves fields changed by someone else alone on undo", () => {
+    const history = new HistoryManager();
+    const initialValue = createValue(0);
+    const movedValue = history.executeCommand(
+      new UpdateShapeCommand(
+        initialValue,
+        moveShape(initialValue, 10),
+        [SHAPE.id],
+        "Move",
+      ),
+      initialValue,
+    );
+    const movedShape = movedValue.shapes[SHAPE.id];
+
+    // A collaborator changes another field of the same shape
+    const recoloredValue = {
+      ...movedValue,
+      shapes: { [SHAPE.id]: { ...movedShape, transparency: 50 } },
+    };
+    expect(history.undo(recoloredValue)?.shapes[SHAPE.id]).toEqual({
+      ...SHAPE,
+      transparency: 50,
+    });
+
+    // A collaborator moves the shape again, so the move is no longer ours
+    history.redo(recoloredValue);
+    const movedAgainValue = moveShape(recoloredValue, 30);
+    expect(history.undo(movedAgainValue)).toEqual(movedAgainValue);
+  });
+
+  it("round-trips added and removed elements", () => {
+    const previousValue = createValue(1);
+    const nextValue = createValue(3);
+
+    expect(
+      applyPatches(previousValue, diffDesignValues(previousValue, nextValue)),
+    ).toEqual(nextValue);
+    expect(
+      applyPatches(nextValue, diffDesignValues(nextValue, previousValue)),
+    ).toEqual(previousValue);
+  });
+
+  it("keeps the newest command current once the history is full", () => {
+    const history = new HistoryManager(3);
+    let value = createValue(0);
+    for (let step = 1; step <= 5; step++) {
+      value = history.executeCommand(
+        new UpdateShapeCommand(
+          value,
+          moveShape(value, step),
+          [SHAPE.id],
+          "Move",
+        ),
+        value,
+      );
+    }
+
+    expect(history.getState().commands).toHaveLength(3);
+    expect(history.getState().currentIndex).toBe(2);
+    expect(history.canRedo()).toBe(false);
+
+    value = history.jumpTo(-1, value);
+    expect(value.shapes[SHAPE.id]?.bounds.left).toBe(2);
+    expect(history.canUndo()).toBe(false);
+
+    value = history.jumpTo(1, value);
+    expect(value.shapes[SHAPE.id]?.bounds.left).toBe(4);
+    expect(history.getState().currentIndex).toBe(1);
+  });
+
+  describe("memory", () => {
+    const recordMoves = (imageCount: number) => {
+      const history = new HistoryManager();
+      let value = createValue(imageCount);
+      for (let step = 1; step <= 50; step++) {
+        value = history.executeCommand(
+          new UpdateShapeCommand(
+            value,
+            moveShape(value, step),
+            [SHAPE.id],
+            "Move",
+          ),
+          value,
+        );
+      }
+      return getHistorySize(history);
+    };
+
+    it("stays flat as the number of images grows", () => {
+      const sizes = [0, 10, 50].map(recordMoves);
+
+      expect(sizes[0]).toBeGreaterThan(0);
+      expect(sizes[1]).toBe(sizes[0]);
+      expect(sizes[2]).toBe(sizes[0]);
+      // A single image would outweigh the whole history
+      expect(sizes[2]).toBeLessThan(IMAGE_DATA_URL.length);
+    });
+  });
+});
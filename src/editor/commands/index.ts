@@ -1,8 +1,18 @@
-import type { DesignValue, ID } from "../schema";
+import { compactMap, uniqued } from "../../utils";
+import { getElement, getElementLabel } from "../elements";
+import type { ReorderDirection } from "../order/zOrder";
+import type { DesignValue, Element, ID } from "../schema";
+import { type Patch, applyPatchesRebased, diffDesignValues } from "./patches";
 
+export { type Patch, type PatchPath, applyPatches } from "./patches";
+
+// Commands are applied to the current value rather than restoring a stored
+// one, so they only need to remember what they changed. In collaborative
+// sessions the current value includes other users' changes, which undo and
+// redo leave in place.
 export interface Command {
-  execute(): DesignValue;
-  undo(): DesignValue;
+  execute(value: DesignValue): DesignValue;
+  undo(value: DesignValue): DesignValue;
   description: string;
 }
 
@@ -11,26 +21,30 @@ export interface HistoryState {
   currentIndex: number;
 }
 
+export const DEFAULT_MAX_HISTORY_SIZE = 50;
+
 export class HistoryManager {
   private history: Command[] = [];
   private currentIndex = -1;
-  private maxHistorySize = 50;
+  private maxHistorySize: number;
+
+  constructor(maxHistorySize = DEFAULT_MAX_HISTORY_SIZE) {
+    this.maxHistorySize = Math.max(1, maxHistorySize);
+  }
 
-  executeCommand(command: Command): DesignValue {
+  executeCommand(command: Command, value: DesignValue): DesignValue {
     // Remove any commands after current index (when we're in the middle of history)
     this.history = this.history.slice(0, this.currentIndex + 1);
 
-    // Add new command
+    // Add new command, dropping the oldest ones beyond the size limit
     this.history.push(command);
+    this.history = this.history.slice(-this.maxHistorySize);
 
-    // Limit history size
-    if (this.history.length > this.maxHistorySize) {
-      this.history.shift();
-    } else {
-      this.currentIndex++;
-    }
+    // The new command is always the current one, including when the history
+    // was full and the oldest command was dropped
+    this.currentIndex = this.history.length - 1;
 
-    return command.execute();
+    return command.execute(value);
   }
 
   canUndo(): boolean {
@@ -41,24 +55,40 @@ export class HistoryManager {
     return this.currentIndex < this.history.length - 1;
   }
 
-  undo(): DesignValue | null {
+  undo(value: DesignValue): DesignValue | null {
     if (!this.canUndo()) {
       return null;
     }
 
     const command = this.history[this.currentIndex];
     this.currentIndex--;
-    return command.undo();
+    return command.undo(value);
   }
 
-  redo(): DesignValue | null {
+  redo(value: DesignValue): DesignValue | null {
     if (!this.canRedo()) {
       return null;
     }
 
     this.currentIndex++;
     const command = this.history[this.currentIndex];
-    return command.execute();
+    return command.execute(value);
+  }
+
+  /**
+   * Undoes or redoes commands until the command at the index is the current
+   * one. An index of -1 undoes every command.
+   */
+  jumpTo(index: number, value: DesignValue): DesignValue {
+    const targetIndex = Math.min(Math.max(index, -1), this.history.length - 1);
+    let result = value;
+    while (this.currentIndex > targetIndex) {
+      result = this.undo(result) ?? result;
+    }
+    while (this.currentIndex < targetIndex) {
+      result = this.redo(result) ?? result;
+    }
+    return result;
   }
 
   getState(): HistoryState {
@@ -74,32 +104,87 @@ export class HistoryManager {
   }
 }
 
-// Base command implementations
+// Base command implementations. The forward and inverse patches are scoped to
+// the elements and fields that differ between the two values, and are rebased
+// onto whatever changed since the command was recorded.
 export abstract class BaseCommand implements Command {
-  protected previousValue: DesignValue;
-  protected nextValue: DesignValue;
+  readonly patches: Patch[];
+  readonly inversePatches: Patch[];
 
   constructor(
     previousValue: DesignValue,
     nextValue: DesignValue,
     public description: string,
   ) {
-    this.previousValue = structuredClone(previousValue);
-    this.nextValue = structuredClone(nextValue);
+    this.patches = diffDesignValues(previousValue, nextValue);
+    this.inversePatches = diffDesignValues(nextValue, previousValue);
   }
 
-  execute(): DesignValue {
-    return structuredClone(this.nextValue);
+  execute(value: DesignValue): DesignValue {
+    return applyPatchesRebased(value, this.patches, this.inversePatches);
   }
 
-  undo(): DesignValue {
-    return structuredClone(this.previousValue);
+  undo(value: DesignValue): DesignValue {
+    return applyPatchesRebased(value, this.inversePatches, this.patches);
   }
 }
 
+const ELEMENT_TYPE_PLURALS: Record<Element["type"], string> = {
+  shape: "shapes",
+  text: "texts",
+  image: "images",
+  group: "groups",
+};
+
+/**
+ * Names the elements for history entries, e.g. "Logo" for a single element or
+ * "3 shapes" for several. Elements are looked up in the next value first so
+ * deleted elements are still named after their last state.
+ */
+const describeElements = (
+  previousValue: DesignValue,
+  nextValue: DesignValue,
+  ids: ID[],
+): string => {
+  const elements = compactMap(
+    ids,
+    (id) => getElement(nextValue, id) ?? getElement(previousValue, id),
+  );
+  const [firstElement] = elements;
+
+  if (elements.length === 1 && firstElement) {
+    return getElementLabel(firstElement);
+  }
+  const types = uniqued(elements.map((element) => element.type));
+  const noun =
+    types.length === 1 && types[0]
+      ? ELEMENT_TYPE_PLURALS[types[0]]
+      : "elements";
+  return `${ids.length} ${noun}`;
+};
+
 export class CreateShapeCommand extends BaseCommand {
   constructor(previousValue: DesignValue, nextValue: DesignValue, shapeId: ID) {
-    super(previousValue, nextValue, `Create shape ${shapeId}`);
+    super(
+      previousValue,
+      nextValue,
+      `Create ${describeElements(previousValue, nextValue, [shapeId])}`,
+    );
+  }
+}
+
+// Adds elements from an imported file
+export class ImportCommand extends BaseCommand {
+  constructor(
+    previousValue: DesignValue,
+    nextValue: DesignValue,
+    elementIds: ID[],
+  ) {
+    super(
+      previousValue,
+      nextValue,
+      `Import ${describeElements(previousValue, nextValue, elementIds)}`,
+    );
   }
 }
 
@@ -109,11 +194,11 @@ export class DeleteShapeCommand extends BaseCommand {
     nextValue: DesignValue,
     shapeIds: ID[],
   ) {
-    const description =
-      shapeIds.length === 1
-        ? `Delete shape ${shapeIds[0]}`
-        : `Delete ${shapeIds.length} shapes`;
-    super(previousValue, nextValue, description);
+    super(
+      previousValue,
+      nextValue,
+      `Delete ${describeElements(previousValue, nextValue, shapeIds)}`,
+    );
   }
 }
 
@@ -124,10 +209,72 @@ export class UpdateShapeCommand extends BaseCommand {
     shapeIds: ID[],
     operation: string,
   ) {
-    const description =
-      shapeIds.length === 1
-        ? `${operation} shape ${shapeIds[0]}`
-        : `${operation} ${shapeIds.length} shapes`;
-    super(previousValue, nextValue, description);
+    super(
+      previousValue,
+      nextValue,
+      `${operation} ${describeElements(previousValue, nextValue, shapeIds)}`,
+    );
+  }
+}
+
+export class GroupCommand extends BaseCommand {
+  constructor(
+    previousValue: DesignValue,
+    nextValue: DesignValue,
+    childIds: ID[],
+  ) {
+    super(
+      previousValue,
+      nextValue,
+      `Group ${describeElements(previousValue, nextValue, childIds)}`,
+    );
+  }
+}
+
+export class UngroupCommand extends BaseCommand {
+  constructor(
+    previousValue: DesignValue,
+    nextValue: DesignValue,
+    groupIds: ID[],
+  ) {
+    super(
+      previousValue,
+      nextValue,
+      `Ungroup ${describeElements(previousValue, nextValue, groupIds)}`,
+    );
+  }
+}
+
+const REORDER_OPERATIONS: Record<ReorderDirection, string> = {
+  forward: "Bring forward",
+  backward: "Send backward",
+  front: "Bring to front",
+  back: "Send to back",
+};
+
+export class ReorderCommand extends BaseCommand {
+  constructor(
+    previousValue: DesignValue,
+    nextValue: DesignValue,
+    elementIds: ID[],
+    direction: ReorderDirection,
+  ) {
+    const operation = REORDER_OPERATIONS[direction];
+    super(
+      previousValue,
+      nextValue,
+      `${operation} ${describeElements(previousValue, nextValue, elementIds)}`,
+    );
+  }
+}
+
+// Replaces the whole design, e.g. with a saved version
+export class RestoreCommand extends BaseCommand {
+  constructor(
+    previousValue: DesignValue,
+    nextValue: DesignValue,
+    name: string,
+  ) {
+    super(previousValue, nextValue, `Restore ${name}`);
   }
 }
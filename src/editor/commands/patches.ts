@@ -0,0 +1,256 @@
+import type { DesignValue } from "../schema";
+
+/**
+ * A JSON-patch style operation on a design value. Paths are at most two keys
+ * deep: element collections are patched per element, every other top-level
+ * field (order, attributes) is replaced as a whole.
+ *
+ * Patch values share structure with the design they were taken from rather
+ * than being cloned; design values are never mutated in place.
+ */
+export type Patch =
+  | { op: "add" | "replace"; path: PatchPath; value: unknown }
+  | { op: "remove"; path: PatchPath };
+
+export type PatchPath = [key: string] | [key: string, id: string];
+
+const ELEMENT_COLLECTIONS = new Set(["shapes", "texts", "images", "groups"]);
+
+type PlainObject = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is PlainObject => {
+  return typeof value === "object" && value != null && !Array.isArray(value);
+};
+
+export const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length &&
+      a.every((item, index) => isDeepEqual(item, b[index]))
+    );
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    // Undefined properties are dropped before values are stored, so they are
+    // treated the same as missing ones
+    const aKeys = Object.keys(a).filter((key) => a[key] !== undefined);
+    const bKeys = Object.keys(b).filter((key) => b[key] !== undefined);
+    return (
+      aKeys.length === bKeys.length &&
+      aKeys.every((key) => isDeepEqual(a[key], b[key]))
+    );
+  }
+
+  return false;
+};
+
+const diffEntries = (
+  previous: PlainObject,
+  next: PlainObject,
+  getPath: (key: string) => PatchPath,
+): Patch[] => {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  return [...keys].flatMap((key): Patch[] => {
+    const previousEntry = previous[key];
+    const nextEntry = next[key];
+
+    if (nextEntry === undefined) {
+      return previousEntry === undefined
+        ? []
+        : [{ op: "remove", path: getPath(key) }];
+    }
+    if (previousEntry === undefined) {
+      return [{ op: "add", path: getPath(key), value: nextEntry }];
+    }
+    return isDeepEqual(previousEntry, nextEntry)
+      ? []
+      : [{ op: "replace", path: getPath(key), value: nextEntry }];
+  });
+};
+
+/**
+ * Returns the patches turning the previous value into the next one, scoped to
+ * the elements and fields that changed
+ */
+export const diffDesignValues = (
+  previous: DesignValue,
+  next: DesignValue,
+): Patch[] => {
+  const previousFields = previous as unknown as PlainObject;
+  const nextFields = next as unknown as PlainObject;
+  const keys = new Set([
+    ...Object.keys(previousFields),
+    ...Object.keys(nextFields),
+  ]);
+
+  return [...keys].flatMap((key) => {
+    const previousField = previousFields[key];
+    const nextField = nextFields[key];
+
+    if (
+      ELEMENT_COLLECTIONS.has(key) &&
+      isPlainObject(previousField) &&
+      isPlainObject(nextField)
+    ) {
+      return diffEntries(previousField, nextField, (id) => [key, id]);
+    }
+    const fieldPath: PatchPath = [key];
+    return diffEntries(
+      { [key]: previousField },
+      { [key]: nextField },
+      () => fieldPath,
+    );
+  });
+};
+
+/**
+ * Applies the patches to the value, copying only the collections they touch
+ */
+export const applyPatches = (
+  value: DesignValue,
+  patches: Patch[],
+): DesignValue => {
+  const result: PlainObject = { ...value };
+  const copiedCollections = new Set<string>();
+
+  patches.forEach((patch) => {
+    const [key, id] = patch.path;
+
+    if (id === undefined) {
+      if (patch.op === "remove") {
+        delete result[key];
+      } else {
+        result[key] = patch.value;
+      }
+      return;
+    }
+
+    if (!copiedCollections.has(key)) {
+      const collection = result[key];
+      result[key] = isPlainObject(collection) ? { ...collection } : {};
+      copiedCollections.add(key);
+    }
+    const collection = result[key] as PlainObject;
+    if (patch.op === "remove") {
+      delete collection[id];
+    } else {
+      collection[id] = patch.value;
+    }
+  });
+
+  return result as unknown as DesignValue;
+};
+
+const getPathKey = (path: PatchPath) => path.join("/");
+
+/**
+ * Undoes the order changes of a command whose result was reordered since:
+ * elements it added are taken out and elements it removed are put back near
+ * their old index, keeping everyone else's order
+ */
+const rebaseOrder = (
+  current: unknown[],
+  target: unknown[],
+  expected: unknown[],
+) => {
+  const targetIds = new Set(target);
+  const expectedIds = new Set(expected);
+  const result = current.filter(
+    (id) => targetIds.has(id) || !expectedIds.has(id),
+  );
+  target.forEach((id, index) => {
+    if (!expectedIds.has(id) && !result.includes(id)) {
+      result.splice(Math.min(index, result.length), 0, id);
+    }
+  });
+  return result;
+};
+
+const rebasePatch = (
+  value: DesignValue,
+  patch: Patch,
+  expected: unknown,
+): Patch | null => {
+  const [key, id] = patch.path;
+  const field = (value as unknown as PlainObject)[key];
+  const current =
+    id === undefined ? field : (field as PlainObject | undefined)?.[id];
+
+  if (patch.op === "remove") {
+    return current === undefined ? null : patch;
+  }
+  if (current === undefined || isDeepEqual(current, expected)) {
+    // Elements removed since are not brought back by other changes to them
+    return current === undefined && expected !== undefined ? null : patch;
+  }
+
+  if (id === undefined) {
+    return key === "order" &&
+      Array.isArray(current) &&
+      Array.isArray(patch.value) &&
+      Array.isArray(expected)
+      ? { ...patch, value: rebaseOrder(current, patch.value, expected) }
+      : null;
+  }
+  if (
+    !isPlainObject(current) ||
+    !isPlainObject(patch.value) ||
+    !isPlainObject(expected)
+  ) {
+    return patch;
+  }
+
+  // Only fields the patch changed and nobody changed since are reverted
+  const target = patch.value;
+  const element = { ...current };
+  const fields = new Set([...Object.keys(target), ...Object.keys(expected)]);
+  let hasChanges = false;
+  fields.forEach((elementField) => {
+    if (
+      isDeepEqual(target[elementField], expected[elementField]) ||
+      !isDeepEqual(current[elementField], expected[elementField])
+    ) {
+      return;
+    }
+    if (target[elementField] === undefined) {
+      delete element[elementField];
+    } else {
+      element[elementField] = target[elementField];
+    }
+    hasChanges = true;
+  });
+
+  return hasChanges ? { ...patch, value: element } : null;
+};
+
+/**
+ * Applies the patches on top of changes made since they were recorded, such
+ * as a collaborator's edits. The opposite patches describe the value the
+ * patches expect to find: elements and fields that no longer match it were
+ * changed by someone else and are left as they are.
+ */
+export const applyPatchesRebased = (
+  value: DesignValue,
+  patches: Patch[],
+  oppositePatches: Patch[],
+): DesignValue => {
+  const expectedValues = new Map(
+    oppositePatches.map((patch) => [
+      getPathKey(patch.path),
+      patch.op === "remove" ? undefined : patch.value,
+    ]),
+  );
+  const rebasedPatches = patches.flatMap((patch) => {
+    const rebasedPatch = rebasePatch(
+      value,
+      patch,
+      expectedValues.get(getPathKey(patch.path)),
+    );
+    return rebasedPatch ? [rebasedPatch] : [];
+  });
+
+  return applyPatches(value, rebasedPatches);
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import DesignEditor from "../design/DesignEditor";
+import type { DesignValue } from "../schema";
+import { createCommentAnchor, getCommentAnchorPoint } from "./anchors";
+
+const EMPTY_VALUE: DesignValue = {
+  shapes: {},
+  texts: {},
+  images: {},
+  groups: {},
+  order: [],
+  attributes: { width: 800, height: 600 },
+};
+
+const createRectangle = (editor: DesignEditor) =>
+  editor.createShape({
+    left: 100,
+    top: 100,
+    width: 200,
+    height: 100,
+    viewBox: { minX: 0, minY: 0, width: 64, height: 64 },
+    paths: [{ d: "M0,0L64,0L64,64L0,64Z" }],
+  });
+
+describe("comment anchors", () => {
+  it("pins to the canvas outside elements", () => {
+    const editor = new DesignEditor({ value: EMPTY_VALUE });
+    createRectangle(editor);
+
+    const anchor = createCommentAnchor(editor.state.value, { x: 20, y: 30 });
+    expect(anchor).toEqual({ type: "canvas", x: 20, y: 30 });
+    expect(getCommentAnchorPoint(editor.state.value, anchor)).toEqual({
+      x: 20,
+      y: 30,
+    });
+  });
+
+  it("follows the element it is pinned to", () => {
+    const editor = new DesignEditor({ value: EMPTY_VALUE });
+    const shapeId = createRectangle(editor);
+
+    const anchor = createCommentAnchor(editor.state.value, { x: 150, y: 125 });
+    expect(anchor).toEqual({
+      type: "element",
+      elementId: shapeId,
+      x: 0.25,
+      y: 0.25,
+    });
+
+    const shape = editor.state.value.shapes[shapeId];
+    editor.replaceElements([
+      { ...shape, bounds: { left: 300, top: 200, width: 400, height: 200 } },
+    ]);
+    expect(getCommentAnchorPoint(editor.state.value, anchor)).toEqual({
+      x: 400,
+      y: 250,
+    });
+
+    // Half a turn around the center at (500, 300)
+    editor.updateElementRotation(shapeId, 180);
+    const point = getCommentAnchorPoint(editor.state.value, anchor);
+    expect(point?.x).toBeCloseTo(600);
+    expect(point?.y).toBeCloseTo(350);
+
+    editor.deleteElements([shapeId]);
+    expect(getCommentAnchorPoint(editor.state.value, anchor)).toBeNull();
+  });
+
+  it("pins to the top-most visible element", () => {
+    const editor = new DesignEditor({ value: EMPTY_VALUE });
+    const bottomId = createRectangle(editor);
+    const topId = createRectangle(editor);
+
+    const point = { x: 150, y: 150 };
+    expect(createCommentAnchor(editor.state.value, point)).toMatchObject({
+      elementId: topId,
+    });
+
+    editor.setElementsHidden([topId], true);
+    expect(createCommentAnchor(editor.state.value, point)).toMatchObject({
+      elementId: bottomId,
+    });
+  });
+});
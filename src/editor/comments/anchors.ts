@@ -0,0 +1,75 @@
+import { getElement } from "../elements";
+import { isElementHidden } from "../group/groupUtils";
+import { isPointHitLayout } from "../math/hitTests";
+import { getBoundsCenter, rotatePoint } from "../math/rotation";
+import type { Point } from "../math/types";
+import { getStackingOrder } from "../order/zOrder";
+import type { DesignValue, ID } from "../schema";
+
+/**
+ * Where a comment is pinned: a point on the canvas, or a point on an element.
+ * Element pins store their position as a fraction of the element's unrotated
+ * size, so they follow the element when it moves, resizes or rotates.
+ */
+export type CommentAnchor =
+  | { type: "canvas"; x: number; y: number }
+  | { type: "element"; elementId: ID; x: number; y: number };
+
+/**
+ * Pins to the top-most visible element under the point, or to the canvas when
+ * there is none
+ */
+export const createCommentAnchor = (
+  value: DesignValue,
+  point: Point,
+): CommentAnchor => {
+  const element = getStackingOrder(value)
+    .reverse()
+    .map((id) => getElement(value, id))
+    .find(
+      (candidate) =>
+        !!candidate &&
+        !isElementHidden(value, candidate.id) &&
+        isPointHitLayout({ target: candidate, point }),
+    );
+  if (!element) {
+    return { type: "canvas", x: point.x, y: point.y };
+  }
+
+  const { bounds, rotation = 0 } = element;
+  const local = rotatePoint(point, getBoundsCenter(bounds), -rotation);
+  return {
+    type: "element",
+    elementId: element.id,
+    x: (local.x - bounds.left) / bounds.width,
+    y: (local.y - bounds.top) / bounds.height,
+  };
+};
+
+/**
+ * Returns the canvas position of the pin, or null when the element it is
+ * pinned to no longer exists
+ */
+export const getCommentAnchorPoint = (
+  value: DesignValue,
+  anchor: CommentAnchor,
+): Point | null => {
+  switch (anchor.type) {
+    case "canvas":
+      return { x: anchor.x, y: anchor.y };
+    case "element": {
+      const element = getElement(value, anchor.elementId);
+      if (!element) return null;
+
+      const { bounds, rotation = 0 } = element;
+      return rotatePoint(
+        {
+          x: bounds.left + anchor.x * bounds.width,
+          y: bounds.top + anchor.y * bounds.height,
+        },
+        getBoundsCenter(bounds),
+        rotation,
+      );
+    }
+  }
+};
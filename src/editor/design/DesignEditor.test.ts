@@ -0,0 +1,644 @@
+import { describe, expect, it } from "vitest";
+
+import type { DesignValue } from "../schema";
+import DesignEditor from "./DesignEditor";
+
+const EMPTY_VALUE: DesignValue = {
+  shapes: {},
+  texts: {},
+  images: {},
+  groups: {},
+  order: [],
+  attributes: { width: 800, height: 600 },
+};
+
+const createRectangle = (
+  editor: DesignEditor,
+  bounds: { left: number; top: number; width: number; height: number },
+) =>
+  editor.createShape({
+    ...bounds,
+    viewBox: { minX: 0, minY: 0, width: 64, height: 64 },
+    paths: [{ d: "M0,0L64,0L64,64L0,64Z" }],
+  });
+
+describe("DesignEditor", () => {
+  describe("groups", () => {
+    it("groups elements with bounds enclosing the children", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const first = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+      const second = createRectangle(editor, {
+        left: 100,
+        top: 80,
+        width: 20,
+        height: 40,
+      });
+
+      const groupId = editor.groupElements([first, second]);
+
+      expect(groupId).not.toBeNull();
+      expect(editor.state.value.groups[groupId!]).toMatchObject({
+        children: [first, second],
+        bounds: { left: 10, top: 10, width: 110, height: 110 },
+      });
+      expect(editor.state.selection).toEqual({ ids: [groupId] });
+    });
+
+    it("undoes and redoes grouping and ungrouping", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const first = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+      const second = createRectangle(editor, {
+        left: 100,
+        top: 80,
+        width: 20,
+        height: 40,
+      });
+      const groupId = editor.groupElements([first, second])!;
+
+      editor.ungroupElements([groupId]);
+      expect(editor.state.value.groups).toEqual({});
+
+      editor.undo();
+      expect(editor.state.value.groups[groupId]?.children).toEqual([
+        first,
+        second,
+      ]);
+
+      editor.undo();
+      expect(editor.state.value.groups).toEqual({});
+
+      editor.redo();
+      expect(editor.state.value.groups[groupId]).toBeDefined();
+    });
+
+    it("scales children proportionally when the group is resized", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const first = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+      const second = createRectangle(editor, {
+        left: 60,
+        top: 60,
+        width: 50,
+        height: 50,
+      });
+      const groupId = editor.groupElements([first, second])!;
+
+      editor.updateGroupBounds(groupId, {
+        left: 10,
+        top: 10,
+        width: 200,
+        height: 100,
+      });
+
+      const { shapes, groups } = editor.state.value;
+      expect(shapes[first]?.bounds).toEqual({
+        left: 10,
+        top: 10,
+        width: 100,
+        height: 50,
+      });
+      expect(shapes[second]?.bounds).toEqual({
+        left: 110,
+        top: 60,
+        width: 100,
+        height: 50,
+      });
+      expect(groups[groupId]?.bounds).toEqual({
+        left: 10,
+        top: 10,
+        width: 200,
+        height: 100,
+      });
+    });
+
+    it("deletes descendants together with the group", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const first = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+      const second = createRectangle(editor, {
+        left: 60,
+        top: 60,
+        width: 50,
+        height: 50,
+      });
+      const groupId = editor.groupElements([first, second])!;
+
+      editor.deleteElements([groupId]);
+
+      expect(editor.state.value.shapes).toEqual({});
+      expect(editor.state.value.groups).toEqual({});
+    });
+
+    it("refits the group when a grouped image or text moves", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const imageId = editor.createImage({
+        src: "data:image/png;base64,iVBORw0KGgo=",
+        left: 10,
+        top: 10,
+        width: 40,
+        height: 30,
+      });
+      const textId = editor.createText({
+        content: "Caption",
+        left: 10,
+        top: 50,
+        fontSize: 16,
+        color: "#000000",
+        fontWeight: "normal",
+        fontFamily: "Arial",
+      });
+      const groupId = editor.groupElements([imageId, textId])!;
+      const getGroupBounds = () => editor.state.value.groups[groupId]?.bounds;
+      const { height } = editor.state.value.texts[textId].bounds;
+
+      editor.updateImageBounds(imageId, {
+        left: 0,
+        top: 0,
+        width: 200,
+        height: 30,
+      });
+      expect(getGroupBounds()).toEqual({
+        left: 0,
+        top: 0,
+        width: 200,
+        height: 50 + height,
+      });
+
+      editor.updateTextPosition(textId, 10, 100);
+      editor.updateImagePosition(imageId, 20, 20);
+      expect(getGroupBounds()).toMatchObject({
+        left: 10,
+        top: expect.closeTo(20) as number,
+        width: 210,
+        height: expect.closeTo(80 + height) as number,
+      });
+
+      editor.undo();
+      expect(getGroupBounds()?.top).toBe(0);
+    });
+  });
+
+  describe("rotation", () => {
+    it("rotates group children around the group center", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const first = createRectangle(editor, {
+        left: 100,
+        top: 100,
+        width: 20,
+        height: 20,
+      });
+      const second = createRectangle(editor, {
+        left: 180,
+        top: 100,
+        width: 20,
+        height: 20,
+      });
+      const groupId = editor.groupElements([first, second])!;
+
+      editor.updateElementRotation(groupId, 90);
+
+      const { shapes, groups } = editor.state.value;
+      expect(shapes[first]?.rotation).toBe(90);
+      expect(shapes[first]?.bounds.left).toBeCloseTo(140);
+      expect(shapes[first]?.bounds.top).toBeCloseTo(60);
+      expect(shapes[second]?.bounds.left).toBeCloseTo(140);
+      expect(shapes[second]?.bounds.top).toBeCloseTo(140);
+      expect(groups[groupId]?.rotation).toBe(90);
+      expect(groups[groupId]?.bounds.width).toBeCloseTo(100);
+      expect(groups[groupId]?.bounds.height).toBeCloseTo(20);
+    });
+  });
+
+  describe("stacking order", () => {
+    const createThree = (editor: DesignEditor) =>
+      [0, 1, 2].map((index) =>
+        createRectangle(editor, {
+          left: 10 + index * 10,
+          top: 10,
+          width: 50,
+          height: 50,
+        }),
+      );
+
+    it("appends created elements on top", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const ids = createThree(editor);
+
+      expect(editor.state.value.order).toEqual(ids);
+    });
+
+    it("reorders as a single undoable command", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const [bottom, middle, top] = createThree(editor);
+
+      editor.bringToFront([bottom]);
+      expect(editor.state.value.order).toEqual([middle, top, bottom]);
+
+      editor.sendBackward([bottom]);
+      expect(editor.state.value.order).toEqual([middle, bottom, top]);
+
+      editor.sendToBack([top]);
+      expect(editor.state.value.order).toEqual([top, middle, bottom]);
+
+      editor.bringForward([top]);
+      expect(editor.state.value.order).toEqual([middle, top, bottom]);
+
+      editor.undo();
+      expect(editor.state.value.order).toEqual([top, middle, bottom]);
+    });
+
+    it("does not record a command when the order is unchanged", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const [, , top] = createThree(editor);
+
+      editor.bringToFront([top]);
+      editor.undo();
+
+      expect(editor.state.value.shapes[top]).toBeUndefined();
+    });
+  });
+
+  describe("transactions", () => {
+    it("records a gesture as a single undoable step", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const id = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+      const shape = editor.state.value.shapes[id];
+
+      editor.beginTransaction("Move");
+      [5, 10, 15].forEach((offset) => {
+        editor.replaceElements([
+          { ...shape, bounds: { ...shape.bounds, left: 10 + offset } },
+        ]);
+      });
+      editor.commitTransaction();
+      expect(editor.state.value.shapes[id]?.bounds.left).toBe(25);
+
+      editor.undo();
+      expect(editor.state.value.shapes[id]?.bounds.left).toBe(10);
+
+      editor.redo();
+      expect(editor.state.value.shapes[id]?.bounds.left).toBe(25);
+    });
+
+    it("undoes a grouped child's drag together with the group's bounds", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const first = createRectangle(editor, {
+        left: 20,
+        top: 20,
+        width: 50,
+        height: 50,
+      });
+      const second = createRectangle(editor, {
+        left: 100,
+        top: 20,
+        width: 50,
+        height: 50,
+      });
+      const groupId = editor.groupElements([first, second])!;
+      const shape = editor.state.value.shapes[first];
+
+      editor.beginTransaction("Move");
+      editor.replaceElements([
+        { ...shape, bounds: { ...shape.bounds, left: 200 } },
+      ]);
+      editor.commitTransaction();
+      expect(editor.state.value.groups[groupId]?.bounds.left).toBe(100);
+
+      editor.undo();
+      expect(editor.state.value.shapes[first]?.bounds.left).toBe(20);
+      expect(editor.state.value.groups[groupId]?.bounds).toEqual({
+        left: 20,
+        top: 20,
+        width: 130,
+        height: 50,
+      });
+
+      editor.redo();
+      expect(editor.state.value.shapes[first]?.bounds.left).toBe(200);
+      expect(editor.state.value.groups[groupId]?.bounds).toEqual({
+        left: 100,
+        top: 20,
+        width: 150,
+        height: 50,
+      });
+      expect(editor.state.historyEntries.at(-1)).toBe("Move Shape");
+    });
+
+    it("does not record a gesture that changed nothing", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const id = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+
+      editor.beginTransaction("Update transparency");
+      editor.updateShapeAttributes({ ids: [id], transparency: 0.5 });
+      editor.updateShapeAttributes({ ids: [id], transparency: undefined });
+      editor.commitTransaction();
+      editor.undo();
+
+      expect(editor.state.value.shapes[id]).toBeUndefined();
+    });
+
+    it("restores the previous value when cancelled", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const id = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+
+      const remoteId = createRectangle(editor, {
+        left: 100,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+
+      editor.beginTransaction("Rotate");
+      editor.updateElementRotation(id, 45);
+      // A collaborator's change arrives during the gesture
+      const { value } = editor.state;
+      editor.updateDesignData({
+        ...value,
+        shapes: {
+          ...value.shapes,
+          [remoteId]: { ...value.shapes[remoteId], rotation: 90 },
+        },
+      });
+      editor.cancelTransaction();
+
+      expect(editor.state.value.shapes[id]?.rotation).toBeUndefined();
+      expect(editor.state.value.shapes[remoteId]?.rotation).toBe(90);
+      expect(editor.state.canUndo).toBe(true);
+    });
+  });
+
+  describe("remote locks", () => {
+    it("leaves elements other users hold leases on alone", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const first = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+      const second = createRectangle(editor, {
+        left: 100,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+      const free = createRectangle(editor, {
+        left: 200,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+      const groupId = editor.groupElements([first, second])!;
+      editor.setRemoteLocks([first]);
+      const historySize = editor.state.historyEntries.length;
+
+      // The group would carry the locked child along
+      editor.bringToFront([groupId]);
+      editor.ungroupElements([groupId]);
+      editor.updateElementRotation(groupId, 45);
+      editor.updateShapeAttributes({ ids: [first], transparency: 0.5 });
+      editor.deleteElements([groupId]);
+      expect(editor.state.historyEntries).toHaveLength(historySize);
+      expect(editor.state.value.groups[groupId]?.children).toEqual([
+        first,
+        second,
+      ]);
+
+      // Other elements in the same command are still changed
+      editor.deleteElements([first, free]);
+      expect(editor.state.value.shapes[first]).toBeDefined();
+      expect(editor.state.value.shapes[free]).toBeUndefined();
+
+      editor.setRemoteLocks([]);
+      editor.deleteElements([groupId]);
+      expect(editor.state.value.shapes[first]).toBeUndefined();
+    });
+  });
+
+  describe("history", () => {
+    it("describes commands by element name", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const first = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+      const second = createRectangle(editor, {
+        left: 60,
+        top: 60,
+        width: 50,
+        height: 50,
+      });
+      editor.renameElement(first, "Logo");
+      editor.deleteElements([first, second]);
+
+      expect(editor.state.historyEntries).toEqual([
+        "Create Shape",
+        "Create Shape",
+        "Rename Logo",
+        "Delete 2 shapes",
+      ]);
+    });
+
+    it("jumps several steps back and forth", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const ids = [10, 20, 30].map((left) =>
+        createRectangle(editor, { left, top: 10, width: 50, height: 50 }),
+      );
+
+      editor.jumpToHistory(0);
+      expect(Object.keys(editor.state.value.shapes)).toEqual([ids[0]]);
+      expect(editor.state.historyIndex).toBe(0);
+      expect(editor.state.canRedo).toBe(true);
+
+      editor.jumpToHistory(2);
+      expect(Object.keys(editor.state.value.shapes)).toEqual(ids);
+      expect(editor.state.canRedo).toBe(false);
+    });
+
+    it("limits the history to the configured size", () => {
+      const editor = new DesignEditor({
+        value: EMPTY_VALUE,
+        maxHistorySize: 2,
+      });
+      [10, 20, 30].forEach((left) =>
+        createRectangle(editor, { left, top: 10, width: 50, height: 50 }),
+      );
+
+      expect(editor.state.historyEntries).toHaveLength(2);
+      editor.jumpToHistory(-1);
+      expect(Object.keys(editor.state.value.shapes)).toHaveLength(1);
+    });
+
+    it("restores an earlier design as an undoable command", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const first = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+      const version = editor.state.value;
+      editor.deleteElements([first]);
+      const second = createRectangle(editor, {
+        left: 60,
+        top: 60,
+        width: 50,
+        height: 50,
+      });
+
+      editor.restoreDesign(version, '"Draft"');
+      expect(Object.keys(editor.state.value.shapes)).toEqual([first]);
+      expect(editor.state.historyEntries.at(-1)).toBe('Restore "Draft"');
+
+      editor.undo();
+      expect(Object.keys(editor.state.value.shapes)).toEqual([second]);
+    });
+
+    it("imports elements centered and grouped as one step", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const importedShape = {
+        type: "shape" as const,
+        id: "imported-shape",
+        bounds: { left: 0, top: 0, width: 100, height: 50 },
+        viewBox: { minX: 0, minY: 0, width: 100, height: 50 },
+        paths: [{ d: "M0 0 L100 0 L100 50 L0 50 Z" }],
+      };
+      const importedText = {
+        type: "text" as const,
+        id: "imported-text",
+        bounds: { left: 0, top: 50, width: 100, height: 50 },
+        content: "Logo",
+        fontSize: 40,
+        color: "#000000",
+        fontWeight: "normal" as const,
+        fontFamily: "Arial",
+      };
+
+      const groupId = editor.importElements([importedShape, importedText]);
+      expect(editor.state.selection?.ids).toEqual([groupId]);
+      expect(editor.state.value.order).toEqual([
+        "imported-shape",
+        "imported-text",
+      ]);
+      expect(groupId && editor.state.value.groups[groupId]?.bounds).toEqual({
+        left: 350,
+        top: 250,
+        width: 100,
+        height: 100,
+      });
+      expect(editor.state.historyEntries.at(-1)).toBe("Import 2 elements");
+
+      editor.undo();
+      expect(editor.state.value).toEqual(EMPTY_VALUE);
+    });
+  });
+
+  describe("layer properties", () => {
+    it("hides elements undoably and drops them from the selection", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const id = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+
+      editor.setElementsHidden([id], true);
+      expect(editor.state.value.shapes[id]?.hidden).toBe(true);
+      expect(editor.state.selection).toBeNull();
+
+      editor.undo();
+      expect(editor.state.value.shapes[id]?.hidden).toBeUndefined();
+    });
+
+    it("clears the name when renamed to an empty string", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const id = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+
+      editor.renameElement(id, "Logo");
+      expect(editor.state.value.shapes[id]?.name).toBe("Logo");
+
+      editor.renameElement(id, "  ");
+      expect(editor.state.value.shapes[id]).not.toHaveProperty("name");
+    });
+
+    it("leaves locked elements alone until they are unlocked", () => {
+      const editor = new DesignEditor({ value: EMPTY_VALUE });
+      const locked = createRectangle(editor, {
+        left: 10,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+      const free = createRectangle(editor, {
+        left: 100,
+        top: 10,
+        width: 50,
+        height: 50,
+      });
+      editor.setElementsLocked([locked], true);
+      const value = editor.state.value;
+      const shape = value.shapes[locked];
+
+      editor.deleteElements([locked]);
+      editor.replaceElements([
+        { ...shape, bounds: { ...shape.bounds, left: 200 } },
+      ]);
+      editor.updateElementRotation(locked, 45);
+      editor.updateShapeAttributes({ ids: [locked], transparency: 0.5 });
+      editor.bringToFront([locked]);
+      expect(editor.state.value).toBe(value);
+
+      // Moving a selection with a locked element in it moves nothing
+      editor.replaceElements([
+        { ...shape, bounds: { ...shape.bounds, left: 200 } },
+        { ...value.shapes[free], rotation: 45 },
+      ]);
+      expect(editor.state.value).toBe(value);
+
+      editor.setElementsLocked([locked], false);
+      editor.deleteElements([locked]);
+      expect(editor.state.value.shapes[locked]).toBeUndefined();
+    });
+  });
+});
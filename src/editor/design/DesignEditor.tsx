@@ -4,18 +4,46 @@ import { compactMap, uniqued } from "../../utils";
 import {
   CreateShapeCommand,
   DeleteShapeCommand,
+  GroupCommand,
   HistoryManager,
+  ImportCommand,
+  ReorderCommand,
+  RestoreCommand,
+  UngroupCommand,
   UpdateShapeCommand,
 } from "../commands";
+import { getElement, getElements, withElements } from "../elements";
+import {
+  fitGroupBounds,
+  getAncestorChain,
+  getElementsWithDescendants,
+  getLeafIds,
+  groupElements,
+  isElementLocked,
+  removeFromGroups,
+  resizeGroup,
+  rotateElement,
+  ungroupElements,
+} from "../group/groupUtils";
+import { unionLayouts } from "../math/rotation";
+import {
+  type ReorderDirection,
+  gather,
+  getStackingOrder,
+  reorder,
+} from "../order/zOrder";
 import type {
   DesignValue,
+  Element,
+  ElementLayerProps,
   ID,
   ShapeDef,
   ShapeFill,
   ShapePath,
   ShapeViewBox,
 } from "../schema";
-import { type Selection } from "../selection";
+import { type Selection, createSelection } from "../selection";
+import type { ImportedElement } from "../svg";
 import type { ReadonlyStoreApi } from "../types/store";
 
 interface EditorState {
@@ -23,24 +51,47 @@ interface EditorState {
   selection: Selection | null;
   canUndo: boolean;
   canRedo: boolean;
+  // Descriptions of the recorded commands, oldest first, and the index of the
+  // last applied one (-1 when everything is undone)
+  historyEntries: string[];
+  historyIndex: number;
+  // Whether a gesture is in progress, see beginTransaction
+  isTransactionOpen: boolean;
+}
+
+// A gesture in progress. Updates made while it is open are only previewed and
+// are recorded as a single command when it is committed.
+interface Transaction {
+  previousValue: DesignValue;
+  operation: string;
+  elementIds: Set<ID>;
 }
 
 export interface DesignEditorOptions {
   value: DesignValue;
+  // Number of commands kept for undo, defaults to DEFAULT_MAX_HISTORY_SIZE
+  maxHistorySize?: number;
 }
 
 class DesignEditor {
   #stateStore: StoreApi<EditorState>;
   #historyManager: HistoryManager;
+  #maxHistorySize: number | undefined;
+  #transaction: Transaction | null = null;
+  #remoteLockedIds = new Set<ID>();
 
   constructor(options: DesignEditorOptions) {
-    const { value } = options;
-    this.#historyManager = new HistoryManager();
+    const { value, maxHistorySize } = options;
+    this.#maxHistorySize = maxHistorySize;
+    this.#historyManager = new HistoryManager(maxHistorySize);
     this.#stateStore = createStore<EditorState>()(() => ({
       value,
       selection: null,
       canUndo: false,
       canRedo: false,
+      historyEntries: [],
+      historyIndex: -1,
+      isTransactionOpen: false,
     }));
   }
 
@@ -53,28 +104,73 @@ class DesignEditor {
   }
 
   #updateHistoryState() {
+    const { commands, currentIndex } = this.#historyManager.getState();
     this.#stateStore.setState({
       canUndo: this.#historyManager.canUndo(),
       canRedo: this.#historyManager.canRedo(),
+      historyEntries: commands.map((command) => command.description),
+      historyIndex: currentIndex,
     });
   }
 
   setSelection(newSelection: Selection | null) {
-    this.#stateStore.setState({ selection: newSelection });
+    this.#stateStore.setState({
+      selection: newSelection && createSelection(newSelection.ids),
+    });
+  }
+
+  // Elements other users hold leases on. Commands leave them alone, along
+  // with the groups containing them and the children of locked groups.
+  setRemoteLocks(ids: ID[]) {
+    this.#remoteLockedIds = new Set(ids);
+  }
+
+  #isLockedByOthers(id: ID) {
+    const value = this.state.value;
+    return [
+      ...getAncestorChain(value, id),
+      ...getElementsWithDescendants(value, [id]).map((element) => element.id),
+    ].some((lockedId) => this.#remoteLockedIds.has(lockedId));
+  }
+
+  #withoutLockedByOthers(nodeIds: ID[]) {
+    return nodeIds.filter((id) => !this.#isLockedByOthers(id));
+  }
+
+  // Elements locked in the design, directly, through an enclosing group or
+  // through a locked descendant, and elements locked by others. Only their
+  // layer properties can change, so that they can be unlocked again.
+  #isLocked(id: ID) {
+    const value = this.state.value;
+    return (
+      this.#isLockedByOthers(id) ||
+      isElementLocked(value, id) ||
+      getElementsWithDescendants(value, [id]).some((element) => element.locked)
+    );
+  }
+
+  #withoutLocked(nodeIds: ID[]) {
+    return nodeIds.filter((id) => !this.#isLocked(id));
   }
 
   loadDesign(value: DesignValue) {
     // Clear history when loading a new design
-    this.#historyManager = new HistoryManager();
+    this.#historyManager = new HistoryManager(this.#maxHistorySize);
+    this.#transaction = null;
     this.#stateStore.setState({
       value,
       selection: null,
       canUndo: false,
       canRedo: false,
+      historyEntries: [],
+      historyIndex: -1,
+      isTransactionOpen: false,
     });
   }
 
-  // Method to update design data without affecting selection state
+  // Applies a value from elsewhere, such as a collaborator's changes, without
+  // affecting selection or recording history. Undo and redo only revert this
+  // user's own commands on top of it.
   updateDesignData(value: DesignValue) {
     const currentState = this.#stateStore.getState();
     // Clean undefined values before setting state to ensure Firebase compatibility
@@ -104,8 +200,143 @@ class DesignEditor {
     return cleaned;
   }
 
+  /**
+   * Starts a gesture such as a drag, resize or slider drag. Updates until
+   * commitTransaction are previewed and undone together as one step.
+   */
+  beginTransaction(operation: string) {
+    if (this.#transaction) return;
+
+    this.#transaction = {
+      previousValue: this.state.value,
+      operation,
+      elementIds: new Set(),
+    };
+    this.#stateStore.setState({ isTransactionOpen: true });
+  }
+
+  /**
+   * Ends the current gesture, recording a single command from the value before
+   * the gesture to the current value if any element changed
+   */
+  commitTransaction() {
+    const transaction = this.#transaction;
+    if (!transaction) return;
+    this.#transaction = null;
+    this.#stateStore.setState({ isTransactionOpen: false });
+
+    const { previousValue, operation, elementIds } = transaction;
+    const nextValue = this.state.value;
+    const isChanged = (id: ID) =>
+      JSON.stringify(getElement(previousValue, id)) !==
+      JSON.stringify(getElement(nextValue, id));
+    const changedIds = [...elementIds].filter(isChanged);
+    if (changedIds.length === 0) return;
+
+    // Enclosing groups were refitted around the changed elements, while
+    // remote changes that arrived during the gesture are not part of it
+    const refittedGroupIds = uniqued(
+      changedIds.flatMap((id) => getAncestorChain(nextValue, id)),
+    ).filter((id) => !elementIds.has(id) && isChanged(id));
+    const command = new UpdateShapeCommand(
+      previousValue,
+      withElements(
+        previousValue,
+        getElements(nextValue, [...changedIds, ...refittedGroupIds]),
+      ),
+      changedIds,
+      operation,
+    );
+    this.#historyManager.executeCommand(command, this.state.value);
+    this.#updateHistoryState();
+  }
+
+  /**
+   * Ends the current gesture, restoring its elements and the groups refitted
+   * around them to how they were before it started. Remote changes that
+   * arrived during the gesture are kept.
+   */
+  cancelTransaction() {
+    const transaction = this.#transaction;
+    if (!transaction) return;
+    this.#transaction = null;
+
+    const { previousValue, elementIds } = transaction;
+    const currentValue = this.state.value;
+    const revertedIds = uniqued(
+      [...elementIds].flatMap((id) => getAncestorChain(currentValue, id)),
+    );
+    const addedIds = revertedIds.filter((id) => !getElement(previousValue, id));
+    const omitAdded = <T,>(record: Record<ID, T> = {}) =>
+      Object.fromEntries(
+        Object.entries(record).filter(([id]) => !addedIds.includes(id)),
+      );
+
+    const nextValue = withElements(
+      currentValue,
+      getElements(previousValue, revertedIds),
+    );
+    this.#stateStore.setState({
+      value: {
+        ...nextValue,
+        shapes: omitAdded(nextValue.shapes),
+        texts: omitAdded(nextValue.texts),
+        images: omitAdded(nextValue.images),
+        groups: omitAdded(nextValue.groups),
+        order: getStackingOrder(nextValue).filter(
+          (id) => !addedIds.includes(id),
+        ),
+      },
+      isTransactionOpen: false,
+    });
+  }
+
+  /**
+   * Calls back with the value whenever it changes outside of a gesture, and
+   * once when a gesture ends instead of for every preview during it
+   */
+  onCommittedChange(callback: (value: DesignValue) => void): () => void {
+    return this.#stateStore.subscribe((state, previousState) => {
+      if (state.isTransactionOpen) return;
+      if (
+        state.value !== previousState.value ||
+        previousState.isTransactionOpen
+      ) {
+        callback(state.value);
+      }
+    });
+  }
+
+  // Records an update as a command, or only previews it while a transaction is
+  // open
+  #applyUpdate(nextValue: DesignValue, nodeIds: ID[], operation: string) {
+    if (this.#transaction) {
+      nodeIds.forEach((id) => this.#transaction?.elementIds.add(id));
+      this.#stateStore.setState({
+        value: this.#cleanUndefinedValues(nextValue) as DesignValue,
+      });
+      return;
+    }
+
+    const command = new UpdateShapeCommand(
+      this.state.value,
+      nextValue,
+      nodeIds,
+      operation,
+    );
+    const resultValue = this.#historyManager.executeCommand(
+      command,
+      this.state.value,
+    );
+
+    this.#stateStore.setState({
+      value: this.#cleanUndefinedValues(resultValue) as DesignValue,
+    });
+    this.#updateHistoryState();
+  }
+
   undo() {
-    const previousValue = this.#historyManager.undo();
+    const previousValue = this.#historyManager.undo(this.state.value);
     if (previousValue) {
       this.#stateStore.setState({
         value: previousValue,
@@ -116,7 +347,7 @@ class DesignEditor {
   }
 
   redo() {
-    const nextValue = this.#historyManager.redo();
+    const nextValue = this.#historyManager.redo(this.state.value);
     if (nextValue) {
       this.#stateStore.setState({
         value: nextValue,
@@ -126,6 +357,33 @@ class DesignEditor {
     }
   }
 
+  // Undoes or redoes as many steps as needed to get back to the state right
+  // after the command at the index in historyEntries
+  jumpToHistory(index: number) {
+    if (index === this.state.historyIndex) return;
+
+    this.#stateStore.setState({
+      value: this.#historyManager.jumpTo(index, this.state.value),
+      selection: null,
+    });
+    this.#updateHistoryState();
+  }
+
+  /**
+   * Replaces the design with another one, e.g. a saved version, as a single
+   * undoable command named after it. Unlike loadDesign the history is kept.
+   */
+  restoreDesign(value: DesignValue, name: string) {
+    this.cancelTransaction();
+
+    const command = new RestoreCommand(this.state.value, value, name);
+    this.#stateStore.setState({
+      value: this.#historyManager.executeCommand(command, this.state.value),
+      selection: null,
+    });
+    this.#updateHistoryState();
+  }
+
   #getShapeBoundsInCenter(
     size: { width: number; height: number },
     value: DesignValue,
@@ -165,6 +423,7 @@ class DesignEditor {
 
   replaceShapes(payload: { shapes: ShapeDef[] }) {
     const { shapes } = payload;
+    if (shapes.some((shape) => this.#isLocked(shape.id))) return [];
     const updatedIds = shapes.map((shape) => shape.id);
 
     const nextValue = {
@@ -175,12 +434,97 @@ class DesignEditor {
       },
     };
 
-    this.#stateStore.setState({ value: this.#cleanUndefinedValues(nextValue) });
+    this.#applyUpdate(nextValue, updatedIds, "Update");
     return updatedIds;
   }
 
+  // Replaces elements of any type in place, used for gesture previews.
+  // Enclosing groups are refitted around their updated children.
+  replaceElements(elements: Element[], operation = "Update") {
+    if (elements.some((element) => this.#isLocked(element.id))) {
+      return [];
+    }
+
+    const nextValue = fitGroupBounds(withElements(this.state.value, elements));
+    const updatedIds = elements.map((element) => element.id);
+
+    this.#applyUpdate(nextValue, updatedIds, operation);
+    return updatedIds;
+  }
+
+  #updateLayerProps(
+    nodeIds: ID[],
+    props: ElementLayerProps,
+    operation: string,
+  ) {
+    const previousValue = this.state.value;
+    const elements = getElements(
+      previousValue,
+      this.#withoutLockedByOthers(uniqued(nodeIds)),
+    );
+
+    if (elements.length === 0) {
+      return;
+    }
+
+    const nextValue = withElements(
+      previousValue,
+      elements.map((element) => ({ ...element, ...props })),
+    );
+
+    const command = new UpdateShapeCommand(
+      previousValue,
+      nextValue,
+      elements.map((element) => element.id),
+      operation,
+    );
+    const resultValue = this.#historyManager.executeCommand(
+      command,
+      this.state.value,
+    );
+
+    this.#stateStore.setState({
+      value: this.#cleanUndefinedValues(resultValue) as DesignValue,
+    });
+    this.#updateHistoryState();
+  }
+
+  renameElement(nodeId: ID, name: string) {
+    this.#updateLayerProps(
+      [nodeId],
+      { name: name.trim() || undefined },
+      "Rename",
+    );
+  }
+
+  setElementsHidden(nodeIds: ID[], isHidden: boolean) {
+    this.#updateLayerProps(
+      nodeIds,
+      { hidden: isHidden },
+      isHidden ? "Hide" : "Show",
+    );
+
+    // Hidden elements can't be interacted with, so drop them from the selection
+    const { selection } = this.state;
+    if (isHidden && selection) {
+      this.setSelection(
+        createSelection(selection.ids.filter((id) => !nodeIds.includes(id))),
+      );
+    }
+  }
+
+  setElementsLocked(nodeIds: ID[], isLocked: boolean) {
+    this.#updateLayerProps(
+      nodeIds,
+      { locked: isLocked },
+      isLocked ? "Lock" : "Unlock",
+    );
+  }
+
   updateShapeAttributes(payload: { ids: ID[]; transparency?: number }) {
-    const { ids, ...attributes } = payload;
+    const { ids: requestedIds, ...attributes } = payload;
+    const ids = this.#withoutLocked(requestedIds);
+    if (ids.length === 0) return [];
 
     const nextValue = {
       ...this.state.value,
@@ -203,7 +547,7 @@ class DesignEditor {
       },
     };
 
-    this.#stateStore.setState({ value: this.#cleanUndefinedValues(nextValue) });
+    this.#applyUpdate(nextValue, ids, "Update transparency");
     return ids;
   }
 
@@ -219,6 +563,7 @@ class DesignEditor {
     const previousValue = this.state.value;
     const nextValue = {
       ...previousValue,
+      order: [...getStackingOrder(previousValue), nodeId],
       shapes: {
         ...previousValue.shapes,
         [nodeId]: {
@@ -241,10 +586,13 @@ class DesignEditor {
     };
 
     const command = new CreateShapeCommand(previousValue, nextValue, nodeId);
-    const resultValue = this.#historyManager.executeCommand(command);
+    const resultValue = this.#historyManager.executeCommand(
+      command,
+      this.state.value,
+    );
 
     this.#stateStore.setState({
-      selection: { id: nodeId },
+      selection: { ids: [nodeId] },
       value: resultValue,
     });
     this.#updateHistoryState();
@@ -264,6 +612,7 @@ class DesignEditor {
     const previousValue = this.state.value;
     const nextValue = {
       ...previousValue,
+      order: [...getStackingOrder(previousValue), textId],
       texts: {
         ...previousValue.texts,
         [textId]: {
@@ -286,10 +635,13 @@ class DesignEditor {
 
     // Create command for undo/redo
     const command = new CreateShapeCommand(previousValue, nextValue, textId);
-    const resultValue = this.#historyManager.executeCommand(command);
+    const resultValue = this.#historyManager.executeCommand(
+      command,
+      this.state.value,
+    );
 
     this.#stateStore.setState({
-      selection: { id: textId },
+      selection: { ids: [textId] },
       value: resultValue,
     });
     this.#updateHistoryState();
@@ -316,6 +668,7 @@ class DesignEditor {
 
     const nextValue = {
       ...previousValue,
+      order: [...getStackingOrder(previousValue), imageId],
       images: {
         ...previousValue.images,
         [imageId]: {
@@ -330,21 +683,72 @@ class DesignEditor {
 
     // Create command for undo/redo
     const command = new CreateShapeCommand(previousValue, nextValue, imageId);
-    const resultValue = this.#historyManager.executeCommand(command);
+    const resultValue = this.#historyManager.executeCommand(
+      command,
+      this.state.value,
+    );
 
     this.#stateStore.setState({
-      selection: { id: imageId },
+      selection: { ids: [imageId] },
       value: resultValue,
     });
     this.#updateHistoryState();
     return imageId;
   }
 
+  // Adds imported elements on top of the design as one undoable step. They
+  // are centered in the design and grouped when there are several. Returns
+  // the ID of the added element or group.
+  importElements(elements: ImportedElement[]): ID | null {
+    const importedBounds = unionLayouts(elements);
+    if (!importedBounds) return null;
+
+    const previousValue = this.state.value;
+    const offsetX =
+      previousValue.attributes.width / 2 -
+      (importedBounds.left + importedBounds.width / 2);
+    const offsetY =
+      previousValue.attributes.height / 2 -
+      (importedBounds.top + importedBounds.height / 2);
+    const movedElements = elements.map((element) => ({
+      ...element,
+      bounds: {
+        ...element.bounds,
+        left: element.bounds.left + offsetX,
+        top: element.bounds.top + offsetY,
+      },
+    }));
+    const ids = movedElements.map((element) => element.id);
+
+    const addedValue = {
+      ...withElements(previousValue, movedElements),
+      order: [...getStackingOrder(previousValue), ...ids],
+    };
+    const groupId = ids.length > 1 ? crypto.randomUUID() : null;
+    const nextValue = groupId
+      ? groupElements(addedValue, ids, groupId)
+      : addedValue;
+
+    const command = new ImportCommand(previousValue, nextValue, ids);
+    const resultValue = this.#historyManager.executeCommand(
+      command,
+      this.state.value,
+    );
+
+    const selectedId = groupId ?? ids[0] ?? null;
+    this.#stateStore.setState({
+      selection: selectedId ? { ids: [selectedId] } : null,
+      value: resultValue,
+    });
+    this.#updateHistoryState();
+    return selectedId;
+  }
+
   updateTextContent(textId: ID, content: string) {
     const previousValue = this.state.value;
     const currentText = previousValue.texts[textId];
 
-    if (!currentText) return;
+    if (!currentText || this.#isLocked(textId)) return;
 
     const nextValue = {
       ...previousValue,
@@ -364,7 +768,10 @@ class DesignEditor {
       [textId],
       "Update text content",
     );
-    const resultValue = this.#historyManager.executeCommand(command);
+    const resultValue = this.#historyManager.executeCommand(
+      command,
+      this.state.value,
+    );
 
     this.#stateStore.setState({
       value: this.#cleanUndefinedValues(resultValue),
@@ -376,7 +783,7 @@ class DesignEditor {
     const previousValue = this.state.value;
     const currentText = previousValue.texts[textId];
 
-    if (!currentText) return;
+    if (!currentText || this.#isLocked(textId)) return;
 
     const nextValue = {
       ...previousValue,
@@ -389,96 +796,46 @@ class DesignEditor {
       },
     };
 
-    const command = new UpdateShapeCommand(
-      previousValue,
-      nextValue,
-      [textId],
-      "Update text style",
-    );
-    const resultValue = this.#historyManager.executeCommand(command);
-
-    this.#stateStore.setState({
-      value: this.#cleanUndefinedValues(resultValue),
-    });
-    this.#updateHistoryState();
+    this.#applyUpdate(nextValue, [textId], "Update text style");
   }
 
+  // Moves and resizes go through replaceElements, so enclosing groups are
+  // refitted around the element
   updateTextPosition(textId: ID, left: number, top: number) {
-    const previousValue = this.state.value;
-    const currentText = previousValue.texts[textId];
-
+    const currentText = this.state.value.texts[textId];
     if (!currentText) return;
 
-    const nextValue = {
-      ...previousValue,
-      texts: {
-        ...previousValue.texts,
-        [textId]: {
-          ...currentText,
-          bounds: {
-            ...currentText.bounds,
-            left,
-            top,
-          },
-        },
-      },
-    };
-
-    this.#stateStore.setState({ value: this.#cleanUndefinedValues(nextValue) });
+    this.replaceElements(
+      [{ ...currentText, bounds: { ...currentText.bounds, left, top } }],
+      "Move",
+    );
   }
 
   updateImagePosition(imageId: ID, left: number, top: number) {
-    const previousValue = this.state.value;
-    const currentImage = previousValue.images[imageId];
-
+    const currentImage = this.state.value.images[imageId];
     if (!currentImage) return;
 
-    const nextValue = {
-      ...previousValue,
-      images: {
-        ...previousValue.images,
-        [imageId]: {
-          ...currentImage,
-          bounds: {
-            ...currentImage.bounds,
-            left,
-            top,
-          },
-        },
-      },
-    };
-
-    this.#stateStore.setState({ value: this.#cleanUndefinedValues(nextValue) });
+    this.replaceElements(
+      [{ ...currentImage, bounds: { ...currentImage.bounds, left, top } }],
+      "Move",
+    );
   }
 
   updateImageBounds(
     imageId: ID,
     bounds: { left: number; top: number; width: number; height: number },
   ) {
-    const previousValue = this.state.value;
-    const currentImage = previousValue.images[imageId];
-
+    const currentImage = this.state.value.images[imageId];
     if (!currentImage) return;
 
-    const nextValue = {
-      ...previousValue,
-      images: {
-        ...previousValue.images,
-        [imageId]: {
-          ...currentImage,
-          bounds,
-        },
-      },
-    };
-
-    this.#stateStore.setState({ value: this.#cleanUndefinedValues(nextValue) });
+    this.replaceElements([{ ...currentImage, bounds }], "Resize");
   }
 
   updateImageOpacity(imageId: ID, opacity: number) {
     const previousValue = this.state.value;
     const currentImage = previousValue.images[imageId];
 
-    if (!currentImage) return;
+    if (!currentImage || this.#isLocked(imageId)) return;
 
     const nextValue = {
       ...previousValue,
@@ -491,40 +848,46 @@ class DesignEditor {
       },
     };
 
-    const command = new UpdateShapeCommand(
-      previousValue,
-      nextValue,
-      [imageId],
-      "Update image opacity",
-    );
-    const resultValue = this.#historyManager.executeCommand(command);
-
-    this.#stateStore.setState({
-      value: this.#cleanUndefinedValues(resultValue),
-    });
-    this.#updateHistoryState();
+    this.#applyUpdate(nextValue, [imageId], "Update image opacity");
   }
 
-  deleteShapes(nodeIds: ID[]) {
+  // Deletes elements of any type as a single undoable command. Deleting a
+  // group deletes all of its descendants.
+  deleteElements(nodeIds: ID[]) {
     const previousValue = this.state.value;
-    const uniqueIds = uniqued(nodeIds);
-    const deleteIds = uniqueIds.filter((id) => previousValue.shapes[id]);
+    const deleteIds = getElementsWithDescendants(
+      previousValue,
+      this.#withoutLocked(uniqued(nodeIds)),
+    ).map((element) => element.id);
 
     if (deleteIds.length === 0) {
       return [];
     }
 
-    const nextValue = {
-      ...previousValue,
-      shapes: Object.fromEntries(
-        Object.entries(previousValue.shapes).filter(
-          ([id]) => !deleteIds.includes(id),
+    const omitDeleted = <T,>(record: Record<ID, T> = {}) =>
+      Object.fromEntries(
+        Object.entries(record).filter(([id]) => !deleteIds.includes(id)),
+      );
+
+    const nextValue = removeFromGroups(
+      {
+        ...previousValue,
+        shapes: omitDeleted(previousValue.shapes),
+        texts: omitDeleted(previousValue.texts),
+        images: omitDeleted(previousValue.images),
+        groups: omitDeleted(previousValue.groups),
+        order: getStackingOrder(previousValue).filter(
+          (id) => !deleteIds.includes(id),
         ),
-      ),
-    };
+      },
+      deleteIds,
+    );
 
     const command = new DeleteShapeCommand(previousValue, nextValue, deleteIds);
-    const resultValue = this.#historyManager.executeCommand(command);
+    const resultValue = this.#historyManager.executeCommand(
+      command,
+      this.state.value,
+    );
 
     this.#stateStore.setState({
       selection: null,
@@ -534,62 +897,131 @@ class DesignEditor {
     return deleteIds;
   }
 
-  deleteTexts(nodeIds: ID[]) {
+  groupElements(nodeIds: ID[]): ID | null {
     const previousValue = this.state.value;
-    const uniqueIds = uniqued(nodeIds);
-    const deleteIds = uniqueIds.filter((id) => previousValue.texts[id]);
+    const childIds = this.#withoutLocked(uniqued(nodeIds)).filter((id) =>
+      getElement(previousValue, id),
+    );
 
-    if (deleteIds.length === 0) {
-      return [];
+    if (childIds.length < 2) {
+      return null;
     }
 
+    const groupId = crypto.randomUUID();
+    const groupedValue = groupElements(previousValue, childIds, groupId);
+    // Children of a group are stacked contiguously below its top-most child
     const nextValue = {
-      ...previousValue,
-      texts: Object.fromEntries(
-        Object.entries(previousValue.texts).filter(
-          ([id]) => !deleteIds.includes(id),
-        ),
+      ...groupedValue,
+      order: gather(
+        getStackingOrder(groupedValue),
+        getLeafIds(groupedValue, [groupId]),
       ),
     };
 
-    const command = new DeleteShapeCommand(previousValue, nextValue, deleteIds);
-    const resultValue = this.#historyManager.executeCommand(command);
+    const command = new GroupCommand(previousValue, nextValue, childIds);
+    const resultValue = this.#historyManager.executeCommand(
+      command,
+      this.state.value,
+    );
 
     this.#stateStore.setState({
-      selection: null,
+      selection: { ids: [groupId] },
       value: resultValue,
     });
     this.#updateHistoryState();
-    return deleteIds;
+    return groupId;
   }
 
-  deleteImages(nodeIds: ID[]) {
+  ungroupElements(nodeIds: ID[]): ID[] {
     const previousValue = this.state.value;
-    const uniqueIds = uniqued(nodeIds);
-    const deleteIds = uniqueIds.filter((id) => previousValue.images[id]);
+    const groups = compactMap(
+      this.#withoutLocked(uniqued(nodeIds)),
+      (id) => previousValue.groups?.[id],
+    );
 
-    if (deleteIds.length === 0) {
+    if (groups.length === 0) {
       return [];
     }
 
-    const nextValue = {
-      ...previousValue,
-      images: Object.fromEntries(
-        Object.entries(previousValue.images).filter(
-          ([id]) => !deleteIds.includes(id),
-        ),
-      ),
-    };
+    const groupIds = groups.map((group) => group.id);
+    const nextValue = ungroupElements(previousValue, groupIds);
 
-    const command = new DeleteShapeCommand(previousValue, nextValue, deleteIds);
-    const resultValue = this.#historyManager.executeCommand(command);
+    const command = new UngroupCommand(previousValue, nextValue, groupIds);
+    const resultValue = this.#historyManager.executeCommand(
+      command,
+      this.state.value,
+    );
 
+    const childIds = groups.flatMap((group) => group.children);
     this.#stateStore.setState({
-      selection: null,
+      selection: createSelection(childIds),
       value: resultValue,
     });
     this.#updateHistoryState();
-    return deleteIds;
+    return childIds;
+  }
+
+  #reorderElements(nodeIds: ID[], direction: ReorderDirection) {
+    const previousValue = this.state.value;
+    const previousOrder = getStackingOrder(previousValue);
+    const movedIds = this.#withoutLocked(nodeIds);
+    const order = reorder(
+      previousOrder,
+      getLeafIds(previousValue, movedIds),
+      direction,
+    );
+
+    if (order.every((id, index) => id === previousOrder[index])) {
+      return;
+    }
+
+    const nextValue = { ...previousValue, order };
+    const command = new ReorderCommand(
+      previousValue,
+      nextValue,
+      movedIds,
+      direction,
+    );
+    const resultValue = this.#historyManager.executeCommand(
+      command,
+      this.state.value,
+    );
+
+    this.#stateStore.setState({ value: resultValue });
+    this.#updateHistoryState();
+  }
+
+  bringForward(nodeIds: ID[]) {
+    this.#reorderElements(nodeIds, "forward");
+  }
+
+  sendBackward(nodeIds: ID[]) {
+    this.#reorderElements(nodeIds, "backward");
+  }
+
+  bringToFront(nodeIds: ID[]) {
+    this.#reorderElements(nodeIds, "front");
+  }
+
+  sendToBack(nodeIds: ID[]) {
+    this.#reorderElements(nodeIds, "back");
+  }
+
+  // Scales every descendant of the group onto the new bounds
+  updateGroupBounds(groupId: ID, bounds: ShapeDef["bounds"]) {
+    this.replaceElements(
+      resizeGroup(this.state.value, groupId, bounds),
+      "Resize",
+    );
+  }
+
+  // Rotates the element around its center; groups carry their descendants
+  // along
+  updateElementRotation(nodeId: ID, rotation: number) {
+    this.replaceElements(
+      rotateElement(this.state.value, nodeId, rotation),
+      "Rotate",
+    );
   }
 
   updateShapePaths(payload: {
@@ -603,7 +1035,9 @@ class DesignEditor {
       fill?: ShapeFill | null;
     };
   }) {
-    const { ids, attributes } = payload;
+    const { attributes } = payload;
+    const ids = this.#withoutLocked(payload.ids);
+    if (ids.length === 0) return;
     const previousValue = this.state.value;
 
     const defaultStroke = {
@@ -708,18 +1142,7 @@ class DesignEditor {
           ? "Remove fill"
           : "Update fill";
 
-    const command = new UpdateShapeCommand(
-      previousValue,
-      nextValue,
-      ids,
-      operation,
-    );
-    const resultValue = this.#historyManager.executeCommand(command);
-
-    this.#stateStore.setState({
-      value: this.#cleanUndefinedValues(resultValue),
-    });
-    this.#updateHistoryState();
+    this.#applyUpdate(nextValue, ids, operation);
   }
 }
 
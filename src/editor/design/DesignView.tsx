@@ -1,10 +1,40 @@
-import { useRef } from "react";
+import { type ReactNode, useRef, useState } from "react";
 import { useStore } from "zustand";
 
+import { type CommentAnchor, createCommentAnchor } from "../comments";
+import { getElements } from "../elements";
+import {
+  getElementsWithDescendants,
+  getTopLevelElements,
+  isElementHidden,
+  isElementLocked,
+  resolveDrillTarget,
+  resolveSelectionTarget,
+} from "../group/groupUtils";
 import ImageNode from "../image/ImageNode";
-// import { isPointHitLayout } from "../math/hitTests";
-import { Element, ShapeDef } from "../schema";
-import { type Selection, SelectionArea } from "../selection";
+import { getBoundsFromPoints } from "../math/bounds";
+import { isBoundsHitLayout } from "../math/hitTests";
+import { unionLayouts } from "../math/rotation";
+import type { Bounds, Point } from "../math/types";
+import { getStackingOrder } from "../order/zOrder";
+import type {
+  Element,
+  ID,
+  ImageElement,
+  ShapeDef,
+  TextElement,
+} from "../schema";
+import {
+  type RemoteSelection,
+  RemoteSelectionOutline,
+  type Selection,
+  SelectionArea,
+  SelectionMarquee,
+  SelectionOutline,
+  createSelection,
+  isSelected,
+  toggleSelection,
+} from "../selection";
 import TextSelectionArea from "../selection/TextSelectionArea";
 import ShapeNode from "../shape/ShapeNode";
 import TextNode from "../text/TextNode";
@@ -15,56 +45,329 @@ export interface DesignViewProps {
   editor: DesignEditor;
   currentTool?: string;
   onToolChange?: (tool: "shape" | "text" | null) => void;
+  // Other users' selections, e.g. collaborators in the same room
+  remoteSelections?: RemoteSelection[];
+  // Called with the text being typed into, or null when typing stops
+  onTextEditingChange?: (textId: ID | null) => void;
+  // Called with the elements being dragged, resized or typed into when that
+  // starts, and with no elements when it ends
+  onLeaseChange?: (elementIds: ID[]) => void;
+  // Read-only views can select elements but not change them
+  isReadOnly?: boolean;
+  // Drawn over the design in canvas coordinates, e.g. comment pins
+  overlay?: ReactNode;
+  // While set, clicking the canvas pins a comment there instead of selecting
+  onCommentPlace?: (anchor: CommentAnchor) => void;
 }
 
-const DesignView = ({ editor, currentTool, onToolChange }: DesignViewProps) => {
+interface MarqueeSnapshot {
+  origin: Point;
+  baseSelection: Selection | null;
+}
+
+const DesignView = ({
+  editor,
+  currentTool,
+  onToolChange,
+  remoteSelections = [],
+  onTextEditingChange,
+  onLeaseChange,
+  isReadOnly = false,
+  overlay,
+  onCommentPlace,
+}: DesignViewProps) => {
   const { value, selection } = useStore(editor.stateStore);
   const isDoubleClickingRef = useRef(false);
   const dragTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const selectedShape =
-    selection && value?.shapes ? value.shapes[selection.id] : null;
-  const selectedText =
-    selection && value?.texts ? value.texts[selection.id] : null;
-  const selectedImage =
-    selection && value?.images ? value.images[selection.id] : null;
-  const selectedElement = selectedShape || selectedText || selectedImage;
+  const [marqueeBounds, setMarqueeBounds] = useState<Bounds | null>(null);
+  const selectedElements = selection ? getElements(value, selection.ids) : [];
+  const singleSelectedElement =
+    selectedElements.length === 1 ? selectedElements[0] : null;
+  // Elements other users are working on
+  const remoteLockedIds = new Set(
+    remoteSelections.flatMap(({ lockedIds = [] }) => lockedIds),
+  );
+  // Locked elements can be selected from the layers panel but not transformed,
+  // neither can elements someone else is working on
+  const isAnyLocked = (elements: Element[]) =>
+    elements.some(
+      (element) =>
+        isElementLocked(value, element.id) || remoteLockedIds.has(element.id),
+    );
+  const isSelectionLocked =
+    !!singleSelectedElement &&
+    (isReadOnly ||
+      isAnyLocked(
+        getElementsWithDescendants(value, [singleSelectedElement.id]),
+      ));
+  const selectedElement = isSelectionLocked ? null : singleSelectedElement;
 
-  const { onDragStart, dragProps } = useDragGesture<Element>({
+  // Each drag is recorded as a single history entry
+  const { onDragStart, dragProps } = useDragGesture<Element[]>({
+    onStart: (snapshot) => {
+      editor.beginTransaction("Move");
+      onLeaseChange?.(snapshot.map((element) => element.id));
+    },
     onMove: ({ deltaX, deltaY, snapshot }) => {
-      const updatedElement = {
-        ...snapshot,
-        bounds: {
-          ...snapshot.bounds,
-          left: snapshot.bounds.left + deltaX,
-          top: snapshot.bounds.top + deltaY,
-        },
-      };
+      editor.replaceElements(
+        snapshot.map((element) => ({
+          ...element,
+          bounds: {
+            ...element.bounds,
+            left: element.bounds.left + deltaX,
+            top: element.bounds.top + deltaY,
+          },
+        })),
+      );
+    },
+    onEnd: () => {
+      editor.commitTransaction();
+      onLeaseChange?.([]);
+    },
+  });
 
-      if (snapshot.type === "shape") {
-        editor.replaceShapes({
-          shapes: [updatedElement as ShapeDef],
-        });
-      } else if (snapshot.type === "text") {
-        // For text, we need to update the text position
-        editor.updateTextPosition(
-          snapshot.id,
-          updatedElement.bounds.left,
-          updatedElement.bounds.top,
-        );
-      } else if (snapshot.type === "image") {
-        // For images, we need to update the image position
-        editor.updateImagePosition(
-          snapshot.id,
-          updatedElement.bounds.left,
-          updatedElement.bounds.top,
+  const transformProps = {
+    onTransformStart: (operation: string) => {
+      editor.beginTransaction(operation);
+      if (selectedElement) {
+        onLeaseChange?.(
+          getElementsWithDescendants(value, [selectedElement.id]).map(
+            (element) => element.id,
+          ),
         );
       }
     },
-  });
+    onTransformEnd: () => {
+      editor.commitTransaction();
+      onLeaseChange?.([]);
+    },
+  };
+
+  const { onDragStart: onMarqueeStart, dragProps: marqueeDragProps } =
+    useDragGesture<MarqueeSnapshot>({
+      onMove: ({ deltaX, deltaY, snapshot }) => {
+        const bounds = getBoundsFromPoints(snapshot.origin, {
+          x: snapshot.origin.x + deltaX,
+          y: snapshot.origin.y + deltaY,
+        });
+        const currentValue = editor.state.value;
+        const hitIds = getTopLevelElements(currentValue)
+          .filter(
+            (element) =>
+              !isElementHidden(currentValue, element.id) &&
+              !isElementLocked(currentValue, element.id) &&
+              isBoundsHitLayout({ target: element, bounds }),
+          )
+          .map((element) => element.id);
+
+        setMarqueeBounds(bounds);
+        editor.setSelection(
+          createSelection([...(snapshot.baseSelection?.ids ?? []), ...hitIds]),
+        );
+      },
+      onEnd: () => {
+        setMarqueeBounds(null);
+      },
+    });
+
+  // Shift-click toggles the element; a plain click on an unselected element
+  // replaces the selection. Clicks on grouped elements pick the group (see
+  // resolveSelectionTarget). Returns the elements a drag should move.
+  const selectForPointerDown = (
+    leafId: string,
+    isAdditive: boolean,
+  ): Element[] | null => {
+    const id = resolveSelectionTarget(value, leafId, selection);
+    if (isAdditive) {
+      editor.setSelection(toggleSelection(selection, id));
+      return null;
+    }
+
+    const nextSelection = isSelected(selection, id)
+      ? selection
+      : createSelection([id]);
+    editor.setSelection(nextSelection);
+    if (!nextSelection) return null;
+
+    // Locked elements and elements someone else is working on can be selected
+    // but not moved, and keep the rest of the selection from moving
+    const dragElements = getElementsWithDescendants(value, nextSelection.ids);
+    return isReadOnly || isAnyLocked(dragElements) ? null : dragElements;
+  };
+
+  // Double-clicking a selected group selects its child under the pointer.
+  // Returns whether the selection drilled one level deeper.
+  const drillIntoGroup = (leafId: string): boolean => {
+    const id = resolveDrillTarget(value, leafId, selection);
+    if (!id) return false;
+
+    editor.setSelection(createSelection([id]));
+    return true;
+  };
+
+  const renderShape = (shape: ShapeDef) => (
+    <div
+      key={shape.id}
+      style={{
+        position: "absolute",
+        left: 0,
+        top: 0,
+        translate: `${shape.bounds.left}px ${shape.bounds.top}px`,
+        rotate: `${shape.rotation ?? 0}deg`,
+        width: shape.bounds.width,
+        height: shape.bounds.height,
+        opacity: 1 - (shape.transparency ?? 0),
+        pointerEvents: isElementLocked(value, shape.id) ? "none" : "auto",
+        userSelect: "none",
+      }}
+      onPointerDown={(event) => {
+        event.stopPropagation();
+        const dragElements = selectForPointerDown(shape.id, event.shiftKey);
+        if (dragElements) {
+          onDragStart(event, dragElements);
+        }
+      }}
+      onDoubleClick={() => drillIntoGroup(shape.id)}
+    >
+      <ShapeNode shape={shape} />
+    </div>
+  );
+
+  const renderText = (text: TextElement) => (
+    <div
+      key={text.id}
+      style={{
+        position: "absolute",
+        left: 0,
+        top: 0,
+        translate: `${text.bounds.left}px ${text.bounds.top}px`,
+        rotate: `${text.rotation ?? 0}deg`,
+        width: text.bounds.width,
+        height: text.bounds.height,
+        pointerEvents: isElementLocked(value, text.id) ? "none" : "auto",
+        userSelect: "auto",
+      }}
+      onPointerDown={(event) => {
+        const target = event.target as HTMLElement;
+        if (target.tagName === "INPUT" || isDoubleClickingRef.current) {
+          return; // Don't interfere with text editing or double clicking
+        }
+
+        // Clear any existing timeout
+        if (dragTimeoutRef.current) {
+          clearTimeout(dragTimeoutRef.current);
+          dragTimeoutRef.current = null;
+        }
+
+        event.stopPropagation();
+        const dragElements = selectForPointerDown(text.id, event.shiftKey);
+        if (!dragElements) {
+          return;
+        }
+
+        // Store event data for delayed drag start
+        const eventData = {
+          clientX: event.clientX,
+          clientY: event.clientY,
+          currentTarget: event.currentTarget,
+          pointerId: event.pointerId,
+          buttons: event.buttons,
+        };
+
+        // Delay drag start to allow double click detection
+        dragTimeoutRef.current = setTimeout(() => {
+          if (!isDoubleClickingRef.current && eventData.buttons === 1) {
+            // Create a synthetic event-like object for onDragStart
+            const syntheticEvent = {
+              clientX: eventData.clientX,
+              clientY: eventData.clientY,
+              currentTarget: eventData.currentTarget,
+              pointerId: eventData.pointerId,
+              buttons: eventData.buttons,
+            };
+            onDragStart(syntheticEvent as any, dragElements);
+          }
+          dragTimeoutRef.current = null;
+        }, 250);
+      }}
+      onDoubleClickCapture={(event) => {
+        // Drilling into a group takes precedence over text editing
+        if (drillIntoGroup(text.id)) {
+          event.stopPropagation();
+        }
+      }}
+      onDoubleClick={() => {
+        isDoubleClickingRef.current = true;
+
+        // Clear any pending drag operation
+        if (dragTimeoutRef.current) {
+          clearTimeout(dragTimeoutRef.current);
+          dragTimeoutRef.current = null;
+        }
+
+        // Don't stop propagation - let TextNode handle the double click
+        // Reset flag after double click is processed
+        setTimeout(() => {
+          isDoubleClickingRef.current = false;
+        }, 300);
+      }}
+    >
+      <TextNode
+        text={text}
+        onContentChange={(id, content) => editor.updateTextContent(id, content)}
+        onEditingChange={(isEditing) => {
+          onTextEditingChange?.(isEditing ? text.id : null);
+          onLeaseChange?.(isEditing ? [text.id] : []);
+        }}
+        isLocked={isReadOnly || remoteLockedIds.has(text.id)}
+      />
+    </div>
+  );
 
-  const shapes = Object.values(value?.shapes || {});
-  const texts = Object.values(value?.texts || {});
-  const images = Object.values(value?.images || {});
+  const renderImage = (image: ImageElement) => (
+    <div
+      key={image.id}
+      style={{
+        position: "absolute",
+        left: 0,
+        top: 0,
+        translate: `${image.bounds.left}px ${image.bounds.top}px`,
+        rotate: `${image.rotation ?? 0}deg`,
+        width: image.bounds.width,
+        height: image.bounds.height,
+        pointerEvents: isElementLocked(value, image.id) ? "none" : "auto",
+        userSelect: "none",
+      }}
+      onPointerDown={(event) => {
+        event.stopPropagation();
+        const dragElements = selectForPointerDown(image.id, event.shiftKey);
+        if (dragElements) {
+          onDragStart(event, dragElements);
+        }
+      }}
+      onDoubleClick={() => drillIntoGroup(image.id)}
+    >
+      <ImageNode image={image} />
+    </div>
+  );
+
+  const renderElement = (element: Element) => {
+    if (isElementHidden(value, element.id)) {
+      return null;
+    }
+
+    switch (element.type) {
+      case "shape":
+        return renderShape(element);
+      case "text":
+        return renderText(element);
+      case "image":
+        return renderImage(element);
+      case "group":
+        // Groups have no visuals of their own, their children are rendered
+        return null;
+    }
+  };
 
   return (
     <div
@@ -78,6 +381,7 @@ const DesignView = ({ editor, currentTool, onToolChange }: DesignViewProps) => {
       onKeyDown={(event) => {
         const { key } = event;
         if (!selection) return;
+        if (isReadOnly && key !== "Escape") return;
 
         switch (key) {
           case "Escape": {
@@ -86,13 +390,7 @@ const DesignView = ({ editor, currentTool, onToolChange }: DesignViewProps) => {
           }
           case "Delete":
           case "Backspace": {
-            if (selectedShape) {
-              editor.deleteShapes([selection.id]);
-            } else if (selectedText) {
-              editor.deleteTexts([selection.id]);
-            } else if (selectedImage) {
-              editor.deleteImages([selection.id]);
-            }
+            editor.deleteElements(selection.ids);
             editor.setSelection(null);
             break;
           }
@@ -110,7 +408,6 @@ const DesignView = ({ editor, currentTool, onToolChange }: DesignViewProps) => {
           height: "100%",
           overflow: "clip",
         }}
-        {...dragProps}
         onPointerDown={(event) => {
           if (event.button !== 0) return;
 
@@ -119,7 +416,7 @@ const DesignView = ({ editor, currentTool, onToolChange }: DesignViewProps) => {
           const y = event.clientY - relativeRect.top;
 
           // Handle text tool
-          if (currentTool === "text") {
+          if (currentTool === "text" && !isReadOnly) {
             editor.createText({
               left: x,
               top: y,
@@ -133,138 +430,51 @@ const DesignView = ({ editor, currentTool, onToolChange }: DesignViewProps) => {
             return;
           }
 
-          // Clear selection if clicking on empty space
-          editor.setSelection(null);
+          // Clicking on empty space clears the selection (unless extending it
+          // with shift) and starts a marquee selection
+          const baseSelection = event.shiftKey ? selection : null;
+          editor.setSelection(baseSelection);
+          onMarqueeStart(event, { origin: { x, y }, baseSelection });
+        }}
+        onPointerMove={(event) => {
+          dragProps.onPointerMove(event);
+          marqueeDragProps.onPointerMove(event);
+        }}
+        onLostPointerCapture={(event) => {
+          dragProps.onLostPointerCapture(event);
+          marqueeDragProps.onLostPointerCapture(event);
         }}
-        onPointerMove={dragProps.onPointerMove}
-        onLostPointerCapture={dragProps.onLostPointerCapture}
       >
-        {shapes.map((shape) => (
-          <div
-            key={shape.id}
-            style={{
-              position: "absolute",
-              left: 0,
-              top: 0,
-              translate: `${shape.bounds.left}px ${shape.bounds.top}px`,
-              width: shape.bounds.width,
-              height: shape.bounds.height,
-              opacity: 1 - (shape.transparency ?? 0),
-              pointerEvents: "auto",
-              userSelect: "none",
-            }}
-            onPointerDown={(event) => {
-              event.stopPropagation();
-              const newSelection: Selection = { id: shape.id };
-              editor.setSelection(newSelection);
-              onDragStart(event, shape);
-            }}
-          >
-            <ShapeNode shape={shape} />
-          </div>
-        ))}
-        {texts.map((text) => (
-          <div
-            key={text.id}
-            style={{
-              position: "absolute",
-              left: 0,
-              top: 0,
-              translate: `${text.bounds.left}px ${text.bounds.top}px`,
-              width: text.bounds.width,
-              height: text.bounds.height,
-              pointerEvents: "auto",
-              userSelect: "auto",
-            }}
-            onPointerDown={(event) => {
-              const target = event.target as HTMLElement;
-              if (target.tagName === "INPUT" || isDoubleClickingRef.current) {
-                return; // Don't interfere with text editing or double clicking
-              }
-
-              // Clear any existing timeout
-              if (dragTimeoutRef.current) {
-                clearTimeout(dragTimeoutRef.current);
-                dragTimeoutRef.current = null;
-              }
-
-              event.stopPropagation();
-              const newSelection: Selection = { id: text.id };
-              editor.setSelection(newSelection);
-
-              // Store event data for delayed drag start
-              const eventData = {
-                clientX: event.clientX,
-                clientY: event.clientY,
-                currentTarget: event.currentTarget,
-                pointerId: event.pointerId,
-                buttons: event.buttons,
-              };
-
-              // Delay drag start to allow double click detection
-              dragTimeoutRef.current = setTimeout(() => {
-                if (!isDoubleClickingRef.current && eventData.buttons === 1) {
-                  // Create a synthetic event-like object for onDragStart
-                  const syntheticEvent = {
-                    clientX: eventData.clientX,
-                    clientY: eventData.clientY,
-                    currentTarget: eventData.currentTarget,
-                    pointerId: eventData.pointerId,
-                    buttons: eventData.buttons,
-                  };
-                  onDragStart(syntheticEvent as any, text);
-                }
-                dragTimeoutRef.current = null;
-              }, 250);
-            }}
-            onDoubleClick={() => {
-              isDoubleClickingRef.current = true;
-
-              // Clear any pending drag operation
-              if (dragTimeoutRef.current) {
-                clearTimeout(dragTimeoutRef.current);
-                dragTimeoutRef.current = null;
-              }
-
-              // Don't stop propagation - let TextNode handle the double click
-              // Reset flag after double click is processed
-              setTimeout(() => {
-                isDoubleClickingRef.current = false;
-              }, 300);
-            }}
-          >
-            <TextNode
-              text={text}
-              onContentChange={(id, content) =>
-                editor.updateTextContent(id, content)
-              }
-            />
-          </div>
-        ))}
-        {images.map((image) => (
-          <div
-            key={image.id}
-            style={{
-              position: "absolute",
-              left: 0,
-              top: 0,
-              translate: `${image.bounds.left}px ${image.bounds.top}px`,
-              width: image.bounds.width,
-              height: image.bounds.height,
-              pointerEvents: "auto",
-              userSelect: "none",
-            }}
-            onPointerDown={(event) => {
-              event.stopPropagation();
-              const newSelection: Selection = { id: image.id };
-              editor.setSelection(newSelection);
-              onDragStart(event, image);
-            }}
-          >
-            <ImageNode image={image} />
-          </div>
-        ))}
+        {getElements(value, getStackingOrder(value)).map(renderElement)}
       </div>
+      {remoteSelections.map((remoteSelection) =>
+        getElements(value, remoteSelection.ids).map((element) => (
+          <RemoteSelectionOutline
+            key={`${remoteSelection.userId}-${element.id}`}
+            element={element}
+            selection={remoteSelection}
+          />
+        )),
+      )}
+      {selectedElements.length > 1 && (
+        <>
+          {selectedElements.map((element) => (
+            <SelectionOutline
+              key={element.id}
+              bounds={element.bounds}
+              rotation={element.rotation}
+            />
+          ))}
+          <SelectionOutline bounds={unionLayouts(selectedElements)!} isDashed />
+        </>
+      )}
+      {singleSelectedElement && isSelectionLocked && (
+        <SelectionOutline
+          bounds={singleSelectedElement.bounds}
+          rotation={singleSelectedElement.rotation}
+          isDashed
+        />
+      )}
       {selectedElement && selectedElement.type === "shape" && (
         <SelectionArea
           shape={selectedElement}
@@ -272,8 +482,12 @@ const DesignView = ({ editor, currentTool, onToolChange }: DesignViewProps) => {
             editor.setSelection(newSelection)
           }
           onShapesChange={(shapes) => {
-            editor.replaceShapes({ shapes });
+            editor.replaceElements(shapes);
           }}
+          onRotate={(rotation) =>
+            editor.updateElementRotation(selectedElement.id, rotation)
+          }
+          {...transformProps}
         />
       )}
       {selectedElement && selectedElement.type === "text" && (
@@ -282,6 +496,10 @@ const DesignView = ({ editor, currentTool, onToolChange }: DesignViewProps) => {
           onSelectionChange={(newSelection) =>
             editor.setSelection(newSelection)
           }
+          onRotate={(rotation) =>
+            editor.updateElementRotation(selectedElement.id, rotation)
+          }
+          {...transformProps}
         />
       )}
       {selectedElement && selectedElement.type === "image" && (
@@ -300,8 +518,57 @@ const DesignView = ({ editor, currentTool, onToolChange }: DesignViewProps) => {
               editor.updateImageBounds(selectedElement.id, shapes[0].bounds);
             }
           }}
+          onRotate={(rotation) =>
+            editor.updateElementRotation(selectedElement.id, rotation)
+          }
+          {...transformProps}
+        />
+      )}
+      {selectedElement && selectedElement.type === "group" && (
+        <SelectionArea
+          shape={{
+            ...selectedElement,
+            type: "shape",
+            paths: [],
+            viewBox: { minX: 0, minY: 0, width: 100, height: 100 },
+          }}
+          onSelectionChange={(newSelection) =>
+            editor.setSelection(newSelection)
+          }
+          onShapesChange={(shapes) => {
+            if (shapes[0]) {
+              editor.updateGroupBounds(selectedElement.id, shapes[0].bounds);
+            }
+          }}
+          onRotate={(rotation) =>
+            editor.updateElementRotation(selectedElement.id, rotation)
+          }
+          {...transformProps}
+        />
+      )}
+      {marqueeBounds && <SelectionMarquee bounds={marqueeBounds} />}
+      {onCommentPlace && (
+        <div
+          style={{
+            position: "absolute",
+            inset: 0,
+            cursor: "crosshair",
+          }}
+          onPointerDown={(event) => {
+            if (event.button !== 0) return;
+
+            event.stopPropagation();
+            const relativeRect = event.currentTarget.getBoundingClientRect();
+            onCommentPlace(
+              createCommentAnchor(value, {
+                x: event.clientX - relativeRect.left,
+                y: event.clientY - relativeRect.top,
+              }),
+            );
+          }}
         />
       )}
+      {overlay}
     </div>
   );
 };
@@ -0,0 +1,59 @@
+import { getElements } from "../elements";
+import type { DesignValue } from "../schema";
+import SelectionOutline from "../selection/SelectionOutline";
+import { diffElements } from "./elementDiff";
+
+export const DIFF_COLORS = {
+  added: "var(--green-9)",
+  removed: "var(--red-9)",
+  changed: "var(--amber-9)",
+};
+
+interface DiffOutlinesProps {
+  // The displayed design
+  previous: DesignValue;
+  // The design it is compared with
+  next: DesignValue;
+}
+
+/**
+ * Outlines what changed between the displayed design and the next one.
+ * Removed and changed elements are outlined where they are displayed, added
+ * ones, which aren't displayed, with a dashed outline where they will be.
+ */
+const DiffOutlines = ({ previous, next }: DiffOutlinesProps) => {
+  const { added, removed, changed } = diffElements(previous, next);
+  const outlines = [
+    ...getElements(previous, removed).map((element) => ({
+      element,
+      color: DIFF_COLORS.removed,
+      isDashed: false,
+    })),
+    ...getElements(previous, changed).map((element) => ({
+      element,
+      color: DIFF_COLORS.changed,
+      isDashed: false,
+    })),
+    ...getElements(next, added).map((element) => ({
+      element,
+      color: DIFF_COLORS.added,
+      isDashed: true,
+    })),
+  ];
+
+  return (
+    <>
+      {outlines.map(({ element, color, isDashed }) => (
+        <SelectionOutline
+          key={element.id}
+          bounds={element.bounds}
+          rotation={element.rotation}
+          color={color}
+          isDashed={isDashed}
+        />
+      ))}
+    </>
+  );
+};
+
+export default DiffOutlines;
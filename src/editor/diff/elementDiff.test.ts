@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import DesignEditor from "../design/DesignEditor";
+import type { DesignValue } from "../schema";
+import { diffElements } from "./elementDiff";
+
+const EMPTY_VALUE: DesignValue = {
+  shapes: {},
+  texts: {},
+  images: {},
+  groups: {},
+  order: [],
+  attributes: { width: 800, height: 600 },
+};
+
+const createRectangle = (editor: DesignEditor, left: number) =>
+  editor.createShape({
+    left,
+    top: 10,
+    width: 50,
+    height: 50,
+    viewBox: { minX: 0, minY: 0, width: 64, height: 64 },
+    paths: [{ d: "M0,0L64,0L64,64L0,64Z" }],
+  });
+
+describe("diffElements", () => {
+  it("finds added, removed and changed elements", () => {
+    const editor = new DesignEditor({ value: EMPTY_VALUE });
+    createRectangle(editor, 10);
+    const changed = createRectangle(editor, 100);
+    const removed = createRectangle(editor, 200);
+    const previous = editor.state.value;
+
+    editor.updateElementRotation(changed, 45);
+    editor.deleteElements([removed]);
+    const added = createRectangle(editor, 300);
+
+    expect(diffElements(previous, editor.state.value)).toEqual({
+      added: [added],
+      removed: [removed],
+      changed: [changed],
+    });
+    expect(diffElements(previous, previous)).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+
+  it("ignores groups and stacking order changes", () => {
+    const editor = new DesignEditor({ value: EMPTY_VALUE });
+    const first = createRectangle(editor, 10);
+    const second = createRectangle(editor, 100);
+    const previous = editor.state.value;
+
+    editor.groupElements([first, second]);
+    editor.bringToFront([first]);
+
+    expect(diffElements(previous, editor.state.value)).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+});
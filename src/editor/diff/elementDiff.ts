@@ -0,0 +1,39 @@
+import { isDeepEqual } from "../commands/patches";
+import { getElement } from "../elements";
+import { getStackingOrder } from "../order/zOrder";
+import type { DesignValue, ID } from "../schema";
+
+// Shapes, texts and images that differ between two designs
+export interface ElementDiff {
+  // Only in the next design
+  added: ID[];
+  // Only in the previous design
+  removed: ID[];
+  // In both, with different properties
+  changed: ID[];
+}
+
+/**
+ * Compares the visible elements of two designs, e.g. a saved version and the
+ * current design. Groups are left out, as they change along with their
+ * children, and so are changes to the stacking order alone.
+ */
+export const diffElements = (
+  previous: DesignValue,
+  next: DesignValue,
+): ElementDiff => {
+  const previousIds = getStackingOrder(previous);
+  const nextIds = getStackingOrder(next);
+  const previousIdSet = new Set(previousIds);
+  const nextIdSet = new Set(nextIds);
+
+  return {
+    added: nextIds.filter((id) => !previousIdSet.has(id)),
+    removed: previousIds.filter((id) => !nextIdSet.has(id)),
+    changed: previousIds.filter(
+      (id) =>
+        nextIdSet.has(id) &&
+        !isDeepEqual(getElement(previous, id), getElement(next, id)),
+    ),
+  };
+};
@@ -0,0 +1,2 @@
+export { DIFF_COLORS, default as DiffOutlines } from "./DiffOutlines";
+export * from "./elementDiff";
@@ -0,0 +1,85 @@
+import { compactMap } from "../utils";
+import type {
+  DesignValue,
+  Element,
+  GroupElement,
+  ID,
+  ImageElement,
+  ShapeDef,
+  TextElement,
+} from "./schema";
+
+export const getElement = (value: DesignValue, id: ID): Element | null => {
+  return (
+    value.shapes?.[id] ??
+    value.texts?.[id] ??
+    value.images?.[id] ??
+    value.groups?.[id] ??
+    null
+  );
+};
+
+export const getElements = (value: DesignValue, ids: ID[]): Element[] => {
+  return compactMap(ids, (id) => getElement(value, id));
+};
+
+export const getAllElements = (value: DesignValue): Element[] => {
+  return [
+    ...Object.values(value.shapes ?? {}),
+    ...Object.values(value.texts ?? {}),
+    ...Object.values(value.images ?? {}),
+    ...Object.values(value.groups ?? {}),
+  ];
+};
+
+/**
+ * Returns a copy of the design with the elements stored in the collection
+ * matching their type, replacing existing elements with the same ID
+ */
+export const withElements = (
+  value: DesignValue,
+  elements: Element[],
+): DesignValue => {
+  const byType = <T extends Element>(type: T["type"]) =>
+    Object.fromEntries(
+      elements
+        .filter((element): element is T => element.type === type)
+        .map((element) => [element.id, element]),
+    );
+
+  return {
+    ...value,
+    shapes: { ...value.shapes, ...byType<ShapeDef>("shape") },
+    texts: { ...value.texts, ...byType<TextElement>("text") },
+    images: { ...value.images, ...byType<ImageElement>("image") },
+    groups: { ...value.groups, ...byType<GroupElement>("group") },
+  };
+};
+
+const TEXT_LABEL_MAX_LENGTH = 24;
+
+/**
+ * Returns the user-facing name of the element, falling back to a description
+ * of its type (or its content for texts)
+ */
+export const getElementLabel = (element: Element): string => {
+  if (element.name) {
+    return element.name;
+  }
+
+  switch (element.type) {
+    case "shape":
+      return "Shape";
+    case "text": {
+      const content = element.content.trim();
+      if (!content) return "Text";
+      return content.length > TEXT_LABEL_MAX_LENGTH
+        ? `${content.slice(0, TEXT_LABEL_MAX_LENGTH)}…`
+        : content;
+    }
+    case "image":
+      return "Image";
+    case "group":
+      return "Group";
+  }
+};
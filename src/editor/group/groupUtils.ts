@@ -0,0 +1,400 @@
+import { compactMap, uniqued } from "../../utils";
+import { getAllElements, getElement, getElements } from "../elements";
+import { unionBounds } from "../math/bounds";
+import {
+  getBoundsCenter,
+  getLayoutCorners,
+  normalizeAngle,
+  rotatePoint,
+  rotateVector,
+} from "../math/rotation";
+import type { Bounds } from "../math/types";
+import type { DesignValue, Element, GroupElement, ID } from "../schema";
+import type { Selection } from "../selection";
+
+export const getParentGroup = (
+  value: DesignValue,
+  id: ID,
+): GroupElement | null => {
+  return (
+    Object.values(value.groups ?? {}).find((group) =>
+      group.children.includes(id),
+    ) ?? null
+  );
+};
+
+/**
+ * Returns the chain of group IDs enclosing the element, from the outermost
+ * group down to the element itself
+ */
+export const getAncestorChain = (value: DesignValue, id: ID): ID[] => {
+  const chain = [id];
+  let parent = getParentGroup(value, id);
+  while (parent && !chain.includes(parent.id)) {
+    chain.unshift(parent.id);
+    parent = getParentGroup(value, parent.id);
+  }
+  return chain;
+};
+
+/**
+ * Returns whether the element or any enclosing group is hidden
+ */
+export const isElementHidden = (value: DesignValue, id: ID): boolean => {
+  return getAncestorChain(value, id).some(
+    (chainId) => getElement(value, chainId)?.hidden,
+  );
+};
+
+/**
+ * Returns whether the element or any enclosing group is locked
+ */
+export const isElementLocked = (value: DesignValue, id: ID): boolean => {
+  return getAncestorChain(value, id).some(
+    (chainId) => getElement(value, chainId)?.locked,
+  );
+};
+
+/**
+ * Elements that can be picked directly on the canvas, i.e. elements that do
+ * not belong to a group, including top-level groups themselves
+ */
+export const getTopLevelElements = (value: DesignValue): Element[] => {
+  return getAllElements(value).filter(
+    (element) => !getParentGroup(value, element.id),
+  );
+};
+
+/**
+ * Returns the given elements together with all of their descendants
+ */
+export const getElementsWithDescendants = (
+  value: DesignValue,
+  ids: ID[],
+): Element[] => {
+  const result: Element[] = [];
+  const visit = (id: ID) => {
+    const element = getElement(value, id);
+    if (!element || result.includes(element)) return;
+
+    result.push(element);
+    if (element.type === "group") {
+      element.children.forEach(visit);
+    }
+  };
+  ids.forEach(visit);
+  return result;
+};
+
+/**
+ * Returns the non-group elements contained in the given elements
+ */
+export const getLeafIds = (value: DesignValue, ids: ID[]): ID[] => {
+  return getElementsWithDescendants(value, ids)
+    .filter((element) => element.type !== "group")
+    .map((element) => element.id);
+};
+
+/**
+ * Resolves which element a click on a leaf element should select. Clicks pick
+ * the outermost group, unless the current selection has already drilled into
+ * one of the enclosing groups, in which case its direct child is picked.
+ */
+export const resolveSelectionTarget = (
+  value: DesignValue,
+  leafId: ID,
+  selection: Selection | null,
+): ID => {
+  const chain = getAncestorChain(value, leafId);
+  const contextGroupIds = compactMap(
+    selection?.ids ?? [],
+    (id) => getParentGroup(value, id)?.id,
+  );
+  const contextIndex = Math.max(
+    ...chain.map((id, index) => (contextGroupIds.includes(id) ? index : -1)),
+  );
+  return chain[contextIndex + 1] ?? leafId;
+};
+
+/**
+ * Returns the element one level deeper than the selected ancestor of the leaf,
+ * or null if nothing along the chain is selected
+ */
+export const resolveDrillTarget = (
+  value: DesignValue,
+  leafId: ID,
+  selection: Selection | null,
+): ID | null => {
+  const chain = getAncestorChain(value, leafId);
+  const selectedIndex = chain.findIndex((id) => selection?.ids.includes(id));
+  if (selectedIndex === -1 || selectedIndex === chain.length - 1) {
+    return null;
+  }
+  return chain[selectedIndex + 1] ?? null;
+};
+
+/**
+ * Maps the bounds of a descendant from the group's old layout onto its new
+ * bounds. Positions are scaled in the group's local (rotated) coordinates.
+ */
+const scaleBounds = (
+  bounds: Bounds,
+  from: Bounds,
+  to: Bounds,
+  rotation: number,
+): Bounds => {
+  const scaleX = from.width === 0 ? 1 : to.width / from.width;
+  const scaleY = from.height === 0 ? 1 : to.height / from.height;
+  const fromCenter = getBoundsCenter(from);
+  const toCenter = getBoundsCenter(to);
+  const center = getBoundsCenter(bounds);
+
+  const local = rotateVector(
+    { x: center.x - fromCenter.x, y: center.y - fromCenter.y },
+    -rotation,
+  );
+  const offset = rotateVector(
+    { x: local.x * scaleX, y: local.y * scaleY },
+    rotation,
+  );
+  const width = bounds.width * scaleX;
+  const height = bounds.height * scaleY;
+
+  return {
+    left: toCenter.x + offset.x - width / 2,
+    top: toCenter.y + offset.y - height / 2,
+    width,
+    height,
+  };
+};
+
+/**
+ * Maps the group and all of its descendants from the group's current bounds
+ * onto the new bounds, scaling every child proportionally
+ */
+export const resizeGroup = (
+  value: DesignValue,
+  groupId: ID,
+  bounds: Bounds,
+): Element[] => {
+  const group = value.groups?.[groupId];
+  if (!group) return [];
+
+  const scaleY =
+    group.bounds.height === 0 ? 1 : bounds.height / group.bounds.height;
+
+  return getElementsWithDescendants(value, [groupId]).map((element) => {
+    const scaledBounds = scaleBounds(
+      element.bounds,
+      group.bounds,
+      bounds,
+      group.rotation ?? 0,
+    );
+    if (element.type === "text") {
+      return {
+        ...element,
+        bounds: scaledBounds,
+        fontSize: element.fontSize * scaleY,
+      };
+    }
+    return { ...element, bounds: scaledBounds };
+  });
+};
+
+/**
+ * Rotates the element to the given angle. Groups rotate all descendants
+ * around the group center by the change in angle.
+ */
+export const rotateElement = (
+  value: DesignValue,
+  id: ID,
+  rotation: number,
+): Element[] => {
+  const element = getElement(value, id);
+  if (!element) return [];
+
+  const delta = rotation - (element.rotation ?? 0);
+  const pivot = getBoundsCenter(element.bounds);
+
+  return getElementsWithDescendants(value, [id]).map((descendant) => {
+    const center = rotatePoint(
+      getBoundsCenter(descendant.bounds),
+      pivot,
+      delta,
+    );
+    return {
+      ...descendant,
+      bounds: {
+        ...descendant.bounds,
+        left: center.x - descendant.bounds.width / 2,
+        top: center.y - descendant.bounds.height / 2,
+      },
+      rotation: normalizeAngle((descendant.rotation ?? 0) + delta),
+    };
+  });
+};
+
+/**
+ * Recomputes the bounds of every group from its children, innermost first.
+ * Bounds are fitted in the group's own rotated coordinates.
+ */
+export const fitGroupBounds = (value: DesignValue): DesignValue => {
+  const groups = { ...(value.groups ?? {}) };
+  const fitted = new Set<ID>();
+
+  const fit = (group: GroupElement): GroupElement => {
+    if (fitted.has(group.id)) {
+      return groups[group.id] ?? group;
+    }
+    fitted.add(group.id);
+
+    const rotation = group.rotation ?? 0;
+    const corners = group.children.flatMap((childId) => {
+      const child = groups[childId] ?? getElement(value, childId);
+      if (!child) return [];
+      return getLayoutCorners(child.type === "group" ? fit(child) : child);
+    });
+    if (corners.length === 0) {
+      return group;
+    }
+
+    // Fit an axis-aligned box around the corners in the group's rotated
+    // frame, then rotate its center back into world coordinates
+    const localCorners = corners.map((corner) =>
+      rotateVector(corner, -rotation),
+    );
+    const xs = localCorners.map((corner) => corner.x);
+    const ys = localCorners.map((corner) => corner.y);
+    const width = Math.max(...xs) - Math.min(...xs);
+    const height = Math.max(...ys) - Math.min(...ys);
+    const center = rotateVector(
+      {
+        x: Math.min(...xs) + width / 2,
+        y: Math.min(...ys) + height / 2,
+      },
+      rotation,
+    );
+
+    const fittedGroup = {
+      ...group,
+      bounds: {
+        left: center.x - width / 2,
+        top: center.y - height / 2,
+        width,
+        height,
+      },
+    };
+    groups[group.id] = fittedGroup;
+    return fittedGroup;
+  };
+  Object.values(groups).forEach(fit);
+
+  return { ...value, groups };
+};
+
+/**
+ * Creates a group around the given elements. Elements that shared a parent
+ * group are replaced by the new group within that parent.
+ */
+export const groupElements = (
+  value: DesignValue,
+  ids: ID[],
+  groupId: ID,
+): DesignValue => {
+  const children = getElements(value, uniqued(ids)).map(
+    (element) => element.id,
+  );
+  const parentIds = uniqued(
+    children.map((id) => getParentGroup(value, id)?.id ?? null),
+  );
+  const sharedParentId = parentIds.length === 1 ? parentIds[0] : null;
+
+  const groups = Object.fromEntries(
+    Object.values(value.groups ?? {}).map((group) => {
+      const firstIndex = group.children.findIndex((id) =>
+        children.includes(id),
+      );
+      if (firstIndex === -1) return [group.id, group];
+
+      const remaining = group.children.filter((id) => !children.includes(id));
+      if (group.id === sharedParentId) {
+        remaining.splice(firstIndex, 0, groupId);
+      }
+      return [group.id, { ...group, children: remaining }];
+    }),
+  );
+
+  groups[groupId] = {
+    type: "group",
+    id: groupId,
+    bounds: unionBounds(
+      getElements(value, children).map((element) => element.bounds),
+    ) ?? { left: 0, top: 0, width: 0, height: 0 },
+    children,
+  };
+
+  return fitGroupBounds({ ...value, groups });
+};
+
+/**
+ * Dissolves the given groups, moving their children into the parent group
+ */
+export const ungroupElements = (
+  value: DesignValue,
+  groupIds: ID[],
+): DesignValue => {
+  let groups = { ...(value.groups ?? {}) };
+
+  groupIds.forEach((groupId) => {
+    const group = groups[groupId];
+    if (!group) return;
+
+    delete groups[groupId];
+    groups = Object.fromEntries(
+      Object.values(groups).map((parent) => [
+        parent.id,
+        parent.children.includes(groupId)
+          ? {
+              ...parent,
+              children: parent.children.flatMap((id) =>
+                id === groupId ? group.children : [id],
+              ),
+            }
+          : parent,
+      ]),
+    );
+  });
+
+  return fitGroupBounds({ ...value, groups });
+};
+
+/**
+ * Removes deleted IDs from every group, dropping groups left without children
+ */
+export const removeFromGroups = (
+  value: DesignValue,
+  deletedIds: ID[],
+): DesignValue => {
+  const deleted = new Set(deletedIds);
+  let groups = value.groups ?? {};
+  let hasChanges = true;
+
+  while (hasChanges) {
+    hasChanges = false;
+    const nextGroups: Record<ID, GroupElement> = {};
+    for (const group of Object.values(groups)) {
+      if (deleted.has(group.id)) continue;
+
+      const children = group.children.filter((id) => !deleted.has(id));
+      if (children.length === 0) {
+        deleted.add(group.id);
+        hasChanges = true;
+        continue;
+      }
+      nextGroups[group.id] = { ...group, children };
+    }
+    groups = nextGroups;
+  }
+
+  return fitGroupBounds({ ...value, groups });
+};
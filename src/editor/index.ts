@@ -1,4 +1,18 @@
 export { default as DesignEditor } from "./design/DesignEditor";
 export { default as DesignView } from "./design/DesignView";
+export * from "./comments";
+export * from "./diff";
+export * from "./elements";
+export { isElementHidden, isElementLocked } from "./group/groupUtils";
+export { type LayerRow, getLayerRows } from "./order/layerTree";
+export * from "./pdf";
 export * from "./schema";
-export type { Selection } from "./selection";
+export {
+  type RemoteSelection,
+  type Selection,
+  createSelection,
+  isSelected,
+  toggleSelection,
+} from "./selection";
+export * from "./svg";
+export { isDesignValue, validateDesign } from "./validateDesign";
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { getBoundsFromPoints, unionBounds } from "./bounds";
+
+describe("bounds", () => {
+  describe("getBoundsFromPoints", () => {
+    it("spans the points whatever direction they were dragged in", () => {
+      const bounds = { left: 10, top: 20, width: 30, height: 40 };
+      expect(getBoundsFromPoints({ x: 10, y: 20 }, { x: 40, y: 60 })).toEqual(
+        bounds,
+      );
+      expect(getBoundsFromPoints({ x: 40, y: 60 }, { x: 10, y: 20 })).toEqual(
+        bounds,
+      );
+      expect(getBoundsFromPoints({ x: 40, y: 20 }, { x: 10, y: 60 })).toEqual(
+        bounds,
+      );
+    });
+
+    it("returns empty bounds for a single point", () => {
+      expect(getBoundsFromPoints({ x: 5, y: 5 }, { x: 5, y: 5 })).toEqual({
+        left: 5,
+        top: 5,
+        width: 0,
+        height: 0,
+      });
+    });
+  });
+
+  describe("unionBounds", () => {
+    it("returns null without bounds", () => {
+      expect(unionBounds([])).toBeNull();
+    });
+
+    it("returns the smallest bounds containing all of them", () => {
+      expect(
+        unionBounds([
+          { left: 10, top: 10, width: 20, height: 20 },
+          { left: -5, top: 15, width: 10, height: 50 },
+          { left: 12, top: 12, width: 2, height: 2 },
+        ]),
+      ).toEqual({ left: -5, top: 10, width: 35, height: 55 });
+    });
+  });
+});
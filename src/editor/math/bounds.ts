@@ -0,0 +1,33 @@
+import type { Bounds, Point } from "./types";
+
+/**
+ * Returns the bounds of the rectangle spanned by two corner points
+ */
+export const getBoundsFromPoints = (start: Point, end: Point): Bounds => {
+  return {
+    left: Math.min(start.x, end.x),
+    top: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+};
+
+/**
+ * Returns the smallest bounds containing all given bounds, or null if empty
+ */
+export const unionBounds = (boundsList: Bounds[]): Bounds | null => {
+  if (boundsList.length === 0) {
+    return null;
+  }
+
+  const left = Math.min(...boundsList.map((bounds) => bounds.left));
+  const top = Math.min(...boundsList.map((bounds) => bounds.top));
+  const right = Math.max(
+    ...boundsList.map((bounds) => bounds.left + bounds.width),
+  );
+  const bottom = Math.max(
+    ...boundsList.map((bounds) => bounds.top + bounds.height),
+  );
+
+  return { left, top, width: right - left, height: bottom - top };
+};
@@ -1,2 +1,5 @@
 // For svg based geometry calculations, use 1e-10 as epsilon, as Number.EPSILON is too small
 export const EPSILON = 1e-10;
+
+// Angle step used when snapping rotation with shift held
+export const ROTATION_SNAP_DEGREES = 15;
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { isBoundsHitLayout } from "./hitTests";
+
+const SQUARE = { bounds: { left: 0, top: 0, width: 100, height: 100 } };
+
+// The marquee selects the elements it touches
+describe("isBoundsHitLayout", () => {
+  it("hits elements the bounds overlap, contain or are inside of", () => {
+    [
+      { left: 90, top: 90, width: 50, height: 50 },
+      { left: -10, top: -10, width: 200, height: 200 },
+      { left: 40, top: 40, width: 10, height: 10 },
+    ].forEach((bounds) => {
+      expect(isBoundsHitLayout({ target: SQUARE, bounds })).toBe(true);
+    });
+  });
+
+  it("misses elements the bounds only touch or don't reach", () => {
+    [
+      { left: 100, top: 0, width: 50, height: 50 },
+      { left: 150, top: 150, width: 50, height: 50 },
+    ].forEach((bounds) => {
+      expect(isBoundsHitLayout({ target: SQUARE, bounds })).toBe(false);
+    });
+  });
+
+  it("tests the rotated element rather than its bounding box", () => {
+    const bounds = { left: -20, top: -20, width: 25, height: 25 };
+    expect(isBoundsHitLayout({ target: SQUARE, bounds })).toBe(true);
+    expect(
+      isBoundsHitLayout({ target: { ...SQUARE, rotation: 45 }, bounds }),
+    ).toBe(false);
+  });
+
+  it("extends the element by the margin", () => {
+    const bounds = { left: 105, top: 0, width: 50, height: 50 };
+    expect(isBoundsHitLayout({ target: SQUARE, bounds })).toBe(false);
+    expect(isBoundsHitLayout({ target: SQUARE, bounds, margin: 10 })).toBe(
+      true,
+    );
+  });
+
+  it("misses with empty bounds or elements", () => {
+    expect(
+      isBoundsHitLayout({
+        target: SQUARE,
+        bounds: { left: 50, top: 50, width: 0, height: 0 },
+      }),
+    ).toBe(false);
+    expect(
+      isBoundsHitLayout({
+        target: { bounds: { left: 0, top: 0, width: 0, height: 100 } },
+        bounds: { left: -10, top: -10, width: 50, height: 50 },
+      }),
+    ).toBe(false);
+  });
+});
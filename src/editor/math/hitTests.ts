@@ -1,9 +1,21 @@
+import { EPSILON } from "./constants";
+import { getBoundsCenter, getLayoutCorners, rotateVector } from "./rotation";
 import type { Bounds, Layout, Point } from "./types";
 
+/**
+ * Converts a world point into the layout's local coordinate space, where the
+ * unrotated bounds span from (0, 0) to (width, height)
+ */
 const getPointWorldToLocal = (point: Point, layout: Layout): Point => {
+  const { bounds, rotation = 0 } = layout;
+  const center = getBoundsCenter(bounds);
+  const local = rotateVector(
+    { x: point.x - center.x, y: point.y - center.y },
+    -rotation,
+  );
   return {
-    x: point.x - layout.bounds.left,
-    y: point.y - layout.bounds.top,
+    x: local.x + bounds.width / 2,
+    y: local.y + bounds.height / 2,
   };
 };
 
@@ -32,6 +44,20 @@ export function isPointHitLayout({
   );
 }
 
+const getEdgeNormals = (corners: Point[]): Point[] => {
+  return corners.map((corner, index) => {
+    const next = corners[(index + 1) % corners.length] ?? corner;
+    return { x: -(next.y - corner.y), y: next.x - corner.x };
+  });
+};
+
+const projectOnAxis = (corners: Point[], axis: Point) => {
+  const projections = corners.map(
+    (corner) => corner.x * axis.x + corner.y * axis.y,
+  );
+  return { min: Math.min(...projections), max: Math.max(...projections) };
+};
+
 export function isBoundsHitLayout({
   target,
   bounds,
@@ -52,22 +78,28 @@ export function isBoundsHitLayout({
     return false;
   }
 
-  // Simple AABB detection
-  const targetLeft = targetBounds.left - margin;
-  const targetRight = targetLeft + targetBounds.width + margin;
-  const targetTop = targetBounds.top - margin;
-  const targetBottom = targetTop + targetBounds.height + margin;
-
-  const boundsLeft = bounds.left;
-  const boundsRight = boundsLeft + bounds.width;
-  const boundsTop = bounds.top;
-  const boundsBottom = boundsTop + bounds.height;
+  const targetCorners = getLayoutCorners({
+    bounds: {
+      left: targetBounds.left - margin,
+      top: targetBounds.top - margin,
+      width: targetBounds.width + margin * 2,
+      height: targetBounds.height + margin * 2,
+    },
+    rotation: target.rotation,
+  });
+  const boundsCorners = getLayoutCorners({ bounds });
 
-  // Two rectangles intersect (including the case where target is within bounds)
-  return (
-    targetLeft < boundsRight &&
-    targetRight > boundsLeft &&
-    targetTop < boundsBottom &&
-    targetBottom > boundsTop
-  );
+  // Separating axis theorem: two convex polygons intersect (including the
+  // case where one contains the other) unless some edge normal separates them
+  return [
+    ...getEdgeNormals(targetCorners),
+    ...getEdgeNormals(boundsCorners),
+  ].every((axis) => {
+    const targetRange = projectOnAxis(targetCorners, axis);
+    const boundsRange = projectOnAxis(boundsCorners, axis);
+    return (
+      targetRange.min < boundsRange.max - EPSILON &&
+      targetRange.max > boundsRange.min + EPSILON
+    );
+  });
 }
@@ -1,3 +1,4 @@
+import { rotateVector } from "./rotation";
 import type { Bounds, Layout } from "./types";
 
 const MIN_SIZE = 5;
@@ -21,17 +22,21 @@ interface ResizeBoundsOptions {
 }
 
 /**
- * Calculates new bounds based on resize direction, snapshot and mouse delta
+ * Calculates new bounds based on resize direction, snapshot and mouse delta.
+ * For rotated layouts the delta is applied in the layout's local coordinates,
+ * keeping the opposite edge or corner fixed in world coordinates.
  */
 export const resizeBounds = ({
   direction,
-  layout: { bounds },
+  layout: { bounds, rotation = 0 },
   deltaX,
   deltaY,
   isRatioLocked,
 }: ResizeBoundsOptions): Bounds => {
-  const localDeltaX = deltaX;
-  const localDeltaY = deltaY;
+  const { x: localDeltaX, y: localDeltaY } = rotateVector(
+    { x: deltaX, y: deltaY },
+    -rotation,
+  );
 
   let newWidth = bounds.width;
   let newHeight = bounds.height;
@@ -152,8 +157,11 @@ export const resizeBounds = ({
   const deltaW = newWidth - bounds.width;
   const deltaH = newHeight - bounds.height;
 
-  const centerShiftX = (signX * deltaW) / 2;
-  const centerShiftY = (signY * deltaH) / 2;
+  // The center moves along the local axes, rotated back into world space
+  const { x: centerShiftX, y: centerShiftY } = rotateVector(
+    { x: (signX * deltaW) / 2, y: (signY * deltaH) / 2 },
+    rotation,
+  );
 
   const oldCenterX = bounds.left + bounds.width / 2;
   const oldCenterY = bounds.top + bounds.height / 2;
@@ -0,0 +1,89 @@
+import { unionBounds } from "./bounds";
+import type { Bounds, Layout, Point } from "./types";
+
+export const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+export const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Normalizes an angle in degrees to the [0, 360) range
+ */
+export const normalizeAngle = (degrees: number): number => {
+  const normalized = degrees % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+};
+
+export const snapAngle = (degrees: number, step: number): number => {
+  return normalizeAngle(Math.round(degrees / step) * step);
+};
+
+/**
+ * Rotates a vector clockwise (in screen coordinates) by the given degrees
+ */
+export const rotateVector = (vector: Point, degrees: number): Point => {
+  const radians = toRadians(degrees);
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return {
+    x: vector.x * cos - vector.y * sin,
+    y: vector.x * sin + vector.y * cos,
+  };
+};
+
+export const rotatePoint = (
+  point: Point,
+  center: Point,
+  degrees: number,
+): Point => {
+  const rotated = rotateVector(
+    { x: point.x - center.x, y: point.y - center.y },
+    degrees,
+  );
+  return { x: center.x + rotated.x, y: center.y + rotated.y };
+};
+
+export const getBoundsCenter = (bounds: Bounds): Point => ({
+  x: bounds.left + bounds.width / 2,
+  y: bounds.top + bounds.height / 2,
+});
+
+/**
+ * Returns the four corners of the layout in world coordinates, clockwise from
+ * the top-left corner of the unrotated box
+ */
+export const getLayoutCorners = ({ bounds, rotation = 0 }: Layout): Point[] => {
+  const center = getBoundsCenter(bounds);
+  const right = bounds.left + bounds.width;
+  const bottom = bounds.top + bounds.height;
+  return [
+    { x: bounds.left, y: bounds.top },
+    { x: right, y: bounds.top },
+    { x: right, y: bottom },
+    { x: bounds.left, y: bottom },
+  ].map((corner) => rotatePoint(corner, center, rotation));
+};
+
+/**
+ * Returns the axis-aligned bounding box of a possibly rotated layout
+ */
+export const getAxisAlignedBounds = (layout: Layout): Bounds => {
+  if (!layout.rotation) {
+    return layout.bounds;
+  }
+
+  const corners = getLayoutCorners(layout);
+  const xs = corners.map((corner) => corner.x);
+  const ys = corners.map((corner) => corner.y);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return {
+    left,
+    top,
+    width: Math.max(...xs) - left,
+    height: Math.max(...ys) - top,
+  };
+};
+
+export const unionLayouts = (layouts: Layout[]): Bounds | null => {
+  return unionBounds(layouts.map(getAxisAlignedBounds));
+};
@@ -7,6 +7,8 @@ export interface Bounds {
 
 export interface Layout {
   bounds: Bounds;
+  // Clockwise rotation in degrees around the center of the bounds
+  rotation?: number;
 }
 
 export interface Point {
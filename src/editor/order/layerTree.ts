@@ -0,0 +1,44 @@
+import { getElements } from "../elements";
+import { getLeafIds, getTopLevelElements } from "../group/groupUtils";
+import type { DesignValue, Element } from "../schema";
+import { getStackingOrder } from "./zOrder";
+
+export interface LayerRow {
+  element: Element;
+  depth: number;
+}
+
+/**
+ * Flattens the element tree into layer rows, top-most element first, with
+ * each group directly followed by its children
+ */
+export const getLayerRows = (value: DesignValue): LayerRow[] => {
+  const stackIndex = new Map(
+    getStackingOrder(value).map((id, index) => [id, index]),
+  );
+  const getRank = (element: Element) =>
+    Math.max(
+      -1,
+      ...getLeafIds(value, [element.id]).map((id) => stackIndex.get(id) ?? -1),
+    );
+  const sortTopFirst = (elements: Element[]) =>
+    elements
+      .map((element) => ({ element, rank: getRank(element) }))
+      .sort((a, b) => b.rank - a.rank)
+      .map(({ element }) => element);
+
+  const rows: LayerRow[] = [];
+  const visit = (element: Element, depth: number) => {
+    rows.push({ element, depth });
+    if (element.type === "group") {
+      sortTopFirst(getElements(value, element.children)).forEach((child) =>
+        visit(child, depth + 1),
+      );
+    }
+  };
+  sortTopFirst(getTopLevelElements(value)).forEach((element) =>
+    visit(element, 0),
+  );
+
+  return rows;
+};
@@ -0,0 +1,85 @@
+import { uniqued } from "../../utils";
+import type { DesignValue, ID } from "../schema";
+
+export type ReorderDirection = "forward" | "backward" | "front" | "back";
+
+/**
+ * Returns the IDs of all shapes, texts and images from bottom to top. Elements
+ * missing from the persisted order (e.g. designs saved before it existed) are
+ * stacked on top in their legacy shapes, texts, images order.
+ */
+export const getStackingOrder = (value: DesignValue): ID[] => {
+  const leafIds = [
+    ...Object.keys(value.shapes ?? {}),
+    ...Object.keys(value.texts ?? {}),
+    ...Object.keys(value.images ?? {}),
+  ];
+  const leafIdSet = new Set(leafIds);
+  const ordered = uniqued(value.order ?? []).filter((id) => leafIdSet.has(id));
+  const orderedSet = new Set(ordered);
+
+  return [...ordered, ...leafIds.filter((id) => !orderedSet.has(id))];
+};
+
+/**
+ * Moves the given IDs within the stacking order, keeping their relative order
+ */
+export const reorder = (
+  order: ID[],
+  ids: ID[],
+  direction: ReorderDirection,
+): ID[] => {
+  const selected = new Set(ids);
+  const moving = order.filter((id) => selected.has(id));
+  const rest = order.filter((id) => !selected.has(id));
+
+  switch (direction) {
+    case "front":
+      return [...rest, ...moving];
+    case "back":
+      return [...moving, ...rest];
+    case "forward": {
+      // Walk from the top so each selected element hops over the unselected
+      // element directly above it
+      const result = order.slice();
+      for (let index = result.length - 2; index >= 0; index--) {
+        const current = result[index];
+        const above = result[index + 1];
+        if (selected.has(current) && !selected.has(above)) {
+          result[index] = above;
+          result[index + 1] = current;
+        }
+      }
+      return result;
+    }
+    case "backward": {
+      const result = order.slice();
+      for (let index = 1; index < result.length; index++) {
+        const current = result[index];
+        const below = result[index - 1];
+        if (selected.has(current) && !selected.has(below)) {
+          result[index] = below;
+          result[index - 1] = current;
+        }
+      }
+      return result;
+    }
+  }
+};
+
+/**
+ * Makes the given IDs contiguous, stacked at the position of the top-most one
+ */
+export const gather = (order: ID[], ids: ID[]): ID[] => {
+  const selected = new Set(ids);
+  const topIndex = Math.max(
+    ...order.map((id, index) => (selected.has(id) ? index : -1)),
+  );
+  if (topIndex < 0) {
+    return order;
+  }
+
+  const below = order.slice(0, topIndex + 1).filter((id) => !selected.has(id));
+  const above = order.slice(topIndex + 1);
+  return [...below, ...order.filter((id) => selected.has(id)), ...above];
+};
@@ -0,0 +1,188 @@
+import type { jsPDF } from "jspdf";
+import { describe, expect, it } from "vitest";
+
+import type { DesignValue } from "../schema";
+import {
+  getElementPages,
+  getStyleSheetFonts,
+  renderDesignPDF,
+} from "./renderDesignPDF";
+
+// A 2×1 pixel PNG
+const PNG_SOURCE =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAIAAAABCAIAAAB7QOjdAAAADUlEQVR4nGP4zwAE/wEHAAH/4iOeWQAAAABJRU5ErkJggg==";
+
+const SAMPLE_DESIGN: DesignValue = {
+  shapes: {
+    square: {
+      type: "shape",
+      id: "square",
+      bounds: { left: 10, top: 10, width: 50, height: 50 },
+      viewBox: { minX: 0, minY: 0, width: 100, height: 100 },
+      paths: [
+        {
+          d: "M0 0L100 0Q100 100 0 100Z",
+          fill: { color: "#FF0000" },
+          stroke: { color: "#000000", weight: 2, dasharray: [2, 1] },
+        },
+      ],
+    },
+  },
+  texts: {
+    title: {
+      type: "text",
+      id: "title",
+      bounds: { left: 20, top: 100, width: 200, height: 30 },
+      content: "Hello",
+      fontSize: 24,
+      color: "#333333",
+      fontWeight: "bold",
+      fontFamily: "Georgia, serif",
+    },
+  },
+  images: {
+    photo: {
+      type: "image",
+      id: "photo",
+      bounds: { left: 200, top: 0, width: 80, height: 60 },
+      src: PNG_SOURCE,
+      opacity: 0.5,
+    },
+  },
+  groups: {},
+  order: ["square", "title", "photo"],
+  attributes: { width: 400, height: 300 },
+};
+
+// The content stream of the page, before compression
+const getPageContent = (doc: jsPDF, page: number) =>
+  (doc.internal.pages as unknown as string[][])[page]?.join("\n") ?? "";
+
+const getPageSize = (doc: jsPDF, page: number) => {
+  doc.setPage(page);
+  return [doc.internal.pageSize.getWidth(), doc.internal.pageSize.getHeight()];
+};
+
+describe("renderDesignPDF", () => {
+  it("draws shapes as paths and texts as text", async () => {
+    const doc = await renderDesignPDF(SAMPLE_DESIGN);
+    const content = getPageContent(doc, 1);
+
+    expect(content).toContain(
+      [
+        "0. 0. m",
+        "50. 0. l",
+        "50. 33.3333333333333357 33.3333333333333357 50. 0. 50. c",
+        "h",
+      ].join("\n"),
+    );
+    // The stroke is clipped to the inside of its path
+    expect(content).toMatch(/h\nW\nn\n[^]*\[4\. 2\.\] 0\. d\n[^]*\nS/);
+    expect(content).toContain("(Hello) Tj");
+  });
+
+  it("embeds images with their own pixels", async () => {
+    const doc = await renderDesignPDF(SAMPLE_DESIGN);
+    const output = doc.output();
+
+    expect(getPageContent(doc, 1)).toContain("/I0 Do");
+    expect(output).toContain("/Width 2");
+    expect(output).toContain("/Height 1");
+  });
+
+  it("sizes the page to the design at its printed size", async () => {
+    const doc = await renderDesignPDF(SAMPLE_DESIGN, { margin: 10 });
+
+    expect(doc.getNumberOfPages()).toBe(1);
+    expect(getPageSize(doc, 1)).toEqual([320, 245]);
+    expect(getPageContent(doc, 1)).toContain("0.75 0. 0. 0.75 10. 10. cm");
+  });
+
+  it("renders every region on its own page of the paper size", async () => {
+    const doc = await renderDesignPDF(SAMPLE_DESIGN, {
+      pages: [
+        { left: 0, top: 0, width: 200, height: 100 },
+        { left: 200, top: 0, width: 100, height: 200 },
+      ],
+      paperSize: "letter",
+      margin: 36,
+    });
+
+    expect(doc.getNumberOfPages()).toBe(2);
+    expect(getPageSize(doc, 1)).toEqual([792, 612]);
+    expect(getPageSize(doc, 2)).toEqual([612, 792]);
+    // The second region is scaled to the height between the margins and
+    // centered horizontally
+    expect(getPageContent(doc, 2)).toMatch(
+      /\n3\.6\d* 0\. 0\. 3\.6\d* -594\. 36\. cm\n/,
+    );
+  });
+
+  it("rejects an export without pages", async () => {
+    await expect(renderDesignPDF(SAMPLE_DESIGN, { pages: [] })).rejects.toThrow(
+      "There are no pages to export",
+    );
+  });
+});
+
+describe("getElementPages", () => {
+  it("has a page for every visible top-level element", () => {
+    const value: DesignValue = {
+      ...SAMPLE_DESIGN,
+      texts: {
+        title: { ...SAMPLE_DESIGN.texts.title, hidden: true },
+      },
+      groups: {
+        artboard: {
+          type: "group",
+          id: "artboard",
+          children: ["square", "photo"],
+          bounds: { left: 10, top: 0, width: 270, height: 60 },
+        },
+      },
+    };
+
+    expect(getElementPages(value)).toEqual([
+      { left: 10, top: 0, width: 270, height: 60 },
+    ]);
+  });
+});
+
+describe("getStyleSheetFonts", () => {
+  const createRule = (cssText: string, properties: Record<string, string>) =>
+    ({
+      cssText,
+      style: { getPropertyValue: (name: string) => properties[name] ?? "" },
+    }) as unknown as CSSRule;
+
+  it("finds the TrueType files of the declared fonts", () => {
+    const styleSheet = {
+      href: "https://example.com/styles/fonts.css",
+      cssRules: [
+        createRule("body { margin: 0 }", {}),
+        createRule("@font-face { }", {
+          "font-family": '"Noto Sans SC"',
+          "font-weight": "700",
+          src: 'url("noto.woff2") format("woff2"), url(../fonts/noto-bold.ttf) format("truetype")',
+        }),
+        createRule("@font-face { }", {
+          "font-family": "Inter",
+          src: "url(/inter.woff2)",
+        }),
+      ],
+    } as unknown as CSSStyleSheet;
+    const crossOrigin = {
+      get cssRules(): CSSRuleList {
+        throw new Error("SecurityError");
+      },
+    } as unknown as CSSStyleSheet;
+
+    expect(getStyleSheetFonts([styleSheet, crossOrigin])).toEqual([
+      {
+        family: "Noto Sans SC",
+        fontWeight: "bold",
+        url: "https://example.com/fonts/noto-bold.ttf",
+      },
+    ]);
+  });
+});
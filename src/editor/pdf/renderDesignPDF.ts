@@ -0,0 +1,490 @@
+import { jsPDF } from "jspdf";
+
+import { getElement } from "../elements";
+import { getTopLevelElements, isElementHidden } from "../group/groupUtils";
+import { getAxisAlignedBounds } from "../math/rotation";
+import type { Bounds, Layout } from "../math/types";
+import type {
+  DesignValue,
+  ID,
+  ImageElement,
+  ShapeDef,
+  TextElement,
+} from "../schema";
+import normalizeShape from "../shape/normalizeShape";
+import { type PathSegment, parsePathData } from "../svg/pathData";
+import {
+  type SVGOptions,
+  getExportRegion,
+  getExportedElementIds,
+} from "../svg/serializeDesign";
+import {
+  type Matrix,
+  multiplyMatrices,
+  rotateMatrix,
+  scaleMatrix,
+  translateMatrix,
+} from "../svg/transform";
+
+export type PaperSize = "fit" | "a4" | "a3" | "letter" | "legal";
+
+// Portrait paper sizes in points
+const PAPER_SIZES: Record<Exclude<PaperSize, "fit">, [number, number]> = {
+  a4: [595.28, 841.89],
+  a3: [841.89, 1190.55],
+  letter: [612, 792],
+  legal: [612, 1008],
+};
+
+// A CSS pixel is 3/4 of a point, so designs print at their on-screen size
+const POINTS_PER_PIXEL = 0.75;
+
+// Matches the padding of TextNode
+const TEXT_PADDING = 2;
+
+export interface PDFFontFile {
+  family: string;
+  fontWeight?: TextElement["fontWeight"];
+  // URL of a TrueType font file
+  url: string;
+}
+
+export interface PDFOptions extends SVGOptions {
+  // One page per region, e.g. per artboard. Defaults to a single page
+  // covering the export region.
+  pages?: Bounds[];
+  // "fit" sizes every page to its region, paper sizes scale the regions to
+  // fit the paper. Defaults to "fit".
+  paperSize?: PaperSize;
+  // Space around the design on every page, in points
+  margin?: number;
+  // Fonts to embed for texts in their families. Other texts use the closest
+  // standard PDF font, which viewers provide and only covers Latin text.
+  fonts?: PDFFontFile[];
+}
+
+// Font files in a src descriptor, with their format hint if any
+const FONT_SOURCE_PATTERN =
+  /url\(\s*(["']?)([^"')]+)\1\s*\)(?:\s*format\(\s*["']?([\w-]+)["']?\s*\))?/g;
+
+// Standard PDF fonts for well-known families and the generic ones
+const STANDARD_FONTS: Record<string, string> = {
+  arial: "helvetica",
+  helvetica: "helvetica",
+  "sans-serif": "helvetica",
+  "times new roman": "times",
+  times: "times",
+  georgia: "times",
+  serif: "times",
+  "courier new": "courier",
+  courier: "courier",
+  monospace: "courier",
+};
+
+interface PageLayout {
+  width: number;
+  height: number;
+  // Maps design coordinates to page coordinates
+  matrix: Matrix;
+}
+
+const getPageLayout = (
+  region: Bounds,
+  paperSize: PaperSize,
+  margin: number,
+): PageLayout => {
+  const regionWidth = Math.max(region.width, 1);
+  const regionHeight = Math.max(region.height, 1);
+
+  let width: number;
+  let height: number;
+  let scale: number;
+  if (paperSize === "fit") {
+    scale = POINTS_PER_PIXEL;
+    width = regionWidth * scale + margin * 2;
+    height = regionHeight * scale + margin * 2;
+  } else {
+    const [short, long] = PAPER_SIZES[paperSize];
+    const isLandscape = regionWidth > regionHeight;
+    width = isLandscape ? long : short;
+    height = isLandscape ? short : long;
+    scale = Math.min(
+      (width - margin * 2) / regionWidth,
+      (height - margin * 2) / regionHeight,
+    );
+  }
+
+  // Centered on the page
+  const offsetX = (width - region.width * scale) / 2;
+  const offsetY = (height - region.height * scale) / 2;
+  return {
+    width,
+    height,
+    matrix: multiplyMatrices(
+      translateMatrix(
+        offsetX - region.left * scale,
+        offsetY - region.top * scale,
+      ),
+      scaleMatrix(scale),
+    ),
+  };
+};
+
+// Positions an element like DesignView: moved to its bounds, then rotated
+// around their center
+const getElementMatrix = ({ bounds, rotation }: Layout): Matrix => {
+  const { left, top, width, height } = bounds;
+  if (!rotation) return translateMatrix(left, top);
+
+  return multiplyMatrices(
+    translateMatrix(left + width / 2, top + height / 2),
+    multiplyMatrices(
+      rotateMatrix(rotation),
+      translateMatrix(-width / 2, -height / 2),
+    ),
+  );
+};
+
+const setMatrix = (doc: jsPDF, { a, b, c, d, e, f }: Matrix) => {
+  doc.setCurrentTransformationMatrix(doc.Matrix(a, b, c, d, e, f));
+};
+
+// Starts a path of the segments, for the next fill, stroke or clip. Colors
+// and line styles can't change until it is painted. jsPDF has no quadratic
+// curves, so they are drawn as the equal cubic ones.
+const addPath = (doc: jsPDF, segments: PathSegment[]) => {
+  let start = { x: 0, y: 0 };
+  let current = start;
+  for (const segment of segments) {
+    switch (segment.type) {
+      case "M":
+        doc.moveTo(segment.point.x, segment.point.y);
+        start = segment.point;
+        break;
+      case "L":
+        doc.lineTo(segment.point.x, segment.point.y);
+        break;
+      case "C":
+        doc.curveTo(
+          segment.control1.x,
+          segment.control1.y,
+          segment.control2.x,
+          segment.control2.y,
+          segment.point.x,
+          segment.point.y,
+        );
+        break;
+      case "Q": {
+        const { control, point } = segment;
+        doc.curveTo(
+          current.x + ((control.x - current.x) * 2) / 3,
+          current.y + ((control.y - current.y) * 2) / 3,
+          point.x + ((control.x - point.x) * 2) / 3,
+          point.y + ((control.y - point.y) * 2) / 3,
+          point.x,
+          point.y,
+        );
+        break;
+      }
+      case "Z":
+        doc.close();
+        current = start;
+        continue;
+    }
+    current = segment.point;
+  }
+};
+
+// Fills first and strokes on top, like ShapeNode. Strokes are drawn twice as
+// wide and clipped to the path so they only cover its inside, like PathStroke.
+const drawShape = (doc: jsPDF, shape: ShapeDef) => {
+  const paths = normalizeShape(shape).paths.map((path) => ({
+    ...path,
+    segments: parsePathData(path.d),
+  }));
+
+  for (const { fill, segments } of paths) {
+    if (!fill) continue;
+
+    doc.setFillColor(fill.color);
+    addPath(doc, segments);
+    doc.fill();
+  }
+
+  for (const { stroke, segments } of paths) {
+    if (!stroke) continue;
+
+    doc.saveGraphicsState();
+    addPath(doc, segments);
+    doc.clip();
+    doc.discardPath();
+    doc.setDrawColor(stroke.color);
+    doc.setLineWidth(stroke.weight * 2);
+    doc.setLineCap("butt");
+    doc.setLineDashPattern(
+      stroke.dasharray?.map((value) => value * stroke.weight) ?? [],
+      0,
+    );
+    addPath(doc, segments);
+    doc.stroke();
+    doc.restoreGraphicsState();
+  }
+};
+
+const getFontFamilies = (fontFamily: string) =>
+  fontFamily
+    .split(",")
+    .map((family) => family.trim().replace(/^["']|["']$/g, ""));
+
+const getFontKey = (family: string, fontWeight: string) =>
+  `${family.toLowerCase()}:${fontWeight}`;
+
+// Picks the first family of the font stack that is embedded or has a
+// standard PDF font, like a browser picks the first installed one
+const getFont = (
+  text: TextElement,
+  embeddedFonts: Map<string, string>,
+): { name: string; style: string } => {
+  for (const family of getFontFamilies(text.fontFamily)) {
+    const embedded =
+      embeddedFonts.get(getFontKey(family, text.fontWeight)) ??
+      embeddedFonts.get(getFontKey(family, "normal"));
+    if (embedded) return { name: embedded, style: "normal" };
+
+    const standard = STANDARD_FONTS[family.toLowerCase()];
+    if (standard) return { name: standard, style: text.fontWeight };
+  }
+  return { name: "helvetica", style: text.fontWeight };
+};
+
+const drawText = (
+  doc: jsPDF,
+  text: TextElement,
+  embeddedFonts: Map<string, string>,
+) => {
+  const { name, style } = getFont(text, embeddedFonts);
+  doc.setFont(name, style);
+  doc.setFontSize(text.fontSize);
+  doc.setTextColor(text.color);
+  doc.text(text.content, TEXT_PADDING, TEXT_PADDING, { baseline: "top" });
+};
+
+// Images keep their own pixels and are scaled to fit their bounds like
+// ImageNode's object-fit: contain
+const drawImage = (doc: jsPDF, image: ImageElement) => {
+  const { width, height, fileType } = doc.getImageProperties(image.src);
+  const scale = Math.min(
+    image.bounds.width / width,
+    image.bounds.height / height,
+  );
+  const drawnWidth = width * scale;
+  const drawnHeight = height * scale;
+  doc.addImage(
+    image.src,
+    fileType,
+    (image.bounds.width - drawnWidth) / 2,
+    (image.bounds.height - drawnHeight) / 2,
+    drawnWidth,
+    drawnHeight,
+  );
+};
+
+const drawElement = (
+  doc: jsPDF,
+  value: DesignValue,
+  id: ID,
+  embeddedFonts: Map<string, string>,
+) => {
+  const element = getElement(value, id);
+  if (!element || element.type === "group") return;
+
+  doc.saveGraphicsState();
+  setMatrix(doc, getElementMatrix(element));
+
+  // Applied to every part of the element rather than the element as a whole,
+  // which differs only where its parts overlap
+  const opacity =
+    element.type === "shape"
+      ? 1 - (element.transparency ?? 0)
+      : element.type === "image"
+        ? (element.opacity ?? 1)
+        : 1;
+  if (opacity < 1) {
+    doc.setGState(doc.GState({ opacity, "stroke-opacity": opacity }));
+  }
+
+  switch (element.type) {
+    case "shape":
+      drawShape(doc, element);
+      break;
+    case "text":
+      drawText(doc, element, embeddedFonts);
+      break;
+    case "image":
+      drawImage(doc, element);
+      break;
+  }
+  doc.restoreGraphicsState();
+};
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  // In chunks, since spreading a whole font overflows the call stack
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Returns a page region for every visible top-level element, so groups can be
+ * used as artboards
+ */
+export const getElementPages = (value: DesignValue): Bounds[] =>
+  getTopLevelElements(value)
+    .filter((element) => !isElementHidden(value, element.id))
+    .map(getAxisAlignedBounds);
+
+/**
+ * Returns the TrueType fonts declared with @font-face in the style sheets,
+ * e.g. the fonts the page displays texts with, which are the only ones a PDF
+ * can embed. Style sheets from other origins can't be read and are skipped.
+ */
+export const getStyleSheetFonts = (
+  styleSheets: Iterable<CSSStyleSheet>,
+): PDFFontFile[] =>
+  [...styleSheets].flatMap((styleSheet) => {
+    let rules: CSSRule[];
+    try {
+      rules = [...styleSheet.cssRules];
+    } catch {
+      return [];
+    }
+
+    return rules.flatMap((rule) => {
+      if (!/^@font-face\b/i.test(rule.cssText)) return [];
+
+      const { style } = rule as CSSFontFaceRule;
+      const sources = [
+        ...style.getPropertyValue("src").matchAll(FONT_SOURCE_PATTERN),
+      ];
+      const source = sources.find(([, , url, format]) =>
+        format ? format === "truetype" : /\.ttf$/i.test(url),
+      );
+      const [family] = getFontFamilies(style.getPropertyValue("font-family"));
+      if (!source || !family) return [];
+
+      const weight = style.getPropertyValue("font-weight");
+      return [
+        {
+          family,
+          fontWeight:
+            weight === "bold" || Number(weight) >= 600 ? "bold" : "normal",
+          url: styleSheet.href
+            ? new URL(source[2], styleSheet.href).href
+            : source[2],
+        },
+      ];
+    });
+  });
+
+// Embeds the font files of the families the texts use. Returns the font
+// names by family and weight.
+const embedFonts = async (
+  doc: jsPDF,
+  texts: TextElement[],
+  fonts: PDFFontFile[],
+): Promise<Map<string, string>> => {
+  const usedFamilies = new Set(
+    texts.flatMap((text) =>
+      getFontFamilies(text.fontFamily).map((family) => family.toLowerCase()),
+    ),
+  );
+  const usedFonts = fonts.filter((font) =>
+    usedFamilies.has(font.family.toLowerCase()),
+  );
+
+  const embeddedFonts = new Map<string, string>();
+  await Promise.all(
+    usedFonts.map(async ({ family, fontWeight = "normal", url }, index) => {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to load font ${url}`);
+      }
+
+      const fileName = `font-${index + 1}.ttf`;
+      const name = `${family} ${fontWeight}`;
+      doc.addFileToVFS(fileName, toBase64(await response.arrayBuffer()));
+      doc.addFont(fileName, name, "normal");
+      embeddedFonts.set(getFontKey(family, fontWeight), name);
+    }),
+  );
+  return embeddedFonts;
+};
+
+/**
+ * Renders the design into a PDF document with one page per region. Shapes
+ * become vector paths and texts real text, stacked and drawn like DesignView
+ * draws them. Image sources must be PNG, JPEG, GIF, BMP or WebP data URLs,
+ * see embedImages.
+ */
+export const renderDesignPDF = async (
+  value: DesignValue,
+  options: PDFOptions = {},
+): Promise<jsPDF> => {
+  const {
+    background = "white",
+    elementIds,
+    pages = [getExportRegion(value, options)],
+    paperSize = "fit",
+    margin = 0,
+    fonts = [],
+  } = options;
+  const ids = getExportedElementIds(value, elementIds);
+  const texts = ids
+    .map((id) => getElement(value, id))
+    .filter((element) => element?.type === "text");
+
+  const layouts = pages.map((region) => ({
+    region,
+    ...getPageLayout(region, paperSize, margin),
+  }));
+  const [first] = layouts;
+  if (!first) {
+    throw new Error("There are no pages to export");
+  }
+
+  const doc = new jsPDF({
+    unit: "pt",
+    format: [first.width, first.height],
+    orientation: first.width > first.height ? "landscape" : "portrait",
+    compress: true,
+  });
+  const embeddedFonts = await embedFonts(doc, texts, fonts);
+
+  layouts.forEach(({ region, width, height, matrix }, index) => {
+    if (index > 0) {
+      doc.addPage([width, height], width > height ? "landscape" : "portrait");
+    }
+
+    doc.advancedAPI(() => {
+      doc.saveGraphicsState();
+      setMatrix(doc, matrix);
+
+      // Elements reaching outside the region are cut off at its edges
+      doc.rect(region.left, region.top, region.width, region.height, null);
+      doc.clip();
+      doc.discardPath();
+      if (background) {
+        doc.setFillColor(background);
+        doc.rect(region.left, region.top, region.width, region.height, "F");
+      }
+
+      ids.forEach((id) => drawElement(doc, value, id, embeddedFonts));
+      doc.restoreGraphicsState();
+    });
+  });
+
+  return doc;
+};
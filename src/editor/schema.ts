@@ -23,10 +23,18 @@ export interface ShapePath {
   fill?: ShapeFill;
 }
 
-export interface TextElement {
+// Layer properties shared by every element type
+export interface ElementLayerProps {
+  name?: string;
+  hidden?: boolean;
+  locked?: boolean;
+}
+
+export interface TextElement extends ElementLayerProps {
   type: "text";
   id: ID;
   bounds: Bounds;
+  rotation?: number; // degrees, clockwise around the bounds center
   content: string;
   fontSize: number;
   color: string;
@@ -34,18 +42,20 @@ export interface TextElement {
   fontFamily: string;
 }
 
-export interface ImageElement {
+export interface ImageElement extends ElementLayerProps {
   type: "image";
   id: ID;
   bounds: Bounds;
+  rotation?: number; // degrees, clockwise around the bounds center
   src: string; // data URL
   opacity?: number;
 }
 
-export interface ShapeDef {
+export interface ShapeDef extends ElementLayerProps {
   type: "shape";
   id: ID;
   bounds: Bounds;
+  rotation?: number; // degrees, clockwise around the bounds center
   transparency?: number;
   paths: ShapePath[];
   viewBox: ShapeViewBox;
@@ -53,12 +63,23 @@ export interface ShapeDef {
   rememberedFill?: ShapeFill;
 }
 
-export type Element = ShapeDef | TextElement | ImageElement;
+export interface GroupElement extends ElementLayerProps {
+  type: "group";
+  id: ID;
+  bounds: Bounds;
+  rotation?: number; // degrees, clockwise around the bounds center
+  children: ID[];
+}
+
+export type Element = ShapeDef | TextElement | ImageElement | GroupElement;
 
 export interface DesignValue {
   shapes: Record<ID, ShapeDef>;
   texts: Record<ID, TextElement>;
   images: Record<ID, ImageElement>;
+  groups: Record<ID, GroupElement>;
+  // IDs of shapes, texts and images in stacking order, bottom-most first
+  order: ID[];
   attributes: {
     width: number;
     height: number;
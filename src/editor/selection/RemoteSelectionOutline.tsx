@@ -0,0 +1,76 @@
+import type { Element, ID } from "../schema";
+import SelectionOutline from "./SelectionOutline";
+
+// Another user's selection, shown in their color
+export interface RemoteSelection {
+  userId: string;
+  name: string;
+  color: string;
+  ids: ID[];
+  // Text the user is typing into, if any
+  editingTextId?: ID | null;
+  // Elements the user is working on, which others can't transform or edit
+  lockedIds?: ID[];
+}
+
+const getBadgeLabel = (element: Element, selection: RemoteSelection) => {
+  if (selection.editingTextId === element.id) {
+    return `${selection.name} is typing…`;
+  }
+  if (selection.lockedIds?.includes(element.id)) {
+    return `Locked by ${selection.name}`;
+  }
+  return selection.name;
+};
+
+interface RemoteSelectionOutlineProps {
+  element: Element;
+  selection: RemoteSelection;
+}
+
+const RemoteSelectionOutline = ({
+  element,
+  selection,
+}: RemoteSelectionOutlineProps) => {
+  const { bounds, rotation = 0 } = element;
+
+  return (
+    <>
+      <SelectionOutline
+        bounds={bounds}
+        rotation={rotation}
+        color={selection.color}
+      />
+      <div
+        style={{
+          position: "absolute",
+          left: 0,
+          top: 0,
+          translate: `${bounds.left}px ${bounds.top}px`,
+          rotate: `${rotation}deg`,
+          transformOrigin: `${bounds.width / 2}px ${bounds.height / 2}px`,
+          pointerEvents: "none",
+        }}
+      >
+        <div
+          style={{
+            position: "absolute",
+            left: -2,
+            bottom: 2,
+            background: selection.color,
+            color: "white",
+            padding: "1px 6px",
+            borderRadius: "4px 4px 4px 0",
+            fontSize: "11px",
+            fontWeight: 500,
+            whiteSpace: "nowrap",
+          }}
+        >
+          {getBadgeLabel(element, selection)}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default RemoteSelectionOutline;
@@ -22,6 +22,10 @@ const isHorizontalDirection = (
 
 interface ResizeHandlerProps<ResizeSnapshot> {
   direction: ResizeDirection;
+  // Rotation of the selection in degrees, used to orient the cursor
+  rotation?: number;
+  onGestureStart?: () => void;
+  onGestureEnd?: () => void;
   onStart: () => ResizeSnapshot;
   onMove: (options: {
     deltaX: number;
@@ -76,7 +80,10 @@ const VERTICAL_SIZE = {
   height: RESIZE_HANDLE_SIZE / 2,
 };
 
-const getPositionStyle = (direction: ResizeDirection): CSSProperties => {
+const getPositionStyle = (
+  direction: ResizeDirection,
+  selectionRotation: number,
+): CSSProperties => {
   const handleSize = isBorderDirection(direction)
     ? isHorizontalDirection(direction)
       ? HORIZONTAL_SIZE
@@ -94,7 +101,7 @@ const getPositionStyle = (direction: ResizeDirection): CSSProperties => {
     boxSizing: "content-box",
   };
 
-  const rotation = getRotationForDirection(direction);
+  const rotation = getRotationForDirection(direction) + selectionRotation;
   const cursorUrl = getRotatedCursor(rotation);
 
   switch (direction) {
@@ -167,18 +174,23 @@ const getPositionStyle = (direction: ResizeDirection): CSSProperties => {
 
 const ResizeHandler = <ResizeSnapshot,>({
   direction,
+  rotation = 0,
+  onGestureStart,
+  onGestureEnd,
   onStart,
   onMove,
 }: ResizeHandlerProps<ResizeSnapshot>) => {
   const { onDragStart, dragProps } = useDragGesture<ResizeSnapshot>({
+    onStart: onGestureStart,
     onMove: ({ deltaX, deltaY, snapshot }) => {
       onMove({ deltaX, deltaY, snapshot, direction });
     },
+    onEnd: onGestureEnd,
   });
 
   return (
     <div
-      style={getPositionStyle(direction)}
+      style={getPositionStyle(direction, rotation)}
       onPointerDown={(event) => {
         onDragStart(event, onStart());
       }}
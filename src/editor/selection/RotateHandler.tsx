@@ -0,0 +1,99 @@
+import { ROTATION_SNAP_DEGREES } from "../math/constants";
+import { normalizeAngle, snapAngle, toDegrees } from "../math/rotation";
+import type { Point } from "../math/types";
+import useDragGesture from "../utils/useDragGesture";
+
+const ROTATE_HANDLE_SIZE = 10;
+const ROTATE_HANDLE_OFFSET = 24;
+
+interface RotateSnapshot {
+  center: Point;
+  startAngle: number;
+  startPointer: Point;
+  rotation: number;
+}
+
+interface RotateHandlerProps {
+  rotation: number;
+  onRotate: (rotation: number) => void;
+  onGestureStart?: () => void;
+  onGestureEnd?: () => void;
+}
+
+const getPointerAngle = (pointer: Point, center: Point): number => {
+  return toDegrees(Math.atan2(pointer.y - center.y, pointer.x - center.x));
+};
+
+/**
+ * Handle above the top edge of the selection that rotates the element around
+ * its center. Holding shift snaps the angle to ROTATION_SNAP_DEGREES steps.
+ */
+const RotateHandler = ({
+  rotation,
+  onRotate,
+  onGestureStart,
+  onGestureEnd,
+}: RotateHandlerProps) => {
+  const { onDragStart, dragProps } = useDragGesture<RotateSnapshot>({
+    onStart: onGestureStart,
+    onEnd: onGestureEnd,
+    onMove: ({ deltaX, deltaY, snapshot, event }) => {
+      const pointer = {
+        x: snapshot.startPointer.x + deltaX,
+        y: snapshot.startPointer.y + deltaY,
+      };
+      const nextRotation =
+        snapshot.rotation +
+        getPointerAngle(pointer, snapshot.center) -
+        snapshot.startAngle;
+
+      onRotate(
+        event.shiftKey
+          ? snapAngle(nextRotation, ROTATION_SNAP_DEGREES)
+          : normalizeAngle(nextRotation),
+      );
+    },
+  });
+
+  return (
+    <div
+      title="Rotate"
+      style={{
+        position: "absolute",
+        left: "50%",
+        top: -ROTATE_HANDLE_OFFSET,
+        width: ROTATE_HANDLE_SIZE,
+        height: ROTATE_HANDLE_SIZE,
+        translate: "-50% -50%",
+        backgroundColor: "white",
+        border: "1px solid blue",
+        borderRadius: "50%",
+        pointerEvents: "auto",
+        cursor: "grab",
+      }}
+      onPointerDown={(event) => {
+        event.stopPropagation();
+        // The selection box is rotated around its center, so the center of its
+        // axis-aligned client rect is the rotation pivot
+        const selectionRect =
+          event.currentTarget.parentElement?.getBoundingClientRect();
+        if (!selectionRect) return;
+
+        const center = {
+          x: selectionRect.left + selectionRect.width / 2,
+          y: selectionRect.top + selectionRect.height / 2,
+        };
+        const startPointer = { x: event.clientX, y: event.clientY };
+        onDragStart(event, {
+          center,
+          startAngle: getPointerAngle(startPointer, center),
+          startPointer,
+          rotation,
+        });
+      }}
+      {...dragProps}
+    />
+  );
+};
+
+export default RotateHandler;
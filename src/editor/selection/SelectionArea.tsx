@@ -1,6 +1,7 @@
 import { type CSSProperties } from "react";
 
 import type { ShapeDef } from "../schema";
+import RotateHandler from "./RotateHandler";
 import SelectionResize from "./SelectionResize";
 import { type Selection } from "./selectionState";
 
@@ -12,14 +13,26 @@ interface SelectionAreaProps {
   shape: ShapeDef;
   onSelectionChange: (newSelection: Selection | null) => void;
   onShapesChange: (shapes: ShapeDef[]) => void;
+  onRotate?: (rotation: number) => void;
+  // Bracket a resize or rotate gesture, e.g. to record it as one history entry
+  onTransformStart?: (operation: string) => void;
+  onTransformEnd?: () => void;
 }
 
-const SelectionArea = ({ shape, onShapesChange }: SelectionAreaProps) => {
+const SelectionArea = ({
+  shape,
+  onShapesChange,
+  onRotate,
+  onTransformStart,
+  onTransformEnd,
+}: SelectionAreaProps) => {
+  const rotation = shape.rotation ?? 0;
   const commonStyles: CSSProperties = {
     position: "absolute",
     left: 0,
     top: 0,
     translate: `${shape.bounds.left}px ${shape.bounds.top}px`,
+    rotate: `${rotation}deg`,
     width: shape.bounds.width,
     height: shape.bounds.height,
     pointerEvents: "none",
@@ -29,7 +42,20 @@ const SelectionArea = ({ shape, onShapesChange }: SelectionAreaProps) => {
     <>
       <div style={{ ...commonStyles, ...outlineStyles }} />
       <div style={{ ...commonStyles }}>
-        <SelectionResize shape={shape} onShapesChange={onShapesChange} />
+        <SelectionResize
+          shape={shape}
+          onShapesChange={onShapesChange}
+          onTransformStart={onTransformStart}
+          onTransformEnd={onTransformEnd}
+        />
+        {onRotate && (
+          <RotateHandler
+            rotation={rotation}
+            onRotate={onRotate}
+            onGestureStart={() => onTransformStart?.("Rotate")}
+            onGestureEnd={onTransformEnd}
+          />
+        )}
       </div>
     </>
   );
@@ -0,0 +1,26 @@
+import type { Bounds } from "../math/types";
+
+interface SelectionMarqueeProps {
+  bounds: Bounds;
+}
+
+const SelectionMarquee = ({ bounds }: SelectionMarqueeProps) => {
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: 0,
+        top: 0,
+        translate: `${bounds.left}px ${bounds.top}px`,
+        width: bounds.width,
+        height: bounds.height,
+        border: "1px solid rgba(0, 0, 255, 0.8)",
+        background: "rgba(0, 0, 255, 0.08)",
+        boxSizing: "border-box",
+        pointerEvents: "none",
+      }}
+    />
+  );
+};
+
+export default SelectionMarquee;
@@ -0,0 +1,33 @@
+import type { Bounds } from "../math/types";
+
+interface SelectionOutlineProps {
+  bounds: Bounds;
+  rotation?: number;
+  isDashed?: boolean;
+  color?: string;
+}
+
+const SelectionOutline = ({
+  bounds,
+  rotation = 0,
+  isDashed,
+  color = "blue",
+}: SelectionOutlineProps) => {
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: 0,
+        top: 0,
+        translate: `${bounds.left}px ${bounds.top}px`,
+        rotate: `${rotation}deg`,
+        width: bounds.width,
+        height: bounds.height,
+        outline: `${isDashed ? 1 : 2}px ${isDashed ? "dashed" : "solid"} ${color}`,
+        pointerEvents: "none",
+      }}
+    />
+  );
+};
+
+export default SelectionOutline;
@@ -16,9 +16,16 @@ const RESIZE_DIRECTIONS: ResizeDirection[] = [
 interface SelectionResizeProps {
   shape: ShapeDef;
   onShapesChange: (shapes: ShapeDef[]) => void;
+  onTransformStart?: (operation: string) => void;
+  onTransformEnd?: () => void;
 }
 
-const SelectionResize = ({ shape, onShapesChange }: SelectionResizeProps) => {
+const SelectionResize = ({
+  shape,
+  onShapesChange,
+  onTransformStart,
+  onTransformEnd,
+}: SelectionResizeProps) => {
   return (
     <>
       {RESIZE_DIRECTIONS.map((direction) => {
@@ -26,11 +33,14 @@ const SelectionResize = ({ shape, onShapesChange }: SelectionResizeProps) => {
           <ResizeHandler
             key={direction}
             direction={direction}
+            rotation={shape.rotation ?? 0}
+            onGestureStart={() => onTransformStart?.("Resize")}
+            onGestureEnd={onTransformEnd}
             onStart={() => {
               return {
                 layout: {
                   bounds: shape.bounds,
-                  rotation: 0,
+                  rotation: shape.rotation ?? 0,
                 },
                 shape,
               };
@@ -1,15 +1,49 @@
 import type { TextElement } from "../schema";
+import RotateHandler from "./RotateHandler";
 import { type Selection } from "./selectionState";
 
 interface TextSelectionAreaProps {
   text: TextElement;
   onSelectionChange: (newSelection: Selection | null) => void;
   onTextChange?: (text: TextElement) => void;
+  onRotate?: (rotation: number) => void;
+  onTransformStart?: (operation: string) => void;
+  onTransformEnd?: () => void;
 }
 
-const TextSelectionArea = ({}: TextSelectionAreaProps) => {
-  // Return null to not render any selection outline for text
-  return null;
+const TextSelectionArea = ({
+  text,
+  onRotate,
+  onTransformStart,
+  onTransformEnd,
+}: TextSelectionAreaProps) => {
+  // No selection outline is rendered for text, only the rotate handle
+  if (!onRotate) {
+    return null;
+  }
+
+  const rotation = text.rotation ?? 0;
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: 0,
+        top: 0,
+        translate: `${text.bounds.left}px ${text.bounds.top}px`,
+        rotate: `${rotation}deg`,
+        width: text.bounds.width,
+        height: text.bounds.height,
+        pointerEvents: "none",
+      }}
+    >
+      <RotateHandler
+        rotation={rotation}
+        onRotate={onRotate}
+        onGestureStart={() => onTransformStart?.("Rotate")}
+        onGestureEnd={onTransformEnd}
+      />
+    </div>
+  );
 };
 
 export default TextSelectionArea;
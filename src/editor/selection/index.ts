@@ -1,2 +1,13 @@
+export {
+  type RemoteSelection,
+  default as RemoteSelectionOutline,
+} from "./RemoteSelectionOutline";
 export { default as SelectionArea } from "./SelectionArea";
-export { type Selection } from "./selectionState";
+export { default as SelectionMarquee } from "./SelectionMarquee";
+export { default as SelectionOutline } from "./SelectionOutline";
+export {
+  type Selection,
+  createSelection,
+  isSelected,
+  toggleSelection,
+} from "./selectionState";
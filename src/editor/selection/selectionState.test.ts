@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+
+import { createSelection, isSelected, toggleSelection } from "./selectionState";
+
+describe("selectionState", () => {
+  describe("createSelection", () => {
+    it("keeps the first occurrence of every ID in order", () => {
+      expect(createSelection(["b", "a", "b"])).toEqual({ ids: ["b", "a"] });
+    });
+
+    it("returns null without IDs", () => {
+      expect(createSelection([])).toBeNull();
+    });
+  });
+
+  describe("isSelected", () => {
+    it("checks whether the ID is in the selection", () => {
+      const selection = createSelection(["a", "b"]);
+      expect(isSelected(selection, "b")).toBe(true);
+      expect(isSelected(selection, "c")).toBe(false);
+      expect(isSelected(null, "a")).toBe(false);
+    });
+  });
+
+  // Shift-clicking an element on the canvas or in the layers panel
+  describe("toggleSelection", () => {
+    it("adds unselected IDs to the end of the selection", () => {
+      expect(toggleSelection(null, "a")).toEqual({ ids: ["a"] });
+      expect(toggleSelection(createSelection(["a"]), "b")).toEqual({
+        ids: ["a", "b"],
+      });
+    });
+
+    it("removes selected IDs, keeping the order of the others", () => {
+      expect(toggleSelection(createSelection(["a", "b", "c"]), "b")).toEqual({
+        ids: ["a", "c"],
+      });
+    });
+
+    it("clears the selection when removing its only ID", () => {
+      expect(toggleSelection(createSelection(["a"]), "a")).toBeNull();
+    });
+  });
+});
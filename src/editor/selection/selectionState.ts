@@ -1,5 +1,33 @@
+import { uniqued } from "../../utils";
 import type { ID } from "../schema";
 
+/**
+ * An ordered set of selected element IDs. The first ID is the element that was
+ * selected first, which panels use as the "primary" element when reading
+ * properties for a mixed selection.
+ */
 export interface Selection {
-  id: ID;
+  ids: ID[];
 }
+
+export const createSelection = (ids: ID[]): Selection | null => {
+  const uniqueIds = uniqued(ids);
+  return uniqueIds.length > 0 ? { ids: uniqueIds } : null;
+};
+
+export const isSelected = (selection: Selection | null, id: ID): boolean => {
+  return selection?.ids.includes(id) ?? false;
+};
+
+/**
+ * Adds the ID to the end of the selection, or removes it if already selected
+ */
+export const toggleSelection = (
+  selection: Selection | null,
+  id: ID,
+): Selection | null => {
+  const ids = selection?.ids ?? [];
+  return ids.includes(id)
+    ? createSelection(ids.filter((selectedId) => selectedId !== id))
+    : createSelection([...ids, id]);
+};
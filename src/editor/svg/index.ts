@@ -0,0 +1,2 @@
+export * from "./serializeDesign";
+export * from "./parseSVG";
@@ -0,0 +1,222 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+
+import type { DesignValue } from "../schema";
+import { parseSVG } from "./parseSVG";
+import { serializeDesign } from "./serializeDesign";
+
+const svg = (content: string, attributes = 'width="100" height="100"') =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ${attributes}>${content}</svg>`;
+
+describe("parseSVG", () => {
+  it("turns a file of basic shapes into one shape", () => {
+    const { elements, unsupported } = parseSVG(
+      svg(`
+        <rect x="10" y="10" width="20" height="10" fill="#FF0000"/>
+        <circle cx="50" cy="50" r="10" fill="none" stroke="blue" stroke-width="2"/>
+        <polygon points="60,10 80,10 70,30"/>
+        <line x1="10" y1="80" x2="90" y2="80" stroke="#000000" stroke-dasharray="4 2"/>
+      `),
+    );
+
+    expect(unsupported).toEqual([]);
+    expect(elements).toHaveLength(1);
+    expect(elements[0]).toMatchObject({
+      type: "shape",
+      bounds: { left: 10, top: 10, width: 80, height: 70 },
+      viewBox: { minX: 0, minY: 0, width: 80, height: 70 },
+      paths: [
+        { d: "M0 0 L20 0 L20 10 L0 10 Z", fill: { color: "#FF0000" } },
+        { stroke: { color: "blue", weight: 2 } },
+        { d: "M50 0 L70 0 L60 20 Z", fill: { color: "#000000" } },
+        {
+          d: "M0 70 L80 70",
+          stroke: { color: "#000000", weight: 1, dasharray: [4, 2] },
+        },
+      ],
+    });
+  });
+
+  it("applies group transforms and keeps rotations", () => {
+    const { elements } = parseSVG(
+      svg(`
+        <g transform="translate(10 20) scale(2)" stroke="#000000">
+          <rect width="10" height="5" stroke-width="1"/>
+        </g>
+        <rect x="40" width="10" height="20" transform="rotate(90 45 10)"/>
+      `),
+    );
+
+    expect(elements).toMatchObject([
+      {
+        bounds: { left: 10, top: 20, width: 20, height: 10 },
+        paths: [
+          {
+            d: "M0 0 L20 0 L20 10 L0 10 Z",
+            stroke: { color: "#000000", weight: 2 },
+          },
+        ],
+      },
+      {
+        bounds: { left: 40, top: 0, width: 10, height: 20 },
+        rotation: 90,
+        paths: [{ d: "M0 0 L10 0 L10 20 L0 20 Z" }],
+      },
+    ]);
+  });
+
+  it("fits the viewBox into the viewport", () => {
+    const { elements } = parseSVG(
+      svg(
+        '<path d="M2 2 L22 2 L22 22 Z"/>',
+        'width="48" height="48" viewBox="0 0 24 24"',
+      ),
+    );
+
+    expect(elements[0]?.bounds).toEqual({
+      left: 4,
+      top: 4,
+      width: 40,
+      height: 40,
+    });
+  });
+
+  it("imports texts and images", () => {
+    const { elements } = parseSVG(
+      svg(`
+        <g opacity="0.5">
+          <image x="10" y="10" width="40" height="30" xlink:href="data:image/png;base64,AAAA"/>
+        </g>
+        <text x="10" y="60" font-size="20" font-weight="700" fill="#333333">Fish &amp; chips</text>
+      `),
+    );
+
+    expect(elements).toMatchObject([
+      {
+        type: "image",
+        bounds: { left: 10, top: 10, width: 40, height: 30 },
+        src: "data:image/png;base64,AAAA",
+        opacity: 0.5,
+      },
+      {
+        type: "text",
+        bounds: { left: 8, top: 40 },
+        content: "Fish & chips",
+        fontSize: 20,
+        fontWeight: "bold",
+        color: "#333333",
+        fontFamily: "Arial",
+      },
+    ]);
+  });
+
+  it("reports what it can't convert", () => {
+    const { elements, unsupported } = parseSVG(
+      svg(`
+        <style>rect { fill: red; }</style>
+        <defs>
+          <linearGradient id="gradient"><stop offset="0" stop-color="red"/></linearGradient>
+        </defs>
+        <rect width="10" height="10" fill="url(#gradient)" stroke="#000000"/>
+        <use href="#gradient"/>
+        <rect width="10" height="10" display="none"/>
+      `),
+    );
+
+    expect(elements).toHaveLength(1);
+    expect(unsupported).toEqual([
+      "Style sheets",
+      "Gradient and pattern paints",
+      "<use> elements",
+    ]);
+  });
+
+  it("rejects files that aren't SVG", () => {
+    expect(() => parseSVG("<html></html>")).toThrow("Invalid SVG file");
+    expect(() => parseSVG("<svg><rect></svg>")).toThrow("Invalid SVG file");
+  });
+
+  it("round-trips designs through the SVG serializer", () => {
+    const value: DesignValue = {
+      shapes: {
+        square: {
+          type: "shape",
+          id: "square",
+          bounds: { left: 10, top: 10, width: 50, height: 50 },
+          rotation: 45,
+          transparency: 0.25,
+          viewBox: { minX: 0, minY: 0, width: 100, height: 100 },
+          paths: [
+            {
+              d: "M0 0L100 0L100 100L0 100Z",
+              fill: { color: "#FF0000" },
+              stroke: { color: "#000000", weight: 4, dasharray: [2, 1] },
+            },
+            {
+              d: "M25 25L75 25L75 75L25 75Z",
+              stroke: { color: "#0000FF", weight: 2 },
+            },
+          ],
+        },
+      },
+      texts: {
+        title: {
+          type: "text",
+          id: "title",
+          bounds: { left: 20, top: 100, width: 200, height: 30 },
+          content: 'Tom & "Jerry" <3',
+          fontSize: 24,
+          color: "#333333",
+          fontWeight: "bold",
+          fontFamily: "Georgia",
+        },
+      },
+      images: {
+        photo: {
+          type: "image",
+          id: "photo",
+          bounds: { left: 100, top: 150, width: 80, height: 60 },
+          rotation: 30,
+          src: "data:image/png;base64,iVBORw0KGgo=",
+          opacity: 0.5,
+        },
+      },
+      groups: {},
+      order: ["photo", "square", "title"],
+      attributes: { width: 400, height: 300 },
+    };
+    // The background isn't imported as a shape
+    const exported = serializeDesign(value);
+    const { elements, unsupported } = parseSVG(exported);
+
+    expect(unsupported).toEqual([]);
+    expect(elements.map((element) => element.type)).toEqual([
+      "image",
+      "shape",
+      "text",
+    ]);
+    expect(elements[0]).toMatchObject({
+      bounds: value.images.photo?.bounds,
+      rotation: 30,
+      opacity: 0.5,
+    });
+
+    const imported: DesignValue = {
+      ...value,
+      shapes: {},
+      texts: {},
+      images: {},
+      order: elements.map((element) => element.id),
+    };
+    for (const element of elements) {
+      const collection =
+        element.type === "shape"
+          ? imported.shapes
+          : element.type === "text"
+            ? imported.texts
+            : imported.images;
+      Object.assign(collection, { [element.id]: element });
+    }
+    expect(serializeDesign(imported)).toBe(exported);
+  });
+});
@@ -0,0 +1,689 @@
+import type { Bounds, Layout, Point } from "../math/types";
+import type {
+  ImageElement,
+  ShapeDef,
+  ShapePath,
+  ShapeStroke,
+  TextElement,
+} from "../schema";
+import {
+  type PathSegment,
+  getPathSegmentsBounds,
+  parsePathData,
+  roundCoordinate,
+  serializePathSegments,
+  transformPathSegments,
+} from "./pathData";
+import { BACKGROUND_ATTRIBUTE } from "./serializeDesign";
+import {
+  IDENTITY_MATRIX,
+  type Matrix,
+  applyMatrix,
+  getMatrixRotation,
+  getMatrixScale,
+  multiplyMatrices,
+  parseTransform,
+  rotateMatrix,
+  scaleMatrix,
+  translateMatrix,
+} from "./transform";
+
+export type ImportedElement = ShapeDef | TextElement | ImageElement;
+
+export interface SVGImportResult {
+  // In stacking order, bottom-most first, positioned in SVG user units
+  elements: ImportedElement[];
+  // Descriptions of the features that were skipped or approximated
+  unsupported: string[];
+}
+
+const SHAPE_TAGS = new Set([
+  "path",
+  "rect",
+  "circle",
+  "ellipse",
+  "line",
+  "polyline",
+  "polygon",
+]);
+const CONTAINER_TAGS = new Set(["g", "svg"]);
+// Never rendered by themselves, features using them are reported instead
+const IGNORED_TAGS = new Set([
+  "defs",
+  "title",
+  "desc",
+  "metadata",
+  "clipPath",
+  "linearGradient",
+  "radialGradient",
+  "pattern",
+  "mask",
+  "filter",
+  "marker",
+  "symbol",
+  "style",
+]);
+
+const XLINK_NAMESPACE = "http://www.w3.org/1999/xlink";
+// Matches serializeDesign and TextNode
+const TEXT_PADDING = 2;
+const TEXT_LINE_HEIGHT = 1.2;
+const TEXT_CHARACTER_WIDTH = 0.6;
+
+// Presentation properties inherited from ancestors
+interface InheritedStyle {
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  strokeDasharray: string;
+  fillRule: string;
+  color: string;
+  fontSize: number;
+  fontFamily: string;
+  fontWeight: string;
+  textAnchor: string;
+  dominantBaseline: string;
+}
+
+interface Context {
+  matrix: Matrix;
+  style: InheritedStyle;
+  // Product of the opacities of the ancestors
+  opacity: number;
+}
+
+const DEFAULT_STYLE: InheritedStyle = {
+  fill: "#000000",
+  stroke: "none",
+  strokeWidth: 1,
+  strokeDasharray: "none",
+  fillRule: "nonzero",
+  color: "#000000",
+  fontSize: 16,
+  fontFamily: "Arial",
+  fontWeight: "normal",
+  textAnchor: "start",
+  dominantBaseline: "auto",
+};
+
+// Inline styles take precedence over presentation attributes
+const getProperty = (node: Element, name: string): string | null => {
+  const declaration = (node.getAttribute("style") ?? "")
+    .split(";")
+    .map((part) => part.split(":").map((value) => value.trim()))
+    .find(([property]) => property === name);
+
+  return declaration?.[1] ?? node.getAttribute(name);
+};
+
+const getNumber = (node: Element, name: string, fallback = 0): number => {
+  const value = parseFloat(getProperty(node, name) ?? "");
+  return Number.isFinite(value) ? value : fallback;
+};
+
+// Collects what the import can't represent, each feature reported once
+class UnsupportedFeatures {
+  #features = new Set<string>();
+
+  add(feature: string) {
+    this.#features.add(feature);
+  }
+
+  toArray(): string[] {
+    return [...this.#features];
+  }
+}
+
+const getInheritedStyle = (
+  node: Element,
+  parent: InheritedStyle,
+): InheritedStyle => ({
+  fill: getProperty(node, "fill") ?? parent.fill,
+  stroke: getProperty(node, "stroke") ?? parent.stroke,
+  strokeWidth: getNumber(node, "stroke-width", parent.strokeWidth),
+  strokeDasharray:
+    getProperty(node, "stroke-dasharray") ?? parent.strokeDasharray,
+  fillRule: getProperty(node, "fill-rule") ?? parent.fillRule,
+  color: getProperty(node, "color") ?? parent.color,
+  fontSize: getNumber(node, "font-size", parent.fontSize),
+  fontFamily: getProperty(node, "font-family") ?? parent.fontFamily,
+  fontWeight: getProperty(node, "font-weight") ?? parent.fontWeight,
+  textAnchor: getProperty(node, "text-anchor") ?? parent.textAnchor,
+  dominantBaseline:
+    getProperty(node, "dominant-baseline") ?? parent.dominantBaseline,
+});
+
+// Maps the viewBox of an svg element onto its viewport, centered and scaled
+// to fit like the default preserveAspectRatio
+const getViewportMatrix = (node: Element): Matrix => {
+  const position = translateMatrix(getNumber(node, "x"), getNumber(node, "y"));
+  const viewBox = (node.getAttribute("viewBox") ?? "")
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+  const [minX = 0, minY = 0, width = 0, height = 0] = viewBox;
+  if (viewBox.length !== 4 || width <= 0 || height <= 0) {
+    return position;
+  }
+
+  // Relative sizes, e.g. "100%", fall back to the size of the viewBox
+  const getLength = (name: string, fallback: number) => {
+    const value = node.getAttribute(name) ?? "";
+    return /^[\d.]+(px)?$/.test(value.trim()) ? parseFloat(value) : fallback;
+  };
+  const viewportWidth = getLength("width", width);
+  const viewportHeight = getLength("height", height);
+  const scale = Math.min(viewportWidth / width, viewportHeight / height);
+  return multiplyMatrices(
+    position,
+    multiplyMatrices(
+      translateMatrix(
+        (viewportWidth - width * scale) / 2 - minX * scale,
+        (viewportHeight - height * scale) / 2 - minY * scale,
+      ),
+      scaleMatrix(scale),
+    ),
+  );
+};
+
+const getChildContext = (node: Element, parent: Context): Context => {
+  const transform = parseTransform(node.getAttribute("transform") ?? "");
+  const viewport =
+    node.tagName === "svg" ? getViewportMatrix(node) : IDENTITY_MATRIX;
+
+  return {
+    matrix: multiplyMatrices(
+      parent.matrix,
+      multiplyMatrices(transform, viewport),
+    ),
+    style: getInheritedStyle(node, parent.style),
+    opacity: parent.opacity * getNumber(node, "opacity", 1),
+  };
+};
+
+const isHidden = (node: Element) =>
+  getProperty(node, "display") === "none" ||
+  getProperty(node, "visibility") === "hidden";
+
+// Backgrounds written by serializeDesign aren't part of the design
+const getChildElements = (node: Element) =>
+  Array.from(node.children).filter(
+    (child) =>
+      !IGNORED_TAGS.has(child.tagName) &&
+      !isHidden(child) &&
+      !child.hasAttribute(BACKGROUND_ATTRIBUTE),
+  );
+
+// Whether the node only contains shapes, so it can become a single ShapeDef
+const isShapesOnly = (node: Element): boolean => {
+  if (SHAPE_TAGS.has(node.tagName)) return true;
+  if (!CONTAINER_TAGS.has(node.tagName)) return false;
+
+  const children = getChildElements(node);
+  return children.length > 0 && children.every(isShapesOnly);
+};
+
+const getPoints = (node: Element): string => {
+  const values = (node.getAttribute("points") ?? "")
+    .split(/[\s,]+/)
+    .filter(Boolean);
+  const pairs = Array.from({ length: Math.floor(values.length / 2) }, (_, i) =>
+    values.slice(i * 2, i * 2 + 2).join(" "),
+  );
+  return pairs.length > 0 ? `M${pairs.join(" L")}` : "";
+};
+
+// The geometry of a basic shape as path data
+const getShapePathData = (node: Element): string => {
+  switch (node.tagName) {
+    case "path":
+      return node.getAttribute("d") ?? "";
+    case "rect": {
+      const x = getNumber(node, "x");
+      const y = getNumber(node, "y");
+      const width = getNumber(node, "width");
+      const height = getNumber(node, "height");
+      if (width <= 0 || height <= 0) return "";
+
+      // A missing radius defaults to the other one
+      const rxValue = getNumber(node, "rx", NaN);
+      const ryValue = getNumber(node, "ry", NaN);
+      const rx = Math.min(
+        Number.isNaN(rxValue) ? (Number.isNaN(ryValue) ? 0 : ryValue) : rxValue,
+        width / 2,
+      );
+      const ry = Math.min(Number.isNaN(ryValue) ? rx : ryValue, height / 2);
+      if (rx <= 0 || ry <= 0) {
+        return `M${x} ${y} H${x + width} V${y + height} H${x} Z`;
+      }
+      return [
+        `M${x + rx} ${y}`,
+        `H${x + width - rx}`,
+        `A${rx} ${ry} 0 0 1 ${x + width} ${y + ry}`,
+        `V${y + height - ry}`,
+        `A${rx} ${ry} 0 0 1 ${x + width - rx} ${y + height}`,
+        `H${x + rx}`,
+        `A${rx} ${ry} 0 0 1 ${x} ${y + height - ry}`,
+        `V${y + ry}`,
+        `A${rx} ${ry} 0 0 1 ${x + rx} ${y}`,
+        "Z",
+      ].join(" ");
+    }
+    case "circle":
+    case "ellipse": {
+      const cx = getNumber(node, "cx");
+      const cy = getNumber(node, "cy");
+      const rx = getNumber(node, node.tagName === "circle" ? "r" : "rx");
+      const ry = getNumber(node, node.tagName === "circle" ? "r" : "ry");
+      if (rx <= 0 || ry <= 0) return "";
+
+      return [
+        `M${cx - rx} ${cy}`,
+        `A${rx} ${ry} 0 1 0 ${cx + rx} ${cy}`,
+        `A${rx} ${ry} 0 1 0 ${cx - rx} ${cy}`,
+        "Z",
+      ].join(" ");
+    }
+    case "line":
+      return `M${getNumber(node, "x1")} ${getNumber(node, "y1")} L${getNumber(node, "x2")} ${getNumber(node, "y2")}`;
+    case "polyline":
+      return getPoints(node);
+    case "polygon": {
+      const points = getPoints(node);
+      return points && `${points} Z`;
+    }
+    default:
+      return "";
+  }
+};
+
+// The clip-path written by serializeDesign for inner strokes: the clip path
+// holds the stroked path itself
+const isInnerStroke = (node: Element): boolean => {
+  const match = /^url\(#(.+)\)$/.exec(getProperty(node, "clip-path") ?? "");
+  const clipPath = match?.[1] && node.ownerDocument.getElementById(match[1]);
+  const clipPathChildren = clipPath ? Array.from(clipPath.children) : [];
+
+  return (
+    clipPathChildren.length === 1 &&
+    clipPathChildren[0]?.getAttribute("d") === node.getAttribute("d")
+  );
+};
+
+// Resolves a fill or stroke paint to a color, null for no paint
+const getPaintColor = (
+  paint: string,
+  style: InheritedStyle,
+  unsupported: UnsupportedFeatures,
+): string | null => {
+  if (paint === "none") return null;
+  if (paint === "currentColor") return style.color;
+  if (paint.startsWith("url(")) {
+    unsupported.add("Gradient and pattern paints");
+    return null;
+  }
+  return paint;
+};
+
+const getStroke = (
+  node: Element,
+  style: InheritedStyle,
+  scale: number,
+  unsupported: UnsupportedFeatures,
+): ShapeStroke | undefined => {
+  const color = getPaintColor(style.stroke, style, unsupported);
+  if (!color || style.strokeWidth <= 0) return undefined;
+
+  // ShapeDef strokes only cover the inside of the path with their weight,
+  // regular strokes are kept as wide as they look
+  const weight = roundCoordinate(
+    (isInnerStroke(node) ? style.strokeWidth / 2 : style.strokeWidth) * scale,
+  );
+  const dashes = style.strokeDasharray
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter((value) => Number.isFinite(value));
+  if (dashes.length > 2) {
+    unsupported.add("Stroke dash patterns with more than two lengths");
+  }
+  const [dash, gap = dash] = dashes;
+
+  return {
+    color,
+    weight,
+    ...(dash !== undefined && gap !== undefined && dash + gap > 0
+      ? {
+          dasharray: [
+            roundCoordinate((dash * scale) / weight),
+            roundCoordinate((gap * scale) / weight),
+          ],
+        }
+      : null),
+  };
+};
+
+// The layout whose bounds, rotated around their center, cover the given
+// bounds of the unrotated coordinate system
+const getRotatedLayout = (
+  unrotatedBounds: Bounds,
+  rotation: number,
+): Layout => {
+  const center = applyMatrix(rotateMatrix(rotation), {
+    x: unrotatedBounds.left + unrotatedBounds.width / 2,
+    y: unrotatedBounds.top + unrotatedBounds.height / 2,
+  });
+  const width = roundCoordinate(unrotatedBounds.width);
+  const height = roundCoordinate(unrotatedBounds.height);
+  const roundedRotation = roundCoordinate(rotation);
+
+  return {
+    bounds: {
+      left: roundCoordinate(center.x - unrotatedBounds.width / 2),
+      top: roundCoordinate(center.y - unrotatedBounds.height / 2),
+      width,
+      height,
+    },
+    ...(roundedRotation ? { rotation: roundedRotation } : null),
+  };
+};
+
+// Splits off the rotation of the matrix, so it can be kept as the element's
+// rotation rather than baked into its geometry
+const splitRotation = (matrix: Matrix) => {
+  const rotation = getMatrixRotation(matrix);
+  return {
+    rotation,
+    unrotatedMatrix: multiplyMatrices(rotateMatrix(-rotation), matrix),
+  };
+};
+
+const getCornersBounds = (matrix: Matrix, bounds: Bounds): Bounds => {
+  const corners: Point[] = [
+    { x: bounds.left, y: bounds.top },
+    { x: bounds.left + bounds.width, y: bounds.top },
+    { x: bounds.left + bounds.width, y: bounds.top + bounds.height },
+    { x: bounds.left, y: bounds.top + bounds.height },
+  ].map((corner) => applyMatrix(matrix, corner));
+  const xs = corners.map((corner) => corner.x);
+  const ys = corners.map((corner) => corner.y);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return {
+    left,
+    top,
+    width: Math.max(...xs) - left,
+    height: Math.max(...ys) - top,
+  };
+};
+
+interface ShapePathSource {
+  segments: PathSegment[];
+  fill?: ShapePath["fill"];
+  stroke?: ShapeStroke;
+}
+
+/**
+ * Converts SVG markup into editable elements. Groups that only hold basic
+ * shapes become a single ShapeDef with one path per shape, texts become
+ * TextElements and images become ImageElements. Anything else is skipped
+ * and reported.
+ */
+export const parseSVG = (source: string): SVGImportResult => {
+  const document = new DOMParser().parseFromString(source, "image/svg+xml");
+  const root = document.documentElement;
+  if (root.tagName !== "svg" || document.querySelector("parsererror")) {
+    throw new Error("Invalid SVG file");
+  }
+
+  const unsupported = new UnsupportedFeatures();
+  const elements: ImportedElement[] = [];
+
+  // Opacity can only be kept for whole elements
+  const checkNestedOpacity = (node: Element) => {
+    if (getNumber(node, "opacity", 1) !== 1) {
+      unsupported.add("Opacity of parts of a shape");
+    }
+  };
+
+  const checkPaintFeatures = (node: Element) => {
+    for (const name of ["fill-opacity", "stroke-opacity"]) {
+      if (getNumber(node, name, 1) !== 1) {
+        unsupported.add(`The ${name} property`);
+      }
+    }
+    for (const name of ["mask", "filter"]) {
+      if (getProperty(node, name)) {
+        unsupported.add(`The ${name} property`);
+      }
+    }
+    if (getProperty(node, "clip-path") && !isInnerStroke(node)) {
+      unsupported.add("The clip-path property");
+    }
+  };
+
+  // Collects the paths of the shape's descendants, with the shape's rotation
+  // taken out of their transforms
+  const collectShapePaths = (
+    node: Element,
+    context: Context,
+    unrotate: Matrix,
+    paths: ShapePathSource[],
+  ) => {
+    checkPaintFeatures(node);
+    if (CONTAINER_TAGS.has(node.tagName)) {
+      getChildElements(node).forEach((child) => {
+        checkNestedOpacity(child);
+        collectShapePaths(
+          child,
+          getChildContext(child, context),
+          unrotate,
+          paths,
+        );
+      });
+      return;
+    }
+
+    const data = getShapePathData(node);
+    if (!data) return;
+
+    const { style } = context;
+    if (style.fillRule === "evenodd") {
+      unsupported.add("The evenodd fill rule");
+    }
+    const matrix = multiplyMatrices(unrotate, context.matrix);
+    // Lines and polylines are never filled
+    const fillColor =
+      node.tagName === "line" || node.tagName === "polyline"
+        ? null
+        : getPaintColor(style.fill, style, unsupported);
+
+    paths.push({
+      segments: transformPathSegments(parsePathData(data), matrix),
+      ...(fillColor ? { fill: { color: fillColor } } : null),
+      stroke: getStroke(node, style, getMatrixScale(matrix), unsupported),
+    });
+  };
+
+  const importShape = (node: Element, context: Context) => {
+    const rotation = getMatrixRotation(context.matrix);
+    const sources: ShapePathSource[] = [];
+    collectShapePaths(node, context, rotateMatrix(-rotation), sources);
+    const visibleSources = sources.filter((path) => path.fill || path.stroke);
+    const unrotatedBounds = getPathSegmentsBounds(
+      visibleSources.flatMap((path) => path.segments),
+    );
+    if (!unrotatedBounds) return;
+
+    // Paths start at the origin of the viewBox, with at least a unit size so
+    // straight lines can be scaled
+    const size = {
+      width: Math.max(unrotatedBounds.width, 1),
+      height: Math.max(unrotatedBounds.height, 1),
+    };
+    const origin = translateMatrix(-unrotatedBounds.left, -unrotatedBounds.top);
+    const paths: ShapePath[] = [];
+    for (const { segments, fill, stroke } of visibleSources) {
+      const d = serializePathSegments(transformPathSegments(segments, origin));
+      // Fills and strokes of the same path, e.g. as written by serializeDesign,
+      // are merged back into one path
+      const fillPath = stroke
+        ? paths.find((path) => path.d === d && path.fill && !path.stroke)
+        : undefined;
+      if (fillPath) {
+        fillPath.stroke = stroke;
+      } else {
+        paths.push({
+          d,
+          ...(fill ? { fill } : null),
+          ...(stroke ? { stroke } : null),
+        });
+      }
+    }
+
+    const layout = getRotatedLayout({ ...unrotatedBounds, ...size }, rotation);
+    elements.push({
+      type: "shape",
+      id: crypto.randomUUID(),
+      ...layout,
+      ...(context.opacity < 1
+        ? { transparency: roundCoordinate(1 - context.opacity) }
+        : null),
+      viewBox: {
+        minX: 0,
+        minY: 0,
+        width: layout.bounds.width,
+        height: layout.bounds.height,
+      },
+      paths,
+    });
+  };
+
+  const importText = (node: Element, context: Context) => {
+    const content = (node.textContent ?? "").replace(/\s+/g, " ").trim();
+    if (!content) return;
+
+    const { style } = context;
+    if (
+      Array.from(node.querySelectorAll("tspan")).some((tspan) =>
+        ["x", "y", "dx", "dy"].some((name) => tspan.hasAttribute(name)),
+      )
+    ) {
+      unsupported.add("Positioned text spans");
+    }
+    if (context.opacity < 1) {
+      unsupported.add("Text opacity");
+    }
+
+    const { rotation, unrotatedMatrix } = splitRotation(context.matrix);
+    const scale = getMatrixScale(unrotatedMatrix);
+    const fontSize = roundCoordinate(style.fontSize * scale);
+    // Texts are sized by their content in the editor, estimate it here
+    const width = content.length * style.fontSize * TEXT_CHARACTER_WIDTH;
+    const height = style.fontSize * TEXT_LINE_HEIGHT;
+    const anchorOffset =
+      style.textAnchor === "middle"
+        ? width / 2
+        : style.textAnchor === "end"
+          ? width
+          : 0;
+    const isTopAligned = ["text-before-edge", "hanging"].includes(
+      style.dominantBaseline,
+    );
+    const left = getNumber(node, "x") - TEXT_PADDING - anchorOffset;
+    const top = isTopAligned
+      ? getNumber(node, "y") - TEXT_PADDING
+      : getNumber(node, "y") - style.fontSize;
+
+    const color = getPaintColor(style.fill, style, unsupported);
+    const fontWeight = Number(style.fontWeight);
+    elements.push({
+      type: "text",
+      id: crypto.randomUUID(),
+      ...getRotatedLayout(
+        getCornersBounds(unrotatedMatrix, { left, top, width, height }),
+        rotation,
+      ),
+      content,
+      fontSize,
+      color: color ?? DEFAULT_STYLE.fill,
+      fontWeight:
+        style.fontWeight === "bold" ||
+        style.fontWeight === "bolder" ||
+        fontWeight >= 600
+          ? "bold"
+          : "normal",
+      fontFamily: style.fontFamily,
+    });
+  };
+
+  const importImage = (node: Element, context: Context) => {
+    const src =
+      node.getAttribute("href") ?? node.getAttributeNS(XLINK_NAMESPACE, "href");
+    const width = getNumber(node, "width");
+    const height = getNumber(node, "height");
+    if (!src || width <= 0 || height <= 0) {
+      unsupported.add("Images without a source or size");
+      return;
+    }
+
+    const { rotation, unrotatedMatrix } = splitRotation(context.matrix);
+    elements.push({
+      type: "image",
+      id: crypto.randomUUID(),
+      ...getRotatedLayout(
+        getCornersBounds(unrotatedMatrix, {
+          left: getNumber(node, "x"),
+          top: getNumber(node, "y"),
+          width,
+          height,
+        }),
+        rotation,
+      ),
+      src,
+      opacity: roundCoordinate(context.opacity),
+    });
+  };
+
+  const importChildren = (node: Element, context: Context) => {
+    for (const child of getChildElements(node)) {
+      const childContext = getChildContext(child, context);
+      checkPaintFeatures(child);
+
+      if (isShapesOnly(child)) {
+        importShape(child, childContext);
+      } else if (CONTAINER_TAGS.has(child.tagName)) {
+        importChildren(child, childContext);
+      } else if (child.tagName === "text") {
+        importText(child, childContext);
+      } else if (child.tagName === "image") {
+        importImage(child, childContext);
+      } else {
+        unsupported.add(`<${child.tagName}> elements`);
+      }
+    }
+  };
+
+  if (root.querySelector("style")) {
+    unsupported.add("Style sheets");
+  }
+  const rootContext = {
+    matrix: getViewportMatrix(root),
+    style: getInheritedStyle(root, DEFAULT_STYLE),
+    opacity: getNumber(root, "opacity", 1),
+  };
+  // Files of loose basic shapes, like most icons, become a single shape.
+  // Groups at the top level, e.g. the elements written by serializeDesign,
+  // are imported separately.
+  const rootChildren = getChildElements(root);
+  if (
+    rootChildren.length > 0 &&
+    rootChildren.every((child) => SHAPE_TAGS.has(child.tagName))
+  ) {
+    importShape(root, rootContext);
+  } else {
+    importChildren(root, rootContext);
+  }
+
+  return { elements, unsupported: unsupported.toArray() };
+};
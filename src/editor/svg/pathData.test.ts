@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  getPathSegmentsBounds,
+  parsePathData,
+  serializePathSegments,
+} from "./pathData";
+
+const normalize = (data: string) => serializePathSegments(parsePathData(data));
+
+describe("parsePathData", () => {
+  it("makes relative, horizontal and vertical commands absolute", () => {
+    expect(normalize("m10 10 h20 v20 H10 z m5 5 l10 0 10 10")).toBe(
+      "M10 10 L30 10 L30 30 L10 30 Z M15 15 L25 15 L35 25",
+    );
+  });
+
+  it("treats coordinates after a move as lines", () => {
+    expect(normalize("M0,0 10,0 10,10")).toBe("M0 0 L10 0 L10 10");
+  });
+
+  it("reflects the control points of smooth curves", () => {
+    expect(normalize("M0 0 C0 10 10 10 10 0 S20 -10 20 0")).toBe(
+      "M0 0 C0 10 10 10 10 0 C10 -10 20 -10 20 0",
+    );
+    expect(normalize("M0 0 Q5 10 10 0 T20 0")).toBe(
+      "M0 0 Q5 10 10 0 Q15 -10 20 0",
+    );
+    // Without a previous curve the current point is the control point
+    expect(normalize("M0 0 T10 0")).toBe("M0 0 Q0 0 10 0");
+  });
+
+  it("converts arcs to cubic curves", () => {
+    const segments = parsePathData("M0 10 a10 10 0 1 0 20 0 a10 10 0 1 0-20 0");
+
+    expect(segments.filter((segment) => segment.type === "C")).toHaveLength(4);
+    expect(getPathSegmentsBounds(segments)).toEqual({
+      left: 0,
+      top: 0,
+      width: 20,
+      height: 20,
+    });
+  });
+
+  it("reads arc flags written without separators", () => {
+    expect(parsePathData("M0 0a5 5 0 0110 0").at(-1)).toMatchObject({
+      type: "C",
+      point: { x: 10, y: 0 },
+    });
+  });
+
+  it("rejects invalid path data", () => {
+    expect(() => parsePathData("M0 0 X10 10")).toThrow();
+  });
+});
+
+describe("getPathSegmentsBounds", () => {
+  it("includes the extremes of curves", () => {
+    expect(getPathSegmentsBounds(parsePathData("M0 0 Q50 100 100 0"))).toEqual({
+      left: 0,
+      top: 0,
+      width: 100,
+      height: 50,
+    });
+  });
+});
@@ -0,0 +1,455 @@
+import type { Bounds, Point } from "../math/types";
+import { type Matrix, applyMatrix } from "./transform";
+
+// Absolute path segments. Every other command is converted into these, so
+// segments can be transformed by any matrix.
+export type PathSegment =
+  | { type: "M"; point: Point }
+  | { type: "L"; point: Point }
+  | { type: "C"; control1: Point; control2: Point; point: Point }
+  | { type: "Q"; control: Point; point: Point }
+  | { type: "Z" };
+
+const COMMAND_PATTERN = /[MmLlHhVvCcSsQqTtAaZz]/;
+const NUMBER_PATTERN = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/;
+
+// Reads the numbers of path data one by one. Arc flags are read as single
+// digits, since they are often written without separators, e.g. "a1 1 0 011 1".
+class PathScanner {
+  #data: string;
+  #index = 0;
+
+  constructor(data: string) {
+    this.#data = data;
+  }
+
+  #skipSeparators() {
+    while (/[\s,]/.test(this.#data[this.#index] ?? "")) {
+      this.#index += 1;
+    }
+  }
+
+  readCommand(): string | null {
+    this.#skipSeparators();
+    const char = this.#data[this.#index];
+    if (char === undefined || !COMMAND_PATTERN.test(char)) return null;
+
+    this.#index += 1;
+    return char;
+  }
+
+  hasNumber(): boolean {
+    this.#skipSeparators();
+    return NUMBER_PATTERN.test(this.#data.slice(this.#index));
+  }
+
+  readNumber(): number {
+    this.#skipSeparators();
+    const match = NUMBER_PATTERN.exec(this.#data.slice(this.#index));
+    if (!match) {
+      throw new Error(`Invalid path data at ${this.#index}: ${this.#data}`);
+    }
+    this.#index += match[0].length;
+    return Number(match[0]);
+  }
+
+  readFlag(): boolean {
+    this.#skipSeparators();
+    const char = this.#data[this.#index];
+    if (char !== "0" && char !== "1") {
+      throw new Error(`Invalid arc flag at ${this.#index}: ${this.#data}`);
+    }
+    this.#index += 1;
+    return char === "1";
+  }
+
+  isDone(): boolean {
+    this.#skipSeparators();
+    return this.#index >= this.#data.length;
+  }
+}
+
+const getAngle = (ux: number, uy: number, vx: number, vy: number) => {
+  const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+  const cos =
+    (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy) || 1);
+  return sign * Math.acos(Math.min(1, Math.max(-1, cos)));
+};
+
+/**
+ * Approximates an elliptical arc with cubic Béziers of at most a quarter turn
+ * each, following the SVG implementation notes for out-of-range radii
+ */
+const arcToCubics = (
+  from: Point,
+  to: Point,
+  radiusX: number,
+  radiusY: number,
+  xAxisRotation: number,
+  isLargeArc: boolean,
+  isSweep: boolean,
+): PathSegment[] => {
+  let rx = Math.abs(radiusX);
+  let ry = Math.abs(radiusY);
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) {
+    return [{ type: "L", point: to }];
+  }
+
+  const phi = (xAxisRotation * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cosPhi * dx + sinPhi * dy;
+  const y1 = -sinPhi * dx + cosPhi * dy;
+
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor =
+    (isLargeArc === isSweep ? -1 : 1) *
+    Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+  const cx = cosPhi * cx1 - sinPhi * cy1 + (from.x + to.x) / 2;
+  const cy = sinPhi * cx1 + cosPhi * cy1 + (from.y + to.y) / 2;
+
+  const startAngle = getAngle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let sweepAngle = getAngle(
+    (x1 - cx1) / rx,
+    (y1 - cy1) / ry,
+    (-x1 - cx1) / rx,
+    (-y1 - cy1) / ry,
+  );
+  if (!isSweep && sweepAngle > 0) {
+    sweepAngle -= 2 * Math.PI;
+  } else if (isSweep && sweepAngle < 0) {
+    sweepAngle += 2 * Math.PI;
+  }
+
+  const pointAt = (angle: number): Point => ({
+    x: cx + rx * Math.cos(angle) * cosPhi - ry * Math.sin(angle) * sinPhi,
+    y: cy + rx * Math.cos(angle) * sinPhi + ry * Math.sin(angle) * cosPhi,
+  });
+  const derivativeAt = (angle: number): Point => ({
+    x: -rx * Math.sin(angle) * cosPhi - ry * Math.cos(angle) * sinPhi,
+    y: -rx * Math.sin(angle) * sinPhi + ry * Math.cos(angle) * cosPhi,
+  });
+
+  const count = Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2) - 1e-9);
+  const step = sweepAngle / count;
+  const handle = (4 / 3) * Math.tan(step / 4);
+
+  return Array.from({ length: count }, (_, index) => {
+    const start = startAngle + step * index;
+    const end = start + step;
+    const startPoint = pointAt(start);
+    const endPoint = index === count - 1 ? to : pointAt(end);
+    const startDerivative = derivativeAt(start);
+    const endDerivative = derivativeAt(end);
+
+    return {
+      type: "C" as const,
+      control1: {
+        x: startPoint.x + handle * startDerivative.x,
+        y: startPoint.y + handle * startDerivative.y,
+      },
+      control2: {
+        x: endPoint.x - handle * endDerivative.x,
+        y: endPoint.y - handle * endDerivative.y,
+      },
+      point: endPoint,
+    };
+  });
+};
+
+/**
+ * Parses SVG path data into absolute segments. Horizontal and vertical lines
+ * become lines, smooth curves get their reflected control points and arcs
+ * become cubic Béziers.
+ */
+export const parsePathData = (data: string): PathSegment[] => {
+  const scanner = new PathScanner(data);
+  const segments: PathSegment[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let subpathStart: Point = { x: 0, y: 0 };
+  // The control point to reflect for smooth curves, if the previous segment
+  // was a curve of the same kind
+  let lastCubicControl: Point | null = null;
+  let lastQuadraticControl: Point | null = null;
+
+  while (!scanner.isDone()) {
+    const command = scanner.readCommand();
+    if (!command) {
+      throw new Error(`Invalid path data: ${data}`);
+    }
+
+    const isRelative = command === command.toLowerCase();
+    const readPoint = (): Point => {
+      const x = scanner.readNumber();
+      const y = scanner.readNumber();
+      return isRelative ? { x: current.x + x, y: current.y + y } : { x, y };
+    };
+    const reflect = (control: Point | null): Point =>
+      control
+        ? { x: 2 * current.x - control.x, y: 2 * current.y - control.y }
+        : current;
+
+    // Commands repeat while numbers follow them, except for close path
+    let isFirst = true;
+    do {
+      let nextCubicControl: Point | null = null;
+      let nextQuadraticControl: Point | null = null;
+
+      switch (command.toUpperCase()) {
+        case "M": {
+          const point = readPoint();
+          // Coordinates after a move are implicit lines
+          segments.push({ type: isFirst ? "M" : "L", point });
+          if (isFirst) {
+            subpathStart = point;
+          }
+          current = point;
+          break;
+        }
+        case "L": {
+          current = readPoint();
+          segments.push({ type: "L", point: current });
+          break;
+        }
+        case "H": {
+          const x = scanner.readNumber();
+          current = { x: isRelative ? current.x + x : x, y: current.y };
+          segments.push({ type: "L", point: current });
+          break;
+        }
+        case "V": {
+          const y = scanner.readNumber();
+          current = { x: current.x, y: isRelative ? current.y + y : y };
+          segments.push({ type: "L", point: current });
+          break;
+        }
+        case "C":
+        case "S": {
+          const control1: Point =
+            command.toUpperCase() === "C"
+              ? readPoint()
+              : reflect(lastCubicControl);
+          const control2 = readPoint();
+          const point = readPoint();
+          segments.push({ type: "C", control1, control2, point });
+          nextCubicControl = control2;
+          current = point;
+          break;
+        }
+        case "Q":
+        case "T": {
+          const control: Point =
+            command.toUpperCase() === "Q"
+              ? readPoint()
+              : reflect(lastQuadraticControl);
+          const point = readPoint();
+          segments.push({ type: "Q", control, point });
+          nextQuadraticControl = control;
+          current = point;
+          break;
+        }
+        case "A": {
+          const radiusX = scanner.readNumber();
+          const radiusY = scanner.readNumber();
+          const xAxisRotation = scanner.readNumber();
+          const isLargeArc = scanner.readFlag();
+          const isSweep = scanner.readFlag();
+          const point = readPoint();
+          segments.push(
+            ...arcToCubics(
+              current,
+              point,
+              radiusX,
+              radiusY,
+              xAxisRotation,
+              isLargeArc,
+              isSweep,
+            ),
+          );
+          current = point;
+          break;
+        }
+        case "Z": {
+          segments.push({ type: "Z" });
+          current = subpathStart;
+          break;
+        }
+        default:
+          throw new Error(`Invalid path command ${command}: ${data}`);
+      }
+
+      lastCubicControl = nextCubicControl;
+      lastQuadraticControl = nextQuadraticControl;
+      isFirst = false;
+    } while (command.toUpperCase() !== "Z" && scanner.hasNumber());
+  }
+
+  return segments;
+};
+
+const transformPathSegment = (
+  segment: PathSegment,
+  matrix: Matrix,
+): PathSegment => {
+  switch (segment.type) {
+    case "M":
+    case "L":
+      return { ...segment, point: applyMatrix(matrix, segment.point) };
+    case "C":
+      return {
+        ...segment,
+        control1: applyMatrix(matrix, segment.control1),
+        control2: applyMatrix(matrix, segment.control2),
+        point: applyMatrix(matrix, segment.point),
+      };
+    case "Q":
+      return {
+        ...segment,
+        control: applyMatrix(matrix, segment.control),
+        point: applyMatrix(matrix, segment.point),
+      };
+    case "Z":
+      return segment;
+  }
+};
+
+export const transformPathSegments = (
+  segments: PathSegment[],
+  matrix: Matrix,
+): PathSegment[] =>
+  segments.map((segment) => transformPathSegment(segment, matrix));
+
+// Parameters in (0, 1) where a cubic or quadratic Bézier turns along one axis
+const getExtremaParameters = (coefficients: number[]): number[] => {
+  if (coefficients.length === 3) {
+    // Quadratic: p0, p1, p2
+    const [p0 = 0, p1 = 0, p2 = 0] = coefficients;
+    const denominator = p0 - 2 * p1 + p2;
+    return denominator === 0 ? [] : [(p0 - p1) / denominator];
+  }
+
+  // Cubic: the derivative is a t² + b t + c
+  const [p0 = 0, p1 = 0, p2 = 0, p3 = 0] = coefficients;
+  const a = -p0 + 3 * p1 - 3 * p2 + p3;
+  const b = 2 * (p0 - 2 * p1 + p2);
+  const c = p1 - p0;
+  if (Math.abs(a) < 1e-12) {
+    return b === 0 ? [] : [-c / b];
+  }
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return [];
+
+  const root = Math.sqrt(discriminant);
+  return [(-b + root) / (2 * a), (-b - root) / (2 * a)];
+};
+
+const getBezierValue = (coefficients: number[], t: number): number => {
+  const [p0 = 0, p1 = 0, p2 = 0, p3 = 0] = coefficients;
+  const mt = 1 - t;
+  return coefficients.length === 3
+    ? mt * mt * p0 + 2 * mt * t * p1 + t * t * p2
+    : mt * mt * mt * p0 +
+        3 * mt * mt * t * p1 +
+        3 * mt * t * t * p2 +
+        t ** 3 * p3;
+};
+
+/**
+ * The exact bounds of the segments, including the extremes of curves
+ */
+export const getPathSegmentsBounds = (
+  segments: PathSegment[],
+): Bounds | null => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let current: Point = { x: 0, y: 0 };
+
+  const addCurve = (points: Point[]) => {
+    for (const [values, extremes] of [
+      [points.map((point) => point.x), xs],
+      [points.map((point) => point.y), ys],
+    ] as const) {
+      extremes.push(values[0] ?? 0, values.at(-1) ?? 0);
+      getExtremaParameters(values)
+        .filter((t) => t > 0 && t < 1)
+        .forEach((t) => extremes.push(getBezierValue(values, t)));
+    }
+  };
+
+  for (const segment of segments) {
+    switch (segment.type) {
+      case "M":
+      case "L":
+        xs.push(segment.point.x);
+        ys.push(segment.point.y);
+        current = segment.point;
+        break;
+      case "C":
+        addCurve([current, segment.control1, segment.control2, segment.point]);
+        current = segment.point;
+        break;
+      case "Q":
+        addCurve([current, segment.control, segment.point]);
+        current = segment.point;
+        break;
+      case "Z":
+        break;
+    }
+  }
+
+  if (xs.length === 0) return null;
+
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return {
+    left,
+    top,
+    width: Math.max(...xs) - left,
+    height: Math.max(...ys) - top,
+  };
+};
+
+// Rounds away floating point noise, so converted paths compare and
+// serialize the same as the originals
+export const roundCoordinate = (value: number) =>
+  Math.round(value * 1e6) / 1e6 || 0;
+
+/**
+ * Serializes segments in the format of normalizeShape, e.g. "M0 0 L10 0 Z"
+ */
+export const serializePathSegments = (segments: PathSegment[]): string =>
+  segments
+    .map((segment) => {
+      const points = (() => {
+        switch (segment.type) {
+          case "M":
+          case "L":
+            return [segment.point];
+          case "C":
+            return [segment.control1, segment.control2, segment.point];
+          case "Q":
+            return [segment.control, segment.point];
+          case "Z":
+            return [];
+        }
+      })();
+      return (
+        segment.type +
+        points
+          .flatMap((point) => [point.x, point.y])
+          .map(roundCoordinate)
+          .join(" ")
+      );
+    })
+    .join(" ");
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+
+import type { DesignValue, ShapeDef } from "../schema";
+import { escapeXML, getExportRegion, serializeDesign } from "./serializeDesign";
+
+const createSquare = (
+  id: string,
+  left: number,
+  overrides: Partial<ShapeDef> = {},
+): ShapeDef => ({
+  type: "shape",
+  id,
+  bounds: { left, top: 10, width: 50, height: 50 },
+  viewBox: { minX: 0, minY: 0, width: 100, height: 100 },
+  paths: [{ d: "M0 0L100 0L100 100L0 100Z", fill: { color: "#FF0000" } }],
+  ...overrides,
+});
+
+const SAMPLE_DESIGN: DesignValue = {
+  shapes: {
+    square: createSquare("square", 10, {
+      rotation: 45,
+      transparency: 0.25,
+      paths: [
+        {
+          d: "M0 0L100 0L100 100L0 100Z",
+          fill: { color: "#FF0000" },
+          stroke: { color: "#000000", weight: 4, dasharray: [2, 1] },
+        },
+        {
+          d: "M25 25L75 25L75 75L25 75Z",
+          stroke: { color: "#0000FF", weight: 2 },
+        },
+      ],
+    }),
+    hidden: createSquare("hidden", 100, { hidden: true }),
+  },
+  texts: {
+    title: {
+      type: "text",
+      id: "title",
+      bounds: { left: 20, top: 100, width: 200, height: 30 },
+      content: 'Tom & "Jerry" <3',
+      fontSize: 24,
+      color: "#333333",
+      fontWeight: "bold",
+      fontFamily: "Georgia, 'Times New Roman'",
+    },
+  },
+  images: {
+    photo: {
+      type: "image",
+      id: "photo",
+      bounds: { left: 0, top: 0, width: 80, height: 60 },
+      src: "data:image/png;base64,iVBORw0KGgo=",
+      opacity: 0.5,
+    },
+  },
+  groups: {
+    group: {
+      type: "group",
+      id: "group",
+      bounds: { left: 0, top: 0, width: 220, height: 130 },
+      children: ["photo", "title"],
+    },
+  },
+  // The image is stacked below the square although images are listed last
+  order: ["photo", "square", "hidden", "title"],
+  attributes: { width: 400, height: 300 },
+};
+
+describe("serializeDesign", () => {
+  it("serializes a design in stacking order", () => {
+    expect(serializeDesign(SAMPLE_DESIGN)).toMatchSnapshot();
+  });
+
+  it("serializes the given elements with a transparent background", () => {
+    expect(
+      serializeDesign(SAMPLE_DESIGN, {
+        elementIds: ["group"],
+        background: null,
+      }),
+    ).toMatchSnapshot();
+  });
+
+  it("gives every clip path a unique ID", () => {
+    const svg = serializeDesign({
+      ...SAMPLE_DESIGN,
+      shapes: {
+        ...SAMPLE_DESIGN.shapes,
+        copy: { ...SAMPLE_DESIGN.shapes.square, id: "copy" },
+      },
+    });
+    const ids = [...svg.matchAll(/<clipPath id="([^"]+)"/g)].map(
+      ([, id]) => id,
+    );
+
+    expect(ids).toHaveLength(4);
+    expect(new Set(ids).size).toBe(4);
+  });
+
+  it("escapes text and attribute values", () => {
+    const svg = serializeDesign(SAMPLE_DESIGN);
+
+    expect(svg).toContain(">Tom &amp; &quot;Jerry&quot; &lt;3</text>");
+    expect(svg).toContain('font-family="Georgia, &apos;Times New Roman&apos;"');
+    expect(escapeXML("<a href='x'>")).toBe("&lt;a href=&apos;x&apos;&gt;");
+  });
+});
+
+describe("getExportRegion", () => {
+  it("covers the whole design by default", () => {
+    expect(getExportRegion(SAMPLE_DESIGN)).toEqual({
+      left: 0,
+      top: 0,
+      width: 400,
+      height: 300,
+    });
+  });
+
+  it("covers the given elements", () => {
+    expect(
+      getExportRegion(SAMPLE_DESIGN, { elementIds: ["group", "hidden"] }),
+    ).toEqual({ left: 0, top: 0, width: 220, height: 130 });
+  });
+
+  it("prefers the given region", () => {
+    const region = { left: 5, top: 5, width: 20, height: 20 };
+
+    expect(
+      getExportRegion(SAMPLE_DESIGN, { elementIds: ["group"], region }),
+    ).toEqual(region);
+  });
+});
@@ -0,0 +1,263 @@
+import { getElement, getElements } from "../elements";
+import { getLeafIds, isElementHidden } from "../group/groupUtils";
+import { unionLayouts } from "../math/rotation";
+import type { Bounds, Layout } from "../math/types";
+import { getStackingOrder } from "../order/zOrder";
+import type {
+  DesignValue,
+  ID,
+  ImageElement,
+  ShapeDef,
+  TextElement,
+} from "../schema";
+import normalizeShape from "../shape/normalizeShape";
+
+export interface SVGOptions {
+  // Background color, null for a transparent background. Defaults to white.
+  background?: string | null;
+  // Only these elements, groups include their children. Defaults to all.
+  elementIds?: ID[];
+  // The part of the design to serialize. Defaults to the bounds of the
+  // elements when there are any, the whole design otherwise.
+  region?: Bounds;
+}
+
+// Matches the padding of TextNode
+const TEXT_PADDING = 2;
+
+/**
+ * Escapes a string for use in XML text and attribute values
+ */
+export const escapeXML = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// Marks the background rectangle, which isn't part of the design and is
+// skipped when the SVG is imported again
+export const BACKGROUND_ATTRIBUTE = "data-voyager-background";
+
+const formatAttributes = (
+  attributes: Record<string, string | number | undefined>,
+) =>
+  Object.entries(attributes)
+    .filter(([, value]) => value != null)
+    .map(([name, value]) => `${name}="${escapeXML(String(value))}"`)
+    .join(" ");
+
+/**
+ * Returns the part of the design an export covers
+ */
+export const getExportRegion = (
+  value: DesignValue,
+  { elementIds, region }: SVGOptions = {},
+): Bounds => {
+  if (region) return region;
+
+  const elementsBounds =
+    elementIds &&
+    unionLayouts(getElements(value, getLeafIds(value, elementIds)));
+  const { width, height } = value.attributes;
+  return elementsBounds ?? { left: 0, top: 0, width, height };
+};
+
+/**
+ * Returns the IDs of the visible shapes, texts and images an export draws,
+ * bottom-most first
+ */
+export const getExportedElementIds = (
+  value: DesignValue,
+  elementIds?: ID[],
+): ID[] => {
+  const includedIds = elementIds && new Set(getLeafIds(value, elementIds));
+  return getStackingOrder(value).filter(
+    (id) =>
+      !isElementHidden(value, id) && (!includedIds || includedIds.has(id)),
+  );
+};
+
+// Positions an element like DesignView: moved to its bounds, then rotated
+// around their center
+const getElementTransform = ({ bounds, rotation }: Layout) => {
+  const translate = `translate(${bounds.left} ${bounds.top})`;
+  return rotation
+    ? `${translate} rotate(${rotation} ${bounds.width / 2} ${bounds.height / 2})`
+    : translate;
+};
+
+// Collects clip paths while the elements are serialized, so they can be
+// emitted in one defs block with IDs unique within the document
+class DefsBuilder {
+  #clipPaths: string[] = [];
+
+  addClipPath(d: string): string {
+    const id = `clip-${this.#clipPaths.length + 1}`;
+    this.#clipPaths.push(
+      `<clipPath id="${id}"><path ${formatAttributes({ d })}/></clipPath>`,
+    );
+    return id;
+  }
+
+  getLines(): string[] {
+    if (this.#clipPaths.length === 0) return [];
+
+    return ["<defs>", ...this.#clipPaths.map((line) => `  ${line}`), "</defs>"];
+  }
+}
+
+// Fills first and strokes on top, like ShapeNode. Strokes are drawn twice as
+// wide and clipped to the path so they only cover its inside, like PathStroke.
+const serializeShape = (shape: ShapeDef, defs: DefsBuilder): string[] => {
+  const { paths } = normalizeShape(shape);
+
+  const fills = paths
+    .filter((path) => path.fill)
+    .map(
+      (path) =>
+        `<path ${formatAttributes({ d: path.d, fill: path.fill?.color })}/>`,
+    );
+
+  const strokes = paths.map((path) => {
+    if (!path.stroke) return null;
+
+    const { color, weight, dasharray } = path.stroke;
+    const clipPathId = defs.addClipPath(path.d);
+    return `<path ${formatAttributes({
+      d: path.d,
+      "clip-path": `url(#${clipPathId})`,
+      fill: "none",
+      "stroke-linecap": "butt",
+      stroke: color,
+      "stroke-width": weight * 2,
+      "stroke-dasharray": dasharray?.map((value) => value * weight).join(","),
+    })}/>`;
+  });
+
+  return [...fills, ...strokes].filter((line) => line != null);
+};
+
+const serializeText = (text: TextElement): string[] => [
+  `<text ${formatAttributes({
+    x: TEXT_PADDING,
+    y: TEXT_PADDING,
+    "dominant-baseline": "text-before-edge",
+    "font-family": text.fontFamily,
+    "font-size": text.fontSize,
+    "font-weight": text.fontWeight,
+    fill: text.color,
+  })}>${escapeXML(text.content)}</text>`,
+];
+
+// Images are scaled to fit their bounds like ImageNode's object-fit: contain,
+// which is the SVG default
+const serializeImage = (image: ImageElement): string[] => [
+  `<image ${formatAttributes({
+    width: image.bounds.width,
+    height: image.bounds.height,
+    href: image.src,
+  })}/>`,
+];
+
+const serializeElement = (
+  value: DesignValue,
+  id: ID,
+  defs: DefsBuilder,
+): string[] => {
+  const element = getElement(value, id);
+  if (!element || element.type === "group") return [];
+
+  let opacity: number | undefined;
+  let content: string[];
+  switch (element.type) {
+    case "shape":
+      opacity = element.transparency ? 1 - element.transparency : undefined;
+      content = serializeShape(element, defs);
+      break;
+    case "text":
+      content = serializeText(element);
+      break;
+    case "image":
+      opacity = element.opacity;
+      content = serializeImage(element);
+      break;
+  }
+
+  return [
+    `<g ${formatAttributes({ transform: getElementTransform(element), opacity })}>`,
+    ...content.map((line) => `  ${line}`),
+    "</g>",
+  ];
+};
+
+/**
+ * Serializes the design into a standalone SVG document. Elements are stacked
+ * and drawn like DesignView draws them, so every exporter renders the same
+ * picture as the canvas.
+ */
+export const serializeDesign = (
+  value: DesignValue,
+  options: SVGOptions = {},
+): string => {
+  const { background = "white", elementIds } = options;
+  const { left, top, width, height } = getExportRegion(value, options);
+
+  const defs = new DefsBuilder();
+  const elements = getExportedElementIds(value, elementIds).flatMap((id) =>
+    serializeElement(value, id, defs),
+  );
+  const backgrounds = background
+    ? [
+        `<rect ${formatAttributes({ x: left, y: top, width, height, fill: background, [BACKGROUND_ATTRIBUTE]: "true" })}/>`,
+      ]
+    : [];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg ${formatAttributes({
+      xmlns: "http://www.w3.org/2000/svg",
+      width,
+      height,
+      viewBox: `${left} ${top} ${width} ${height}`,
+    })}>`,
+    ...[...defs.getLines(), ...backgrounds, ...elements].map(
+      (line) => `  ${line}`,
+    ),
+    "</svg>",
+    "",
+  ].join("\n");
+};
+
+const readAsDataURL = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read image"));
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Returns a copy of the design with every image source inlined as a data URL,
+ * so the serialized SVG is self-contained. An SVG drawn onto a canvas can't
+ * load external images.
+ */
+export const embedImages = async (value: DesignValue): Promise<DesignValue> => {
+  const images = await Promise.all(
+    Object.values(value.images ?? {}).map(async (image) => {
+      if (image.src.startsWith("data:")) return image;
+
+      const response = await fetch(image.src);
+      if (!response.ok) {
+        throw new Error(`Failed to load image ${image.src}`);
+      }
+      return { ...image, src: await readAsDataURL(await response.blob()) };
+    }),
+  );
+
+  return {
+    ...value,
+    images: Object.fromEntries(images.map((image) => [image.id, image])),
+  };
+};
@@ -0,0 +1,121 @@
+import type { Point } from "../math/types";
+
+// An SVG transform matrix, mapping (x, y) to (a x + c y + e, b x + d y + f)
+export interface Matrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export const IDENTITY_MATRIX: Matrix = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+/**
+ * Returns the matrix applying `second` after `first`
+ */
+export const multiplyMatrices = (first: Matrix, second: Matrix): Matrix => ({
+  a: first.a * second.a + first.c * second.b,
+  b: first.b * second.a + first.d * second.b,
+  c: first.a * second.c + first.c * second.d,
+  d: first.b * second.c + first.d * second.d,
+  e: first.a * second.e + first.c * second.f + first.e,
+  f: first.b * second.e + first.d * second.f + first.f,
+});
+
+export const applyMatrix = (matrix: Matrix, { x, y }: Point): Point => ({
+  x: matrix.a * x + matrix.c * y + matrix.e,
+  y: matrix.b * x + matrix.d * y + matrix.f,
+});
+
+export const translateMatrix = (x: number, y: number): Matrix => ({
+  ...IDENTITY_MATRIX,
+  e: x,
+  f: y,
+});
+
+export const scaleMatrix = (x: number, y = x): Matrix => ({
+  ...IDENTITY_MATRIX,
+  a: x,
+  d: y,
+});
+
+export const rotateMatrix = (degrees: number): Matrix => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return { a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0 };
+};
+
+/**
+ * The clockwise rotation of the matrix in degrees
+ */
+export const getMatrixRotation = ({ a, b }: Matrix) =>
+  (Math.atan2(b, a) * 180) / Math.PI;
+
+/**
+ * How much the matrix scales lengths on average, e.g. for stroke widths
+ */
+export const getMatrixScale = ({ a, b, c, d }: Matrix) =>
+  Math.sqrt(Math.abs(a * d - b * c));
+
+const TRANSFORM_PATTERN =
+  /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+
+/**
+ * Parses the value of an SVG transform attribute. Unknown functions are
+ * skipped.
+ */
+export const parseTransform = (transform: string): Matrix => {
+  let matrix = IDENTITY_MATRIX;
+
+  for (const [, name, args] of transform.matchAll(TRANSFORM_PATTERN)) {
+    const values = (args ?? "")
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map(Number);
+    const [first = 0, second, third, fourth, fifth, sixth] = values;
+
+    let next: Matrix;
+    switch (name) {
+      case "matrix":
+        next = {
+          a: first,
+          b: second ?? 0,
+          c: third ?? 0,
+          d: fourth ?? 0,
+          e: fifth ?? 0,
+          f: sixth ?? 0,
+        };
+        break;
+      case "translate":
+        next = translateMatrix(first, second ?? 0);
+        break;
+      case "scale":
+        next = scaleMatrix(first, second ?? first);
+        break;
+      case "rotate":
+        // Rotating around a point moves it to the origin and back
+        next = multiplyMatrices(
+          translateMatrix(second ?? 0, third ?? 0),
+          multiplyMatrices(
+            rotateMatrix(first),
+            translateMatrix(-(second ?? 0), -(third ?? 0)),
+          ),
+        );
+        break;
+      case "skewX":
+        next = { ...IDENTITY_MATRIX, c: Math.tan((first * Math.PI) / 180) };
+        break;
+      case "skewY":
+        next = { ...IDENTITY_MATRIX, b: Math.tan((first * Math.PI) / 180) };
+        break;
+      default:
+        continue;
+    }
+    matrix = multiplyMatrices(matrix, next);
+  }
+
+  return matrix;
+};
@@ -5,9 +5,17 @@ import type { TextElement } from "../schema";
 interface TextNodeProps {
   text: TextElement;
   onContentChange?: (id: string, content: string) => void;
+  onEditingChange?: (isEditing: boolean) => void;
+  // Locked texts can't be edited, e.g. while a collaborator types into them
+  isLocked?: boolean;
 }
 
-const TextNode = ({ text, onContentChange }: TextNodeProps) => {
+const TextNode = ({
+  text,
+  onContentChange,
+  onEditingChange,
+  isLocked,
+}: TextNodeProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [content, setContent] = useState(text.content);
 
@@ -19,11 +27,15 @@ const TextNode = ({ text, onContentChange }: TextNodeProps) => {
   const handleDoubleClick = (event: React.MouseEvent) => {
     event.preventDefault();
     event.stopPropagation();
+    if (isLocked) return;
+
     setIsEditing(true);
+    onEditingChange?.(true);
   };
 
   const handleBlur = () => {
     setIsEditing(false);
+    onEditingChange?.(false);
     if (onContentChange && content !== text.content) {
       onContentChange(text.id, content);
     }
@@ -11,12 +11,17 @@ interface UseDragGestureProps<Snapshot> {
     deltaX: number;
     deltaY: number;
     snapshot: Snapshot;
+    event: PointerEvent<Element>;
   }) => void;
+  // Called once the drag has actually started, e.g. to open a transaction that
+  // onEnd commits
+  onStart?: (snapshot: Snapshot) => void;
   onEnd?: () => void;
 }
 
 const useDragGesture = <Snapshot>({
   onMove,
+  onStart,
   onEnd,
 }: UseDragGestureProps<Snapshot>) => {
   const dragStateRef = useRef<DragState<Snapshot> | null>(null);
@@ -47,6 +52,7 @@ const useDragGesture = <Snapshot>({
       startY: event.clientY,
       snapshot,
     };
+    onStart?.(snapshot);
   };
 
   // Events tracked using pointer capture should use the corresponding lostpointercapture event to listen for end events,
@@ -70,7 +76,7 @@ const useDragGesture = <Snapshot>({
     const deltaX = event.clientX - dragState.startX;
     const deltaY = event.clientY - dragState.startY;
 
-    onMove({ deltaX, deltaY, snapshot: dragState.snapshot });
+    onMove({ deltaX, deltaY, snapshot: dragState.snapshot, event });
   };
 
   return {
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+
+import type { DesignValue } from "./schema";
+import { isDesignValue, validateDesign } from "./validateDesign";
+
+const VALID_DESIGN: DesignValue = {
+  shapes: {
+    square: {
+      type: "shape",
+      id: "square",
+      bounds: { left: 10, top: 10, width: 50, height: 50 },
+      rotation: 30,
+      transparency: 0.5,
+      viewBox: { minX: 0, minY: 0, width: 100, height: 100 },
+      paths: [
+        {
+          d: "M0 0L100 0L100 100L0 100Z",
+          fill: { color: "#FF0000" },
+          stroke: { color: "#000000", weight: 2, dasharray: [2, 1] },
+        },
+      ],
+      rememberedFill: { color: "#00FF00" },
+      name: "Square",
+      locked: true,
+    },
+  },
+  texts: {
+    title: {
+      type: "text",
+      id: "title",
+      bounds: { left: 0, top: 0, width: 100, height: 20 },
+      content: "Hello",
+      fontSize: 16,
+      color: "#333333",
+      fontWeight: "bold",
+      fontFamily: "Arial",
+      hidden: false,
+    },
+  },
+  images: {
+    photo: {
+      type: "image",
+      id: "photo",
+      bounds: { left: 0, top: 0, width: 80, height: 60 },
+      src: "data:image/png;base64,iVBORw0KGgo=",
+      opacity: 1,
+    },
+  },
+  groups: {
+    group: {
+      type: "group",
+      id: "group",
+      bounds: { left: 0, top: 0, width: 100, height: 60 },
+      children: ["photo", "title"],
+    },
+  },
+  order: ["square", "photo", "title"],
+  attributes: { width: 800, height: 600 },
+};
+
+describe("validateDesign", () => {
+  it("accepts every element type", () => {
+    expect(validateDesign(VALID_DESIGN)).toEqual([]);
+    expect(isDesignValue(VALID_DESIGN)).toBe(true);
+  });
+
+  it("treats undefined optional fields as missing", () => {
+    const design = {
+      ...VALID_DESIGN,
+      texts: {
+        title: { ...VALID_DESIGN.texts.title, name: undefined },
+      },
+    };
+
+    expect(validateDesign(design)).toEqual([]);
+  });
+
+  it("reports where each problem is", () => {
+    const square = VALID_DESIGN.shapes.square;
+    const design = {
+      ...VALID_DESIGN,
+      shapes: {
+        square: {
+          ...square,
+          bounds: { ...square.bounds, width: "50" },
+          paths: [{ d: "M0 0", stroke: { color: "#000000", dasharray: [1] } }],
+          transparency: 2,
+        },
+      },
+      texts: {
+        other: { ...VALID_DESIGN.texts.title, fontWeight: "heavy" },
+      },
+      images: {
+        photo: { ...VALID_DESIGN.images.photo, filter: "blur" },
+      },
+      groups: null,
+    };
+
+    expect(validateDesign(design)).toEqual([
+      "design.shapes.square.bounds.width must be a number",
+      "design.shapes.square.transparency must be between 0 and 1",
+      "design.shapes.square.paths[0].stroke.weight is missing",
+      "design.shapes.square.paths[0].stroke.dasharray must have 2 items",
+      "design.texts.other.fontWeight must be one of normal, bold",
+      "design.texts.other.id must match its key",
+      "design.images.photo.filter is not a known field",
+      "design.groups must be an object",
+    ]);
+    expect(isDesignValue(design)).toBe(false);
+  });
+
+  it("rejects values that aren't designs", () => {
+    expect(validateDesign(null)).toEqual(["design must be an object"]);
+    expect(validateDesign({ shapes: {} })).toEqual([
+      "design.texts is missing",
+      "design.images is missing",
+      "design.groups is missing",
+      "design.order is missing",
+      "design.attributes is missing",
+    ]);
+  });
+});
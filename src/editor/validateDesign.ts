@@ -0,0 +1,220 @@
+import type { DesignValue } from "./schema";
+
+type PlainObject = Record<string, unknown>;
+
+// Adds a message for every problem found at the path to the errors
+type Validator = (value: unknown, path: string, errors: string[]) => void;
+
+interface Field {
+  validate: Validator;
+  isOptional: boolean;
+}
+
+const isPlainObject = (value: unknown): value is PlainObject => {
+  return typeof value === "object" && value != null && !Array.isArray(value);
+};
+
+const required = (validate: Validator): Field => ({
+  validate,
+  isOptional: false,
+});
+
+const optional = (validate: Validator): Field => ({
+  validate,
+  isOptional: true,
+});
+
+const number =
+  ({ min = -Infinity, max = Infinity } = {}): Validator =>
+  (value, path, errors) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push(`${path} must be a number`);
+    } else if (value < min || value > max) {
+      errors.push(
+        max === Infinity
+          ? `${path} must be at least ${min}`
+          : `${path} must be between ${min} and ${max}`,
+      );
+    }
+  };
+
+const string: Validator = (value, path, errors) => {
+  if (typeof value !== "string") {
+    errors.push(`${path} must be a string`);
+  }
+};
+
+const boolean: Validator = (value, path, errors) => {
+  if (typeof value !== "boolean") {
+    errors.push(`${path} must be true or false`);
+  }
+};
+
+const oneOf =
+  (...options: string[]): Validator =>
+  (value, path, errors) => {
+    if (typeof value !== "string" || !options.includes(value)) {
+      errors.push(`${path} must be one of ${options.join(", ")}`);
+    }
+  };
+
+const arrayOf =
+  (validateItem: Validator, length?: number): Validator =>
+  (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(`${path} must be a list`);
+      return;
+    }
+    if (length !== undefined && value.length !== length) {
+      errors.push(`${path} must have ${length} items`);
+    }
+    value.forEach((item, index) =>
+      validateItem(item, `${path}[${index}]`, errors),
+    );
+  };
+
+// Unknown fields are errors, so new fields can't slip into the format
+// without a new format version and validator
+const objectOf =
+  (fields: Record<string, Field>): Validator =>
+  (value, path, errors) => {
+    if (!isPlainObject(value)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    Object.entries(fields).forEach(([key, field]) => {
+      if (value[key] === undefined) {
+        if (!field.isOptional) {
+          errors.push(`${path}.${key} is missing`);
+        }
+        return;
+      }
+      field.validate(value[key], `${path}.${key}`, errors);
+    });
+    Object.keys(value)
+      .filter((key) => !(key in fields))
+      .forEach((key) => errors.push(`${path}.${key} is not a known field`));
+  };
+
+// Elements are stored under their own ID
+const recordOf =
+  (validateItem: Validator): Validator =>
+  (value, path, errors) => {
+    if (!isPlainObject(value)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    Object.entries(value).forEach(([id, item]) => {
+      const itemPath = `${path}.${id}`;
+      validateItem(item, itemPath, errors);
+      if (
+        isPlainObject(item) &&
+        typeof item.id === "string" &&
+        item.id !== id
+      ) {
+        errors.push(`${itemPath}.id must match its key`);
+      }
+    });
+  };
+
+const validateBounds = objectOf({
+  left: required(number()),
+  top: required(number()),
+  width: required(number({ min: 0 })),
+  height: required(number({ min: 0 })),
+});
+
+const validateStroke = objectOf({
+  color: required(string),
+  weight: required(number({ min: 0 })),
+  dasharray: optional(arrayOf(number({ min: 0 }), 2)),
+});
+
+const validateFill = objectOf({
+  color: required(string),
+});
+
+// Fields of ElementLayerProps and the layout every element has
+const elementFields = (type: string): Record<string, Field> => ({
+  type: required(oneOf(type)),
+  id: required(string),
+  bounds: required(validateBounds),
+  rotation: optional(number()),
+  name: optional(string),
+  hidden: optional(boolean),
+  locked: optional(boolean),
+});
+
+const validateShape = objectOf({
+  ...elementFields("shape"),
+  transparency: optional(number({ min: 0, max: 1 })),
+  paths: required(
+    arrayOf(
+      objectOf({
+        d: required(string),
+        stroke: optional(validateStroke),
+        fill: optional(validateFill),
+      }),
+    ),
+  ),
+  viewBox: required(
+    objectOf({
+      minX: required(number()),
+      minY: required(number()),
+      width: required(number({ min: 0 })),
+      height: required(number({ min: 0 })),
+    }),
+  ),
+  rememberedStroke: optional(validateStroke),
+  rememberedFill: optional(validateFill),
+});
+
+const validateText = objectOf({
+  ...elementFields("text"),
+  content: required(string),
+  fontSize: required(number({ min: 0 })),
+  color: required(string),
+  fontWeight: required(oneOf("normal", "bold")),
+  fontFamily: required(string),
+});
+
+const validateImage = objectOf({
+  ...elementFields("image"),
+  src: required(string),
+  opacity: optional(number({ min: 0, max: 1 })),
+});
+
+const validateGroup = objectOf({
+  ...elementFields("group"),
+  children: required(arrayOf(string)),
+});
+
+const validateDesignValue = objectOf({
+  shapes: required(recordOf(validateShape)),
+  texts: required(recordOf(validateText)),
+  images: required(recordOf(validateImage)),
+  groups: required(recordOf(validateGroup)),
+  order: required(arrayOf(string)),
+  attributes: required(
+    objectOf({
+      width: required(number({ min: 1 })),
+      height: required(number({ min: 1 })),
+    }),
+  ),
+});
+
+/**
+ * Checks a value against the design schema, e.g. data read from a file or
+ * received from collaborators. Returns a message for every problem, naming
+ * where it is, like "design.shapes.abc.bounds.width must be a number".
+ */
+export const validateDesign = (value: unknown): string[] => {
+  const errors: string[] = [];
+  validateDesignValue(value, "design", errors);
+  return errors;
+};
+
+export const isDesignValue = (value: unknown): value is DesignValue =>
+  validateDesign(value).length === 0;
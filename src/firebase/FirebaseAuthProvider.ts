@@ -0,0 +1,102 @@
+import {
+  GoogleAuthProvider,
+  type User,
+  onAuthStateChanged,
+  signInAnonymously,
+  signInWithPopup,
+  signOut,
+} from "firebase/auth";
+import { get, ref, set } from "firebase/database";
+
+import {
+  type AuthMethod,
+  type AuthProfile,
+  type AuthProvider,
+  type AuthUser,
+  getDefaultUserName,
+  getUserColor,
+  normalizeUserName,
+} from "../auth";
+import { auth, database } from "./config";
+
+// 用户资料保存在 profiles/<uid>，未设置时使用登录账号的名称
+const loadUser = async (user: User): Promise<AuthUser> => {
+  const snapshot = await get(ref(database, `profiles/${user.uid}`));
+  const profile = (snapshot.val() as Partial<AuthProfile> | null) ?? {};
+  return {
+    id: user.uid,
+    name: profile.name ?? user.displayName ?? getDefaultUserName(user.uid),
+    color: getUserColor(user.uid),
+    ...(profile.avatar ? { avatar: profile.avatar } : null),
+  };
+};
+
+/**
+ * Firebase Authentication with Google or anonymous accounts. Room access rules
+ * in database.rules.json check the signed-in user's ID.
+ */
+export class FirebaseAuthProvider implements AuthProvider {
+  readonly methods: AuthMethod[] = ["google", "anonymous"];
+  private listeners = new Set<(user: AuthUser | null) => void>();
+  private user: AuthUser | null = null;
+  private isReady = false;
+
+  constructor() {
+    onAuthStateChanged(auth, (firebaseUser) => {
+      if (!firebaseUser) {
+        this.setUser(null);
+        return;
+      }
+      loadUser(firebaseUser)
+        .then((user) => this.setUser(user))
+        .catch(() => this.setUser(null));
+    });
+  }
+
+  onAuthChange(callback: (user: AuthUser | null) => void) {
+    this.listeners.add(callback);
+    // 首次认证状态确定后才通知，避免闪现登录页
+    if (this.isReady) {
+      callback(this.user);
+    }
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  async signIn(method: AuthMethod) {
+    const credential =
+      method === "google"
+        ? await signInWithPopup(auth, new GoogleAuthProvider())
+        : await signInAnonymously(auth);
+    const user = await loadUser(credential.user);
+    this.setUser(user);
+    return user;
+  }
+
+  async signOut() {
+    await signOut(auth);
+  }
+
+  async updateProfile({ name, avatar }: AuthProfile) {
+    const user = this.user;
+    if (!user) {
+      throw new Error("Not signed in");
+    }
+    const profile = {
+      name: normalizeUserName(name, user.id),
+      ...(avatar ? { avatar } : null),
+    };
+    await set(ref(database, `profiles/${user.id}`), profile);
+
+    const nextUser: AuthUser = { id: user.id, color: user.color, ...profile };
+    this.setUser(nextUser);
+    return nextUser;
+  }
+
+  private setUser(user: AuthUser | null) {
+    this.user = user;
+    this.isReady = true;
+    this.listeners.forEach((listener) => listener(user));
+  }
+}
@@ -0,0 +1,421 @@
+import {
+  get,
+  onChildAdded,
+  onDisconnect,
+  onValue,
+  push,
+  ref,
+  runTransaction,
+  serverTimestamp,
+  set,
+  update,
+} from "firebase/database";
+
+import {
+  type CollaborationTransport,
+  type RoomComment,
+  type RoomCursor,
+  type RoomLease,
+  type RoomPresence,
+  type RoomRole,
+  type RoomRoles,
+  type RoomUser,
+  type RoomVersion,
+  type SyncDatabase,
+  canClaimLease,
+  createDatabaseTransport,
+} from "../collaboration";
+import { parseDesignFile } from "../documents";
+import type { DesignValue } from "../editor/schema";
+import { database } from "./config";
+
+// 操作同步使用的实时数据库接口
+const firebaseSyncDatabase: SyncDatabase = {
+  get: async (path) => (await get(ref(database, path))).val() as unknown,
+  push: (path, value) => {
+    void push(ref(database, path), value);
+  },
+  onChildAdded: (path, callback) =>
+    onChildAdded(ref(database, path), (snapshot) => callback(snapshot.val())),
+};
+
+/**
+ * Collaboration room stored under rooms/<roomId> in the Firebase realtime
+ * database
+ */
+export class FirebaseTransport implements CollaborationTransport {
+  readonly updates;
+  private roomId: string;
+  private user: RoomUser | null = null;
+  // 已注册断线处理的路径
+  private disconnectPaths = new Set<string>();
+  private unsubscribeConnected: () => void;
+
+  constructor(roomId: string) {
+    this.roomId = roomId;
+    this.updates = createDatabaseTransport(
+      firebaseSyncDatabase,
+      `rooms/${roomId}/updates`,
+    );
+
+    // 断线时服务器执行并清除已注册的处理，重连后需要重新注册
+    this.unsubscribeConnected = onValue(
+      ref(database, ".info/connected"),
+      (snapshot) => {
+        if (snapshot.val() !== true) {
+          this.disconnectPaths.clear();
+        }
+      },
+    );
+  }
+
+  // 设置断线时自动移除，每个路径只注册一次
+  private removeOnDisconnect(path: string) {
+    if (this.disconnectPaths.has(path)) return;
+
+    this.disconnectPaths.add(path);
+    void onDisconnect(ref(database, path)).remove();
+  }
+
+  private cancelOnDisconnect(path: string) {
+    if (!this.disconnectPaths.delete(path)) return;
+
+    void onDisconnect(ref(database, path)).cancel();
+  }
+
+  // 设置用户在线状态
+  join(user: RoomUser) {
+    this.user = user;
+    const userRef = ref(database, `rooms/${this.roomId}/users/${user.id}`);
+    const userPresenceRef = ref(
+      database,
+      `rooms/${this.roomId}/presence/${user.id}`,
+    );
+
+    // 设置用户信息
+    void set(userRef, { ...user, joinedAt: serverTimestamp() });
+
+    // 设置在线状态
+    void set(userPresenceRef, true);
+
+    // 设置断线时自动移除
+    this.removeOnDisconnect(`rooms/${this.roomId}/presence/${user.id}`);
+    this.removeOnDisconnect(`rooms/${this.roomId}/users/${user.id}`);
+
+    // 第一个加入的用户成为房间所有者，之后加入的用户默认只能查看
+    const rolesRef = ref(database, `rooms/${this.roomId}/roles`);
+    void runTransaction(rolesRef, (roles: RoomRoles | null) =>
+      roles ? undefined : { [user.id]: "owner" },
+    ).then((result) => {
+      if (!result.committed && !result.snapshot.child(user.id).exists()) {
+        void set(
+          ref(database, `rooms/${this.roomId}/roles/${user.id}`),
+          "viewer",
+        );
+      }
+    });
+  }
+
+  // 监听在线用户
+  onUsersChange(callback: (users: RoomUser[]) => void) {
+    const usersRef = ref(database, `rooms/${this.roomId}/users`);
+    const presenceRef = ref(database, `rooms/${this.roomId}/presence`);
+
+    let users: Record<string, RoomUser | null> = {};
+    let presence: Record<string, boolean | null> = {};
+
+    const updateUsers = () => {
+      const onlineUsers = Object.values(users).filter(
+        (user): user is RoomUser => !!user?.id && !!presence[user.id],
+      );
+      callback(onlineUsers);
+    };
+
+    const unsubscribeUsers = onValue(usersRef, (snapshot) => {
+      users = (snapshot.val() as typeof users | null) ?? {};
+      updateUsers();
+    });
+
+    const unsubscribePresence = onValue(presenceRef, (snapshot) => {
+      presence = (snapshot.val() as typeof presence | null) ?? {};
+      updateUsers();
+
+      // 清理离线用户的数据
+      this.cleanupOfflineUsers(users, presence);
+    });
+
+    return () => {
+      unsubscribeUsers();
+      unsubscribePresence();
+    };
+  }
+
+  // 清理离线用户数据
+  private cleanupOfflineUsers(
+    users: Record<string, unknown>,
+    presence: Record<string, unknown>,
+  ) {
+    Object.keys(users).forEach((userId) => {
+      if (userId && !presence[userId]) {
+        // 用户已离线，清理其数据
+        const userRef = ref(database, `rooms/${this.roomId}/users/${userId}`);
+        const cursorRef = ref(
+          database,
+          `rooms/${this.roomId}/cursors/${userId}`,
+        );
+        const stateRef = ref(database, `rooms/${this.roomId}/states/${userId}`);
+
+        // 延迟清理，避免短暂断线时的闪烁
+        setTimeout(() => {
+          void set(userRef, null);
+          void set(cursorRef, null);
+          void set(stateRef, null);
+        }, 5000);
+      }
+    });
+  }
+
+  // 同步用户光标位置
+  setCursor(cursor: RoomCursor) {
+    const cursorRef = ref(
+      database,
+      `rooms/${this.roomId}/cursors/${cursor.id}`,
+    );
+    void set(cursorRef, { ...cursor, timestamp: serverTimestamp() });
+
+    // 设置断线时自动移除光标
+    this.removeOnDisconnect(`rooms/${this.roomId}/cursors/${cursor.id}`);
+  }
+
+  // 监听光标
+  onCursorsChange(callback: (cursors: RoomCursor[]) => void) {
+    const cursorsRef = ref(database, `rooms/${this.roomId}/cursors`);
+
+    return onValue(cursorsRef, (snapshot) => {
+      const data =
+        (snapshot.val() as Record<string, RoomCursor | null> | null) ?? {};
+      callback(
+        Object.values(data).filter((cursor): cursor is RoomCursor => !!cursor),
+      );
+    });
+  }
+
+  // 同步用户的选区、工具和视口
+  setPresence(presence: RoomPresence) {
+    const stateRef = ref(
+      database,
+      `rooms/${this.roomId}/states/${presence.id}`,
+    );
+    void set(stateRef, presence);
+
+    // 设置断线时自动移除状态
+    this.removeOnDisconnect(`rooms/${this.roomId}/states/${presence.id}`);
+  }
+
+  // 监听其他用户的状态
+  onPresenceChange(callback: (presences: RoomPresence[]) => void) {
+    const statesRef = ref(database, `rooms/${this.roomId}/states`);
+
+    return onValue(statesRef, (snapshot) => {
+      // 数据库不保存空数组和null，读取时补全
+      const data =
+        (snapshot.val() as Record<
+          string,
+          (Partial<RoomPresence> & Pick<RoomPresence, "id">) | null
+        > | null) ?? {};
+      callback(
+        Object.values(data).flatMap((presence) =>
+          presence
+            ? [
+                {
+                  id: presence.id,
+                  selection: presence.selection ?? [],
+                  tool: presence.tool ?? null,
+                  editingTextId: presence.editingTextId ?? null,
+                  viewport: presence.viewport ?? { x: 0, y: 0 },
+                },
+              ]
+            : [],
+        ),
+      );
+    });
+  }
+
+  // 认领元素：他人持有未过期的租约时保持不变
+  claimLeases(leases: RoomLease[]) {
+    leases.forEach((lease) => {
+      const leaseRef = ref(
+        database,
+        `rooms/${this.roomId}/leases/${lease.elementId}`,
+      );
+      void runTransaction(leaseRef, (current: RoomLease | null) =>
+        canClaimLease(current, lease.userId) ? lease : undefined,
+      ).then((result) => {
+        // 设置断线时自动释放
+        if (result.committed) {
+          this.removeOnDisconnect(
+            `rooms/${this.roomId}/leases/${lease.elementId}`,
+          );
+        }
+      });
+    });
+  }
+
+  // 释放自己持有的租约
+  releaseLeases(elementIds: string[]) {
+    const userId = this.user?.id;
+    elementIds.forEach((elementId) => {
+      const leaseRef = ref(
+        database,
+        `rooms/${this.roomId}/leases/${elementId}`,
+      );
+      void runTransaction(leaseRef, (current: RoomLease | null) =>
+        current?.userId === userId ? null : undefined,
+      );
+      this.cancelOnDisconnect(`rooms/${this.roomId}/leases/${elementId}`);
+    });
+  }
+
+  // 监听元素租约
+  onLeasesChange(callback: (leases: RoomLease[]) => void) {
+    const leasesRef = ref(database, `rooms/${this.roomId}/leases`);
+
+    return onValue(leasesRef, (snapshot) => {
+      const data =
+        (snapshot.val() as Record<string, RoomLease | null> | null) ?? {};
+      callback(
+        Object.values(data).filter((lease): lease is RoomLease => !!lease),
+      );
+    });
+  }
+
+  // 监听房间成员的角色
+  onRolesChange(callback: (roles: RoomRoles) => void) {
+    const rolesRef = ref(database, `rooms/${this.roomId}/roles`);
+
+    return onValue(rolesRef, (snapshot) => {
+      callback((snapshot.val() as RoomRoles | null) ?? {});
+    });
+  }
+
+  // 修改其他成员的角色，数据库规则只允许所有者修改
+  setRole(userId: string, role: RoomRole) {
+    void set(ref(database, `rooms/${this.roomId}/roles/${userId}`), role);
+  }
+
+  // 添加或替换评论
+  setComment(comment: RoomComment) {
+    void set(
+      ref(database, `rooms/${this.roomId}/comments/${comment.id}`),
+      comment,
+    );
+  }
+
+  // 解决或重新打开讨论串，其他字段只有作者能修改
+  setCommentResolved(commentId: string, isResolved: boolean) {
+    void set(
+      ref(database, `rooms/${this.roomId}/comments/${commentId}/resolved`),
+      isResolved,
+    );
+  }
+
+  // 删除评论，一次写入以便规则按删除前的讨论串作者检查回复
+  removeComments(commentIds: string[]) {
+    void update(
+      ref(database, `rooms/${this.roomId}/comments`),
+      Object.fromEntries(commentIds.map((commentId) => [commentId, null])),
+    );
+  }
+
+  // 监听房间内的评论
+  onCommentsChange(callback: (comments: RoomComment[]) => void) {
+    const commentsRef = ref(database, `rooms/${this.roomId}/comments`);
+
+    return onValue(commentsRef, (snapshot) => {
+      // 数据库不保存null，读取时补全
+      const data =
+        (snapshot.val() as Record<
+          string,
+          | (Partial<RoomComment> &
+              Pick<RoomComment, "id" | "author" | "body" | "createdAt">)
+          | null
+        > | null) ?? {};
+      callback(
+        Object.values(data).flatMap((comment) =>
+          comment
+            ? [
+                {
+                  id: comment.id,
+                  threadId: comment.threadId ?? null,
+                  anchor: comment.anchor ?? null,
+                  author: comment.author,
+                  body: comment.body,
+                  createdAt: comment.createdAt,
+                  resolved: comment.resolved ?? false,
+                },
+              ]
+            : [],
+        ),
+      );
+    });
+  }
+
+  // 保存版本：版本列表只保存元数据，设计单独保存为JSON字符串，
+  // 避免数据库丢弃空对象和空数组
+  saveVersion(version: RoomVersion, value: DesignValue) {
+    void set(
+      ref(database, `rooms/${this.roomId}/versionDesigns/${version.id}`),
+      JSON.stringify(value),
+    );
+    void set(
+      ref(database, `rooms/${this.roomId}/versions/${version.id}`),
+      version,
+    );
+  }
+
+  // 监听版本列表
+  onVersionsChange(callback: (versions: RoomVersion[]) => void) {
+    const versionsRef = ref(database, `rooms/${this.roomId}/versions`);
+
+    return onValue(versionsRef, (snapshot) => {
+      // 数据库不保存null，读取时补全
+      const data =
+        (snapshot.val() as Record<
+          string,
+          (Omit<RoomVersion, "name"> & Partial<RoomVersion>) | null
+        > | null) ?? {};
+      callback(
+        Object.values(data).flatMap((version) =>
+          version ? [{ ...version, name: version.name ?? null }] : [],
+        ),
+      );
+    });
+  }
+
+  // 读取版本的设计
+  async loadVersion(versionId: string) {
+    const snapshot = await get(
+      ref(database, `rooms/${this.roomId}/versionDesigns/${versionId}`),
+    );
+    // 版本可能由旧版本客户端保存，迁移并校验后才能使用
+    const data = snapshot.val() as string | null;
+    const result = data ? parseDesignFile(data) : null;
+    return result?.ok ? result.value : null;
+  }
+
+  // The SDK keeps its connection for the app's lifetime, room listeners are
+  // removed by their unsubscribe functions. Leaving removes what join, the
+  // cursor and the presence added, like a disconnect would.
+  close() {
+    this.unsubscribeConnected();
+
+    const userId = this.user?.id;
+    if (!userId) return;
+    this.user = null;
+    ["users", "presence", "cursors", "states"].forEach((node) => {
+      const path = `rooms/${this.roomId}/${node}/${userId}`;
+      this.cancelOnDisconnect(path);
+      void set(ref(database, path), null);
+    });
+  }
+}
@@ -1,258 +1,315 @@
+import type { AuthUser } from "../auth";
 import {
-  onDisconnect,
-  onValue,
-  push,
-  ref,
-  serverTimestamp,
-  set,
-} from "firebase/database";
-
+  type CollaborationTransport,
+  type CommentThread,
+  CrdtSync,
+  LeaseHolder,
+  type RoomCursor,
+  type RoomLease,
+  type RoomPresence,
+  type RoomRole,
+  type RoomRoles,
+  type RoomUser,
+  type RoomVersion,
+  type Throttle,
+  WebSocketTransport,
+  createThrottle,
+  getAutoVersionId,
+  getCommentThreadIds,
+  getCommentThreads,
+  isLeaseActive,
+  sortVersions,
+} from "../collaboration";
+import type { CommentAnchor } from "../editor/comments";
 import type { DesignValue } from "../editor/schema";
-import { database } from "./config";
-
-// 生成随机用户ID
-const generateUserId = () => `user_${Math.random().toString(36).substr(2, 9)}`;
-
-// 生成随机颜色
-const generateUserColor = () => {
-  const colors = [
-    "#FF6B6B",
-    "#4ECDC4",
-    "#45B7D1",
-    "#96CEB4",
-    "#FECA57",
-    "#FF9FF3",
-    "#54A0FF",
-  ];
-  return colors[Math.floor(Math.random() * colors.length)];
+import { isDesignValue } from "../editor/validateDesign";
+
+// 根据环境选择协作传输：配置了中继地址时使用WebSocket，否则使用Firebase
+// Firebase只在被选用时才加载
+export const createCollaborationTransport = async (
+  roomId: string,
+): Promise<CollaborationTransport> => {
+  const relayUrl = import.meta.env.VITE_COLLABORATION_URL;
+  if (relayUrl) {
+    return new WebSocketTransport({ url: relayUrl, roomId });
+  }
+  const { FirebaseTransport } = await import("./FirebaseTransport");
+  return new FirebaseTransport(roomId);
 };
 
 export class CollaborativeService {
-  private roomId: string;
-  private userId!: string;
-  private userName!: string;
-  private userColor!: string;
+  private user: RoomUser;
+  private transport: CollaborationTransport;
   private listeners: Map<string, () => void> = new Map();
+  private leaseHolder: LeaseHolder | null = null;
+  private sync: CrdtSync | null = null;
+  private isReadOnly = false;
+  // 最近一次自动保存的版本，每个时间段只保存一次
+  private lastAutoVersionId: string | null = null;
+  // 合并高频的光标和状态更新，每个间隔最多发送一次
+  private cursorThrottle: Throttle<RoomCursor>;
+  private presenceThrottle: Throttle<RoomPresence>;
+
+  // 用户身份来自登录，见 AuthProvider
+  constructor(user: AuthUser, transport: CollaborationTransport) {
+    this.user = user;
+    this.transport = transport;
+    this.cursorThrottle = createThrottle((cursor) =>
+      this.transport.setCursor(cursor),
+    );
+    this.presenceThrottle = createThrottle((presence) =>
+      this.transport.setPresence(presence),
+    );
+
+    // 设置用户在线状态
+    this.transport.join(user);
+  }
+
+  private get userId() {
+    return this.user.id;
+  }
+
+  // 用户修改名称或头像后重新通知房间
+  updateUser(user: AuthUser) {
+    this.user = user;
+    this.transport.join(user);
+  }
+
+  // 同步设计数据：通过CRDT二进制更新合并各用户（包括离线时）的修改
+  syncDesign(designValue: DesignValue, onUpdate: (value: DesignValue) => void) {
+    const sync = new CrdtSync({
+      transport: this.transport.updates,
+      clientId: this.userId,
+      onChange: onUpdate,
+      // 合并前拒绝会使设计不符合格式的远程更新（如旧版本客户端写入的），保留当前状态
+      isValid: isDesignValue,
+      isReadOnly: this.isReadOnly,
+    });
+    void sync.start(designValue);
 
-  constructor(roomId = "default-room") {
-    this.roomId = roomId;
-
-    // 尝试从sessionStorage获取已有的用户信息
-    const existingUser = sessionStorage.getItem("voyager-user");
-    if (existingUser) {
-      try {
-        const userData = JSON.parse(existingUser);
-        if (userData && userData.id && userData.name && userData.color) {
-          this.userId = userData.id;
-          this.userName = userData.name;
-          this.userColor = userData.color;
-          // 设置用户在线状态
-          this.setupPresence();
-        } else {
-          throw new Error("Invalid user data");
-        }
-      } catch (error) {
-        // 清理无效的sessionStorage数据
-        sessionStorage.removeItem("voyager-user");
-        this.createNewUser();
+    // 停止之前的同步
+    this.listeners.get("design")?.();
+    this.listeners.set("design", () => sync.dispose());
+    this.sync = sync;
+
+    // 返回更新函数，本地有修改时自动保存版本
+    return (newValue: DesignValue) => {
+      if (sync.update(newValue)) {
+        this.saveAutoVersion(newValue);
       }
-    } else {
-      this.createNewUser();
-    }
+    };
   }
 
-  private createNewUser() {
-    // 创建新用户
-    this.userId = generateUserId();
-    this.userName = `用户${this.userId.slice(-4)}`;
-    this.userColor = generateUserColor();
-
-    // 保存到sessionStorage
-    sessionStorage.setItem(
-      "voyager-user",
-      JSON.stringify({
-        id: this.userId,
-        name: this.userName,
-        color: this.userColor,
-      }),
-    );
+  // 每个时间段的第一次修改后自动保存版本，多个编辑者保存到同一个版本ID
+  private saveAutoVersion(value: DesignValue) {
+    const versionId = getAutoVersionId();
+    if (versionId === this.lastAutoVersionId) return;
 
-    // 设置用户在线状态
-    this.setupPresence();
+    this.lastAutoVersionId = versionId;
+    this.transport.saveVersion(
+      { id: versionId, name: null, author: this.user, createdAt: Date.now() },
+      value,
+    );
   }
 
-  // 设置用户在线状态
-  private setupPresence() {
-    const userRef = ref(database, `rooms/${this.roomId}/users/${this.userId}`);
-    const userPresenceRef = ref(
-      database,
-      `rooms/${this.roomId}/presence/${this.userId}`,
+  // 保存命名版本
+  saveVersion(name: string, value: DesignValue) {
+    this.transport.saveVersion(
+      {
+        id: crypto.randomUUID(),
+        name,
+        author: this.user,
+        createdAt: Date.now(),
+      },
+      value,
     );
+  }
 
-    // 设置用户信息
-    set(userRef, {
-      id: this.userId,
-      name: this.userName,
-      color: this.userColor,
-      joinedAt: serverTimestamp(),
+  // 监听版本列表，最新的在前
+  onVersionsChange(callback: (versions: RoomVersion[]) => void) {
+    const unsubscribe = this.transport.onVersionsChange((versions) => {
+      callback(sortVersions(versions));
     });
 
-    // 设置在线状态
-    set(userPresenceRef, true);
+    this.listeners.set("versions", unsubscribe);
+  }
 
-    // 设置断线时自动移除
-    onDisconnect(userPresenceRef).remove();
-    onDisconnect(userRef).remove();
+  // 读取版本的设计，版本不存在时返回null
+  loadVersion(versionId: string) {
+    return this.transport.loadVersion(versionId);
   }
 
-  // 同步设计数据
-  syncDesign(
-    _designValue: DesignValue,
-    onUpdate: (value: DesignValue) => void,
-  ) {
-    const designRef = ref(database, `rooms/${this.roomId}/design`);
-
-    // 监听远程更新
-    const unsubscribe = onValue(designRef, (snapshot) => {
-      const data = snapshot.val();
-      if (data && typeof data === 'object' && data.lastUpdatedBy !== this.userId && data.value) {
-        try {
-          onUpdate(data.value);
-        } catch (error) {
-          // 忽略无效的数据更新
-        }
-      }
+  // 监听在线用户
+  onUsersChange(callback: (users: RoomUser[]) => void) {
+    const unsubscribe = this.transport.onUsersChange((users) => {
+      // 过滤掉当前用户，避免重复显示
+      callback(users.filter((user) => user.id !== this.userId));
     });
 
-    this.listeners.set("design", unsubscribe);
-
-    // 返回更新函数
-    return (newValue: DesignValue) => {
-      set(designRef, {
-        value: newValue,
-        lastUpdatedBy: this.userId,
-        lastUpdated: serverTimestamp(),
-      });
-    };
+    this.listeners.set("users", unsubscribe);
   }
 
-  // 监听在线用户
-  onUsersChange(callback: (users: any[]) => void) {
-    const usersRef = ref(database, `rooms/${this.roomId}/users`);
-    const presenceRef = ref(database, `rooms/${this.roomId}/presence`);
+  // 同步用户光标位置
+  updateCursor(x: number, y: number) {
+    this.cursorThrottle.push({
+      id: this.userId,
+      x,
+      y,
+      color: this.user.color,
+      name: this.user.name,
+    });
+  }
 
-    let users: any = {};
-    let presence: any = {};
+  // 监听其他用户光标
+  onCursorsChange(callback: (cursors: RoomCursor[]) => void) {
+    const unsubscribe = this.transport.onCursorsChange((cursors) => {
+      // 过滤掉自己的光标
+      callback(cursors.filter((cursor) => cursor.id !== this.userId));
+    });
 
-    const updateUsers = () => {
-      if (!users || !presence) return;
+    this.listeners.set("cursors", unsubscribe);
+  }
 
-      const onlineUsers = Object.values(users).filter(
-        (user: any) => user && user.id && presence[user.id],
-      );
-      // 过滤掉当前用户，避免重复显示
-      const otherUsers = onlineUsers.filter(
-        (user: any) => user && user.id !== this.userId,
-      );
-      callback(otherUsers);
-    };
+  // 同步用户的选区、当前工具、正在编辑的文本和视口位置
+  updatePresence(presence: Omit<RoomPresence, "id">) {
+    this.presenceThrottle.push({ ...presence, id: this.userId });
+  }
 
-    const unsubscribeUsers = onValue(usersRef, (snapshot) => {
-      users = snapshot.val() || {};
-      updateUsers();
+  // 监听其他用户的状态
+  onPresenceChange(callback: (presences: RoomPresence[]) => void) {
+    const unsubscribe = this.transport.onPresenceChange((presences) => {
+      // 过滤掉自己的状态
+      callback(presences.filter((presence) => presence.id !== this.userId));
     });
 
-    const unsubscribePresence = onValue(presenceRef, (snapshot) => {
-      presence = snapshot.val() || {};
-      updateUsers();
+    this.listeners.set("presence", unsubscribe);
+  }
 
-      // 清理离线用户的数据
-      this.cleanupOfflineUsers(users, presence);
+  // 锁定正在拖动、缩放或编辑的元素，传入空数组释放
+  holdLeases(elementIds: string[]) {
+    this.leaseHolder ??= new LeaseHolder({
+      transport: this.transport,
+      user: this.getUserInfo(),
     });
-
-    this.listeners.set("users", unsubscribeUsers);
-    this.listeners.set("presence", unsubscribePresence);
+    this.leaseHolder.hold(elementIds);
   }
 
-  // 清理离线用户数据
-  private cleanupOfflineUsers(users: any, presence: any) {
-    if (!users || !presence) return;
-
-    Object.keys(users).forEach((userId) => {
-      if (userId && !presence[userId]) {
-        // 用户已离线，清理其数据
-        const userRef = ref(database, `rooms/${this.roomId}/users/${userId}`);
-        const cursorRef = ref(
-          database,
-          `rooms/${this.roomId}/cursors/${userId}`,
+  // 监听其他用户锁定的元素，忽略已过期的租约
+  onLeasesChange(callback: (leases: RoomLease[]) => void) {
+    let expiryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const notify = (leases: RoomLease[]) => {
+      const activeLeases = leases.filter(
+        (lease) => lease.userId !== this.userId && isLeaseActive(lease),
+      );
+      callback(activeLeases);
+
+      // 最早的租约过期时重新通知
+      if (expiryTimeout) {
+        clearTimeout(expiryTimeout);
+        expiryTimeout = null;
+      }
+      if (activeLeases.length > 0) {
+        const nextExpiry = Math.min(
+          ...activeLeases.map((lease) => lease.expiresAt),
+        );
+        expiryTimeout = setTimeout(
+          () => notify(leases),
+          nextExpiry - Date.now(),
         );
+      }
+    };
 
-        // 延迟清理，避免短暂断线时的闪烁
-        setTimeout(() => {
-          set(userRef, null);
-          set(cursorRef, null);
-        }, 5000);
+    const unsubscribe = this.transport.onLeasesChange(notify);
+
+    this.listeners.set("leases", () => {
+      unsubscribe();
+      if (expiryTimeout) {
+        clearTimeout(expiryTimeout);
       }
     });
   }
 
-  // 同步用户光标位置
-  updateCursor(x: number, y: number) {
-    const cursorRef = ref(
-      database,
-      `rooms/${this.roomId}/cursors/${this.userId}`,
-    );
-    set(cursorRef, {
-      x,
-      y,
-      color: this.userColor,
-      name: this.userName,
-      timestamp: serverTimestamp(),
-    });
+  // 监听房间成员的角色
+  onRolesChange(callback: (roles: RoomRoles) => void) {
+    const unsubscribe = this.transport.onRolesChange(callback);
 
-    // 设置断线时自动移除光标
-    onDisconnect(cursorRef).remove();
+    this.listeners.set("roles", unsubscribe);
   }
 
-  // 监听其他用户光标
-  onCursorsChange(callback: (cursors: any[]) => void) {
-    const cursorsRef = ref(database, `rooms/${this.roomId}/cursors`);
+  // 修改其他成员的角色，只有所有者可以修改
+  setRole(userId: string, role: RoomRole) {
+    this.transport.setRole(userId, role);
+  }
 
-    const unsubscribe = onValue(cursorsRef, (snapshot) => {
-      const data = snapshot.val() || {};
-      // 过滤掉自己的光标
-      const otherCursors = Object.values(data).filter(
-        (cursor: any) => cursor && cursor.name && cursor.name !== this.userName,
-      );
-      callback(otherCursors);
+  // 只读时（查看者）不发送设计修改
+  setReadOnly(isReadOnly: boolean) {
+    this.isReadOnly = isReadOnly;
+    this.sync?.setReadOnly(isReadOnly);
+  }
+
+  // 监听评论，按讨论串分组
+  onCommentsChange(callback: (threads: CommentThread[]) => void) {
+    const unsubscribe = this.transport.onCommentsChange((comments) => {
+      callback(getCommentThreads(comments));
     });
 
-    this.listeners.set("cursors", unsubscribe);
+    this.listeners.set("comments", unsubscribe);
+  }
+
+  // 在画布位置或元素上新建讨论串，查看者也可以评论
+  addComment(anchor: CommentAnchor, body: string) {
+    this.transport.setComment({
+      id: crypto.randomUUID(),
+      threadId: null,
+      anchor,
+      author: this.user,
+      body,
+      createdAt: Date.now(),
+      resolved: false,
+    });
   }
 
-  // 发送操作事件
-  sendOperation(operation: any) {
-    const operationsRef = ref(database, `rooms/${this.roomId}/operations`);
-    push(operationsRef, {
-      ...operation,
-      userId: this.userId,
-      userName: this.userName,
-      timestamp: serverTimestamp(),
+  // 回复讨论串
+  replyToComment(thread: CommentThread, body: string) {
+    this.transport.setComment({
+      id: crypto.randomUUID(),
+      threadId: thread.comment.id,
+      anchor: null,
+      author: this.user,
+      body,
+      createdAt: Date.now(),
+      resolved: false,
     });
   }
 
-  // 清理所有监听器
+  // 解决或重新打开讨论串
+  setCommentResolved(thread: CommentThread, isResolved: boolean) {
+    this.transport.setCommentResolved(thread.comment.id, isResolved);
+  }
+
+  // 删除讨论串及其所有回复
+  deleteCommentThread(thread: CommentThread) {
+    this.transport.removeComments(getCommentThreadIds(thread));
+  }
+
+  // 删除单条回复
+  deleteReply(commentId: string) {
+    this.transport.removeComments([commentId]);
+  }
+
+  // 清理所有监听器、释放租约并关闭连接，其他用户不再看到该用户在线
   cleanup() {
     this.listeners.forEach((unsubscribe) => unsubscribe());
     this.listeners.clear();
+    this.leaseHolder?.dispose();
+    this.cursorThrottle.cancel();
+    this.presenceThrottle.cancel();
+    this.transport.close();
   }
 
   // 获取用户信息
   getUserInfo() {
-    return {
-      id: this.userId,
-      name: this.userName,
-      color: this.userColor,
-    };
+    return this.user;
   }
 }
@@ -0,0 +1,135 @@
+import type { DesignDocument, DesignSnapshot, DesignStorage } from "./types";
+
+const DEFAULT_DATABASE_NAME = "voyager";
+const DATABASE_VERSION = 2;
+const DOCUMENT_STORE = "documents";
+const SNAPSHOT_STORE = "snapshots";
+const DOCUMENT_INDEX = "documentId";
+
+const toError = (error: DOMException | null) =>
+  error ?? new Error("IndexedDB request failed");
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toError(request.error));
+  });
+};
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(toError(transaction.error));
+    transaction.onabort = () => reject(toError(transaction.error));
+  });
+};
+
+/**
+ * Stores documents and their snapshots in IndexedDB, with snapshots indexed by
+ * document ID
+ */
+export class IndexedDBStorage implements DesignStorage {
+  #databaseName: string;
+  #database: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName = DEFAULT_DATABASE_NAME) {
+    this.#databaseName = databaseName;
+  }
+
+  #open(): Promise<IDBDatabase> {
+    this.#database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.#databaseName, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        // Version 1 only had snapshots
+        if (!database.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          database
+            .createObjectStore(SNAPSHOT_STORE, { keyPath: "id" })
+            .createIndex(DOCUMENT_INDEX, "documentId");
+        }
+        if (!database.objectStoreNames.contains(DOCUMENT_STORE)) {
+          database.createObjectStore(DOCUMENT_STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(toError(request.error));
+    });
+    return this.#database;
+  }
+
+  async listDocuments(): Promise<DesignDocument[]> {
+    const database = await this.#open();
+    const request = database
+      .transaction(DOCUMENT_STORE)
+      .objectStore(DOCUMENT_STORE)
+      .getAll() as IDBRequest<DesignDocument[]>;
+    const documents = await requestToPromise(request);
+    return documents.sort((a, b) => b.modifiedAt - a.modifiedAt);
+  }
+
+  async getDocument(documentId: string): Promise<DesignDocument | null> {
+    const database = await this.#open();
+    const request = database
+      .transaction(DOCUMENT_STORE)
+      .objectStore(DOCUMENT_STORE)
+      .get(documentId) as IDBRequest<DesignDocument | undefined>;
+    return (await requestToPromise(request)) ?? null;
+  }
+
+  async saveDocument(document: DesignDocument): Promise<void> {
+    const database = await this.#open();
+    const transaction = database.transaction(DOCUMENT_STORE, "readwrite");
+    transaction.objectStore(DOCUMENT_STORE).put(document);
+    await transactionToPromise(transaction);
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    const database = await this.#open();
+    const transaction = database.transaction(
+      [DOCUMENT_STORE, SNAPSHOT_STORE],
+      "readwrite",
+    );
+    transaction.objectStore(DOCUMENT_STORE).delete(documentId);
+
+    const snapshotStore = transaction.objectStore(SNAPSHOT_STORE);
+    const cursorRequest = snapshotStore
+      .index(DOCUMENT_INDEX)
+      .openKeyCursor(IDBKeyRange.only(documentId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        snapshotStore.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+    await transactionToPromise(transaction);
+  }
+
+  async listSnapshots(documentId: string): Promise<DesignSnapshot[]> {
+    const database = await this.#open();
+    const request = database
+      .transaction(SNAPSHOT_STORE)
+      .objectStore(SNAPSHOT_STORE)
+      .index(DOCUMENT_INDEX)
+      .getAll(documentId) as IDBRequest<DesignSnapshot[]>;
+    const snapshots = await requestToPromise(request);
+    return snapshots.sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  async saveSnapshot(snapshot: DesignSnapshot): Promise<void> {
+    const database = await this.#open();
+    const transaction = database.transaction(SNAPSHOT_STORE, "readwrite");
+    transaction.objectStore(SNAPSHOT_STORE).put(snapshot);
+    await transactionToPromise(transaction);
+  }
+
+  async deleteSnapshots(snapshotIds: string[]): Promise<void> {
+    if (snapshotIds.length === 0) return;
+
+    const database = await this.#open();
+    const transaction = database.transaction(SNAPSHOT_STORE, "readwrite");
+    const store = transaction.objectStore(SNAPSHOT_STORE);
+    snapshotIds.forEach((id) => store.delete(id));
+    await transactionToPromise(transaction);
+  }
+}
@@ -0,0 +1,48 @@
+import type { DesignDocument, DesignSnapshot, DesignStorage } from "./types";
+
+/**
+ * In-memory storage for tests and for browsers without IndexedDB
+ */
+export class MemoryStorage implements DesignStorage {
+  #documents = new Map<string, DesignDocument>();
+  #snapshots = new Map<string, DesignSnapshot>();
+
+  async listDocuments(): Promise<DesignDocument[]> {
+    return [...this.#documents.values()].sort(
+      (a, b) => b.modifiedAt - a.modifiedAt,
+    );
+  }
+
+  async getDocument(documentId: string): Promise<DesignDocument | null> {
+    return this.#documents.get(documentId) ?? null;
+  }
+
+  async saveDocument(document: DesignDocument): Promise<void> {
+    this.#documents.set(document.id, { ...document });
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    this.#documents.delete(documentId);
+    this.#snapshots.forEach((snapshot, id) => {
+      if (snapshot.documentId === documentId) {
+        this.#snapshots.delete(id);
+      }
+    });
+  }
+
+  async listSnapshots(documentId: string): Promise<DesignSnapshot[]> {
+    // Later insertions win ties so the newest snapshot always comes first
+    return [...this.#snapshots.values()]
+      .filter((snapshot) => snapshot.documentId === documentId)
+      .reverse()
+      .sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  async saveSnapshot(snapshot: DesignSnapshot): Promise<void> {
+    this.#snapshots.set(snapshot.id, structuredClone(snapshot));
+  }
+
+  async deleteSnapshots(snapshotIds: string[]): Promise<void> {
+    snapshotIds.forEach((id) => this.#snapshots.delete(id));
+  }
+}
@@ -0,0 +1,147 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DesignEditor } from "../editor";
+import type { DesignValue } from "../editor/schema";
+import { MemoryStorage } from "./MemoryStorage";
+import { createAutosave, restoreLatestDesign } from "./autosave";
+
+const EMPTY_VALUE: DesignValue = {
+  shapes: {},
+  texts: {},
+  images: {},
+  groups: {},
+  order: [],
+  attributes: { width: 800, height: 600 },
+};
+
+const DOCUMENT_ID = "document";
+
+const createText = (editor: DesignEditor, content: string) =>
+  editor.createText({
+    content,
+    left: 10,
+    top: 10,
+    fontSize: 16,
+    color: "#000000",
+    fontWeight: "normal",
+    fontFamily: "sans-serif",
+  });
+
+describe("createAutosave", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("saves once the changes settle", async () => {
+    const storage = new MemoryStorage();
+    const editor = new DesignEditor({ value: EMPTY_VALUE });
+    const autosave = createAutosave(editor.stateStore, {
+      storage,
+      documentId: DOCUMENT_ID,
+      delay: 500,
+    });
+
+    createText(editor, "First");
+    await vi.advanceTimersByTimeAsync(300);
+    createText(editor, "Second");
+    await vi.advanceTimersByTimeAsync(300);
+    expect(await storage.listSnapshots(DOCUMENT_ID)).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await autosave.dispose();
+
+    const snapshots = await storage.listSnapshots(DOCUMENT_ID);
+    expect(snapshots).toHaveLength(1);
+    expect(
+      Object.values(snapshots[0].value.texts).map((text) => text.content),
+    ).toEqual(["First", "Second"]);
+  });
+
+  it("keeps only the newest snapshots", async () => {
+    const storage = new MemoryStorage();
+    const editor = new DesignEditor({ value: EMPTY_VALUE });
+    const autosave = createAutosave(editor.stateStore, {
+      storage,
+      documentId: DOCUMENT_ID,
+      maxSnapshots: 3,
+    });
+
+    // Each flush queues a write of the value at that point
+    ["1", "2", "3", "4", "5"].forEach((content) => {
+      createText(editor, content);
+      void autosave.flush();
+    });
+    await autosave.dispose();
+
+    const snapshots = await storage.listSnapshots(DOCUMENT_ID);
+    expect(
+      snapshots.map((snapshot) => Object.keys(snapshot.value.texts).length),
+    ).toEqual([5, 4, 3]);
+  });
+
+  it("restores the latest copy into a new editor", async () => {
+    const storage = new MemoryStorage();
+    const editor = new DesignEditor({ value: EMPTY_VALUE });
+    const autosave = createAutosave(editor.stateStore, {
+      storage,
+      documentId: DOCUMENT_ID,
+    });
+    const textId = createText(editor, "Survives a refresh");
+    await autosave.dispose();
+
+    const restoredValue = await restoreLatestDesign(storage, DOCUMENT_ID);
+    const restoredEditor = new DesignEditor({ value: EMPTY_VALUE });
+    restoredEditor.loadDesign(restoredValue!);
+
+    expect(restoredEditor.state.value.texts[textId]?.content).toBe(
+      "Survives a refresh",
+    );
+    expect(await restoreLatestDesign(storage, "other-document")).toBeNull();
+  });
+
+  it("reports storage errors without stopping later saves", async () => {
+    const storage = new MemoryStorage();
+    const onError = vi.fn();
+    vi.spyOn(storage, "saveSnapshot").mockRejectedValueOnce(
+      new Error("Quota exceeded"),
+    );
+    const editor = new DesignEditor({ value: EMPTY_VALUE });
+    const autosave = createAutosave(editor.stateStore, {
+      storage,
+      documentId: DOCUMENT_ID,
+      onError,
+    });
+
+    createText(editor, "Lost");
+    await autosave.flush();
+    createText(editor, "Saved");
+    await autosave.dispose();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(await storage.listSnapshots(DOCUMENT_ID)).toHaveLength(1);
+  });
+
+  it("keeps saving after a failure nobody is told about", async () => {
+    const storage = new MemoryStorage();
+    vi.spyOn(storage, "saveSnapshot").mockRejectedValueOnce(
+      new Error("Quota exceeded"),
+    );
+    const editor = new DesignEditor({ value: EMPTY_VALUE });
+    const autosave = createAutosave(editor.stateStore, {
+      storage,
+      documentId: DOCUMENT_ID,
+    });
+
+    createText(editor, "Lost");
+    await expect(autosave.flush()).resolves.toBeUndefined();
+    createText(editor, "Saved");
+    await autosave.dispose();
+
+    expect(await storage.listSnapshots(DOCUMENT_ID)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,107 @@
+import type { DesignValue } from "../editor/schema";
+import type { ReadonlyStoreApi } from "../editor/types/store";
+import type { DesignSnapshot, DesignStorage } from "./types";
+
+export const DEFAULT_AUTOSAVE_DELAY = 1000;
+export const DEFAULT_MAX_SNAPSHOTS = 20;
+
+export interface AutosaveOptions {
+  storage: DesignStorage;
+  documentId: string;
+  // Milliseconds without changes before a snapshot is written
+  delay?: number;
+  // Number of snapshots kept per document, older ones are deleted
+  maxSnapshots?: number;
+  // Called after each snapshot is written
+  onSave?: (snapshot: DesignSnapshot) => void;
+  // Called when a snapshot can't be written, later changes are still saved
+  onError?: (error: unknown) => void;
+}
+
+export interface Autosave {
+  // Writes any pending change immediately
+  flush(): Promise<void>;
+  // Writes any pending change and stops listening for new ones
+  dispose(): Promise<void>;
+}
+
+/**
+ * Saves a snapshot of the design whenever the store value settles. Writes are
+ * serialized so snapshots land in the order the changes were made.
+ */
+export const createAutosave = (
+  store: ReadonlyStoreApi<{ value: DesignValue }>,
+  {
+    storage,
+    documentId,
+    delay = DEFAULT_AUTOSAVE_DELAY,
+    maxSnapshots = DEFAULT_MAX_SNAPSHOTS,
+    onSave,
+    onError,
+  }: AutosaveOptions,
+): Autosave => {
+  let pendingValue: DesignValue | null = null;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let queue = Promise.resolve();
+
+  const write = async (value: DesignValue) => {
+    const snapshot: DesignSnapshot = {
+      id: crypto.randomUUID(),
+      documentId,
+      savedAt: Date.now(),
+      value,
+    };
+    await storage.saveSnapshot(snapshot);
+
+    const snapshots = await storage.listSnapshots(documentId);
+    await storage.deleteSnapshots(
+      snapshots.slice(Math.max(1, maxSnapshots)).map((stale) => stale.id),
+    );
+    onSave?.(snapshot);
+  };
+
+  const flush = () => {
+    if (timeout) {
+      clearTimeout(timeout);
+      timeout = null;
+    }
+
+    const value = pendingValue;
+    pendingValue = null;
+    if (value) {
+      queue = queue
+        .then(() => write(value))
+        .catch((error: unknown) => onError?.(error));
+    }
+    return queue;
+  };
+
+  const unsubscribe = store.subscribe((state, previousState) => {
+    if (state.value === previousState.value) return;
+
+    pendingValue = state.value;
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+    timeout = setTimeout(() => void flush(), delay);
+  });
+
+  return {
+    flush,
+    dispose: () => {
+      unsubscribe();
+      return flush();
+    },
+  };
+};
+
+/**
+ * Returns the most recently saved value of the document, if any
+ */
+export const restoreLatestDesign = async (
+  storage: DesignStorage,
+  documentId: string,
+): Promise<DesignValue | null> => {
+  const [latest] = await storage.listSnapshots(documentId);
+  return latest?.value ?? null;
+};
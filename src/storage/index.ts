@@ -0,0 +1,4 @@
+export * from "./autosave";
+export { IndexedDBStorage } from "./IndexedDBStorage";
+export { MemoryStorage } from "./MemoryStorage";
+export type { DesignDocument, DesignSnapshot, DesignStorage } from "./types";
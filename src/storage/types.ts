@@ -0,0 +1,34 @@
+import type { DesignValue } from "../editor/schema";
+
+export interface DesignSnapshot {
+  id: string;
+  documentId: string;
+  savedAt: number; // epoch milliseconds
+  value: DesignValue;
+}
+
+export interface DesignDocument {
+  id: string;
+  title: string;
+  createdAt: number; // epoch milliseconds
+  modifiedAt: number; // epoch milliseconds
+  thumbnail?: string; // data URL
+}
+
+/**
+ * Durable storage for documents and their design snapshots. Implementations
+ * only need to store and list records; retention is handled by the autosave.
+ */
+export interface DesignStorage {
+  // Documents, most recently modified first
+  listDocuments(): Promise<DesignDocument[]>;
+  getDocument(documentId: string): Promise<DesignDocument | null>;
+  saveDocument(document: DesignDocument): Promise<void>;
+  // Deletes the document together with all of its snapshots
+  deleteDocument(documentId: string): Promise<void>;
+
+  // Snapshots of the document, newest first
+  listSnapshots(documentId: string): Promise<DesignSnapshot[]>;
+  saveSnapshot(snapshot: DesignSnapshot): Promise<void>;
+  deleteSnapshots(snapshotIds: string[]): Promise<void>;
+}
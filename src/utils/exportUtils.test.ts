@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createEmptyDesign } from "../documents";
+import { DesignEditor } from "../editor";
+import { rasterizeDesign } from "./exportUtils";
+
+const createRectangle = (editor: DesignEditor, left: number) =>
+  editor.createShape({
+    left,
+    top: 10,
+    width: 50,
+    height: 50,
+    viewBox: { minX: 0, minY: 0, width: 64, height: 64 },
+    paths: [{ d: "M0,0L64,0L64,64L0,64Z" }],
+  });
+
+describe("rasterizeDesign", () => {
+  // jsdom neither loads images nor draws on canvases, so the SVG the design
+  // is drawn from and the drawing calls are recorded instead
+  const svgSources: string[] = [];
+  const drawImage = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal(
+      "Image",
+      class {
+        onload: (() => void) | null = null;
+        set src(value: string) {
+          svgSources.push(value);
+          setTimeout(() => this.onload?.());
+        }
+      },
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue({
+      drawImage,
+    } as unknown as CanvasRenderingContext2D);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    svgSources.length = 0;
+    drawImage.mockClear();
+  });
+
+  const getDrawnSVG = () => {
+    const source = svgSources.at(-1) ?? "";
+    return decodeURIComponent(source.slice(source.indexOf(",") + 1));
+  };
+
+  it("draws the whole design on a white background by default", async () => {
+    const editor = new DesignEditor({ value: createEmptyDesign() });
+    createRectangle(editor, 10);
+
+    const canvas = await rasterizeDesign(editor.state.value);
+
+    expect([canvas.width, canvas.height]).toEqual([800, 600]);
+    expect(getDrawnSVG()).toContain('viewBox="0 0 800 600"');
+    expect(getDrawnSVG()).toContain('fill="white"');
+    expect(drawImage).toHaveBeenCalledWith(expect.anything(), 0, 0, 800, 600);
+  });
+
+  it("crops to the given elements at the given scale", async () => {
+    const editor = new DesignEditor({ value: createEmptyDesign() });
+    const first = createRectangle(editor, 10);
+    createRectangle(editor, 100);
+
+    const canvas = await rasterizeDesign(editor.state.value, {
+      elementIds: [first],
+      scale: 2,
+    });
+
+    expect([canvas.width, canvas.height]).toEqual([100, 100]);
+    expect(getDrawnSVG()).toContain('viewBox="10 10 50 50"');
+    expect(getDrawnSVG()).not.toContain("translate(100 10)");
+    expect(drawImage).toHaveBeenCalledWith(expect.anything(), 0, 0, 100, 100);
+  });
+
+  it("renders the given region with a transparent background", async () => {
+    const editor = new DesignEditor({ value: createEmptyDesign() });
+    createRectangle(editor, 10);
+
+    const canvas = await rasterizeDesign(editor.state.value, {
+      region: { left: 5, top: 5, width: 20.4, height: 0.2 },
+      background: null,
+    });
+
+    // The canvas is at least a pixel in each direction
+    expect([canvas.width, canvas.height]).toEqual([20, 1]);
+    expect(getDrawnSVG()).toContain('viewBox="5 5 20.4 0.2"');
+    expect(getDrawnSVG()).not.toContain("<rect");
+  });
+});
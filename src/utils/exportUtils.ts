@@ -1,36 +1,54 @@
-import html2canvas from "html2canvas";
-import { jsPDF } from "jspdf";
-
-import type {
-  DesignValue,
-  ShapeDef,
-  TextElement,
-  ImageElement,
-} from "../editor/schema";
-
-// JSON导出/导入功能
-export const exportToJSON = (
+import {
+  DESIGN_FILE_EXTENSION,
+  parseDesignFile,
+  serializeDesignFile,
+} from "../documents/designFile";
+import {
+  type PDFOptions,
+  getStyleSheetFonts,
+  renderDesignPDF,
+} from "../editor/pdf";
+import type { DesignValue } from "../editor/schema";
+import {
+  type SVGOptions,
+  embedImages,
+  getExportRegion,
+  serializeDesign,
+} from "../editor/svg";
+
+// 栅格化的选项
+export interface RasterOptions extends SVGOptions {
+  // 输出像素与设计像素的比例，默认为1
+  scale?: number;
+}
+
+// 设计文件(.voyager)导出/导入功能
+export const exportDesignFile = (
   designValue: DesignValue,
   filename = "design",
 ) => {
-  const dataStr = JSON.stringify(designValue, null, 2);
+  const dataStr = serializeDesignFile(designValue);
   const dataBlob = new Blob([dataStr], { type: "application/json" });
 
   const url = URL.createObjectURL(dataBlob);
   const link = document.createElement("a");
   link.href = url;
-  link.download = `${filename}.json`;
+  link.download = `${filename}${DESIGN_FILE_EXTENSION}`;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
 };
 
-export const importFromJSON = (): Promise<DesignValue | null> => {
+// 错误太多时只显示前几条
+const MAX_REPORTED_ERRORS = 10;
+
+// 也接受旧版本导出的.json文件，会迁移到当前格式
+export const importDesignFile = (): Promise<DesignValue | null> => {
   return new Promise((resolve) => {
     const input = document.createElement("input");
     input.type = "file";
-    input.accept = ".json";
+    input.accept = `${DESIGN_FILE_EXTENSION},.json`;
 
     input.onchange = (event) => {
       const file = (event.target as HTMLInputElement).files?.[0];
@@ -41,14 +59,54 @@ export const importFromJSON = (): Promise<DesignValue | null> => {
 
       const reader = new FileReader();
       reader.onload = (e) => {
-        try {
-          const result = e.target?.result as string;
-          const designValue = JSON.parse(result) as DesignValue;
-          resolve(designValue);
-        } catch {
-          alert("Invalid JSON file format");
-          resolve(null);
+        const result = parseDesignFile(e.target?.result as string);
+        if (result.ok) {
+          resolve(result.value);
+          return;
         }
+
+        const hiddenCount = result.errors.length - MAX_REPORTED_ERRORS;
+        alert(
+          [
+            `Could not open ${file.name}:`,
+            ...result.errors.slice(0, MAX_REPORTED_ERRORS),
+            ...(hiddenCount > 0 ? [`...and ${hiddenCount} more`] : []),
+          ].join("\n"),
+        );
+        resolve(null);
+      };
+      reader.onerror = () => {
+        alert("Failed to read design file");
+        resolve(null);
+      };
+      reader.readAsText(file);
+    };
+
+    input.click();
+  });
+};
+
+// SVG文件导入功能，返回文件内容
+export const importSVG = (): Promise<string | null> => {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".svg,image/svg+xml";
+
+    input.onchange = (event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        resolve((e.target?.result as string | undefined) ?? null);
+      };
+      reader.onerror = () => {
+        alert("Failed to read SVG file");
+        resolve(null);
       };
       reader.readAsText(file);
     };
@@ -119,178 +177,74 @@ export const importImage = (): Promise<{
 };
 
 // SVG导出功能
-export const exportToSVG = (
-  _canvasElement: HTMLElement,
+export const exportToSVG = async (
   designValue: DesignValue,
   filename = "design",
+  options: SVGOptions = {},
 ) => {
-  const { width, height } = designValue.attributes;
-
-  // 生成形状的SVG内容
-  const shapeSVGs = Object.values(designValue.shapes)
-    .map((shape) => {
-      const pathElements = shape.paths
-        .map((path) => {
-          const strokeAttr = path.stroke
-            ? `stroke="${path.stroke.color}" stroke-width="${path.stroke.weight}"`
-            : "";
-          const fillAttr = path.fill
-            ? `fill="${path.fill.color}"`
-            : 'fill="none"';
-
-          const attributes = [strokeAttr, fillAttr].filter(Boolean).join(" ");
-          return `<path d="${path.d}" ${attributes} />`;
-        })
-        .join("");
-
-      const opacity = shape.transparency ? 1 - shape.transparency : 1;
-
-      return `
-      <g transform="translate(${shape.bounds.left}, ${shape.bounds.top})" opacity="${opacity}">
-        <svg width="${shape.bounds.width}" height="${shape.bounds.height}" viewBox="${shape.viewBox.minX} ${shape.viewBox.minY} ${shape.viewBox.width} ${shape.viewBox.height}">
-          ${pathElements}
-        </svg>
-      </g>
-    `;
-    })
-    .join("");
-
-  // 生成文本的SVG内容
-  const textSVGs = Object.values(designValue.texts)
-    .map((text) => {
-      return `
-      <text
-        x="${text.bounds.left}"
-        y="${text.bounds.top + text.fontSize}"
-        font-family="${text.fontFamily}"
-        font-size="${text.fontSize}"
-        font-weight="${text.fontWeight}"
-        fill="${text.color}"
-      >
-        ${text.content}
-      </text>
-    `;
-    })
-    .join("");
-
-  // 生成图片的SVG内容
-  const imageSVGs = Object.values(designValue.images)
-    .map((image) => {
-      return `
-      <image
-        x="${image.bounds.left}"
-        y="${image.bounds.top}"
-        width="${image.bounds.width}"
-        height="${image.bounds.height}"
-        href="${image.src}"
-        opacity="${image.opacity ?? 1}"
-      />
-    `;
-    })
-    .join("");
-
-  // 创建完整的SVG
-  const svgContent = `<?xml version="1.0" encoding="UTF-8"?>
-<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
-  <rect width="100%" height="100%" fill="white"/>
-  ${shapeSVGs}
-  ${textSVGs}
-  ${imageSVGs}
-</svg>`;
-
-  const blob = new Blob([svgContent], { type: "image/svg+xml" });
-  const url = URL.createObjectURL(blob);
+  try {
+    // 内嵌图片，使导出的SVG文件可以独立使用
+    const svgContent = serializeDesign(await embedImages(designValue), options);
+    const blob = new Blob([svgContent], { type: "image/svg+xml" });
+    const url = URL.createObjectURL(blob);
 
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = `${filename}.svg`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${filename}.svg`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    alert(
+      `Failed to export SVG: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+};
+
+const loadImage = async (src: string, errorMessage: string) => {
+  const image = new Image();
+  await new Promise((resolve, reject) => {
+    image.onload = resolve;
+    image.onerror = () => reject(new Error(errorMessage));
+    image.src = src;
+  });
+  return image;
 };
 
-// PNG导出功能
+// 将设计渲染到离屏canvas：只依赖设计数据，与SVG导出使用同一个序列化器
+export const rasterizeDesign = async (
+  designValue: DesignValue,
+  options: RasterOptions = {},
+): Promise<HTMLCanvasElement> => {
+  const { scale = 1 } = options;
+  const region = getExportRegion(designValue, options);
+  const svgUrl = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+    serializeDesign(await embedImages(designValue), { ...options, region }),
+  )}`;
+
+  const image = await loadImage(svgUrl, "Failed to render the design");
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(region.width * scale));
+  canvas.height = Math.max(1, Math.round(region.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas is not supported");
+  }
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// PNG导出功能，默认以2倍分辨率导出
 export const exportToPNG = async (
-  canvasElement: HTMLElement,
+  designValue: DesignValue,
   filename = "design",
+  options: RasterOptions = {},
 ) => {
   try {
-    // 查找实际的设计画布
-    const designCanvas =
-      canvasElement.querySelector(".design-canvas") || canvasElement;
-    const designView =
-      designCanvas.querySelector('div[style*="position: relative"]') ||
-      designCanvas;
-
-    // 确保画布有最小尺寸
-    const rect = (designView as HTMLElement).getBoundingClientRect();
-    const width = Math.max(rect.width, 800);
-    const height = Math.max(rect.height, 600);
-
-    const canvas = await html2canvas(designView as HTMLElement, {
-      backgroundColor: "white",
-      scale: 2, // 高质量导出
-      useCORS: true,
-      allowTaint: true,
-      foreignObjectRendering: false,
-      logging: false,
-      width,
-      height,
-      scrollX: 0,
-      scrollY: 0,
-      x: 0,
-      y: 0,
-      onclone: (clonedDoc) => {
-        // 确保所有样式都被正确应用
-        const allElements = clonedDoc.querySelectorAll("*");
-        allElements.forEach((el) => {
-          const htmlEl = el as HTMLElement;
-          if (htmlEl.style.translate) {
-            // 将translate转换为left/top定位
-            const translateMatch = htmlEl.style.translate.match(
-              /(-?\d+(?:\.\d+)?)px\s+(-?\d+(?:\.\d+)?)px/,
-            );
-            if (translateMatch) {
-              const [, x, y] = translateMatch;
-              htmlEl.style.left = x + "px";
-              htmlEl.style.top = y + "px";
-              htmlEl.style.translate = "";
-              htmlEl.style.transform = "";
-            }
-          }
-        });
-
-        // 确保克隆文档中的SVG正确渲染
-        const svgs = clonedDoc.querySelectorAll("svg");
-        svgs.forEach((svg) => {
-          svg.style.display = "block";
-          svg.style.visibility = "visible";
-        });
-
-        // 确保图片正确渲染
-        const imgs = clonedDoc.querySelectorAll("img");
-        imgs.forEach((img) => {
-          img.style.display = "block";
-          img.style.visibility = "visible";
-        });
-      },
-    });
-
-    // 如果canvas为空，创建一个白色背景的canvas
-    if (canvas.width === 0 || canvas.height === 0) {
-      const fallbackCanvas = document.createElement("canvas");
-      fallbackCanvas.width = width * 2;
-      fallbackCanvas.height = height * 2;
-      const ctx = fallbackCanvas.getContext("2d");
-      if (ctx) {
-        ctx.fillStyle = "white";
-        ctx.fillRect(0, 0, fallbackCanvas.width, fallbackCanvas.height);
-      }
-      downloadCanvas(fallbackCanvas, filename);
-    } else {
-      downloadCanvas(canvas, filename);
-    }
+    const canvas = await rasterizeDesign(designValue, { scale: 2, ...options });
+    downloadCanvas(canvas, filename);
   } catch (error) {
     alert(
       `Failed to export PNG: ${error instanceof Error ? error.message : "Unknown error"}`,
@@ -316,56 +270,57 @@ const downloadCanvas = (canvas: HTMLCanvasElement, filename: string) => {
   }, "image/png");
 };
 
-// PDF导出功能
+// jsPDF能直接嵌入的图片格式，其他格式（如SVG）按原始尺寸转为PNG
+const PDF_IMAGE_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/bmp",
+  "image/webp",
+];
+
+const toPDFImageSource = async (src: string) => {
+  const type = /^data:([^;,]+)/.exec(src)?.[1];
+  if (type && PDF_IMAGE_TYPES.includes(type)) return src;
+
+  const image = await loadImage(src, "Failed to load image");
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas is not supported");
+  }
+  ctx.drawImage(image, 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+// PDF导出功能：形状为矢量路径，文字为可选中的文本，图片按原始分辨率嵌入，
+// 默认嵌入页面通过@font-face加载的字体
 export const exportToPDF = async (
-  _canvasElement: HTMLElement,
   designValue: DesignValue,
   filename = "design",
+  options: PDFOptions = {},
 ) => {
   try {
-    // 直接使用SVG导出方法创建内容
-    const svgContent = createSVGContent(designValue);
-
-    // 创建一个canvas来渲染SVG
-    const canvas = document.createElement("canvas");
-    const { width, height } = designValue.attributes;
-    canvas.width = width * 2; // 高清
-    canvas.height = height * 2;
-    const ctx = canvas.getContext("2d");
-
-    if (!ctx) {
-      throw new Error("无法创建canvas context");
-    }
+    const embedded = await embedImages(designValue);
+    const images = await Promise.all(
+      Object.values(embedded.images).map(async (image) => ({
+        ...image,
+        src: await toPDFImageSource(image.src),
+      })),
+    );
 
-    // 设置白色背景
-    ctx.fillStyle = "white";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    ctx.scale(2, 2); // 缩放以匹配高清
-
-    // 创建SVG图像
-    const svgBlob = new Blob([svgContent], { type: "image/svg+xml" });
-    const svgUrl = URL.createObjectURL(svgBlob);
-
-    const img = new Image();
-    await new Promise((resolve, reject) => {
-      img.onload = resolve;
-      img.onerror = reject;
-      img.src = svgUrl;
-    });
-
-    // 绘制SVG到canvas
-    ctx.drawImage(img, 0, 0, width, height);
-    URL.revokeObjectURL(svgUrl);
-
-    // 创建PDF
-    const imgData = canvas.toDataURL("image/png");
-    const pdf = new jsPDF({
-      orientation: width > height ? "landscape" : "portrait",
-      unit: "px",
-      format: [width, height],
-    });
-
-    pdf.addImage(imgData, "PNG", 0, 0, width, height);
+    const pdf = await renderDesignPDF(
+      {
+        ...embedded,
+        images: Object.fromEntries(images.map((image) => [image.id, image])),
+      },
+      {
+        ...options,
+        fonts: options.fonts ?? getStyleSheetFonts(document.styleSheets),
+      },
+    );
     pdf.save(`${filename}.pdf`);
   } catch (error) {
     alert(
@@ -374,83 +329,6 @@ export const exportToPDF = async (
   }
 };
 
-// 创建SVG内容的辅助函数
-function createSVGContent(designValue: DesignValue): string {
-  const { width, height } = designValue.attributes;
-
-  // 生成形状的SVG内容
-  const shapeSVGs = Object.values(designValue.shapes || {})
-    .map((shape: ShapeDef) => {
-      const pathElements = shape.paths
-        .map((path) => {
-          const strokeAttr = path.stroke
-            ? `stroke="${path.stroke.color}" stroke-width="${path.stroke.weight}"`
-            : "";
-          const fillAttr = path.fill
-            ? `fill="${path.fill.color}"`
-            : 'fill="none"';
-
-          const attributes = [strokeAttr, fillAttr].filter(Boolean).join(" ");
-          return `<path d="${path.d}" ${attributes} />`;
-        })
-        .join("");
-
-      const opacity = shape.transparency ? 1 - shape.transparency : 1;
-
-      return `
-      <g transform="translate(${shape.bounds.left}, ${shape.bounds.top})" opacity="${opacity}">
-        <svg width="${shape.bounds.width}" height="${shape.bounds.height}" viewBox="${shape.viewBox.minX} ${shape.viewBox.minY} ${shape.viewBox.width} ${shape.viewBox.height}">
-          ${pathElements}
-        </svg>
-      </g>
-    `;
-    })
-    .join("");
-
-  // 生成文本的SVG内容
-  const textSVGs = Object.values(designValue.texts || {})
-    .map((text: TextElement) => {
-      return `
-      <text
-        x="${text.bounds.left}"
-        y="${text.bounds.top + text.fontSize}"
-        font-family="${text.fontFamily}"
-        font-size="${text.fontSize}"
-        font-weight="${text.fontWeight}"
-        fill="${text.color}"
-      >
-        ${text.content}
-      </text>
-    `;
-    })
-    .join("");
-
-  // 生成图片的SVG内容
-  const imageSVGs = Object.values(designValue.images || {})
-    .map((image: ImageElement) => {
-      return `
-      <image
-        x="${image.bounds.left}"
-        y="${image.bounds.top}"
-        width="${image.bounds.width}"
-        height="${image.bounds.height}"
-        href="${image.src}"
-        opacity="${image.opacity ?? 1}"
-      />
-    `;
-    })
-    .join("");
-
-  // 创建完整的SVG
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
-  <rect width="100%" height="100%" fill="white"/>
-  ${shapeSVGs}
-  ${textSVGs}
-  ${imageSVGs}
-</svg>`;
-}
-
 // 获取当前日期时间作为文件名
 export const getTimestampFilename = (prefix = "design") => {
   const now = new Date();
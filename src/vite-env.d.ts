@@ -1,5 +1,19 @@
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+  // WebSocket relay to collaborate through instead of Firebase,
+  // e.g. ws://localhost:1234 with `npm run relay`
+  readonly VITE_COLLABORATION_URL?: string;
+  // The Firebase project used without a relay, from its web app settings
+  readonly VITE_FIREBASE_API_KEY?: string;
+  readonly VITE_FIREBASE_AUTH_DOMAIN?: string;
+  readonly VITE_FIREBASE_DATABASE_URL?: string;
+  readonly VITE_FIREBASE_PROJECT_ID?: string;
+  readonly VITE_FIREBASE_STORAGE_BUCKET?: string;
+  readonly VITE_FIREBASE_MESSAGING_SENDER_ID?: string;
+  readonly VITE_FIREBASE_APP_ID?: string;
+}
+
 declare module "*.css" {
   const content: string;
   export default content;
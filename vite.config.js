@@ -17,7 +17,7 @@ export default defineConfig({
         manualChunks: {
           vendor: ['react', 'react-dom'],
           ui: ['@radix-ui/themes'],
-          editor: ['html2canvas', 'jspdf'],
+          pdf: ['jspdf'],
           ai: ['openai']
         }
       }